@@ -0,0 +1,93 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Bell, KeyRound, ShieldCheck, UserCircle } from "lucide-react";
+import ChangePasswordForm from "@/components/change-password-form";
+import TwoFactorSettings from "@/components/two-factor-settings";
+import ApiTokenManagement from "@/components/api-token-management";
+import NotificationPreferences from "@/components/notification-preferences";
+import { useAuth } from "@/hooks/use-auth";
+import { BUILT_IN_ROLES } from "@shared/permissions";
+
+// The signed-in user's own account, available to every role
+export default function AccountSettings() {
+  const { user } = useAuth();
+
+  if (!user) {
+    return null;
+  }
+
+  const roleLabel = BUILT_IN_ROLES.find((role) => role.name === user.role)?.label ?? user.role;
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-foreground">Account Settings</h2>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserCircle className="h-5 w-5" />
+              Profile
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-2 text-sm">
+              <dt className="text-muted-foreground">Username</dt>
+              <dd className="font-medium" data-testid="text-account-username">{user.username}</dd>
+              <dt className="text-muted-foreground">Email</dt>
+              <dd data-testid="text-account-email">{user.email}</dd>
+              <dt className="text-muted-foreground">Role</dt>
+              <dd data-testid="text-account-role">{roleLabel}</dd>
+              {user.createdAt && (
+                <>
+                  <dt className="text-muted-foreground">Member since</dt>
+                  <dd>{new Date(user.createdAt).toLocaleDateString()}</dd>
+                </>
+              )}
+            </dl>
+            <p className="text-xs text-muted-foreground mt-4">
+              Ask an administrator to change your username, email or role.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Change Password
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChangePasswordForm />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Two-Factor Authentication
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TwoFactorSettings />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bell className="h-5 w-5" />
+              Notifications
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <NotificationPreferences />
+          </CardContent>
+        </Card>
+      </div>
+
+      <ApiTokenManagement />
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertTriangle, RefreshCw, Settings } from "lucide-react";
+import type { ProductAlertWithProduct } from "@shared/schema";
+import {
+  ALERT_SEVERITIES,
+  ALERT_TYPES,
+  ALERT_TYPE_LABELS,
+  alertSettingsSchema,
+  type AlertSettings,
+  type AlertType,
+} from "@shared/alerts";
+import { formatDisplayDate, todayIsoDate } from "@shared/dates";
+import { hasPermission } from "@shared/permissions";
+
+interface AlertsResponse {
+  alerts: ProductAlertWithProduct[];
+  settings: AlertSettings;
+  lastScan: { scannedAt: string; products: number; alerts: number } | null;
+}
+
+const severityClasses = {
+  critical: "bg-red-100 text-red-800",
+  warning: "bg-yellow-100 text-yellow-800",
+};
+
+function daysFromToday(date: string): number {
+  return Math.round((Date.parse(date) - Date.parse(todayIsoDate())) / (24 * 60 * 60 * 1000));
+}
+
+function describeDueDate(alert: ProductAlertWithProduct): string {
+  const days = daysFromToday(alert.dueDate);
+  const when = days === 0 ? "today" : days > 0 ? `in ${days} days` : `${-days} days ago`;
+  return `${formatDisplayDate(alert.dueDate)} (${when})`;
+}
+
+export default function AlertsPanel() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canConfigure = hasPermission(user, "settings.manage");
+  const [typeFilter, setTypeFilter] = useState<AlertType | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [form, setForm] = useState<AlertSettings | null>(null);
+
+  const { data, isLoading } = useQuery<AlertsResponse>({
+    queryKey: ["/api/alerts"],
+  });
+
+  useEffect(() => {
+    if (showSettings && data) {
+      setForm(data.settings);
+    }
+  }, [showSettings, data]);
+
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/alerts/scan");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Alert scan failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: AlertSettings) => {
+      await apiRequest("PUT", "/api/settings/alerts", settings);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+      setShowSettings(false);
+      toast({
+        title: "Alert windows saved",
+        description: "All products have been re-checked with the new windows.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save alert windows",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const alerts = data?.alerts ?? [];
+  const countsByType = Object.fromEntries(
+    ALERT_TYPES.map((type) => [type, alerts.filter((alert) => alert.type === type).length])
+  ) as Record<AlertType, number>;
+  const visibleAlerts = typeFilter ? alerts.filter((alert) => alert.type === typeFilter) : alerts;
+  const validation = form ? alertSettingsSchema.safeParse(form) : null;
+
+  return (
+    <Card data-testid="card-alerts">
+      <CardHeader>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-orange-500" />
+              Expiry &amp; Germination Test Alerts
+            </CardTitle>
+            {data?.lastScan && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Last checked {new Date(data.lastScan.scannedAt).toLocaleString("en-IN")} ({data.lastScan.products} products)
+              </p>
+            )}
+          </div>
+          {canConfigure && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => scanMutation.mutate()}
+                disabled={scanMutation.isPending}
+                data-testid="button-scan-alerts"
+              >
+                <RefreshCw className={`h-4 w-4 mr-1 ${scanMutation.isPending ? "animate-spin" : ""}`} />
+                Check Now
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setShowSettings(true)} data-testid="button-alert-settings">
+                <Settings className="h-4 w-4 mr-1" />
+                Windows
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Badge
+            variant={typeFilter === null ? "default" : "outline"}
+            className="cursor-pointer"
+            onClick={() => setTypeFilter(null)}
+          >
+            All ({alerts.length})
+          </Badge>
+          {ALERT_TYPES.filter((type) => countsByType[type] > 0).map((type) => (
+            <Badge
+              key={type}
+              variant={typeFilter === type ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => setTypeFilter(type)}
+              data-testid={`badge-alert-filter-${type}`}
+            >
+              {ALERT_TYPE_LABELS[type]} ({countsByType[type]})
+            </Badge>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading alerts...</p>
+        ) : visibleAlerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-alerts">
+            No lots are expired or need a germination re-test.
+          </p>
+        ) : (
+          <ScrollArea className="h-80 rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Unique ID</TableHead>
+                  <TableHead>Crop / Variety</TableHead>
+                  <TableHead>Lot No.</TableHead>
+                  <TableHead>Alert</TableHead>
+                  <TableHead>Date</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleAlerts.map((alert) => (
+                  <TableRow key={alert.id} data-testid={`row-alert-${alert.id}`}>
+                    <TableCell className="font-mono text-xs">{alert.product.uniqueId}</TableCell>
+                    <TableCell>
+                      {alert.product.product}
+                      {alert.product.marketCode && <span className="text-muted-foreground"> / {alert.product.marketCode}</span>}
+                    </TableCell>
+                    <TableCell>{alert.product.lotNo}</TableCell>
+                    <TableCell>
+                      <span className={`rounded px-2 py-0.5 text-xs font-medium ${severityClasses[ALERT_SEVERITIES[alert.type as AlertType]]}`}>
+                        {ALERT_TYPE_LABELS[alert.type as AlertType] ?? alert.type}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-sm">{describeDueDate(alert)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </CardContent>
+
+      <Dialog open={showSettings} onOpenChange={setShowSettings}>
+        <DialogContent data-testid="dialog-alert-settings">
+          <DialogHeader>
+            <DialogTitle>Alert Windows</DialogTitle>
+            <DialogDescription>
+              Pending and approved lots are checked every hour against these windows.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="alert-expiry-days">Warn before Valid Upto date (days)</Label>
+                <Input
+                  id="alert-expiry-days"
+                  type="number"
+                  min={0}
+                  value={form.expiryWarningDays}
+                  onChange={(e) => setForm({ ...form, expiryWarningDays: Number(e.target.value) })}
+                  className="mt-1"
+                  data-testid="input-alert-expiry-days"
+                />
+              </div>
+              <div>
+                <Label htmlFor="alert-validity-months">Germination test valid for (months from Date of Test)</Label>
+                <Input
+                  id="alert-validity-months"
+                  type="number"
+                  min={1}
+                  value={form.germinationValidityMonths}
+                  onChange={(e) => setForm({ ...form, germinationValidityMonths: Number(e.target.value) })}
+                  className="mt-1"
+                  data-testid="input-alert-validity-months"
+                />
+              </div>
+              <div>
+                <Label htmlFor="alert-retest-days">Warn before the test stops being valid (days)</Label>
+                <Input
+                  id="alert-retest-days"
+                  type="number"
+                  min={0}
+                  value={form.retestWarningDays}
+                  onChange={(e) => setForm({ ...form, retestWarningDays: Number(e.target.value) })}
+                  className="mt-1"
+                  data-testid="input-alert-retest-days"
+                />
+              </div>
+              {validation && !validation.success && (
+                <p className="text-sm text-destructive">{validation.error.errors[0]?.message}</p>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSettings(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => validation?.success && saveMutation.mutate(validation.data)}
+              disabled={!validation?.success || saveMutation.isPending}
+              data-testid="button-save-alert-settings"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
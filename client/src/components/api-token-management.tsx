@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { KeySquare, Plus } from "lucide-react";
+import { PERMISSION_GROUPS, PERMISSION_LABELS, hasPermission, type Permission } from "@shared/permissions";
+import { API_TOKEN_EXPIRY_DAYS, apiTokenCreateSchema, apiTokenStatus, type ApiTokenSummary } from "@shared/api-tokens";
+import type { PublicUser } from "@shared/schema";
+
+interface TokenForm {
+  name: string;
+  userId: string;
+  scopes: Permission[];
+  expiresInDays: number;
+}
+
+const STATUS_BADGES = {
+  active: { label: "Active", variant: "secondary" },
+  expired: { label: "Expired", variant: "outline" },
+  revoked: { label: "Revoked", variant: "destructive" },
+} as const;
+
+// API tokens for calling the API from other systems. Token managers see everyone's tokens
+// with showAll and can issue service tokens for other users.
+export default function ApiTokenManagement({ showAll = false }: { showAll?: boolean }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<TokenForm>({ name: "", userId: "", scopes: [], expiresInDays: 90 });
+  // Shown once, right after the token is created
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const listUrl = showAll ? "/api/api-tokens?scope=all" : "/api/api-tokens";
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenSummary[]>({
+    queryKey: ["/api/api-tokens", showAll ? "all" : "own"],
+    queryFn: async () => {
+      const res = await fetch(listUrl, { credentials: "include" });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || "Failed to load API tokens");
+      }
+      return await res.json();
+    },
+  });
+
+  const canIssueForOthers = showAll && hasPermission(user, "api_tokens.manage") && hasPermission(user, "users.manage");
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+    enabled: canIssueForOthers,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/api-tokens", {
+        name: form.name,
+        userId: form.userId || undefined,
+        scopes: form.scopes,
+        expiresInDays: form.expiresInDays,
+      });
+      return (await res.json()) as { token: string; apiToken: ApiTokenSummary };
+    },
+    onSuccess: (result) => {
+      setCreatedToken(result.token);
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "API token not created", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/api-tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      toast({ title: "API token revoked", description: "Requests using it are refused from now on." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "API token not revoked", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const openCreateDialog = () => {
+    setForm({ name: "", userId: "", scopes: [], expiresInDays: 90 });
+    setCreatedToken(null);
+    setDialogOpen(true);
+  };
+
+  const toggleScope = (permission: Permission, checked: boolean) => {
+    setForm((current) => ({
+      ...current,
+      scopes: checked ? [...current.scopes, permission] : current.scopes.filter((scope) => scope !== permission),
+    }));
+  };
+
+  const validation = apiTokenCreateSchema.safeParse({ ...form, userId: form.userId || undefined });
+  // A token can only carry permissions the issuer holds
+  const scopeGroups = PERMISSION_GROUPS
+    .map((group) => ({ ...group, permissions: group.permissions.filter((permission) => hasPermission(user, permission)) }))
+    .filter((group) => group.permissions.length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <KeySquare className="h-5 w-5" />
+            API Tokens
+          </CardTitle>
+          <Button size="sm" onClick={openCreateDialog} data-testid="button-create-api-token">
+            <Plus className="h-4 w-4 mr-1" />
+            New Token
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground mb-4">
+          Other systems can call the API with <code className="font-mono">Authorization: Bearer &lt;token&gt;</code>.
+          A token acts as its user with only the permissions chosen for it.
+        </p>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading API tokens...</p>
+        ) : tokens.length === 0 ? (
+          <p className="text-muted-foreground">No API tokens yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                {showAll && <TableHead>User</TableHead>}
+                <TableHead>Token</TableHead>
+                <TableHead>Permissions</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tokens.map((token) => {
+                const status = apiTokenStatus(token);
+                return (
+                  <TableRow key={token.id} data-testid={`row-api-token-${token.id}`}>
+                    <TableCell className="font-medium">{token.name}</TableCell>
+                    {showAll && (
+                      <TableCell>
+                        {token.username}
+                        {token.kind === "service" && <Badge variant="outline" className="ml-2">Service</Badge>}
+                      </TableCell>
+                    )}
+                    <TableCell className="font-mono text-xs">{token.tokenPrefix}…</TableCell>
+                    <TableCell className="text-xs max-w-xs">
+                      {token.scopes.map((scope) => PERMISSION_LABELS[scope] ?? scope).join(", ")}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{new Date(token.expiresAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="whitespace-nowrap text-xs">
+                      {token.lastUsedAt ? (
+                        <>
+                          {new Date(token.lastUsedAt).toLocaleString()}
+                          {token.lastUsedIp && <span className="block font-mono text-muted-foreground">{token.lastUsedIp}</span>}
+                        </>
+                      ) : (
+                        "Never"
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_BADGES[status].variant}>{STATUS_BADGES[status].label}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {status === "active" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => revokeMutation.mutate(token.id)}
+                          disabled={revokeMutation.isPending}
+                          data-testid={`button-revoke-api-token-${token.id}`}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-create-api-token">
+          <DialogHeader>
+            <DialogTitle>{createdToken ? "API Token Created" : "New API Token"}</DialogTitle>
+            <DialogDescription>
+              {createdToken
+                ? "Copy the token now. It won't be shown again."
+                : "Choose what the token may do and how long it stays valid."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {createdToken ? (
+            <>
+              <p className="font-mono text-sm break-all select-all bg-muted rounded-md p-3" data-testid="text-created-api-token">
+                {createdToken}
+              </p>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => navigator.clipboard.writeText(createdToken)}>
+                  Copy
+                </Button>
+                <Button onClick={() => setDialogOpen(false)} data-testid="button-api-token-done">
+                  Done
+                </Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <Label htmlFor="api-token-name">Name</Label>
+                  <Input
+                    id="api-token-name"
+                    value={form.name}
+                    placeholder="e.g. ERP sync"
+                    onChange={(e) => setForm((current) => ({ ...current, name: e.target.value }))}
+                    className="mt-1"
+                    data-testid="input-api-token-name"
+                  />
+                </div>
+                <div>
+                  <Label>Expires after</Label>
+                  <Select
+                    value={String(form.expiresInDays)}
+                    onValueChange={(value) => setForm((current) => ({ ...current, expiresInDays: Number(value) }))}
+                  >
+                    <SelectTrigger className="mt-1" data-testid="select-api-token-expiry">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {API_TOKEN_EXPIRY_DAYS.map((days) => (
+                        <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {canIssueForOthers && (
+                  <div className="md:col-span-2">
+                    <Label>Acts as</Label>
+                    <Select
+                      value={form.userId || user.id}
+                      onValueChange={(value) => setForm((current) => ({ ...current, userId: value === user.id ? "" : value }))}
+                    >
+                      <SelectTrigger className="mt-1" data-testid="select-api-token-user">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={user.id}>{user.username} (you)</SelectItem>
+                        {users
+                          .filter((account) => account.id !== user.id && account.active)
+                          .map((account) => (
+                            <SelectItem key={account.id} value={account.id}>{account.username}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Service tokens act as another account, usually one created for the integration.
+                    </p>
+                  </div>
+                )}
+              </div>
+              <div className="space-y-4">
+                {scopeGroups.map((group) => (
+                  <div key={group.label}>
+                    <p className="text-sm font-semibold mb-1">{group.label}</p>
+                    <div className="grid gap-1 md:grid-cols-2">
+                      {group.permissions.map((permission) => (
+                        <div key={permission} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            id={`api-token-scope-${permission}`}
+                            checked={form.scopes.includes(permission)}
+                            onCheckedChange={(checked) => toggleScope(permission, checked === true)}
+                            data-testid={`checkbox-api-token-scope-${permission}`}
+                          />
+                          <label htmlFor={`api-token-scope-${permission}`} className="cursor-pointer">
+                            {PERMISSION_LABELS[permission]}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => createMutation.mutate()}
+                  disabled={!validation.success || createMutation.isPending}
+                  data-testid="button-save-api-token"
+                >
+                  {createMutation.isPending ? "Creating..." : "Create Token"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+import { useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SessionUser } from "@shared/schema";
+import { checkPasswordComplexity, describePasswordPolicy, type PasswordPolicy } from "@shared/password-policy";
+
+type ChangePasswordData = {
+  currentPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+};
+
+interface ChangePasswordFormProps {
+  currentPasswordLabel?: string;
+  // Rendered next to the submit button, e.g. a sign out button
+  secondaryAction?: React.ReactNode;
+}
+
+// Changes the signed-in user's own password. Length and complexity are checked here;
+// common and reused passwords are rejected by the server.
+export default function ChangePasswordForm({
+  currentPasswordLabel = "Current Password",
+  secondaryAction,
+}: ChangePasswordFormProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/user/password-policy"],
+  });
+
+  const schema = useMemo(() => z.object({
+    currentPassword: z.string().min(1, "Current password is required"),
+    newPassword: z.string().min(1, "New password is required"),
+    confirmPassword: z.string(),
+  }).superRefine((data, ctx) => {
+    const problem = policy ? checkPasswordComplexity(data.newPassword, policy, user?.username) : null;
+    if (problem) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["newPassword"], message: problem });
+    }
+    if (data.newPassword === data.currentPassword) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["newPassword"], message: "Choose a password different from the current one" });
+    }
+    if (data.newPassword !== data.confirmPassword) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["confirmPassword"], message: "Passwords don't match" });
+    }
+  }), [policy, user?.username]);
+
+  const form = useForm<ChangePasswordData>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const changePasswordMutation = useMutation({
+    mutationFn: async ({ currentPassword, newPassword }: ChangePasswordData) => {
+      const res = await apiRequest("POST", "/api/user/password", { currentPassword, newPassword });
+      return (await res.json()) as SessionUser;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/user"], updated);
+      form.reset();
+      toast({ title: "Password changed" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Password not changed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => changePasswordMutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="currentPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{currentPasswordLabel}</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} data-testid="input-current-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="newPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} data-testid="input-new-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm New Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} data-testid="input-confirm-password" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {policy && (
+          <ul className="list-disc pl-5 text-sm text-muted-foreground" data-testid="list-password-rules">
+            {describePasswordPolicy(policy).map((rule) => (
+              <li key={rule}>{rule}</li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2">
+          {secondaryAction}
+          <Button
+            type="submit"
+            className="flex-1"
+            disabled={changePasswordMutation.isPending}
+            data-testid="button-change-password"
+          >
+            {changePasswordMutation.isPending ? "Saving..." : "Change Password"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Edit, Plus, Search, Store, Trash2 } from "lucide-react";
+import type { Dealer } from "@shared/schema";
+
+const emptyForm = {
+  name: "",
+  region: "",
+  licenceNumber: "",
+  contactPerson: "",
+  phone: "",
+  email: "",
+  gstin: "",
+  address: "",
+  active: true,
+};
+
+type DealerForm = typeof emptyForm;
+
+const textFields: { field: Exclude<keyof DealerForm, "active" | "address">; label: string; placeholder?: string }[] = [
+  { field: "name", label: "Dealer Name" },
+  { field: "region", label: "Region", placeholder: "e.g. North Karnataka" },
+  { field: "licenceNumber", label: "Seed Licence No." },
+  { field: "gstin", label: "GSTIN", placeholder: "e.g. 29ABCDE1234F1Z5" },
+  { field: "contactPerson", label: "Contact Person" },
+  { field: "phone", label: "Phone" },
+  { field: "email", label: "Email" },
+];
+
+function toForm(dealer: Dealer): DealerForm {
+  return {
+    name: dealer.name,
+    region: dealer.region ?? "",
+    licenceNumber: dealer.licenceNumber ?? "",
+    contactPerson: dealer.contactPerson ?? "",
+    phone: dealer.phone ?? "",
+    email: dealer.email ?? "",
+    gstin: dealer.gstin ?? "",
+    address: dealer.address ?? "",
+    active: dealer.active,
+  };
+}
+
+export default function DealerManagement() {
+  const { toast } = useToast();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Dealer | null>(null);
+  const [form, setForm] = useState<DealerForm>(emptyForm);
+
+  const { data: dealers = [], isLoading } = useQuery<Dealer[]>({
+    queryKey: ["/api/dealers"],
+  });
+
+  const saveDealerMutation = useMutation({
+    mutationFn: async () => {
+      const res = editing
+        ? await apiRequest("PUT", `/api/dealers/${editing.id}`, form)
+        : await apiRequest("POST", "/api/dealers", form);
+      return (await res.json()) as Dealer;
+    },
+    onSuccess: (dealer) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dealers"] });
+      toast({
+        title: editing ? "Dealer updated" : "Dealer added",
+        description: dealer.name,
+      });
+      setDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Dealer not saved",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteDealerMutation = useMutation({
+    mutationFn: async (dealer: Dealer) => {
+      await apiRequest("DELETE", `/api/dealers/${dealer.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dealers"] });
+      toast({ title: "Dealer deleted" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Dealer not deleted",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (dealer: Dealer | null) => {
+    setEditing(dealer);
+    setForm(dealer ? toForm(dealer) : emptyForm);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (dealer: Dealer) => {
+    if (window.confirm(`Delete ${dealer.name}? Products and dispatch notes keep their history but lose the link to this dealer. Consider marking the dealer inactive instead.`)) {
+      deleteDealerMutation.mutate(dealer);
+    }
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+  const visibleDealers = term
+    ? dealers.filter((dealer) => [dealer.name, dealer.region, dealer.licenceNumber, dealer.gstin, dealer.contactPerson, dealer.phone]
+      .some((value) => value?.toLowerCase().includes(term)))
+    : dealers;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-foreground">Dealers</h2>
+        <Button onClick={() => openDialog(null)} data-testid="button-add-dealer">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Dealer
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Store className="h-5 w-5" />
+            Dealer Directory
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative max-w-md">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by name, region, licence, GSTIN or contact..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+              data-testid="input-dealer-search"
+            />
+          </div>
+
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading dealers...</p>
+          ) : visibleDealers.length === 0 ? (
+            <p className="text-muted-foreground">{dealers.length === 0 ? "No dealers added yet." : "No dealers match your search."}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Region</TableHead>
+                  <TableHead>Licence No.</TableHead>
+                  <TableHead>GSTIN</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleDealers.map((dealer) => (
+                  <TableRow key={dealer.id} data-testid={`row-dealer-${dealer.id}`}>
+                    <TableCell>
+                      <p className="font-medium">{dealer.name}</p>
+                      {dealer.address && <p className="text-xs text-muted-foreground">{dealer.address}</p>}
+                    </TableCell>
+                    <TableCell>{dealer.region || "—"}</TableCell>
+                    <TableCell>{dealer.licenceNumber || "—"}</TableCell>
+                    <TableCell className="font-mono text-xs">{dealer.gstin || "—"}</TableCell>
+                    <TableCell className="text-sm">
+                      {dealer.contactPerson && <p>{dealer.contactPerson}</p>}
+                      {dealer.phone && <p className="text-muted-foreground">{dealer.phone}</p>}
+                      {dealer.email && <p className="text-muted-foreground">{dealer.email}</p>}
+                      {!dealer.contactPerson && !dealer.phone && !dealer.email && "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={dealer.active ? "default" : "secondary"}>{dealer.active ? "Active" : "Inactive"}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button size="sm" variant="outline" onClick={() => openDialog(dealer)} data-testid={`button-edit-dealer-${dealer.id}`}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDelete(dealer)}
+                          disabled={deleteDealerMutation.isPending}
+                          data-testid={`button-delete-dealer-${dealer.id}`}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl" data-testid="dialog-dealer">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Dealer" : "Add Dealer"}</DialogTitle>
+            <DialogDescription>
+              Dealers can be assigned to products and chosen on dispatch notes. Active dealers a lot is sold through are
+              shown on its public tracking page.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 md:grid-cols-2">
+            {textFields.map(({ field, label, placeholder }) => (
+              <div key={field}>
+                <Label htmlFor={`dealer-${field}`}>{label}</Label>
+                <Input
+                  id={`dealer-${field}`}
+                  placeholder={placeholder}
+                  value={form[field]}
+                  onChange={(e) => setForm((current) => ({ ...current, [field]: e.target.value }))}
+                  className="mt-1"
+                  data-testid={`input-dealer-${field}`}
+                />
+              </div>
+            ))}
+            <div className="flex items-center gap-2 pt-6">
+              <Switch
+                id="dealer-active"
+                checked={form.active}
+                onCheckedChange={(checked) => setForm((current) => ({ ...current, active: checked }))}
+                data-testid="switch-dealer-active"
+              />
+              <Label htmlFor="dealer-active">Active</Label>
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="dealer-address">Address</Label>
+              <Textarea
+                id="dealer-address"
+                value={form.address}
+                onChange={(e) => setForm((current) => ({ ...current, address: e.target.value }))}
+                className="mt-1"
+                data-testid="textarea-dealer-address"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveDealerMutation.mutate()}
+              disabled={!form.name.trim() || saveDealerMutation.isPending}
+              data-testid="button-save-dealer"
+            >
+              {saveDealerMutation.isPending ? "Saving..." : "Save Dealer"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
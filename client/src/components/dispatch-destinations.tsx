@@ -0,0 +1,62 @@
+import { useQuery } from "@tanstack/react-query";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ProductDispatch } from "@shared/schema";
+import { formatDisplayDate } from "@shared/dates";
+
+interface DispatchDestinationsProps {
+  // e.g. ["/api/products", id, "dispatches"] or ["/api/recalls", id, "dispatches"]
+  queryKey: string[];
+  enabled?: boolean;
+  // Recalls cover several lots, so list which lot went where
+  showLot?: boolean;
+}
+
+// Dealers that received a product or the lots covered by a recall
+export default function DispatchDestinations({ queryKey, enabled = true, showLot = false }: DispatchDestinationsProps) {
+  const { data: dispatches = [], isLoading } = useQuery<ProductDispatch[]>({
+    queryKey,
+    enabled,
+  });
+
+  if (isLoading) {
+    return <p className="text-muted-foreground">Loading dispatches...</p>;
+  }
+  if (dispatches.length === 0) {
+    return <p className="text-muted-foreground">Not dispatched to any dealer yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Dealer</TableHead>
+          {showLot && <TableHead>Unique ID / Lot</TableHead>}
+          <TableHead className="text-right">Quantity</TableHead>
+          <TableHead>Note No.</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {dispatches.map((dispatch, index) => (
+          <TableRow key={`${dispatch.dispatchNoteId}-${dispatch.productId}-${index}`}>
+            <TableCell className="whitespace-nowrap">{formatDisplayDate(dispatch.dispatchDate)}</TableCell>
+            <TableCell>
+              <p className="font-medium">{dispatch.dealerName}</p>
+              {dispatch.dealerAddress && <p className="text-xs text-muted-foreground">{dispatch.dealerAddress}</p>}
+            </TableCell>
+            {showLot && (
+              <TableCell>
+                <span className="font-mono text-xs">{dispatch.uniqueId}</span>
+                {dispatch.lotNo && <span className="text-muted-foreground"> / {dispatch.lotNo}</span>}
+              </TableCell>
+            )}
+            <TableCell className="text-right">
+              {Number(dispatch.quantity).toLocaleString("en-IN", { maximumFractionDigits: 2 })}
+            </TableCell>
+            <TableCell className="font-mono text-xs">{dispatch.noteNumber}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,399 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { FileDown, Plus, Search, Trash2, Truck } from "lucide-react";
+import type { Dealer, DispatchNoteSummary, DispatchNoteWithItems, StockBalance } from "@shared/schema";
+import { formatDisplayDate, todayIsoDate } from "@shared/dates";
+import { hasPermission } from "@shared/permissions";
+
+// Shortlist size when searching stock for lots to add
+const MAX_STOCK_MATCHES = 8;
+
+interface DraftItem {
+  balance: StockBalance;
+  quantity: string;
+  packets: string;
+}
+
+const emptyForm = {
+  dealerId: "",
+  vehicleNo: "",
+  driverName: "",
+  dispatchDate: todayIsoDate(),
+  remarks: "",
+};
+
+function formatQuantity(value: string | number) {
+  return Number(value).toLocaleString("en-IN", { maximumFractionDigits: 2 });
+}
+
+function balanceKey(balance: StockBalance) {
+  return `${balance.productId}|${balance.location}|${balance.stackNo}`;
+}
+
+async function downloadDispatchNote(id: string, noteNumber: string) {
+  const res = await fetch(`/api/dispatches/${id}/pdf`, { credentials: "include" });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.message || "Failed to generate dispatch note");
+  }
+  const blob = await res.blob();
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", `dispatch-note-${noteNumber}.pdf`);
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export default function DispatchManagement() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canDispatch = hasPermission(user, "dispatches.manage");
+  const [form, setForm] = useState(emptyForm);
+  const [items, setItems] = useState<DraftItem[]>([]);
+  const [stockSearch, setStockSearch] = useState("");
+
+  const { data: notes = [], isLoading } = useQuery<DispatchNoteSummary[]>({
+    queryKey: ["/api/dispatches"],
+  });
+  const { data: balances = [] } = useQuery<StockBalance[]>({
+    queryKey: ["/api/inventory/stock"],
+  });
+  const { data: dealers = [] } = useQuery<Dealer[]>({
+    queryKey: ["/api/dealers"],
+  });
+  const activeDealers = dealers.filter((dealer) => dealer.active);
+  const selectedDealer = dealers.find((dealer) => dealer.id === form.dealerId);
+
+  const createNoteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/dispatches", {
+        ...form,
+        driverName: form.driverName || undefined,
+        remarks: form.remarks || undefined,
+        items: items.map((item) => ({
+          productUniqueId: item.balance.uniqueId,
+          fromLocation: item.balance.location,
+          fromStack: item.balance.stackNo,
+          quantity: item.quantity,
+          packets: item.packets,
+        })),
+      });
+      return (await res.json()) as DispatchNoteWithItems;
+    },
+    onSuccess: (note) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/dispatches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/recalls"] });
+      toast({
+        title: "Dispatch note created",
+        description: `${note.noteNumber}: ${note.items.length} lot(s) to ${note.dealerName}.`,
+      });
+      setForm(emptyForm);
+      setItems([]);
+      downloadPdf(note);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Dispatch note not created",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const downloadPdf = (note: { id: string; noteNumber: string }) => {
+    downloadDispatchNote(note.id, note.noteNumber).catch((error: Error) => {
+      toast({
+        title: "Download Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    });
+  };
+
+  const updateField = (field: keyof typeof emptyForm, value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const updateItem = (key: string, field: "quantity" | "packets", value: string) => {
+    setItems((current) => current.map((item) => balanceKey(item.balance) === key ? { ...item, [field]: value } : item));
+  };
+
+  // Lots default to everything held at that location and stack
+  const addItem = (balance: StockBalance) => {
+    setItems((current) => [...current, { balance, quantity: balance.quantity, packets: balance.packets }]);
+    setStockSearch("");
+  };
+
+  const selectedKeys = new Set(items.map((item) => balanceKey(item.balance)));
+  const term = stockSearch.trim().toLowerCase();
+  const stockMatches = term
+    ? balances
+      .filter((balance) => Number(balance.quantity) > 0 && !selectedKeys.has(balanceKey(balance)))
+      .filter((balance) => [balance.uniqueId, balance.product, balance.marketCode, balance.lotNo, balance.location, balance.stackNo]
+        .some((value) => value?.toLowerCase().includes(term)))
+      .slice(0, MAX_STOCK_MATCHES)
+    : [];
+
+  const totalQuantity = items.reduce((sum, item) => sum + (Number(item.quantity) || 0), 0);
+  const canSubmit = !!form.dealerId && !!form.vehicleNo.trim() && !!form.dispatchDate && items.length > 0 &&
+    items.every((item) => Number(item.quantity) > 0 && Number(item.quantity) <= Number(item.balance.quantity));
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-foreground">Dispatches</h2>
+
+      {canDispatch && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Truck className="h-5 w-5" />
+              New Dispatch Note
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Every lot on the note is taken out of stock at its location and recorded against the dealer, so recalls
+              show who received it. Only approved lots can be dispatched.
+            </p>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <Label>Dealer</Label>
+                <Select value={form.dealerId} onValueChange={(value) => updateField("dealerId", value)}>
+                  <SelectTrigger className="mt-1" data-testid="select-dispatch-dealer">
+                    <SelectValue placeholder={activeDealers.length === 0 ? "Add dealers in the Dealers tab" : "Choose a dealer"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeDealers.map((dealer) => (
+                      <SelectItem key={dealer.id} value={dealer.id}>
+                        {dealer.region ? `${dealer.name} (${dealer.region})` : dealer.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="dispatch-vehicle">Vehicle No.</Label>
+                <Input
+                  id="dispatch-vehicle"
+                  value={form.vehicleNo}
+                  onChange={(e) => updateField("vehicleNo", e.target.value)}
+                  className="mt-1"
+                  data-testid="input-dispatch-vehicle"
+                />
+              </div>
+              <div>
+                <Label htmlFor="dispatch-date">Dispatch Date</Label>
+                <Input
+                  id="dispatch-date"
+                  type="date"
+                  value={form.dispatchDate}
+                  onChange={(e) => updateField("dispatchDate", e.target.value)}
+                  className="mt-1"
+                  data-testid="input-dispatch-date"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Label>Deliver To</Label>
+                <p className="mt-1 text-sm text-muted-foreground min-h-10 py-2" data-testid="text-dispatch-dealer-address">
+                  {selectedDealer ? selectedDealer.address || "No address on file for this dealer" : "—"}
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="dispatch-driver">Driver (optional)</Label>
+                <Input
+                  id="dispatch-driver"
+                  value={form.driverName}
+                  onChange={(e) => updateField("driverName", e.target.value)}
+                  className="mt-1"
+                  data-testid="input-dispatch-driver"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="dispatch-stock-search">Lots</Label>
+              <div className="relative max-w-md">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="dispatch-stock-search"
+                  placeholder="Find stock by unique ID, crop, variety, lot or location..."
+                  value={stockSearch}
+                  onChange={(e) => setStockSearch(e.target.value)}
+                  className="pl-10"
+                  data-testid="input-dispatch-stock-search"
+                />
+              </div>
+              {term && (
+                <div className="rounded-md border divide-y max-w-3xl">
+                  {stockMatches.length === 0 ? (
+                    <p className="p-2 text-sm text-muted-foreground">No stock matches.</p>
+                  ) : stockMatches.map((balance) => (
+                    <div key={balanceKey(balance)} className="flex items-center justify-between gap-2 p-2 text-sm">
+                      <span>
+                        <span className="font-mono">{balance.uniqueId}</span> — {balance.product} {balance.marketCode}
+                        <span className="text-muted-foreground">
+                          {" "}· {balance.stackNo ? `${balance.location} / ${balance.stackNo}` : balance.location} · {formatQuantity(balance.quantity)} available
+                        </span>
+                      </span>
+                      <Button size="sm" variant="outline" onClick={() => addItem(balance)} data-testid={`button-add-lot-${balance.uniqueId}`}>
+                        <Plus className="h-3 w-3 mr-1" />
+                        Add
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {items.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Unique ID</TableHead>
+                    <TableHead>Crop / Variety</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead className="w-32">Quantity</TableHead>
+                    <TableHead className="w-28">Packets</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => {
+                    const key = balanceKey(item.balance);
+                    const overdrawn = Number(item.quantity) > Number(item.balance.quantity);
+                    return (
+                      <TableRow key={key}>
+                        <TableCell className="font-mono text-xs">{item.balance.uniqueId}</TableCell>
+                        <TableCell>{item.balance.product} / {item.balance.marketCode}</TableCell>
+                        <TableCell>
+                          {item.balance.stackNo ? `${item.balance.location} / ${item.balance.stackNo}` : item.balance.location}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={item.quantity}
+                            onChange={(e) => updateItem(key, "quantity", e.target.value)}
+                            className={overdrawn ? "border-destructive" : ""}
+                            title={`${formatQuantity(item.balance.quantity)} available`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={item.packets}
+                            onChange={(e) => updateItem(key, "packets", e.target.value)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setItems((current) => current.filter((candidate) => balanceKey(candidate.balance) !== key))}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-right font-semibold">Total</TableCell>
+                    <TableCell className="font-semibold">{formatQuantity(totalQuantity)}</TableCell>
+                    <TableCell colSpan={2} />
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+
+            <div>
+              <Label htmlFor="dispatch-remarks">Remarks (optional)</Label>
+              <Textarea
+                id="dispatch-remarks"
+                value={form.remarks}
+                onChange={(e) => updateField("remarks", e.target.value)}
+                className="mt-1"
+                data-testid="textarea-dispatch-remarks"
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={() => createNoteMutation.mutate()}
+                disabled={!canSubmit || createNoteMutation.isPending}
+                data-testid="button-create-dispatch"
+              >
+                {createNoteMutation.isPending ? "Dispatching..." : "Create Dispatch Note"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Dispatch History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading dispatch notes...</p>
+          ) : notes.length === 0 ? (
+            <p className="text-muted-foreground">No dispatch notes yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Note No.</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Dealer</TableHead>
+                  <TableHead>Vehicle</TableHead>
+                  <TableHead className="text-right">Lots</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead>Created By</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {notes.map((note) => (
+                  <TableRow key={note.id} data-testid={`row-dispatch-${note.noteNumber}`}>
+                    <TableCell className="font-mono text-xs">{note.noteNumber}</TableCell>
+                    <TableCell>{formatDisplayDate(note.dispatchDate)}</TableCell>
+                    <TableCell>{note.dealerName}</TableCell>
+                    <TableCell>{note.vehicleNo}</TableCell>
+                    <TableCell className="text-right">{note.itemCount}</TableCell>
+                    <TableCell className="text-right">{formatQuantity(note.totalQuantity)}</TableCell>
+                    <TableCell>{note.createdByUsername || "—"}</TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="outline" onClick={() => downloadPdf(note)} data-testid={`button-dispatch-pdf-${note.noteNumber}`}>
+                        <FileDown className="h-3 w-3 mr-1" />
+                        PDF
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Printer } from "lucide-react";
+import type { Product } from "@shared/schema";
+import { LABEL_TEMPLATES, getLabelTemplate, type LabelRequest } from "@shared/labels";
+
+interface LabelPrintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Products offered for printing; only approved ones can be selected
+  products: Product[];
+}
+
+export default function LabelPrintDialog({ open, onOpenChange, products }: LabelPrintDialogProps) {
+  const { toast } = useToast();
+  const printable = products.filter((product) => product.status === "approved");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [templateId, setTemplateId] = useState(LABEL_TEMPLATES[0].id);
+  const [copies, setCopies] = useState(1);
+  const [startPosition, setStartPosition] = useState(1);
+
+  const template = getLabelTemplate(templateId)!;
+  const labelsPerPage = template.columns * template.rows;
+
+  // Start with every printable product selected each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSelectedIds(products.filter((product) => product.status === "approved").map((product) => product.id));
+      setStartPosition(1);
+    }
+  }, [open, products]);
+
+  const printMutation = useMutation({
+    mutationFn: async (request: LabelRequest) => {
+      const res = await apiRequest("POST", "/api/labels", request);
+      return await res.blob();
+    },
+    onSuccess: (blob) => {
+      const link = document.createElement("a");
+      const url = URL.createObjectURL(blob);
+      link.setAttribute("href", url);
+      link.setAttribute("download", `labels-${templateId}-${new Date().toISOString().split('T')[0]}.pdf`);
+      link.style.visibility = "hidden";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Label generation failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleProduct = (id: string, checked: boolean) => {
+    setSelectedIds((current) => checked ? [...current, id] : current.filter((selectedId) => selectedId !== id));
+  };
+
+  const handlePrint = () => {
+    printMutation.mutate({
+      // Print in the order the products are listed
+      productIds: printable.filter((product) => selectedIds.includes(product.id)).map((product) => product.id),
+      template: templateId,
+      copies,
+      startPosition: labelsPerPage > 1 ? startPosition : 1,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" data-testid="dialog-print-labels">
+        <DialogHeader>
+          <DialogTitle>Print Labels</DialogTitle>
+          <DialogDescription>
+            Generates a PDF with the seed label fields and tracking QR code for each selected approved product.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Template</Label>
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger className="mt-1" data-testid="select-label-template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LABEL_TEMPLATES.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">{template.description}</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="label-copies">Copies per Product</Label>
+              <Input
+                id="label-copies"
+                type="number"
+                min={1}
+                max={100}
+                value={copies}
+                onChange={(e) => setCopies(Math.max(1, Number(e.target.value) || 1))}
+                className="mt-1"
+                data-testid="input-label-copies"
+              />
+            </div>
+            {labelsPerPage > 1 && (
+              <div>
+                <Label htmlFor="label-start-position">Start at Label</Label>
+                <Input
+                  id="label-start-position"
+                  type="number"
+                  min={1}
+                  max={labelsPerPage}
+                  value={startPosition}
+                  onChange={(e) => setStartPosition(Math.min(labelsPerPage, Math.max(1, Number(e.target.value) || 1)))}
+                  className="mt-1"
+                  data-testid="input-label-start-position"
+                />
+              </div>
+            )}
+          </div>
+
+          <div>
+            <Label>Products ({selectedIds.length} of {printable.length} selected)</Label>
+            {printable.length === 0 ? (
+              <p className="text-sm text-muted-foreground mt-1">No approved products to print.</p>
+            ) : (
+              <ScrollArea className="h-48 mt-1 rounded-md border p-2">
+                {printable.map((product) => (
+                  <label key={product.id} className="flex items-center gap-2 py-1 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selectedIds.includes(product.id)}
+                      onCheckedChange={(checked) => toggleProduct(product.id, checked === true)}
+                      data-testid={`checkbox-label-${product.id}`}
+                    />
+                    <span className="font-mono">{product.uniqueId}</span>
+                    <span className="text-muted-foreground truncate">
+                      {product.product} {product.marketCode} {product.lotNo && `• Lot ${product.lotNo}`}
+                    </span>
+                  </label>
+                ))}
+              </ScrollArea>
+            )}
+            {products.length > printable.length && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {products.length - printable.length} product(s) are not approved and cannot be labelled.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handlePrint}
+            disabled={selectedIds.length === 0 || printMutation.isPending}
+            data-testid="button-generate-labels"
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            {printMutation.isPending ? "Generating..." : "Download PDF"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { History } from "lucide-react";
+import type { LoginAttempt } from "@shared/schema";
+import { LOGIN_OUTCOME_LABELS, type LoginOutcome } from "@shared/login-attempts";
+
+// Attempts still in progress or waiting for the authenticator code haven't failed
+const NEUTRAL_OUTCOMES: string[] = ["pending", "awaiting_two_factor"];
+
+function outcomeVariant(outcome: string) {
+  if (outcome === "success") return "secondary";
+  return NEUTRAL_OUTCOMES.includes(outcome) ? "outline" : "destructive";
+}
+
+// Recent sign-in attempts, shown in the User Management tab
+export default function LoginAttemptLog() {
+  const [username, setUsername] = useState("");
+
+  const params = new URLSearchParams({ limit: "100" });
+  if (username.trim()) params.set("username", username.trim());
+
+  const { data: attempts = [], isLoading } = useQuery<LoginAttempt[]>({
+    queryKey: ["/api/login-attempts", params.toString()],
+    queryFn: async () => {
+      const res = await fetch(`/api/login-attempts?${params}`, { credentials: "include" });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || "Failed to load sign-in attempts");
+      }
+      return await res.json();
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Sign-in Attempts
+          </CardTitle>
+          <Input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Filter by username"
+            className="max-w-xs"
+            data-testid="input-login-attempts-username"
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading sign-in attempts...</p>
+        ) : attempts.length === 0 ? (
+          <p className="text-muted-foreground">No sign-in attempts recorded.</p>
+        ) : (
+          <ScrollArea className="h-80">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>IP Address</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attempts.map((attempt) => (
+                  <TableRow key={attempt.id} data-testid={`row-login-attempt-${attempt.id}`}>
+                    <TableCell className="whitespace-nowrap">{new Date(attempt.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {attempt.username}
+                      {!attempt.userId && <span className="text-xs text-muted-foreground"> (no account)</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={outcomeVariant(attempt.outcome)}>
+                        {LOGIN_OUTCOME_LABELS[attempt.outcome as LoginOutcome] ?? attempt.outcome}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{attempt.ipAddress ?? "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
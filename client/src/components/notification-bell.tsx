@@ -0,0 +1,111 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { Bell } from "lucide-react";
+import type { Notification } from "@shared/schema";
+import type { NotificationFeed } from "@shared/notifications";
+
+// New notifications show up within this time without a reload
+const POLL_INTERVAL_MS = 60 * 1000;
+
+// Bell with the unread count, opening the signed-in user's notification feed
+export default function NotificationBell() {
+  const { data: feed } = useQuery<NotificationFeed>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (notification: Notification) => {
+      await apiRequest("POST", `/api/notifications/${notification.id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const unreadCount = feed?.unreadCount ?? 0;
+  const items = feed?.items ?? [];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative h-8 w-8 p-0"
+          aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : "Notifications"}
+          data-testid="button-notifications"
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <Badge
+              variant="destructive"
+              className="absolute -top-1 -right-1 h-4 min-w-4 px-1 text-[10px] leading-none"
+              data-testid="badge-unread-notifications"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b border-border px-4 py-2">
+          <p className="text-sm font-semibold">Notifications</p>
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={() => markAllReadMutation.mutate()}
+            disabled={unreadCount === 0 || markAllReadMutation.isPending}
+            data-testid="button-mark-all-notifications-read"
+          >
+            Mark all as read
+          </Button>
+        </div>
+        {items.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">No notifications yet.</p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto">
+            {items.map((notification) => (
+              <li key={notification.id} className="border-b border-border last:border-0">
+                <button
+                  type="button"
+                  className={cn(
+                    "w-full px-4 py-3 text-left hover:bg-muted",
+                    !notification.readAt && "bg-primary/5"
+                  )}
+                  onClick={() => !notification.readAt && markReadMutation.mutate(notification)}
+                  data-testid={`notification-${notification.id}`}
+                >
+                  <div className="flex items-start gap-2">
+                    {!notification.readAt && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                    <div className="min-w-0 flex-1">
+                      <p className={cn("text-sm", !notification.readAt && "font-medium")}>{notification.title}</p>
+                      <p className="text-xs text-muted-foreground whitespace-pre-line">{notification.body}</p>
+                      <p className="mt-1 text-[11px] text-muted-foreground">
+                        {new Date(notification.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_DESCRIPTIONS,
+  NOTIFICATION_TYPE_LABELS,
+  type NotificationChannels,
+  type NotificationPreferences as Preferences,
+  type NotificationType,
+} from "@shared/notifications";
+
+const CHANNELS: { key: keyof NotificationChannels; label: string }[] = [
+  { key: "inApp", label: "In app" },
+  { key: "email", label: "Email" },
+];
+
+// Which notifications the signed-in user gets in the app and by email
+export default function NotificationPreferences() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<Preferences | null>(null);
+
+  const { data: preferences, isLoading } = useQuery<Preferences>({
+    queryKey: ["/api/user/notification-preferences"],
+  });
+
+  useEffect(() => {
+    if (preferences) {
+      setForm(preferences);
+    }
+  }, [preferences]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: Preferences) => {
+      const res = await apiRequest("PUT", "/api/user/notification-preferences", values);
+      return (await res.json()) as Preferences;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/user/notification-preferences"], saved);
+      toast({ title: "Notification preferences saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Notification preferences not saved", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !form) {
+    return <p className="text-sm text-muted-foreground">Loading notification preferences...</p>;
+  }
+
+  const setChannel = (type: NotificationType, channel: keyof NotificationChannels, checked: boolean) => {
+    setForm({ ...form, [type]: { ...form[type], [channel]: checked } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Notification</TableHead>
+            {CHANNELS.map((channel) => (
+              <TableHead key={channel.key} className="text-center">{channel.label}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {NOTIFICATION_TYPES.map((type) => (
+            <TableRow key={type}>
+              <TableCell>
+                <p className="font-medium">{NOTIFICATION_TYPE_LABELS[type]}</p>
+                <p className="text-xs text-muted-foreground">{NOTIFICATION_TYPE_DESCRIPTIONS[type]}</p>
+              </TableCell>
+              {CHANNELS.map((channel) => (
+                <TableCell key={channel.key} className="text-center">
+                  <Switch
+                    checked={form[type][channel.key]}
+                    onCheckedChange={(checked) => setChannel(type, channel.key, checked)}
+                    aria-label={`${NOTIFICATION_TYPE_LABELS[type]}: ${channel.label}`}
+                    data-testid={`switch-notification-${type}-${channel.key}`}
+                  />
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <div className="flex justify-end">
+        <Button
+          onClick={() => saveMutation.mutate(form)}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-notification-preferences"
+        >
+          {saveMutation.isPending ? "Saving..." : "Save Preferences"}
+        </Button>
+      </div>
+    </div>
+  );
+}
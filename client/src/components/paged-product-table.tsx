@@ -0,0 +1,578 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCropsAndVarieties } from "@/hooks/use-crops-varieties";
+import { ArrowDown, ArrowUp, ChevronLeft, ChevronRight, Eye, Filter, Grid3X3, LayoutList, Search } from "lucide-react";
+import ProductCard from "@/components/product-card";
+import ProductStatusBadge from "@/components/product-status-badge";
+import ProductViewDialog from "@/components/product-view-dialog";
+import type { ProductWithActions } from "@shared/workflow";
+import type { Dealer } from "@shared/schema";
+import { formatDisplayDate } from "@shared/dates";
+import {
+  DEFAULT_PRODUCT_SORT,
+  formatSortParam,
+  type PagedResult,
+  type ProductSort,
+  type ProductSortField,
+} from "@shared/product-filters";
+
+interface PagedProductTableProps {
+  // Statuses always applied, e.g. "pending" or "rejected,changes_requested"
+  status?: string;
+  // Extra buttons per row or card
+  renderActions?: (product: ProductWithActions) => ReactNode;
+  // Toolbar content that needs the products on the current page
+  toolbar?: (products: ProductWithActions[]) => ReactNode;
+  // Selected products by ID, kept across pages and filters. Rows get checkboxes when set.
+  selection?: Map<string, ProductWithActions>;
+  onSelectionChange?: (selection: Map<string, ProductWithActions>) => void;
+}
+
+// Select items cannot have an empty value
+const ANY = "__any__";
+
+const PAGE_SIZES = [10, 25, 50, 100];
+
+const CLASS_TYPES = ["trustful", "certified", "foundation"];
+
+const columns: { field: ProductSortField; label: string }[] = [
+  { field: "uniqueId", label: "Unique ID" },
+  { field: "product", label: "Crop" },
+  { field: "marketCode", label: "Variety" },
+  { field: "lotNo", label: "Lot No" },
+  { field: "classType", label: "Class" },
+  { field: "location", label: "Location" },
+  { field: "mrp", label: "MRP" },
+  { field: "expiryDate", label: "Valid Upto" },
+  { field: "status", label: "Status" },
+  { field: "submissionDate", label: "Submitted" },
+];
+
+const emptyFilters = {
+  crop: ANY,
+  marketCode: ANY,
+  classType: ANY,
+  location: "",
+  dealerId: ANY,
+  submittedFrom: "",
+  submittedTo: "",
+  approvedFrom: "",
+  approvedTo: "",
+  expiryWindow: ANY,
+};
+
+function isoDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+// Expiry window choices as an inclusive date range relative to today
+function expiryRange(window: string): { expiryFrom?: string; expiryTo?: string } {
+  const today = new Date();
+  if (window === "expired") {
+    const yesterday = new Date(today);
+    yesterday.setDate(yesterday.getDate() - 1);
+    return { expiryTo: isoDate(yesterday) };
+  }
+  const days = Number(window);
+  if (!days) {
+    return {};
+  }
+  const end = new Date(today);
+  end.setDate(end.getDate() + days);
+  return { expiryFrom: isoDate(today), expiryTo: isoDate(end) };
+}
+
+export default function PagedProductTable({ status, renderActions, toolbar, selection, onSelectionChange }: PagedProductTableProps) {
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [filters, setFilters] = useState(emptyFilters);
+  const [showFilters, setShowFilters] = useState(false);
+  const [sort, setSort] = useState<ProductSort[]>(DEFAULT_PRODUCT_SORT);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(25);
+  const [viewProduct, setViewProduct] = useState<ProductWithActions | null>(null);
+  // Both layouts show the same page of the same query
+  const [viewMode, setViewMode] = useState<"card" | "list">("card");
+
+  const { data: cropsWithVarieties = [] } = useCropsAndVarieties();
+  const { data: dealers = [] } = useQuery<Dealer[]>({ queryKey: ["/api/dealers"] });
+  const selectedCrop = cropsWithVarieties.find((crop) => crop.name === filters.crop);
+
+  // Only query once the user stops typing. Any change to what is listed starts again from the first page.
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const params = new URLSearchParams({
+    page: String(page),
+    pageSize: String(pageSize),
+    sort: formatSortParam(sort),
+  });
+  if (status) params.set("status", status);
+  if (search) params.set("search", search);
+  const { expiryWindow, ...fieldFilters } = filters;
+  for (const [key, value] of Object.entries({ ...fieldFilters, ...expiryRange(expiryWindow) })) {
+    if (value && value !== ANY) {
+      params.set(key, value);
+    }
+  }
+
+  const { data, isLoading, isFetching, error } = useQuery<PagedResult<ProductWithActions>>({
+    queryKey: ["/api/products", params.toString()],
+    queryFn: async () => {
+      const res = await fetch(`/api/products?${params}`, { credentials: "include" });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.message || "Failed to load products");
+      }
+      return await res.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const products = data?.items ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  const updateFilters = (changes: Partial<typeof emptyFilters>) => {
+    setFilters((current) => ({ ...current, ...changes }));
+    setPage(1);
+  };
+
+  const updateFilter = (field: keyof typeof emptyFilters, value: string) => {
+    updateFilters({ [field]: value });
+  };
+
+  // Clicking a header sorts by that column; shift-click adds it as a secondary sort
+  const handleSort = (field: ProductSortField, addToSort: boolean) => {
+    setPage(1);
+    setSort((current): ProductSort[] => {
+      const existing = current.find((entry) => entry.field === field);
+      const direction: ProductSort["direction"] = existing?.direction === "asc" ? "desc" : "asc";
+      if (!addToSort) {
+        return [{ field, direction }];
+      }
+      if (existing) {
+        return current.map((entry) => entry.field === field ? { field, direction } : entry);
+      }
+      return [...current, { field, direction: "asc" as const }].slice(-3);
+    });
+  };
+
+  const activeFilterCount = Object.entries(filters).filter(([, value]) => value && value !== ANY).length;
+
+  const selectable = !!selection && !!onSelectionChange;
+  const columnCount = columns.length + (selectable ? 2 : 1);
+  const selectedOnPage = products.filter((product) => selection?.has(product.id)).length;
+  const pageChecked = selectedOnPage === 0 ? false : selectedOnPage === products.length ? true : "indeterminate";
+
+  const toggleProduct = (product: ProductWithActions, checked: boolean) => {
+    const next = new Map(selection);
+    if (checked) {
+      next.set(product.id, product);
+    } else {
+      next.delete(product.id);
+    }
+    onSelectionChange?.(next);
+  };
+
+  const togglePage = (checked: boolean) => {
+    const next = new Map(selection);
+    for (const product of products) {
+      if (checked) {
+        next.set(product.id, product);
+      } else {
+        next.delete(product.id);
+      }
+    }
+    onSelectionChange?.(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[240px] max-w-md">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            type="text"
+            placeholder="Search by product, batch, company, brand..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="pl-10"
+            data-testid="input-search"
+          />
+        </div>
+        <Button variant="outline" onClick={() => setShowFilters(!showFilters)} data-testid="button-toggle-filters">
+          <Filter className="h-4 w-4 mr-2" />
+          Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+        </Button>
+        {activeFilterCount > 0 && (
+          <Button variant="ghost" onClick={() => updateFilters(emptyFilters)} data-testid="button-clear-filters">
+            Clear
+          </Button>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {toolbar?.(products)}
+          <div className="flex items-center gap-1 bg-muted p-1 rounded-lg">
+            <Button
+              size="sm"
+              variant={viewMode === "card" ? "secondary" : "ghost"}
+              onClick={() => setViewMode("card")}
+              data-testid="button-card-view"
+              className="h-8 px-3"
+            >
+              <Grid3X3 className="h-4 w-4 mr-1" />
+              Card
+            </Button>
+            <Button
+              size="sm"
+              variant={viewMode === "list" ? "secondary" : "ghost"}
+              onClick={() => setViewMode("list")}
+              data-testid="button-list-view"
+              className="h-8 px-3"
+            >
+              <LayoutList className="h-4 w-4 mr-1" />
+              List View
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {showFilters && (
+        <div className="grid gap-4 rounded-lg border p-4 md:grid-cols-3 lg:grid-cols-4">
+          <div>
+            <Label>Crop</Label>
+            <Select
+              value={filters.crop}
+              onValueChange={(value) => updateFilters({ crop: value, marketCode: ANY })}
+            >
+              <SelectTrigger className="mt-1" data-testid="select-filter-crop">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All crops</SelectItem>
+                {cropsWithVarieties.map((crop) => (
+                  <SelectItem key={crop.id} value={crop.name}>{crop.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Variety</Label>
+            <Select
+              value={filters.marketCode}
+              onValueChange={(value) => updateFilter("marketCode", value)}
+              disabled={!selectedCrop}
+            >
+              <SelectTrigger className="mt-1" data-testid="select-filter-variety">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All varieties</SelectItem>
+                {selectedCrop?.varieties.map((variety) => (
+                  <SelectItem key={variety.id} value={variety.code}>{variety.code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Class</Label>
+            <Select value={filters.classType} onValueChange={(value) => updateFilter("classType", value)}>
+              <SelectTrigger className="mt-1" data-testid="select-filter-class">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All classes</SelectItem>
+                {CLASS_TYPES.map((classType) => (
+                  <SelectItem key={classType} value={classType} className="capitalize">{classType}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="filter-location">Location</Label>
+            <Input
+              id="filter-location"
+              value={filters.location}
+              onChange={(e) => updateFilter("location", e.target.value)}
+              className="mt-1"
+              data-testid="input-filter-location"
+            />
+          </div>
+          <div>
+            <Label>Dealer</Label>
+            <Select value={filters.dealerId} onValueChange={(value) => updateFilter("dealerId", value)}>
+              <SelectTrigger className="mt-1" data-testid="select-filter-dealer">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>All dealers</SelectItem>
+                {dealers.map((dealer) => (
+                  <SelectItem key={dealer.id} value={dealer.id}>{dealer.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Valid Upto</Label>
+            <Select value={filters.expiryWindow} onValueChange={(value) => updateFilter("expiryWindow", value)}>
+              <SelectTrigger className="mt-1" data-testid="select-filter-expiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any</SelectItem>
+                <SelectItem value="expired">Already expired</SelectItem>
+                <SelectItem value="30">Expiring within 30 days</SelectItem>
+                <SelectItem value="90">Expiring within 90 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="filter-submitted-from">Submitted From</Label>
+              <Input
+                id="filter-submitted-from"
+                type="date"
+                value={filters.submittedFrom}
+                onChange={(e) => updateFilter("submittedFrom", e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="filter-submitted-to">To</Label>
+              <Input
+                id="filter-submitted-to"
+                type="date"
+                value={filters.submittedTo}
+                onChange={(e) => updateFilter("submittedTo", e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="filter-approved-from">Approved From</Label>
+              <Input
+                id="filter-approved-from"
+                type="date"
+                value={filters.approvedFrom}
+                onChange={(e) => updateFilter("approvedFrom", e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="filter-approved-to">To</Label>
+              <Input
+                id="filter-approved-to"
+                type="date"
+                value={filters.approvedTo}
+                onChange={(e) => updateFilter("approvedTo", e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {viewMode === "card" ? (
+        isLoading || error || products.length === 0 ? (
+          <div className={`rounded-lg border py-8 text-center ${error ? "text-destructive" : "text-muted-foreground"}`}>
+            {isLoading ? "Loading products..." : error ? (error as Error).message : "No products found."}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {selectable && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="select-page-cards"
+                  checked={pageChecked}
+                  onCheckedChange={(checked) => togglePage(checked === true)}
+                  data-testid="checkbox-select-page"
+                />
+                <Label htmlFor="select-page-cards" className="font-normal">Select all on this page</Label>
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {products.map((product) => (
+                <ProductCard
+                  key={product.id}
+                  product={product}
+                  onView={() => setViewProduct(product)}
+                  actions={renderActions?.(product)}
+                  className={isFetching ? "opacity-60" : undefined}
+                  selected={selection?.has(product.id)}
+                  onSelectedChange={selectable ? (checked) => toggleProduct(product, checked) : undefined}
+                />
+              ))}
+            </div>
+          </div>
+        )
+      ) : (
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {selectable && (
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={pageChecked}
+                      onCheckedChange={(checked) => togglePage(checked === true)}
+                      disabled={products.length === 0}
+                      aria-label="Select all products on this page"
+                      data-testid="checkbox-select-page"
+                    />
+                  </TableHead>
+                )}
+                {columns.map((column) => {
+                  const sortIndex = sort.findIndex((entry) => entry.field === column.field);
+                  const sortEntry = sort[sortIndex];
+                  return (
+                    <TableHead
+                      key={column.field}
+                      className="cursor-pointer select-none whitespace-nowrap"
+                      onClick={(e) => handleSort(column.field, e.shiftKey)}
+                      title="Click to sort, shift-click to add a secondary sort"
+                      data-testid={`header-sort-${column.field}`}
+                    >
+                      <span className="inline-flex items-center gap-1">
+                        {column.label}
+                        {sortEntry && (sortEntry.direction === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+                        {sortEntry && sort.length > 1 && <span className="text-xs text-muted-foreground">{sortIndex + 1}</span>}
+                      </span>
+                    </TableHead>
+                  );
+                })}
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">
+                    Loading products...
+                  </TableCell>
+                </TableRow>
+              ) : error ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="text-center py-8 text-destructive">
+                    {(error as Error).message}
+                  </TableCell>
+                </TableRow>
+              ) : products.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">
+                    No products found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                products.map((product) => (
+                  <TableRow
+                    key={product.id}
+                    className={isFetching ? "opacity-60" : undefined}
+                    data-state={selection?.has(product.id) ? "selected" : undefined}
+                    data-testid={`row-product-${product.id}`}
+                  >
+                    {selectable && (
+                      <TableCell>
+                        <Checkbox
+                          checked={!!selection?.has(product.id)}
+                          onCheckedChange={(checked) => toggleProduct(product, checked === true)}
+                          aria-label={`Select ${product.uniqueId}`}
+                          data-testid={`checkbox-select-${product.id}`}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell className="font-mono text-xs">{product.uniqueId}</TableCell>
+                    <TableCell>{product.product}</TableCell>
+                    <TableCell>{product.marketCode}</TableCell>
+                    <TableCell>{product.lotNo || product.lotBatch}</TableCell>
+                    <TableCell className="capitalize">{product.classType}</TableCell>
+                    <TableCell>{product.location}</TableCell>
+                    <TableCell>{product.mrp && `₹${product.mrp}`}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDisplayDate(product.expiryDate)}</TableCell>
+                    <TableCell><ProductStatusBadge status={product.status} /></TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {product.submissionDate ? new Date(product.submissionDate).toLocaleDateString() : ""}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setViewProduct(product)}
+                          data-testid="button-view-details"
+                        >
+                          <Eye className="h-3 w-3" />
+                        </Button>
+                        {renderActions?.(product)}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+        <span data-testid="text-page-summary">
+          {total === 0 ? "No results" : `Showing ${(page - 1) * pageSize + 1}–${Math.min(page * pageSize, total)} of ${total}`}
+        </span>
+        <div className="flex items-center gap-2">
+          <span>Rows per page</span>
+          <Select value={String(pageSize)} onValueChange={(value) => {
+            setPageSize(Number(value));
+            setPage(1);
+          }}>
+            <SelectTrigger className="h-8 w-20" data-testid="select-page-size">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            data-testid="button-previous-page"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span>Page {page} of {pageCount}</span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pageCount}
+            data-testid="button-next-page"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {viewProduct && (
+        <ProductViewDialog
+          product={viewProduct}
+          open={!!viewProduct}
+          onOpenChange={(open) => !open && setViewProduct(null)}
+        />
+      )}
+    </div>
+  );
+}
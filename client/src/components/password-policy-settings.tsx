@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { KeyRound } from "lucide-react";
+import { MAX_PASSWORD_HISTORY, passwordPolicySchema, type PasswordPolicy } from "@shared/password-policy";
+
+type PasswordPolicyResponse = PasswordPolicy & { updatedAt: string | null };
+
+const POLICY_SWITCHES: { key: keyof PasswordPolicy; label: string }[] = [
+  { key: "requireUppercase", label: "Require an uppercase letter" },
+  { key: "requireLowercase", label: "Require a lowercase letter" },
+  { key: "requireNumber", label: "Require a number" },
+  { key: "requireSymbol", label: "Require a symbol" },
+  { key: "rejectCommonPasswords", label: "Reject common and breached passwords" },
+];
+
+export default function PasswordPolicySettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<PasswordPolicy | null>(null);
+
+  const { data: policy, isLoading } = useQuery<PasswordPolicyResponse>({
+    queryKey: ["/api/user/password-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) {
+      const { updatedAt: _, ...rules } = policy;
+      setForm(rules);
+    }
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (rules: PasswordPolicy) => {
+      const res = await apiRequest("PUT", "/api/settings/password-policy", rules);
+      return (await res.json()) as PasswordPolicyResponse;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/user/password-policy"], saved);
+      toast({
+        title: "Password policy saved",
+        description: "New passwords must follow these rules. Existing passwords keep working.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save password policy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !form) {
+    return <p className="text-sm text-muted-foreground">Loading password policy...</p>;
+  }
+
+  const validation = passwordPolicySchema.safeParse(form);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Password Policy
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Applies to passwords set from now on: new accounts, password resets with a chosen password and users changing
+          their own password. Passwords containing the username are always rejected.
+        </p>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <Label htmlFor="password-min-length">Minimum length</Label>
+            <Input
+              id="password-min-length"
+              type="number"
+              min={6}
+              max={128}
+              value={form.minLength}
+              onChange={(e) => setForm({ ...form, minLength: Number(e.target.value) })}
+              className="mt-1"
+              data-testid="input-password-min-length"
+            />
+          </div>
+          <div>
+            <Label htmlFor="password-history-count">Previous passwords that can't be reused</Label>
+            <Input
+              id="password-history-count"
+              type="number"
+              min={0}
+              max={MAX_PASSWORD_HISTORY}
+              value={form.historyCount}
+              onChange={(e) => setForm({ ...form, historyCount: Number(e.target.value) })}
+              className="mt-1"
+              data-testid="input-password-history-count"
+            />
+          </div>
+        </div>
+        <div className="space-y-3">
+          {POLICY_SWITCHES.map(({ key, label }) => (
+            <div key={key} className="flex items-center gap-3">
+              <Switch
+                id={`password-${key}`}
+                checked={form[key] === true}
+                onCheckedChange={(checked) => setForm({ ...form, [key]: checked })}
+                data-testid={`switch-password-${key}`}
+              />
+              <Label htmlFor={`password-${key}`}>{label}</Label>
+            </div>
+          ))}
+        </div>
+
+        {!validation.success && (
+          <p className="text-sm text-destructive">{validation.error.errors[0]?.message}</p>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            onClick={() => validation.success && saveMutation.mutate(validation.data)}
+            disabled={!validation.success || saveMutation.isPending}
+            data-testid="button-save-password-policy"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Policy"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,313 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Check, Download, Printer, Trash2, X } from "lucide-react";
+import { hasPermission } from "@shared/permissions";
+import type { ReviewChecklistSettings } from "@shared/review";
+import {
+  BULK_ACTION_LABELS,
+  MAX_BULK_PRODUCTS,
+  type BulkProductAction,
+  type BulkStatusRequest,
+  type BulkStatusResult,
+  type ProductWithActions,
+} from "@shared/workflow";
+
+interface ProductBulkActionsProps {
+  // Selected products, possibly from several pages
+  products: ProductWithActions[];
+  onSelectionChange: (products: ProductWithActions[]) => void;
+  onExport: (productIds: string[]) => void;
+  onPrintLabels: (products: ProductWithActions[]) => void;
+}
+
+const outcomeVariants = {
+  updated: "default",
+  deleted: "default",
+  skipped: "secondary",
+  failed: "destructive",
+} as const;
+
+// Bar shown above the product list while products are selected
+export default function ProductBulkActions({ products, onSelectionChange, onExport, onPrintLabels }: ProductBulkActionsProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [showRejectDialog, setShowRejectDialog] = useState(false);
+  const [reason, setReason] = useState("");
+  const [showApproveDialog, setShowApproveDialog] = useState(false);
+  const [ticked, setTicked] = useState<Set<string>>(new Set());
+  const [result, setResult] = useState<BulkStatusResult | null>(null);
+  const canReview = !!user && hasPermission(user, "products.review");
+
+  const { data: checklistSettings } = useQuery<ReviewChecklistSettings>({
+    queryKey: ["/api/settings/review-checklist"],
+    enabled: canReview,
+  });
+  const checklist = checklistSettings?.items.filter((item) => item.enabled) ?? [];
+
+  const bulkMutation = useMutation({
+    mutationFn: async (request: BulkStatusRequest) => {
+      const res = await apiRequest("POST", "/api/products/bulk-status", request);
+      return (await res.json()) as BulkStatusResult;
+    },
+    onSuccess: (bulkResult) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setShowRejectDialog(false);
+      setReason("");
+      setShowApproveDialog(false);
+      setTicked(new Set());
+      // Products that were not changed stay selected so they can be looked at or retried
+      const unchanged = new Set(bulkResult.results
+        .filter((item) => item.outcome === "skipped" || item.outcome === "failed")
+        .map((item) => item.id));
+      onSelectionChange(products.filter((product) => unchanged.has(product.id)));
+      if (unchanged.size > 0) {
+        setResult(bulkResult);
+      } else {
+        toast({ title: `${BULK_ACTION_LABELS[bulkResult.action]}: ${bulkResult.succeeded} product${bulkResult.succeeded === 1 ? "" : "s"} done` });
+      }
+    },
+    onError: (error: Error, { action }) => {
+      toast({ title: `${BULK_ACTION_LABELS[action]} failed`, description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (products.length === 0) {
+    return null;
+  }
+
+  const ids = products.map((product) => product.id);
+  const tooMany = products.length > MAX_BULK_PRODUCTS;
+  const canDelete = !!user && hasPermission(user, "products.delete");
+  const canPrint = !!user && hasPermission(user, "labels.print");
+  const approvedCount = products.filter((product) => product.status === "approved").length;
+
+  const run = (action: BulkProductAction, comment?: string) => {
+    bulkMutation.mutate({ ids, action, comment });
+  };
+
+  // The QC checklist is ticked once for the whole selection
+  const handleApprove = () => {
+    if (checklist.length > 0) {
+      setTicked(new Set());
+      setShowApproveDialog(true);
+    } else {
+      run("approve");
+    }
+  };
+
+  const toggleItem = (id: string, checked: boolean) => {
+    const next = new Set(ticked);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setTicked(next);
+  };
+
+  const missingRequired = checklist.filter((item) => item.required && !ticked.has(item.id)).length;
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete ${products.length} selected product${products.length === 1 ? "" : "s"}? Their history is kept but this cannot be undone.`)) {
+      run("delete");
+    }
+  };
+
+  return (
+    <>
+      <div
+        className="flex flex-wrap items-center gap-2 rounded-lg border border-primary/30 bg-primary/5 px-4 py-2"
+        data-testid="bar-bulk-actions"
+      >
+        <span className="text-sm font-medium" data-testid="text-selected-count">
+          {products.length} selected
+        </span>
+        <Button variant="link" size="sm" className="h-auto p-0" onClick={() => onSelectionChange([])} data-testid="button-clear-selection">
+          Clear
+        </Button>
+        {tooMany && (
+          <span className="text-xs text-destructive">
+            Approve, reject and delete work on at most {MAX_BULK_PRODUCTS} products at once
+          </span>
+        )}
+        <div className="ml-auto flex flex-wrap gap-2">
+          {canReview && (
+            <>
+              <Button size="sm" onClick={handleApprove} disabled={tooMany || bulkMutation.isPending} data-testid="button-bulk-approve">
+                <Check className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => setShowRejectDialog(true)}
+                disabled={tooMany || bulkMutation.isPending}
+                data-testid="button-bulk-reject"
+              >
+                <X className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+            </>
+          )}
+          {canDelete && (
+            <Button size="sm" variant="outline" onClick={handleDelete} disabled={tooMany || bulkMutation.isPending} data-testid="button-bulk-delete">
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={() => onExport(ids)} data-testid="button-bulk-export">
+            <Download className="h-4 w-4 mr-1" />
+            Export
+          </Button>
+          {canPrint && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onPrintLabels(products)}
+              disabled={approvedCount === 0}
+              title={approvedCount === 0 ? "Labels can only be printed for approved products" : undefined}
+              data-testid="button-bulk-print-labels"
+            >
+              <Printer className="h-4 w-4 mr-1" />
+              Print Labels
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={showApproveDialog} onOpenChange={setShowApproveDialog}>
+        <DialogContent data-testid="dialog-bulk-approve">
+          <DialogHeader>
+            <DialogTitle>Approve {products.length} Product{products.length === 1 ? "" : "s"}</DialogTitle>
+            <DialogDescription>
+              Your ticks are recorded on every selected product. Products that are not awaiting review are skipped.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-2">
+            {checklist.map((item) => (
+              <li key={item.id} className="flex items-start gap-2">
+                <Checkbox
+                  id={`bulk-checklist-${item.id}`}
+                  checked={ticked.has(item.id)}
+                  onCheckedChange={(checked) => toggleItem(item.id, checked === true)}
+                  className="mt-0.5"
+                  data-testid={`checkbox-bulk-checklist-${item.id}`}
+                />
+                <label htmlFor={`bulk-checklist-${item.id}`} className="text-sm cursor-pointer">
+                  {item.label}
+                  {item.required && <span className="text-muted-foreground"> (required)</span>}
+                </label>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowApproveDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => bulkMutation.mutate({
+                ids,
+                action: "approve",
+                checklist: checklist.map((item) => ({ itemId: item.id, checked: ticked.has(item.id) })),
+              })}
+              disabled={missingRequired > 0 || bulkMutation.isPending}
+              data-testid="button-confirm-bulk-approve"
+            >
+              {bulkMutation.isPending ? "Approving..." : "Approve"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={showRejectDialog}
+        onOpenChange={(open) => {
+          if (!open) {
+            setShowRejectDialog(false);
+            setReason("");
+          }
+        }}
+      >
+        <DialogContent data-testid="dialog-bulk-reject">
+          <DialogHeader>
+            <DialogTitle>Reject {products.length} Product{products.length === 1 ? "" : "s"}</DialogTitle>
+            <DialogDescription>
+              The reason is recorded on every selected product and sent to the operators who submitted them.
+              Products that are not awaiting review are skipped.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="bulk-reject-reason">Reason</Label>
+            <Textarea
+              id="bulk-reject-reason"
+              placeholder="Enter a reason..."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              className="mt-1"
+              data-testid="textarea-bulk-reject-reason"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowRejectDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => run("reject", reason.trim())}
+              disabled={!reason.trim() || bulkMutation.isPending}
+              data-testid="button-confirm-bulk-reject"
+            >
+              {bulkMutation.isPending ? "Rejecting..." : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={result !== null} onOpenChange={(open) => !open && setResult(null)}>
+        <DialogContent className="max-w-2xl" data-testid="dialog-bulk-result">
+          <DialogHeader>
+            <DialogTitle>{result && `${BULK_ACTION_LABELS[result.action]} Results`}</DialogTitle>
+            <DialogDescription>
+              {result && `${result.succeeded} done, ${result.skipped} skipped, ${result.failed} failed. Products that were not changed are still selected.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-96 overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Outcome</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result?.results.map((item) => (
+                  <TableRow key={item.id} data-testid={`row-bulk-result-${item.id}`}>
+                    <TableCell className="font-mono text-xs">{item.uniqueId ?? item.id}</TableCell>
+                    <TableCell>
+                      <Badge variant={outcomeVariants[item.outcome]} className="capitalize">{item.outcome}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{item.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setResult(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
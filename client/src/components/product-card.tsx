@@ -1,73 +1,70 @@
+import type { ReactNode } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
-import { Eye, Check, X, Calendar, Package, Edit } from "lucide-react";
-import { Product } from "@shared/schema";
-import { useState } from "react";
-import ProductViewDialog from "./product-view-dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Eye, Calendar } from "lucide-react";
+import type { ProductWithActions } from "@shared/workflow";
+import ProductStatusBadge from "./product-status-badge";
 
 interface ProductCardProps {
-  product: Product;
-  onApprove?: () => void;
-  onReject?: () => void;
-  onViewPublic?: () => void;
-  onEdit?: () => void;
-  isLoading?: boolean;
+  product: ProductWithActions;
+  onView: () => void;
+  // Buttons next to View Details, the same ones the list view shows per row
+  actions?: ReactNode;
+  className?: string;
+  // Shows a selection checkbox when set, like the list view's row checkboxes
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean) => void;
 }
 
-export default function ProductCard({ 
-  product, 
-  onApprove, 
-  onReject, 
-  onViewPublic, 
-  onEdit,
-  isLoading = false 
-}: ProductCardProps) {
-  const [showViewDialog, setShowViewDialog] = useState(false);
-  
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case "approved":
-        return <Badge className="bg-primary/10 text-primary">Approved</Badge>;
-      case "rejected":
-        return <Badge variant="destructive">Rejected</Badge>;
-      default:
-        return <Badge variant="secondary">Pending</Badge>;
-    }
-  };
-
+export default function ProductCard({ product, onView, actions, className, selected, onSelectedChange }: ProductCardProps) {
   const formatDate = (dateString: string | Date) => {
     if (!dateString) return '';
     return new Date(dateString).toLocaleDateString();
   };
 
   return (
-    <Card className="shadow-sm" data-testid={`card-product-${product.id}`}>
+    <Card
+      className={`shadow-sm ${selected ? "ring-2 ring-primary" : ""} ${className ?? ""}`}
+      data-state={selected ? "selected" : undefined}
+      data-testid={`card-product-${product.id}`}
+    >
       <CardContent className="p-6">
         <div className="flex justify-between items-start mb-4">
-          <div>
-            <h3 className="text-lg font-semibold text-foreground mb-1" data-testid="text-product-name">
-              {product.product}
-            </h3>
-            <p className="text-sm text-muted-foreground">
-              <span data-testid="text-brand">{product.marketCode}</span> • 
-              <span data-testid="text-company"> {product.company}</span>
-            </p>
-            <p className="text-xs text-muted-foreground mt-1">
-              <Calendar className="h-3 w-3 inline mr-1" />
-              Submitted on {formatDate(product.submissionDate || "")} • 
-              ID: <span className="font-mono" data-testid="text-unique-id">{product.uniqueId}</span>
-            </p>
+          <div className="flex items-start gap-3">
+            {onSelectedChange && (
+              <Checkbox
+                className="mt-1.5"
+                checked={!!selected}
+                onCheckedChange={(checked) => onSelectedChange(checked === true)}
+                aria-label={`Select ${product.uniqueId}`}
+                data-testid={`checkbox-select-${product.id}`}
+              />
+            )}
+            <div>
+              <h3 className="text-lg font-semibold text-foreground mb-1" data-testid="text-product-name">
+                {product.product}
+              </h3>
+              <p className="text-sm text-muted-foreground">
+                <span data-testid="text-brand">{product.marketCode}</span> •
+                <span data-testid="text-company"> {product.company}</span>
+              </p>
+              <p className="text-xs text-muted-foreground mt-1">
+                <Calendar className="h-3 w-3 inline mr-1" />
+                Submitted on {formatDate(product.submissionDate || "")} •
+                ID: <span className="font-mono" data-testid="text-unique-id">{product.uniqueId}</span>
+              </p>
+            </div>
           </div>
           <div data-testid="badge-status">
-            {getStatusBadge(product.status)}
+            <ProductStatusBadge status={product.status} />
           </div>
         </div>
-        
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
           <div>
             <p className="text-sm font-medium text-foreground">MRP</p>
-            <p className="text-sm text-muted-foreground" data-testid="text-mrp">₹{product.mrp}</p>
+            <p className="text-sm text-muted-foreground" data-testid="text-mrp">{product.mrp && `₹${product.mrp}`}</p>
           </div>
           <div>
             <p className="text-sm font-medium text-foreground">Net Quantity</p>
@@ -75,7 +72,7 @@ export default function ProductCard({
           </div>
           <div>
             <p className="text-sm font-medium text-foreground">Batch No</p>
-            <p className="text-sm text-muted-foreground font-mono" data-testid="text-batch-no">{product.lotBatch}</p>
+            <p className="text-sm text-muted-foreground font-mono" data-testid="text-batch-no">{product.lotNo || product.lotBatch}</p>
           </div>
         </div>
 
@@ -85,90 +82,31 @@ export default function ProductCard({
           </p>
         )}
 
-        {product.status === "rejected" && product.rejectionReason && (
+        {(product.status === "rejected" || product.status === "changes_requested") && product.rejectionReason && (
           <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-3 mb-4">
-            <p className="text-sm font-medium text-destructive">Rejection Reason:</p>
+            <p className="text-sm font-medium text-destructive">
+              {product.status === "rejected" ? "Rejection Reason:" : "Requested Changes:"}
+            </p>
             <p className="text-sm text-destructive/80" data-testid="text-rejection-reason">
               {product.rejectionReason}
             </p>
           </div>
         )}
-        
+
         <div className="flex flex-wrap justify-end gap-2">
-          <Button 
-            variant="outline" 
+          <Button
+            variant="outline"
             size="sm"
-            onClick={() => setShowViewDialog(true)}
+            onClick={onView}
             data-testid="button-view-details"
             className="flex-shrink-0"
           >
             <Eye className="h-4 w-4 mr-1" />
             View Details
           </Button>
-          
-          {onViewPublic && product.status === "approved" && (
-            <Button 
-              variant="outline" 
-              size="sm"
-              onClick={onViewPublic}
-              data-testid="button-view-public"
-              className="flex-shrink-0"
-            >
-              <Package className="h-4 w-4 mr-1" />
-              View Public Page
-            </Button>
-          )}
-          {/* View Public Page button hidden for non-approved products */}
-          
-          {onEdit && (
-            <Button 
-              variant="outline" 
-              size="sm"
-              onClick={onEdit}
-              disabled={isLoading}
-              data-testid="button-edit"
-              className="flex-shrink-0"
-            >
-              <Edit className="h-4 w-4 mr-1" />
-              Edit
-            </Button>
-          )}
-          
-          {onReject && (
-            <Button 
-              variant="destructive" 
-              size="sm"
-              onClick={onReject}
-              disabled={isLoading}
-              data-testid="button-reject"
-              className="flex-shrink-0"
-            >
-              <X className="h-4 w-4 mr-1" />
-              Reject
-            </Button>
-          )}
-          
-          {onApprove && (
-            <Button 
-              size="sm"
-              onClick={onApprove}
-              disabled={isLoading}
-              data-testid="button-approve"
-              className="flex-shrink-0"
-            >
-              <Check className="h-4 w-4 mr-1" />
-              Approve
-            </Button>
-          )}
+          {actions}
         </div>
       </CardContent>
-
-      {/* View Details Dialog */}
-      <ProductViewDialog
-        product={product}
-        open={showViewDialog}
-        onOpenChange={setShowViewDialog}
-      />
     </Card>
   );
 }
@@ -8,8 +8,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Product } from "@shared/schema";
+import { Product, type Dealer } from "@shared/schema";
 import { useCropNames, useVarietiesForCrop } from "@/hooks/use-crops-varieties";
+import { useQualityFindings } from "@/hooks/use-quality-rules";
+import { QUALITY_ENFORCED_STATUSES, blockingFindings } from "@shared/quality-rules";
+import type { ProductStatus } from "@shared/workflow";
+import QualityFindings from "./quality-findings";
+import { useQuery } from "@tanstack/react-query";
 import { z } from "zod";
 
 // Dynamic crop and variety data will be fetched from API
@@ -52,8 +57,12 @@ const editProductSchema = z.object({
   // gotPercent: z.string().optional(), // Hidden as requested
   // gotAve: z.string().optional(), // Hidden as requested
   labelNumber: z.string().optional(),
+  dealerId: z.string().optional(),
 });
 
+// Select items cannot have an empty value
+const NO_DEALER = "__none__";
+
 type EditProductData = z.infer<typeof editProductSchema>;
 
 interface ProductEditDialogProps {
@@ -75,6 +84,7 @@ export default function ProductEditDialog({
   
   // Fetch dynamic crop and variety data
   const { data: cropNames, isLoading: cropsLoading } = useCropNames();
+  const { data: dealers = [] } = useQuery<Dealer[]>({ queryKey: ["/api/dealers"] });
   const { data: availableVarieties, isLoading: varietiesLoading } = useVarietiesForCrop(selectedCrop);
 
   const editForm = useForm<EditProductData>({
@@ -114,6 +124,7 @@ export default function ProductEditDialog({
       gotPercent: product.gotPercent ? product.gotPercent.toString() : "",
       gotAve: product.gotAve ? product.gotAve.toString() : "",
       labelNumber: product.labelNumber || "",
+      dealerId: product.dealerId || NO_DEALER,
     },
   });
 
@@ -158,9 +169,16 @@ export default function ProductEditDialog({
       gotPercent: product.gotPercent ? product.gotPercent.toString() : "",
       gotAve: product.gotAve ? product.gotAve.toString() : "",
       labelNumber: product.labelNumber || "",
+      dealerId: product.dealerId || NO_DEALER,
     });
   }, [product, editForm]);
 
+  // Products under review or approved can't be saved with quality rule errors
+  const values = editForm.watch();
+  const qualityFindings = useQualityFindings({ ...product, ...values, product: values.cropName });
+  const qualityEnforced = QUALITY_ENFORCED_STATUSES.includes(product.status as ProductStatus);
+  const hasQualityErrors = qualityEnforced && blockingFindings(qualityFindings).length > 0;
+
   const handleCropChange = (cropName: string) => {
     setSelectedCrop(cropName);
     editForm.setValue("cropName", cropName);
@@ -177,13 +195,13 @@ export default function ProductEditDialog({
       ...restData,
       // Map cropName back to product field for backward compatibility
       product: cropName,
+      dealerId: data.dealerId && data.dealerId !== NO_DEALER ? data.dealerId : null,
       // Keep decimal fields as strings but ensure they're properly formatted or undefined
       mrp: data.mrp && data.mrp.trim() !== '' ? data.mrp : undefined,
       unitSalePrice: data.unitSalePrice && data.unitSalePrice.trim() !== '' ? data.unitSalePrice : undefined,
       noOfPkts: data.noOfPkts && data.noOfPkts.trim() !== '' ? data.noOfPkts : undefined,
       totalPkts: data.totalPkts && data.totalPkts.trim() !== '' ? data.totalPkts : undefined,
       gb: data.gb && data.gb.trim() !== '' ? data.gb : undefined,
-      remainingQuantity: data.remainingQuantity && data.remainingQuantity.trim() !== '' ? data.remainingQuantity : undefined,
       normalGermination: data.normalGermination && data.normalGermination.trim() !== '' ? data.normalGermination : undefined,
       gerAve: data.gerAve && data.gerAve.trim() !== '' ? data.gerAve : undefined,
       gotPercent: data.gotPercent && data.gotPercent.trim() !== '' ? data.gotPercent : undefined,
@@ -639,14 +657,32 @@ export default function ProductEditDialog({
                 name="remainingQuantity"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Remaining Quantity</FormLabel>
+                    <FormLabel>Remaining Quantity (from stock movements)</FormLabel>
                     <FormControl>
-                      <Input type="number" step="0.01" {...field} data-testid="input-edit-remaining-quantity" />
+                      <Input type="number" step="0.01" {...field} readOnly disabled data-testid="input-edit-remaining-quantity" />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
+
+              <div className="space-y-2">
+                <Label>Sold Through Dealer</Label>
+                <Select
+                  value={editForm.watch("dealerId") || NO_DEALER}
+                  onValueChange={(value) => editForm.setValue("dealerId", value, { shouldDirty: true })}
+                >
+                  <SelectTrigger data-testid="select-edit-dealer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_DEALER}>No dealer assigned</SelectItem>
+                    {dealers.filter((dealer) => dealer.active || dealer.id === product.dealerId).map((dealer) => (
+                      <SelectItem key={dealer.id} value={dealer.id}>{dealer.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
             
             {/* Quality and Testing Information */}
@@ -770,6 +806,18 @@ export default function ProductEditDialog({
               )}
             />
             
+            {qualityFindings.length > 0 && (
+              <div data-testid="section-edit-quality-findings">
+                <Label>Quality Checks</Label>
+                <p className="text-xs text-muted-foreground">
+                  {qualityEnforced
+                    ? "Errors must be fixed before the changes can be saved."
+                    : "Errors must be fixed before the product is submitted for approval."}
+                </p>
+                <QualityFindings findings={qualityFindings} className="mt-2" />
+              </div>
+            )}
+
             <DialogFooter>
               <Button 
                 type="button"
@@ -781,7 +829,7 @@ export default function ProductEditDialog({
               </Button>
               <Button 
                 type="submit"
-                disabled={isLoading}
+                disabled={isLoading || hasQualityErrors}
                 data-testid="button-save-edit"
               >
                 {isLoading ? "Saving..." : "Save Changes"}
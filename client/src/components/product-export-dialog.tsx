@@ -0,0 +1,286 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { useCropsAndVarieties } from "@/hooks/use-crops-varieties";
+import { ArrowDown, ArrowUp, Download } from "lucide-react";
+import { DEFAULT_EXPORT_COLUMNS, EXPORT_COLUMNS, type ExportColumnKey, type ExportFormat } from "@shared/export";
+import { PRODUCT_STATUSES, STATUS_LABELS } from "@shared/workflow";
+
+interface ProductExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Export just these products instead of filtering
+  productIds?: string[];
+}
+
+// Select items cannot have an empty value
+const ANY = "__any__";
+
+const CLASS_TYPES = ["trustful", "certified", "foundation"];
+
+const columnHeaders = Object.fromEntries(EXPORT_COLUMNS.map((column) => [column.key, column.header])) as Record<ExportColumnKey, string>;
+
+const emptyFilters = {
+  status: ANY,
+  crop: ANY,
+  marketCode: ANY,
+  classType: ANY,
+  submittedFrom: "",
+  submittedTo: "",
+};
+
+export default function ProductExportDialog({ open, onOpenChange, productIds }: ProductExportDialogProps) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ExportFormat>("xlsx");
+  const [filters, setFilters] = useState(emptyFilters);
+  // Selected columns first, in export order, followed by the unselected ones
+  const [columnOrder, setColumnOrder] = useState<ExportColumnKey[]>(() => [
+    ...DEFAULT_EXPORT_COLUMNS,
+    ...EXPORT_COLUMNS.map((column) => column.key).filter((key) => !DEFAULT_EXPORT_COLUMNS.includes(key)),
+  ]);
+  const [selectedColumns, setSelectedColumns] = useState<ExportColumnKey[]>(DEFAULT_EXPORT_COLUMNS);
+
+  const { data: cropsWithVarieties = [] } = useCropsAndVarieties();
+  const selectedCrop = cropsWithVarieties.find((crop) => crop.name === filters.crop);
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const params = new URLSearchParams({ format });
+      if (productIds) {
+        params.set("ids", productIds.join(","));
+      } else {
+        for (const [key, value] of Object.entries(filters)) {
+          if (value && value !== ANY) {
+            params.set(key, value);
+          }
+        }
+      }
+      params.set("columns", columnOrder.filter((key) => selectedColumns.includes(key)).join(","));
+
+      // A long selection of IDs doesn't fit in a URL, so it is posted instead
+      const res = productIds
+        ? await fetch("/api/products/export", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(Object.fromEntries(params)),
+            credentials: "include",
+          })
+        : await fetch(`/api/products/export?${params.toString()}`, { credentials: "include" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message || "Failed to export products");
+      }
+      return await res.blob();
+    },
+    onSuccess: (blob) => {
+      const link = document.createElement("a");
+      const url = URL.createObjectURL(blob);
+      link.setAttribute("href", url);
+      link.setAttribute("download", `nath-seeds-products-${new Date().toISOString().split('T')[0]}.${format}`);
+      link.style.visibility = "hidden";
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Export Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateFilter = (field: keyof typeof emptyFilters, value: string) => {
+    setFilters((current) => ({ ...current, [field]: value }));
+  };
+
+  const toggleColumn = (key: ExportColumnKey, checked: boolean) => {
+    setSelectedColumns((current) => checked ? [...current, key] : current.filter((selected) => selected !== key));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    setColumnOrder((current) => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl" data-testid="dialog-export">
+        <DialogHeader>
+          <DialogTitle>Export Products</DialogTitle>
+          <DialogDescription>
+            {productIds
+              ? `Exports the ${productIds.length} selected product${productIds.length === 1 ? "" : "s"}.`
+              : "The export is generated on the server from all matching products, not just the ones loaded on this page."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <div>
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger className="mt-1" data-testid="select-export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                <SelectItem value="csv">CSV</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {!productIds && (
+            <>
+              <div>
+                <Label>Status</Label>
+                <Select value={filters.status} onValueChange={(value) => updateFilter("status", value)}>
+                  <SelectTrigger className="mt-1" data-testid="select-export-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All statuses</SelectItem>
+                    {PRODUCT_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Class</Label>
+                <Select value={filters.classType} onValueChange={(value) => updateFilter("classType", value)}>
+                  <SelectTrigger className="mt-1" data-testid="select-export-class">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All classes</SelectItem>
+                    {CLASS_TYPES.map((classType) => (
+                      <SelectItem key={classType} value={classType} className="capitalize">{classType}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Crop</Label>
+                <Select
+                  value={filters.crop}
+                  onValueChange={(value) => setFilters((current) => ({ ...current, crop: value, marketCode: ANY }))}
+                >
+                  <SelectTrigger className="mt-1" data-testid="select-export-crop">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All crops</SelectItem>
+                    {cropsWithVarieties.map((crop) => (
+                      <SelectItem key={crop.id} value={crop.name}>{crop.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Variety</Label>
+                <Select
+                  value={filters.marketCode}
+                  onValueChange={(value) => updateFilter("marketCode", value)}
+                  disabled={!selectedCrop}
+                >
+                  <SelectTrigger className="mt-1" data-testid="select-export-variety">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All varieties</SelectItem>
+                    {selectedCrop?.varieties.map((variety) => (
+                      <SelectItem key={variety.id} value={variety.code}>{variety.code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="export-from">Submitted From</Label>
+                  <Input
+                    id="export-from"
+                    type="date"
+                    value={filters.submittedFrom}
+                    onChange={(e) => updateFilter("submittedFrom", e.target.value)}
+                    className="mt-1"
+                    data-testid="input-export-from"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="export-to">To</Label>
+                  <Input
+                    id="export-to"
+                    type="date"
+                    value={filters.submittedTo}
+                    onChange={(e) => updateFilter("submittedTo", e.target.value)}
+                    className="mt-1"
+                    data-testid="input-export-to"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div>
+          <Label>Columns ({selectedColumns.length} selected)</Label>
+          <ScrollArea className="h-64 mt-1 rounded-md border p-2">
+            {columnOrder.map((key, index) => (
+              <div key={key} className="flex items-center gap-2 py-0.5 text-sm">
+                <Checkbox
+                  id={`export-column-${key}`}
+                  checked={selectedColumns.includes(key)}
+                  onCheckedChange={(checked) => toggleColumn(key, checked === true)}
+                  data-testid={`checkbox-export-column-${key}`}
+                />
+                <label htmlFor={`export-column-${key}`} className="flex-1 cursor-pointer">
+                  {columnHeaders[key]}
+                  {key === "qrCode" && format === "csv" && (
+                    <span className="text-xs text-muted-foreground"> (Excel only)</span>
+                  )}
+                </label>
+                <Button size="icon" variant="ghost" className="h-6 w-6" disabled={index === 0} onClick={() => moveColumn(index, -1)}>
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-6 w-6" disabled={index === columnOrder.length - 1} onClick={() => moveColumn(index, 1)}>
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </ScrollArea>
+          {format === "xlsx" && selectedColumns.includes("qrCode") && (
+            <p className="text-xs text-muted-foreground mt-1">
+              QR code images make large exports noticeably slower to generate.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => exportMutation.mutate()}
+            disabled={selectedColumns.length === 0 || exportMutation.isPending}
+            data-testid="button-export-download"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {exportMutation.isPending ? "Exporting..." : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,14 +9,16 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { useCropNames, useVarietiesForCrop } from "@/hooks/use-crops-varieties";
 import { useCropVarietyUrl } from "@/hooks/use-crop-variety-url";
+import { useQualityFindings } from "@/hooks/use-quality-rules";
 import { insertProductSchema } from "@shared/schema";
+import { blockingFindings } from "@shared/quality-rules";
 import { z } from "zod";
-import { CloudUpload, Send, RotateCcw, Upload } from "lucide-react";
-import { queryClient } from "@/lib/queryClient";
+import { CloudUpload, Send, RotateCcw, Upload, Save } from "lucide-react";
+import ProductImportDialog from "./product-import-dialog";
+import QualityFindings from "./quality-findings";
 
 // Dynamic crop and variety data will be fetched from API
 
@@ -75,7 +77,6 @@ export default function ProductForm({ onSuccess }: ProductFormProps = {}) {
   const { toast } = useToast();
   const [file, setFile] = useState<File | null>(null);
   const [showImportDialog, setShowImportDialog] = useState(false);
-  const [importFile, setImportFile] = useState<File | null>(null);
   const [selectedCrop, setSelectedCrop] = useState<string>("");
   const [selectedVariety, setSelectedVariety] = useState<string>("");
 const [hidePredefinedUrl, setHidePredefinedUrl] = useState(false);
@@ -138,6 +139,16 @@ useEffect(() => {
 
   // No longer needed - varieties are fetched dynamically based on selectedCrop
 
+  // Quality rules are checked as the form is filled in; errors only stop submission, not drafts
+  const values = form.watch();
+  const qualityFindings = useQualityFindings({
+    ...values,
+    product: values.cropName,
+    brochureFilename: file?.name ?? values.brochureFilename,
+    brochureUrl: cropVarietyUrl?.url ?? values.brochureUrl,
+  });
+  const hasQualityErrors = blockingFindings(qualityFindings).length > 0;
+
   const handleCropChange = (cropName: string) => {
     setSelectedCrop(cropName);
     setSelectedVariety(""); // Reset variety when crop changes
@@ -151,7 +162,7 @@ useEffect(() => {
   };
 
   const submitProductMutation = useMutation({
-    mutationFn: async (data: ProductFormData) => {
+    mutationFn: async ({ data, saveAsDraft }: { data: ProductFormData; saveAsDraft: boolean }) => {
       const formData = new FormData();
       
       // Process each field, mapping cropName to product for backward compatibility
@@ -170,6 +181,10 @@ useEffect(() => {
   formData.set("brochureFilename", "predefined-brochure");
       }
 
+      if (saveAsDraft) {
+        formData.append("saveAsDraft", "true");
+      }
+
       const response = await fetch("/api/products", {
         method: "POST",
         body: formData,
@@ -184,7 +199,10 @@ useEffect(() => {
       return response.json();
     },
     onSuccess: (product) => {
-      toast({
+      toast(product.status === "draft" ? {
+        title: "Draft saved",
+        description: `Product "${product.product}" has been saved as a draft. Submit it from My Products when ready.`,
+      } : {
         title: "Product submitted successfully",
         description: `Product "${product.product}" has been submitted for approval.`,
       });
@@ -203,7 +221,11 @@ useEffect(() => {
   });
 
   const onSubmit = (data: ProductFormData) => {
-    submitProductMutation.mutate(data);
+    submitProductMutation.mutate({ data, saveAsDraft: false });
+  };
+
+  const onSaveDraft = (data: ProductFormData) => {
+    submitProductMutation.mutate({ data, saveAsDraft: true });
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -239,61 +261,6 @@ useEffect(() => {
     setFile(null);
   };
 
-  const importProductsMutation = useMutation({
-    mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append('file', file);
-      
-      const res = await fetch('/api/products/import', {
-        method: 'POST',
-        body: formData,
-        credentials: 'include'
-      });
-      
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.message || 'Failed to import products');
-      }
-      
-      return res.json();
-    },
-    onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
-      toast({
-        title: "Import successful",
-        description: `Successfully imported ${data.imported} products. ${data.skipped || 0} rows were skipped.`,
-      });
-      setShowImportDialog(false);
-      setImportFile(null);
-
-      form.reset();
-      setFile(null);
-
-      setHidePredefinedUrl(true);
-
-      onSuccess?.();
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Import failed",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
-  });
-
-  const handleImport = () => {
-    if (!importFile) {
-      toast({
-        title: "No file selected",
-        description: "Please select a CSV or Excel file to import.",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    importProductsMutation.mutate(importFile);
-  };
 
   return (
     <>
@@ -945,6 +912,17 @@ useEffect(() => {
               )}
             </div>
             
+            {/* Quality rule findings */}
+            {qualityFindings.length > 0 && (
+              <div data-testid="section-quality-findings">
+                <Label>Quality Checks</Label>
+                <p className="text-xs text-muted-foreground">
+                  Errors must be fixed before the product can be submitted for approval. Drafts can be saved as they are.
+                </p>
+                <QualityFindings findings={qualityFindings} className="mt-2" />
+              </div>
+            )}
+
             {/* Submit Button */}
             <div className="flex justify-end space-x-4 pt-4">
               <Button 
@@ -957,8 +935,19 @@ useEffect(() => {
                 Reset Form
               </Button>
               <Button 
-                type="submit" 
+                type="button" 
+                variant="outline" 
+                onClick={form.handleSubmit(onSaveDraft)}
                 disabled={submitProductMutation.isPending}
+                data-testid="button-save-draft"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save as Draft
+              </Button>
+              <Button 
+                type="submit" 
+                disabled={submitProductMutation.isPending || hasQualityErrors}
+                title={hasQualityErrors ? "Fix the quality rule errors first" : undefined}
                 data-testid="button-submit"
               >
                 <Send className="h-4 w-4 mr-2" />
@@ -971,53 +960,16 @@ useEffect(() => {
     </Card>
 
     {/* Import Products Dialog */}
-    <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
-      <DialogContent>
-        <DialogHeader>
-          <DialogTitle>Import Products</DialogTitle>
-          <DialogDescription>
-            Upload a CSV or Excel file to bulk import products. The file should contain columns for company, brand, product, description, MRP, net quantity, lot/batch, manufacturing date, expiry date, customer care, email, company address, and marketed by.
-          </DialogDescription>
-        </DialogHeader>
-        <div className="space-y-4">
-          <div>
-            <Label htmlFor="import-file">Select File</Label>
-            <Input
-              id="import-file"
-              type="file"
-              accept=".csv,.xlsx,.xls"
-              onChange={(e) => setImportFile(e.target.files?.[0] || null)}
-              className="mt-1"
-            />
-            <p className="text-sm text-muted-foreground mt-1">
-              Supported formats: CSV, Excel (.xlsx, .xls)
-            </p>
-          </div>
-          {importFile && (
-            <div className="text-sm">
-              <strong>Selected file:</strong> {importFile.name}
-            </div>
-          )}
-        </div>
-        <DialogFooter>
-          <Button 
-            variant="outline" 
-            onClick={() => {
-              setShowImportDialog(false);
-              setImportFile(null);
-            }}
-          >
-            Cancel
-          </Button>
-          <Button 
-            onClick={handleImport}
-            disabled={!importFile || importProductsMutation.isPending}
-          >
-            {importProductsMutation.isPending ? "Importing..." : "Import Products"}
-          </Button>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
+    <ProductImportDialog
+      open={showImportDialog}
+      onOpenChange={setShowImportDialog}
+      onImported={() => {
+        form.reset();
+        setFile(null);
+        setHidePredefinedUrl(true);
+        onSuccess?.();
+      }}
+    />
   </>
 )
 }
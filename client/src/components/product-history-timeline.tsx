@@ -0,0 +1,95 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { ProductEventWithActor } from "@shared/schema";
+import { productFieldLabels } from "@/lib/product-fields";
+import ReviewChecklistResults from "./review-checklist-results";
+import { Ban, CheckCircle, Download, Edit, MessageSquareWarning, PlusCircle, RotateCcw, Send, ShieldAlert, Trash2, XCircle } from "lucide-react";
+
+interface ProductHistoryTimelineProps {
+  productId: string;
+  enabled?: boolean;
+}
+
+const eventStyles: Record<string, { label: string; icon: React.ReactNode; className: string }> = {
+  created: { label: "Created", icon: <PlusCircle className="h-4 w-4" />, className: "bg-blue-500" },
+  imported: { label: "Imported", icon: <Download className="h-4 w-4" />, className: "bg-blue-500" },
+  updated: { label: "Edited", icon: <Edit className="h-4 w-4" />, className: "bg-gray-500" },
+  submitted: { label: "Submitted", icon: <Send className="h-4 w-4" />, className: "bg-yellow-500" },
+  resubmitted: { label: "Re-submitted", icon: <RotateCcw className="h-4 w-4" />, className: "bg-yellow-500" },
+  changes_requested: { label: "Changes Requested", icon: <MessageSquareWarning className="h-4 w-4" />, className: "bg-orange-500" },
+  approved: { label: "Approved", icon: <CheckCircle className="h-4 w-4" />, className: "bg-green-500" },
+  rejected: { label: "Rejected", icon: <XCircle className="h-4 w-4" />, className: "bg-red-500" },
+  revoked: { label: "Approval Revoked", icon: <Ban className="h-4 w-4" />, className: "bg-red-500" },
+  recalled: { label: "Recalled", icon: <ShieldAlert className="h-4 w-4" />, className: "bg-red-700" },
+  deleted: { label: "Deleted", icon: <Trash2 className="h-4 w-4" />, className: "bg-red-700" },
+};
+
+export default function ProductHistoryTimeline({ productId, enabled = true }: ProductHistoryTimelineProps) {
+  const { data: events = [], isLoading, error } = useQuery<ProductEventWithActor[]>({
+    queryKey: ["/api/products", productId, "history"],
+    enabled,
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground py-4">Loading history...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive py-4">Failed to load history.</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">No history recorded for this product yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-3 space-y-6 py-2" data-testid="list-product-history">
+      {events.map((event) => {
+        const style = eventStyles[event.eventType] ?? eventStyles.updated;
+
+        return (
+          <li key={event.id} className="ml-6" data-testid={`history-event-${event.id}`}>
+            <span className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full text-white ${style.className}`}>
+              {style.icon}
+            </span>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">{style.label}</Badge>
+              <span className="text-sm font-medium">{event.actorUsername || "System"}</span>
+              <span className="text-xs text-muted-foreground">
+                {new Date(event.createdAt).toLocaleString()}
+              </span>
+            </div>
+            {event.comment && (
+              <p className="text-sm text-muted-foreground mt-1" data-testid="text-history-comment">{event.comment}</p>
+            )}
+            {event.checklist && event.checklist.length > 0 && (
+              <ReviewChecklistResults results={event.checklist} className="mt-2" />
+            )}
+            {event.changes.length > 0 && (
+              <div className="mt-2 overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="pr-4 font-medium">Field</th>
+                      <th className="pr-4 font-medium">Old value</th>
+                      <th className="font-medium">New value</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {event.changes.map((change) => (
+                      <tr key={change.field} className="border-t border-border align-top">
+                        <td className="pr-4 py-1 font-medium">{productFieldLabels[change.field] ?? change.field}</td>
+                        <td className="pr-4 py-1 text-muted-foreground line-through break-all">{change.oldValue ?? "—"}</td>
+                        <td className="py-1 break-all">{change.newValue ?? "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,569 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Download, Save, Trash2 } from "lucide-react";
+import type { ImportMappingProfile } from "@shared/schema";
+import {
+  DEFAULT_NATURAL_KEY,
+  IMPORT_FIELDS,
+  NATURAL_KEY_CANDIDATES,
+  type ColumnMapping,
+  type DuplicateStrategy,
+  type ImportErrorMode,
+  type ImportOptions,
+  type ImportPreview,
+  type ImportResult,
+  type ImportRowOutcome,
+} from "@shared/import";
+
+interface ProductImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported?: () => void;
+}
+
+// Select items cannot have an empty value
+const UNMAPPED = "__unmapped__";
+
+const defaultOptions: ImportOptions = {
+  naturalKey: DEFAULT_NATURAL_KEY,
+  duplicateStrategy: "skip",
+  errorMode: "all_or_nothing",
+};
+
+const fieldLabels = Object.fromEntries(IMPORT_FIELDS.map((definition) => [definition.field, definition.label]));
+
+const outcomeLabels: Record<ImportRowOutcome, string> = {
+  created: "Created",
+  updated: "Updated",
+  skipped_duplicate: "Skipped (duplicate)",
+  invalid: "Invalid",
+  failed: "Failed",
+  not_imported: "Not imported",
+};
+
+async function postImportFile(url: string, file: File, mapping?: ColumnMapping, options?: ImportOptions) {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (mapping) {
+    formData.append('mapping', JSON.stringify(mapping));
+  }
+  if (options) {
+    formData.append('options', JSON.stringify(options));
+  }
+
+  const res = await fetch(url, {
+    method: 'POST',
+    body: formData,
+    credentials: 'include'
+  });
+
+  const data = await res.json();
+  // A refused or rolled back import still comes with its per-row report
+  if (!res.ok && !Array.isArray(data.rows)) {
+    throw new Error(data.message || 'Failed to import products');
+  }
+
+  return data;
+}
+
+function downloadReport(result: ImportResult) {
+  const escape = (value: string | number | null) => `"${String(value ?? "").replace(/"/g, '""')}"`;
+  const lines = [
+    ["Row", "Outcome", "Unique ID", "Message"].map(escape).join(","),
+    ...result.rows.map((row) =>
+      [row.rowNumber, outcomeLabels[row.outcome], row.uniqueId, row.message].map(escape).join(",")
+    ),
+  ];
+
+  const blob = new Blob([lines.join("\n")], { type: "text/csv;charset=utf-8" });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", `import-report-${result.fileName.replace(/\.[^.]+$/, "")}-${new Date().toISOString().split('T')[0]}.csv`);
+  link.style.visibility = "hidden";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export default function ProductImportDialog({ open, onOpenChange, onImported }: ProductImportDialogProps) {
+  const { toast } = useToast();
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [selectedProfileId, setSelectedProfileId] = useState("");
+  const [profileName, setProfileName] = useState("");
+  const [options, setOptions] = useState<ImportOptions>(defaultOptions);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const { data: profiles = [] } = useQuery<ImportMappingProfile[]>({
+    queryKey: ["/api/import-profiles"],
+    enabled: open,
+  });
+
+  const reset = () => {
+    setImportFile(null);
+    setMapping(null);
+    setPreview(null);
+    setSelectedProfileId("");
+    setProfileName("");
+    setResult(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      reset();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async ({ file, mapping, options }: { file: File; mapping?: ColumnMapping; options: ImportOptions }) =>
+      (await postImportFile('/api/products/import/preview', file, mapping, options)) as ImportPreview,
+    onSuccess: (data) => {
+      setPreview(data);
+      setMapping(data.mapping);
+    },
+    onError: (error: Error) => {
+      setPreview(null);
+      toast({
+        title: "Could not read file",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importProductsMutation = useMutation({
+    mutationFn: async ({ file, mapping, options }: { file: File; mapping: ColumnMapping; options: ImportOptions }) =>
+      (await postImportFile('/api/products/import', file, mapping, options)) as ImportResult & { message: string },
+    onSuccess: (data) => {
+      setResult(data);
+      if (!data.committed) {
+        toast({
+          title: "Nothing was imported",
+          description: data.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: "Import successful",
+        description: `Created ${data.created}, updated ${data.updated} and skipped ${data.skipped} products.`,
+      });
+      onImported?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async (data: { name: string; mapping: ColumnMapping }) => {
+      const res = await apiRequest("POST", "/api/import-profiles", data);
+      return (await res.json()) as ImportMappingProfile;
+    },
+    onSuccess: (profile) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-profiles"] });
+      setSelectedProfileId(profile.id);
+      setProfileName("");
+      toast({
+        title: "Mapping saved",
+        description: `Column mapping saved as "${profile.name}".`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save mapping",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/import-profiles/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/import-profiles"] });
+      setSelectedProfileId("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete mapping",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (file: File | null) => {
+    reset();
+    setImportFile(file);
+    if (file) {
+      previewMutation.mutate({ file, options });
+    }
+  };
+
+  // Re-validates the rows whenever the mapping or the duplicate key changes
+  const applyMapping = (nextMapping: ColumnMapping, nextOptions: ImportOptions = options) => {
+    setMapping(nextMapping);
+    setResult(null);
+    if (importFile) {
+      previewMutation.mutate({ file: importFile, mapping: nextMapping, options: nextOptions });
+    }
+  };
+
+  const toggleNaturalKeyField = (field: ImportOptions["naturalKey"][number], checked: boolean) => {
+    const naturalKey = checked
+      ? [...options.naturalKey, field]
+      : options.naturalKey.filter((f) => f !== field);
+    if (naturalKey.length === 0) return;
+
+    const nextOptions = { ...options, naturalKey };
+    setOptions(nextOptions);
+    if (mapping) {
+      applyMapping(mapping, nextOptions);
+    }
+  };
+
+  const handleFieldMappingChange = (field: string, header: string) => {
+    const nextMapping = { ...mapping };
+    if (header === UNMAPPED) {
+      delete nextMapping[field];
+    } else {
+      nextMapping[field] = header;
+    }
+    applyMapping(nextMapping);
+  };
+
+  const handleProfileChange = (profileId: string) => {
+    const profile = profiles.find((p) => p.id === profileId);
+    if (!profile || !preview) return;
+
+    setSelectedProfileId(profileId);
+    // Columns the profile expects but this file lacks are dropped rather than failing the preview
+    const usable = Object.fromEntries(
+      Object.entries(profile.mapping).filter(([, header]) => preview.headers.includes(header))
+    );
+    applyMapping(usable);
+  };
+
+  const handleImport = () => {
+    if (importFile && mapping) {
+      importProductsMutation.mutate({ file: importFile, mapping, options });
+    }
+  };
+
+  const mappedFields = IMPORT_FIELDS.filter((definition) => mapping?.[definition.field]);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" data-testid="dialog-import">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel file, check how its columns map to product fields and review validation results before
+            anything is imported.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div>
+            <Label htmlFor="import-file">Select File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+              className="mt-1"
+              data-testid="input-import-file"
+            />
+            <p className="text-sm text-muted-foreground mt-1">
+              Supported formats: CSV, Excel (.xlsx, .xls)
+            </p>
+          </div>
+
+          {previewMutation.isPending && !preview && (
+            <p className="text-sm text-muted-foreground">Reading file...</p>
+          )}
+
+          {preview && mapping && (
+            <>
+              {/* Saved mapping profiles */}
+              <div className="grid gap-4 md:grid-cols-2">
+                <div>
+                  <Label>Saved Mapping</Label>
+                  <div className="flex gap-2 mt-1">
+                    <Select value={selectedProfileId} onValueChange={handleProfileChange}>
+                      <SelectTrigger data-testid="select-import-profile">
+                        <SelectValue placeholder={profiles.length ? "Apply a saved mapping" : "No saved mappings"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {profiles.map((profile) => (
+                          <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedProfileId && (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => deleteProfileMutation.mutate(selectedProfileId)}
+                        disabled={deleteProfileMutation.isPending}
+                        title="Delete saved mapping"
+                        data-testid="button-delete-import-profile"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="import-profile-name">Save Current Mapping As</Label>
+                  <div className="flex gap-2 mt-1">
+                    <Input
+                      id="import-profile-name"
+                      placeholder="e.g. Warehouse stock export"
+                      value={profileName}
+                      onChange={(e) => setProfileName(e.target.value)}
+                      data-testid="input-import-profile-name"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => saveProfileMutation.mutate({ name: profileName.trim(), mapping })}
+                      disabled={!profileName.trim() || saveProfileMutation.isPending}
+                      data-testid="button-save-import-profile"
+                    >
+                      <Save className="h-4 w-4 mr-1" />
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              </div>
+
+              {/* Column mapping */}
+              <div>
+                <h3 className="font-semibold mb-2">Column Mapping</h3>
+                <div className="grid gap-x-6 gap-y-2 md:grid-cols-2">
+                  {IMPORT_FIELDS.map((definition) => (
+                    <div key={definition.field} className="flex items-center justify-between gap-2">
+                      <Label className="text-sm whitespace-nowrap">
+                        {definition.label}
+                        {definition.required && <span className="text-destructive"> *</span>}
+                      </Label>
+                      <Select
+                        value={mapping[definition.field] ?? UNMAPPED}
+                        onValueChange={(header) => handleFieldMappingChange(definition.field, header)}
+                      >
+                        <SelectTrigger className="h-8 w-56" data-testid={`select-mapping-${definition.field}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNMAPPED}>— Not imported —</SelectItem>
+                          {preview.headers.map((header) => (
+                            <SelectItem key={header} value={header}>{header}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                {preview.unmappedHeaders.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Ignored columns: {preview.unmappedHeaders.join(", ")}
+                  </p>
+                )}
+              </div>
+
+              {/* Duplicate handling */}
+              <div className="space-y-3">
+                <h3 className="font-semibold">Duplicates and Errors</h3>
+                <div>
+                  <Label className="text-sm">Match existing products on</Label>
+                  <div className="flex flex-wrap gap-4 mt-2">
+                    {NATURAL_KEY_CANDIDATES.map((field) => (
+                      <label key={field} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={options.naturalKey.includes(field)}
+                          onCheckedChange={(checked) => toggleNaturalKeyField(field, checked === true)}
+                          data-testid={`checkbox-natural-key-${field}`}
+                        />
+                        {fieldLabels[field] ?? field}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div>
+                    <Label className="text-sm">When a row matches an existing product</Label>
+                    <Select
+                      value={options.duplicateStrategy}
+                      onValueChange={(value) => setOptions({ ...options, duplicateStrategy: value as DuplicateStrategy })}
+                    >
+                      <SelectTrigger className="mt-1" data-testid="select-duplicate-strategy">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="skip">Skip the row</SelectItem>
+                        <SelectItem value="update">Update the existing product</SelectItem>
+                        <SelectItem value="create">Create a new product anyway</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-sm">When rows are invalid</Label>
+                    <Select
+                      value={options.errorMode}
+                      onValueChange={(value) => setOptions({ ...options, errorMode: value as ImportErrorMode })}
+                    >
+                      <SelectTrigger className="mt-1" data-testid="select-error-mode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all_or_nothing">Import nothing (all or nothing)</SelectItem>
+                        <SelectItem value="skip_invalid">Skip bad rows, import the rest</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </div>
+
+              {/* Validation results */}
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <h3 className="font-semibold">Validation</h3>
+                  <Badge variant="secondary" data-testid="badge-import-total">{preview.totalRows} rows</Badge>
+                  <Badge className="bg-primary/10 text-primary" data-testid="badge-import-valid">{preview.validRows} valid</Badge>
+                  {preview.invalidRows > 0 && (
+                    <Badge variant="destructive" data-testid="badge-import-invalid">{preview.invalidRows} with errors</Badge>
+                  )}
+                  {preview.warned.length > 0 && (
+                    <Badge variant="outline" className="border-amber-500 text-amber-700" data-testid="badge-import-warnings">{preview.warned.length} with warnings</Badge>
+                  )}
+                  {preview.duplicateRows > 0 && (
+                    <Badge variant="outline" data-testid="badge-import-duplicates">{preview.duplicateRows} already imported</Badge>
+                  )}
+                  {previewMutation.isPending && <span className="text-xs text-muted-foreground">Re-checking...</span>}
+                </div>
+                {preview.invalid.length > 0 && (
+                  <ScrollArea className="h-32 rounded border p-2">
+                    <ul className="text-sm space-y-1" data-testid="list-import-errors">
+                      {preview.invalid.map((row) => (
+                        <li key={row.rowNumber}>
+                          <span className="font-medium">Row {row.rowNumber}:</span>{" "}
+                          <span className="text-destructive">{row.errors.join("; ")}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                )}
+                {preview.warned.length > 0 && (
+                  <ScrollArea className="h-32 rounded border p-2 mt-2">
+                    <ul className="text-sm space-y-1" data-testid="list-import-warnings">
+                      {preview.warned.map((row) => (
+                        <li key={row.rowNumber}>
+                          <span className="font-medium">Row {row.rowNumber}:</span>{" "}
+                          <span className="text-amber-700">{row.warnings.join("; ")}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                )}
+              </div>
+
+              {/* Sample of mapped rows */}
+              {mappedFields.length > 0 && (
+                <div>
+                  <h3 className="font-semibold mb-2">Preview (first {preview.sampleRows.length} rows)</h3>
+                  <div className="overflow-x-auto rounded border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Row</TableHead>
+                          {mappedFields.map((definition) => (
+                            <TableHead key={definition.field} className="whitespace-nowrap">{definition.label}</TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {preview.sampleRows.map((row) => (
+                          <TableRow key={row.rowNumber} className={row.errors.length > 0 ? "bg-destructive/10" : undefined}>
+                            <TableCell>{row.rowNumber}</TableCell>
+                            {mappedFields.map((definition) => (
+                              <TableCell key={definition.field} className="whitespace-nowrap">
+                                {row.values[definition.field] ?? "—"}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          {result && (
+            <div className="rounded border p-4 space-y-2" data-testid="panel-import-result">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">{result.committed ? "Import Completed" : "Nothing Was Imported"}</h3>
+                <Button variant="outline" size="sm" onClick={() => downloadReport(result)} data-testid="button-download-import-report">
+                  <Download className="h-4 w-4 mr-1" />
+                  Download Report
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge className="bg-primary/10 text-primary">{result.created} created</Badge>
+                <Badge variant="secondary">{result.updated} updated</Badge>
+                <Badge variant="outline">{result.skipped} skipped as duplicates</Badge>
+                {(result.invalid + result.failed) > 0 && (
+                  <Badge variant="destructive">{result.invalid + result.failed} invalid or failed</Badge>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button 
+            variant="outline" 
+            onClick={() => handleOpenChange(false)}
+            data-testid="button-cancel-import"
+          >
+            {result?.committed ? "Close" : "Cancel"}
+          </Button>
+          <Button 
+            onClick={handleImport}
+            disabled={!preview || preview.validRows === 0 || !!result?.committed || previewMutation.isPending || importProductsMutation.isPending}
+            data-testid="button-confirm-import"
+          >
+            {importProductsMutation.isPending
+              ? "Importing..."
+              : preview ? `Import ${preview.validRows} Rows` : "Import Products"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
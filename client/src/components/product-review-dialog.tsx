@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { productFieldLabels } from "@/lib/product-fields";
+import { automaticResultStyles } from "./review-checklist-results";
+import QualityFindings from "./quality-findings";
+import { ACTION_LABELS, type ProductWithActions, type WorkflowAction } from "@shared/workflow";
+import type { ChecklistAnswer, ProductReviewContext } from "@shared/review";
+import { blockingFindings } from "@shared/quality-rules";
+
+interface ProductReviewDialogProps {
+  product: ProductWithActions;
+  // approve, request_changes or reject
+  action: WorkflowAction | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (review: { comment?: string; checklist: ChecklistAnswer[] }) => void;
+  isPending: boolean;
+}
+
+const reviewEventLabels: Record<string, string> = {
+  approved: "Approved",
+  changes_requested: "Returned for changes",
+  rejected: "Rejected",
+  revoked: "Approval revoked",
+};
+
+const commentPrompts: Partial<Record<WorkflowAction, string>> = {
+  approve: "Optional note for the product history.",
+  request_changes: "Describe what the operator needs to change before resubmitting.",
+  reject: "Please provide a reason for rejecting this product. This will be sent to the operator.",
+};
+
+// Review screen for a product: what changed since it was last reviewed, the QC checklist and the decision
+export default function ProductReviewDialog({ product, action, onOpenChange, onConfirm, isPending }: ProductReviewDialogProps) {
+  const open = action !== null;
+  const [comment, setComment] = useState("");
+  const [ticked, setTicked] = useState<Set<string>>(new Set());
+
+  const { data: review, isLoading, error } = useQuery<ProductReviewContext>({
+    queryKey: ["/api/products", product.id, "review"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setComment("");
+      setTicked(new Set());
+    }
+  }, [open]);
+
+  const checklist = review?.checklist ?? [];
+  const missingRequired = checklist.filter((item) => item.required && !ticked.has(item.id));
+  const commentRequired = action !== "approve";
+  const qualityErrors = action === "approve" ? blockingFindings(review?.qualityFindings ?? []) : [];
+  const canConfirm = !!review && (commentRequired ? !!comment.trim() : missingRequired.length === 0 && qualityErrors.length === 0);
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(ticked);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setTicked(next);
+  };
+
+  const confirm = () => {
+    onConfirm({
+      comment: comment.trim() || undefined,
+      checklist: checklist.map((item) => ({ itemId: item.id, checked: ticked.has(item.id) })),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto" data-testid="dialog-product-review">
+        <DialogHeader>
+          <DialogTitle>{action && `${ACTION_LABELS[action]} ${product.uniqueId}`}</DialogTitle>
+          <DialogDescription>{product.product} {product.marketCode && `· ${product.marketCode}`}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading review...</p>
+        ) : error ? (
+          <p className="text-sm text-destructive">{(error as Error).message}</p>
+        ) : review && (
+          <div className="space-y-6">
+            {review.previousReview && (
+              <section className="space-y-2" data-testid="section-review-diff">
+                <h3 className="font-semibold">Changes since the last review</h3>
+                <p className="text-sm text-muted-foreground">
+                  {reviewEventLabels[review.previousReview.eventType] ?? review.previousReview.eventType}
+                  {review.previousReview.actorUsername && ` by ${review.previousReview.actorUsername}`}
+                  {` on ${new Date(review.previousReview.createdAt).toLocaleString()}`}
+                  {review.previousReview.comment && `: "${review.previousReview.comment}"`}
+                </p>
+                {review.changes.length === 0 ? (
+                  <p className="text-sm">No fields were changed since then.</p>
+                ) : (
+                  <div className="overflow-x-auto rounded-md border">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="bg-muted text-left">
+                          <th className="px-3 py-2 font-medium">Field</th>
+                          <th className="px-3 py-2 font-medium">At last review</th>
+                          <th className="px-3 py-2 font-medium">Now</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {review.changes.map((change) => (
+                          <tr key={change.field} className="border-t align-top" data-testid={`row-review-change-${change.field}`}>
+                            <td className="px-3 py-2 font-medium">{productFieldLabels[change.field] ?? change.field}</td>
+                            <td className="px-3 py-2 bg-red-50 text-red-900 break-all">{change.oldValue ?? "—"}</td>
+                            <td className="px-3 py-2 bg-green-50 text-green-900 break-all">{change.newValue ?? "—"}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </section>
+            )}
+
+            {review.qualityFindings.length > 0 && (
+              <section className="space-y-2" data-testid="section-review-quality">
+                <h3 className="font-semibold">Quality rules</h3>
+                <QualityFindings findings={review.qualityFindings} />
+              </section>
+            )}
+
+            {checklist.length > 0 && (
+              <section className="space-y-2" data-testid="section-review-checklist">
+                <h3 className="font-semibold">QC checklist</h3>
+                <ul className="space-y-2">
+                  {checklist.map((item) => (
+                    <li key={item.id} className="flex items-start gap-2">
+                      <Checkbox
+                        id={`checklist-${item.id}`}
+                        checked={ticked.has(item.id)}
+                        onCheckedChange={(checked) => toggle(item.id, checked === true)}
+                        className="mt-0.5"
+                        data-testid={`checkbox-checklist-${item.id}`}
+                      />
+                      <label htmlFor={`checklist-${item.id}`} className="text-sm cursor-pointer">
+                        {item.label}
+                        {item.required && <span className="text-muted-foreground"> (required to approve)</span>}
+                        {item.automatic && (
+                          <span className={`block text-xs ${automaticResultStyles[item.automatic].className}`}>
+                            {automaticResultStyles[item.automatic].label}{item.detail && `: ${item.detail}`}
+                          </span>
+                        )}
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            <div>
+              <Label htmlFor="review-comment">{commentRequired ? "Comment" : "Comment (optional)"}</Label>
+              <p className="text-xs text-muted-foreground">{action && commentPrompts[action]}</p>
+              <Textarea
+                id="review-comment"
+                placeholder="Enter a comment..."
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                className="mt-1"
+                data-testid="textarea-review-comment"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="items-center">
+          {qualityErrors.length > 0 ? (
+            <p className="mr-auto text-xs text-destructive">
+              The product breaks a blocking quality rule and can't be approved. Return it for changes instead.
+            </p>
+          ) : action === "approve" && missingRequired.length > 0 && (
+            <p className="mr-auto text-xs text-muted-foreground">
+              Tick the {missingRequired.length} remaining required item{missingRequired.length === 1 ? "" : "s"} to approve.
+            </p>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-review">
+            Cancel
+          </Button>
+          <Button
+            variant={action === "approve" ? "default" : action === "reject" ? "destructive" : "outline"}
+            onClick={confirm}
+            disabled={!canConfirm || isPending}
+            data-testid="button-confirm-review"
+          >
+            {isPending ? "Saving..." : action && ACTION_LABELS[action]}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
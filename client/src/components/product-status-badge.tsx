@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+import { STATUS_LABELS, type ProductStatus } from "@shared/workflow";
+
+interface ProductStatusBadgeProps {
+  status: string;
+}
+
+const statusClassNames: Record<ProductStatus, string> = {
+  draft: "bg-gray-100 text-gray-700 hover:bg-gray-100",
+  pending: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  changes_requested: "bg-orange-100 text-orange-800 hover:bg-orange-100",
+  approved: "bg-primary/10 text-primary hover:bg-primary/10",
+  rejected: "bg-destructive text-destructive-foreground hover:bg-destructive",
+  revoked: "bg-red-100 text-red-800 hover:bg-red-100",
+  recalled: "bg-red-700 text-white hover:bg-red-700",
+};
+
+export default function ProductStatusBadge({ status }: ProductStatusBadgeProps) {
+  const key = status as ProductStatus;
+
+  return (
+    <Badge className={statusClassNames[key] ?? statusClassNames.draft} data-testid={`status-${status}`}>
+      {STATUS_LABELS[key] ?? status}
+    </Badge>
+  );
+}
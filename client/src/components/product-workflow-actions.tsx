@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Ban, Check, MessageSquareWarning, RotateCcw, Send, ShieldAlert, X } from "lucide-react";
+import { useProductTransition } from "@/hooks/use-product-transition";
+import ProductReviewDialog from "./product-review-dialog";
+import { ACTION_LABELS, WORKFLOW_TRANSITIONS, type ProductWithActions, type WorkflowAction } from "@shared/workflow";
+import { CHECKLIST_ACTIONS } from "@shared/review";
+
+interface ProductWorkflowActionsProps {
+  product: ProductWithActions;
+  // Only show icons, for dense list rows
+  compact?: boolean;
+  disabled?: boolean;
+}
+
+const actionStyles: Record<WorkflowAction, { icon: React.ReactNode; variant: "default" | "destructive" | "outline" }> = {
+  submit: { icon: <Send className="h-4 w-4" />, variant: "default" },
+  resubmit: { icon: <RotateCcw className="h-4 w-4" />, variant: "default" },
+  request_changes: { icon: <MessageSquareWarning className="h-4 w-4" />, variant: "outline" },
+  approve: { icon: <Check className="h-4 w-4" />, variant: "default" },
+  reject: { icon: <X className="h-4 w-4" />, variant: "destructive" },
+  revoke: { icon: <Ban className="h-4 w-4" />, variant: "destructive" },
+  recall: { icon: <ShieldAlert className="h-4 w-4" />, variant: "destructive" },
+};
+
+const commentPrompts: Partial<Record<WorkflowAction, string>> = {
+  revoke: "Explain why this approval is being withdrawn. The product will no longer be publicly visible.",
+  recall: "Explain why this product is being recalled.",
+};
+
+export default function ProductWorkflowActions({ product, compact = false, disabled = false }: ProductWorkflowActionsProps) {
+  const [pendingAction, setPendingAction] = useState<WorkflowAction | null>(null);
+  // Review decisions open the review screen instead of the comment prompt
+  const [reviewAction, setReviewAction] = useState<WorkflowAction | null>(null);
+  const [comment, setComment] = useState("");
+  const transitionMutation = useProductTransition(() => {
+    setPendingAction(null);
+    setReviewAction(null);
+    setComment("");
+  });
+
+  const actions = product.allowedActions ?? [];
+  if (actions.length === 0) {
+    return null;
+  }
+
+  const handleAction = (action: WorkflowAction) => {
+    if (CHECKLIST_ACTIONS.includes(action)) {
+      setReviewAction(action);
+      return;
+    }
+    const transition = WORKFLOW_TRANSITIONS.find((t) => t.action === action);
+    if (transition?.requiresComment) {
+      setPendingAction(action);
+      return;
+    }
+    transitionMutation.mutate({ productId: product.id, action });
+  };
+
+  const confirmAction = () => {
+    if (pendingAction && comment.trim()) {
+      transitionMutation.mutate({ productId: product.id, action: pendingAction, comment: comment.trim() });
+    }
+  };
+
+  return (
+    <>
+      {actions.map((action) => (
+        <Button
+          key={action}
+          size="sm"
+          variant={actionStyles[action].variant}
+          onClick={() => handleAction(action)}
+          disabled={disabled || transitionMutation.isPending}
+          title={ACTION_LABELS[action]}
+          data-testid={`button-${action.replace("_", "-")}`}
+          className="flex-shrink-0"
+        >
+          {actionStyles[action].icon}
+          {!compact && <span className="ml-1">{ACTION_LABELS[action]}</span>}
+        </Button>
+      ))}
+
+      <ProductReviewDialog
+        product={product}
+        action={reviewAction}
+        onOpenChange={(open) => !open && setReviewAction(null)}
+        onConfirm={({ comment, checklist }) => reviewAction && transitionMutation.mutate({
+          productId: product.id,
+          action: reviewAction,
+          comment,
+          checklist,
+        })}
+        isPending={transitionMutation.isPending}
+      />
+
+      <Dialog
+        open={pendingAction !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPendingAction(null);
+            setComment("");
+          }
+        }}
+      >
+        <DialogContent data-testid="dialog-workflow-comment">
+          <DialogHeader>
+            <DialogTitle>{pendingAction && `${ACTION_LABELS[pendingAction]} Product`}</DialogTitle>
+            <DialogDescription>{pendingAction && commentPrompts[pendingAction]}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="workflow-comment">Comment</Label>
+              <Textarea
+                id="workflow-comment"
+                placeholder="Enter a comment..."
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                className="mt-1"
+                data-testid="textarea-workflow-comment"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setPendingAction(null)}
+              data-testid="button-cancel-workflow"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant={pendingAction ? actionStyles[pendingAction].variant : "default"}
+              onClick={confirmAction}
+              disabled={!comment.trim() || transitionMutation.isPending}
+              data-testid="button-confirm-workflow"
+            >
+              {transitionMutation.isPending ? "Saving..." : pendingAction && ACTION_LABELS[pendingAction]}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
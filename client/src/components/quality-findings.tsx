@@ -0,0 +1,39 @@
+import { cn } from "@/lib/utils";
+import { AlertTriangle, XCircle } from "lucide-react";
+import type { QualityFinding } from "@shared/quality-rules";
+
+interface QualityFindingsProps {
+  findings: QualityFinding[];
+  className?: string;
+}
+
+// Quality rule errors and warnings for a product, errors first
+export default function QualityFindings({ findings, className }: QualityFindingsProps) {
+  if (findings.length === 0) {
+    return null;
+  }
+  const sorted = [
+    ...findings.filter((finding) => finding.severity === "error"),
+    ...findings.filter((finding) => finding.severity === "warning"),
+  ];
+
+  return (
+    <ul className={cn("space-y-1 rounded-md border p-3 text-sm", className)} data-testid="list-quality-findings">
+      {sorted.map((finding, index) => (
+        <li
+          key={`${finding.ruleId ?? "basic"}-${finding.field}-${index}`}
+          className={cn("flex items-start gap-2", finding.severity === "error" ? "text-destructive" : "text-amber-700")}
+          data-testid={`quality-finding-${finding.severity}`}
+        >
+          {finding.severity === "error"
+            ? <XCircle className="h-4 w-4 shrink-0 mt-0.5" aria-label="Error" />
+            : <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" aria-label="Warning" />}
+          <span>
+            {finding.message}
+            {finding.ruleName && <span className="text-muted-foreground"> ({finding.ruleName})</span>}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,388 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useCropNames } from "@/hooks/use-crops-varieties";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Edit, Plus, ShieldAlert, Trash2 } from "lucide-react";
+import type { QualityRule } from "@shared/schema";
+import {
+  CLASS_TYPES,
+  CLASS_TYPE_LABELS,
+  QUALITY_SEVERITIES,
+  QUALITY_SEVERITY_LABELS,
+  REQUIRABLE_FIELDS,
+  describeRuleScope,
+  qualityRuleSchema,
+  type QualityRuleInput,
+  type QualitySeverity,
+  type RequirableField,
+} from "@shared/quality-rules";
+
+// Select items cannot have an empty value
+const ANY = "__any__";
+
+interface RuleForm {
+  name: string;
+  cropName: string;
+  classType: string;
+  minGermination: string;
+  minGot: string;
+  maxValidityMonths: string;
+  requiredFields: RequirableField[];
+  severity: QualitySeverity;
+  enabled: boolean;
+}
+
+const emptyForm: RuleForm = {
+  name: "",
+  cropName: ANY,
+  classType: ANY,
+  minGermination: "",
+  minGot: "",
+  maxValidityMonths: "",
+  requiredFields: [],
+  severity: "error",
+  enabled: true,
+};
+
+function toForm(rule: QualityRule): RuleForm {
+  return {
+    name: rule.name,
+    cropName: rule.cropName ?? ANY,
+    classType: rule.classType ?? ANY,
+    minGermination: rule.minGermination?.toString() ?? "",
+    minGot: rule.minGot?.toString() ?? "",
+    maxValidityMonths: rule.maxValidityMonths?.toString() ?? "",
+    requiredFields: rule.requiredFields,
+    severity: rule.severity,
+    enabled: rule.enabled,
+  };
+}
+
+function describeLimits(rule: QualityRule): string {
+  const limits = [
+    rule.minGermination !== null && `Germination ≥ ${rule.minGermination}%`,
+    rule.minGot !== null && `GOT ≥ ${rule.minGot}%`,
+    rule.maxValidityMonths !== null && `Valid for ≤ ${rule.maxValidityMonths} months`,
+    rule.requiredFields.length > 0 && `Requires ${rule.requiredFields.map((field) => REQUIRABLE_FIELDS[field] ?? field).join(", ")}`,
+  ];
+  return limits.filter(Boolean).join(" · ");
+}
+
+// Admin-editable limits on product data, checked on create, edit, import and review
+export default function QualityRuleManagement() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<QualityRule | null>(null);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const { data: cropNames = [] } = useCropNames();
+
+  const { data: rules = [], isLoading } = useQuery<QualityRule[]>({
+    queryKey: ["/api/settings/quality-rules"],
+  });
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async (values: QualityRuleInput) => {
+      const res = editing
+        ? await apiRequest("PUT", `/api/settings/quality-rules/${editing.id}`, values)
+        : await apiRequest("POST", "/api/settings/quality-rules", values);
+      return (await res.json()) as QualityRule;
+    },
+    onSuccess: (rule) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/quality-rules"] });
+      toast({ title: editing ? "Quality rule updated" : "Quality rule added", description: rule.name });
+      setDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Quality rule not saved", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (rule: QualityRule) => {
+      await apiRequest("DELETE", `/api/settings/quality-rules/${rule.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/quality-rules"] });
+      toast({ title: "Quality rule deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Quality rule not deleted", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openDialog = (rule: QualityRule | null) => {
+    setEditing(rule);
+    setForm(rule ? toForm(rule) : emptyForm);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (rule: QualityRule) => {
+    if (window.confirm(`Delete the ${rule.name} quality rule? Consider switching it off instead.`)) {
+      deleteRuleMutation.mutate(rule);
+    }
+  };
+
+  const toggleField = (field: RequirableField, checked: boolean) => {
+    setForm((current) => ({
+      ...current,
+      requiredFields: checked ? [...current.requiredFields, field] : current.requiredFields.filter((existing) => existing !== field),
+    }));
+  };
+
+  const validation = qualityRuleSchema.safeParse({
+    ...form,
+    cropName: form.cropName === ANY ? null : form.cropName,
+    classType: form.classType === ANY ? null : form.classType,
+  });
+  // Keep crops that have since been removed from the catalogue selectable
+  const cropOptions = form.cropName !== ANY && !cropNames.includes(form.cropName) ? [form.cropName, ...cropNames] : cropNames;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-foreground">Quality Rules</h2>
+        <Button onClick={() => openDialog(null)} data-testid="button-add-quality-rule">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5" />
+            Rules
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Products are checked against every enabled rule for their crop and class when they are entered, edited,
+            imported and reviewed. Blocking errors stop a product from being submitted, approved or imported; warnings are
+            shown to the operator and the reviewer. Germination and GOT must always be between 0 and 100, and Valid Upto
+            must always be after the Date of Packing.
+          </p>
+
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading quality rules...</p>
+          ) : rules.length === 0 ? (
+            <p className="text-muted-foreground">No quality rules added yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Limits</TableHead>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id} data-testid={`row-quality-rule-${rule.id}`}>
+                    <TableCell className="font-medium">{rule.name}</TableCell>
+                    <TableCell className="first-letter:uppercase">{describeRuleScope(rule)}</TableCell>
+                    <TableCell className="text-xs">{describeLimits(rule)}</TableCell>
+                    <TableCell>
+                      <Badge variant={rule.severity === "error" ? "destructive" : "outline"}>
+                        {QUALITY_SEVERITY_LABELS[rule.severity] ?? rule.severity}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={rule.enabled ? "default" : "secondary"}>{rule.enabled ? "On" : "Off"}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button size="sm" variant="outline" onClick={() => openDialog(rule)} data-testid={`button-edit-quality-rule-${rule.id}`}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDelete(rule)}
+                          disabled={deleteRuleMutation.isPending}
+                          data-testid={`button-delete-quality-rule-${rule.id}`}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-quality-rule">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Quality Rule" : "Add Quality Rule"}</DialogTitle>
+            <DialogDescription>Leave a limit empty to not check it.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="quality-rule-name">Name</Label>
+              <Input
+                id="quality-rule-name"
+                value={form.name}
+                placeholder="e.g. Certified paddy"
+                onChange={(e) => setForm((current) => ({ ...current, name: e.target.value }))}
+                className="mt-1"
+                data-testid="input-quality-rule-name"
+              />
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <Label>Crop</Label>
+                <Select value={form.cropName} onValueChange={(cropName) => setForm((current) => ({ ...current, cropName }))}>
+                  <SelectTrigger className="mt-1" data-testid="select-quality-rule-crop">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All crops</SelectItem>
+                    {cropOptions.map((crop) => (
+                      <SelectItem key={crop} value={crop}>{crop}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Class</Label>
+                <Select value={form.classType} onValueChange={(classType) => setForm((current) => ({ ...current, classType }))}>
+                  <SelectTrigger className="mt-1" data-testid="select-quality-rule-class">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All classes</SelectItem>
+                    {CLASS_TYPES.map((classType) => (
+                      <SelectItem key={classType} value={classType}>{CLASS_TYPE_LABELS[classType]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <Label htmlFor="quality-rule-germination">Minimum germination (%)</Label>
+                <Input
+                  id="quality-rule-germination"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.1"
+                  value={form.minGermination}
+                  onChange={(e) => setForm((current) => ({ ...current, minGermination: e.target.value }))}
+                  className="mt-1"
+                  data-testid="input-quality-rule-germination"
+                />
+              </div>
+              <div>
+                <Label htmlFor="quality-rule-got">Minimum GOT (%)</Label>
+                <Input
+                  id="quality-rule-got"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.1"
+                  value={form.minGot}
+                  onChange={(e) => setForm((current) => ({ ...current, minGot: e.target.value }))}
+                  className="mt-1"
+                  data-testid="input-quality-rule-got"
+                />
+              </div>
+              <div>
+                <Label htmlFor="quality-rule-validity">Maximum validity (months)</Label>
+                <Input
+                  id="quality-rule-validity"
+                  type="number"
+                  min={1}
+                  step="1"
+                  value={form.maxValidityMonths}
+                  onChange={(e) => setForm((current) => ({ ...current, maxValidityMonths: e.target.value }))}
+                  className="mt-1"
+                  data-testid="input-quality-rule-validity"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label>Required fields</Label>
+              <div className="mt-2 grid gap-2 sm:grid-cols-2 md:grid-cols-3">
+                {(Object.keys(REQUIRABLE_FIELDS) as RequirableField[]).map((field) => (
+                  <label key={field} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={form.requiredFields.includes(field)}
+                      onCheckedChange={(checked) => toggleField(field, checked === true)}
+                      data-testid={`checkbox-quality-rule-field-${field}`}
+                    />
+                    {REQUIRABLE_FIELDS[field]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <Label>When broken</Label>
+                <Select
+                  value={form.severity}
+                  onValueChange={(severity) => setForm((current) => ({ ...current, severity: severity as QualitySeverity }))}
+                >
+                  <SelectTrigger className="mt-1" data-testid="select-quality-rule-severity">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {QUALITY_SEVERITIES.map((severity) => (
+                      <SelectItem key={severity} value={severity}>{QUALITY_SEVERITY_LABELS[severity]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 pt-6">
+                <Switch
+                  id="quality-rule-enabled"
+                  checked={form.enabled}
+                  onCheckedChange={(enabled) => setForm((current) => ({ ...current, enabled }))}
+                  data-testid="switch-quality-rule-enabled"
+                />
+                <Label htmlFor="quality-rule-enabled">Enabled</Label>
+              </div>
+            </div>
+
+            {!validation.success && (
+              <p className="text-sm text-destructive">{validation.error.errors[0]?.message}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => validation.success && saveRuleMutation.mutate(validation.data)}
+              disabled={!validation.success || saveRuleMutation.isPending}
+              data-testid="button-save-quality-rule"
+            >
+              {saveRuleMutation.isPending ? "Saving..." : "Save Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
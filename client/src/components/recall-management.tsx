@@ -0,0 +1,333 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useCropsAndVarieties } from "@/hooks/use-crops-varieties";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ShieldAlert, Truck } from "lucide-react";
+import type { ProductRecall, ProductRecallWithCreator, RecallScope } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import DispatchDestinations from "./dispatch-destinations";
+
+const scopeLabels: Record<RecallScope, string> = {
+  product: "Single Product",
+  lot: "Lot Number",
+  prodCode: "Product Code",
+  cropVariety: "Crop / Variety",
+};
+
+const emptyForm = {
+  uniqueId: "",
+  lotNo: "",
+  prodCode: "",
+  cropName: "",
+  varietyCode: "",
+  reason: "",
+  instructions: "",
+  recallDate: new Date().toISOString().slice(0, 10),
+};
+
+function describeTarget(recall: ProductRecall) {
+  switch (recall.scope) {
+    case "product":
+      return "Single product";
+    case "lot":
+      return `Lot ${recall.lotNo}`;
+    case "prodCode":
+      return `Product code ${recall.prodCode}`;
+    case "cropVariety":
+      return `${recall.cropName} / ${recall.varietyCode}`;
+    default:
+      return recall.scope;
+  }
+}
+
+export default function RecallManagement() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canRecall = hasPermission(user, "recalls.manage");
+  const [scope, setScope] = useState<RecallScope>("lot");
+  const [form, setForm] = useState(emptyForm);
+  const [dealersFor, setDealersFor] = useState<ProductRecall | null>(null);
+
+  const { data: recalls = [], isLoading } = useQuery<ProductRecallWithCreator[]>({
+    queryKey: ["/api/recalls"],
+  });
+  const { data: cropsWithVarieties = [] } = useCropsAndVarieties();
+  const selectedCrop = cropsWithVarieties.find((crop) => crop.name === form.cropName);
+
+  const createRecallMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/recalls", {
+        scope,
+        uniqueId: scope === "product" ? form.uniqueId.trim() : undefined,
+        lotNo: scope === "lot" ? form.lotNo : undefined,
+        prodCode: scope === "prodCode" ? form.prodCode : undefined,
+        cropName: scope === "cropVariety" ? form.cropName : undefined,
+        varietyCode: scope === "cropVariety" ? form.varietyCode : undefined,
+        reason: form.reason,
+        instructions: form.instructions || null,
+        recallDate: form.recallDate,
+      });
+      return (await res.json()) as ProductRecall;
+    },
+    onSuccess: (recall) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recalls"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setForm(emptyForm);
+      toast({
+        title: "Recall issued",
+        description: `${recall.affectedCount} approved product(s) have been recalled.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Recall failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateField = (field: keyof typeof emptyForm, value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const hasTarget =
+    scope === "product" ? !!form.uniqueId.trim() :
+    scope === "lot" ? !!form.lotNo.trim() :
+    scope === "prodCode" ? !!form.prodCode.trim() :
+    !!form.cropName && !!form.varietyCode;
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-foreground">Product Recalls</h2>
+
+      {canRecall && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5 text-destructive" />
+              Issue a Recall
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              All approved products matching the recall are marked as recalled, and their public tracking page shows a
+              warning with the reason, instructions and customer care contact.
+            </p>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <Label>Recall By</Label>
+                <Select value={scope} onValueChange={(value) => setScope(value as RecallScope)}>
+                  <SelectTrigger className="mt-1" data-testid="select-recall-scope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(scopeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {scope === "product" && (
+                <div>
+                  <Label htmlFor="recall-unique-id">Product Unique ID</Label>
+                  <Input
+                    id="recall-unique-id"
+                    value={form.uniqueId}
+                    onChange={(e) => updateField("uniqueId", e.target.value)}
+                    className="mt-1 font-mono"
+                    data-testid="input-recall-unique-id"
+                  />
+                </div>
+              )}
+              {scope === "lot" && (
+                <div>
+                  <Label htmlFor="recall-lot-no">Lot Number</Label>
+                  <Input
+                    id="recall-lot-no"
+                    value={form.lotNo}
+                    onChange={(e) => updateField("lotNo", e.target.value)}
+                    className="mt-1"
+                    data-testid="input-recall-lot-no"
+                  />
+                </div>
+              )}
+              {scope === "prodCode" && (
+                <div>
+                  <Label htmlFor="recall-prod-code">Product Code</Label>
+                  <Input
+                    id="recall-prod-code"
+                    value={form.prodCode}
+                    onChange={(e) => updateField("prodCode", e.target.value)}
+                    className="mt-1"
+                    data-testid="input-recall-prod-code"
+                  />
+                </div>
+              )}
+              {scope === "cropVariety" && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label>Crop</Label>
+                    <Select
+                      value={form.cropName}
+                      onValueChange={(value) => setForm((current) => ({ ...current, cropName: value, varietyCode: "" }))}
+                    >
+                      <SelectTrigger className="mt-1" data-testid="select-recall-crop">
+                        <SelectValue placeholder="Select crop" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {cropsWithVarieties.map((crop) => (
+                          <SelectItem key={crop.id} value={crop.name}>{crop.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>Variety</Label>
+                    <Select
+                      value={form.varietyCode}
+                      onValueChange={(value) => updateField("varietyCode", value)}
+                      disabled={!selectedCrop}
+                    >
+                      <SelectTrigger className="mt-1" data-testid="select-recall-variety">
+                        <SelectValue placeholder="Select variety" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {selectedCrop?.varieties.map((variety) => (
+                          <SelectItem key={variety.id} value={variety.code}>{variety.code}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <Label htmlFor="recall-date">Recall Date</Label>
+                <Input
+                  id="recall-date"
+                  type="date"
+                  value={form.recallDate}
+                  onChange={(e) => updateField("recallDate", e.target.value)}
+                  className="mt-1"
+                  data-testid="input-recall-date"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="recall-reason">Reason</Label>
+              <Textarea
+                id="recall-reason"
+                placeholder="e.g. Germination below the labelled minimum in post-market testing"
+                value={form.reason}
+                onChange={(e) => updateField("reason", e.target.value)}
+                className="mt-1"
+                data-testid="textarea-recall-reason"
+              />
+            </div>
+            <div>
+              <Label htmlFor="recall-instructions">Instructions for Farmers (optional)</Label>
+              <Textarea
+                id="recall-instructions"
+                placeholder="Stop using this product and return unused packets to your dealer for a replacement or refund."
+                value={form.instructions}
+                onChange={(e) => updateField("instructions", e.target.value)}
+                className="mt-1"
+                data-testid="textarea-recall-instructions"
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                variant="destructive"
+                onClick={() => createRecallMutation.mutate()}
+                disabled={!hasTarget || !form.reason.trim() || createRecallMutation.isPending}
+                data-testid="button-issue-recall"
+              >
+                {createRecallMutation.isPending ? "Recalling..." : "Issue Recall"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recall History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading recalls...</p>
+          ) : recalls.length === 0 ? (
+            <p className="text-muted-foreground">No recalls have been issued.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Recalled</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Products</TableHead>
+                  <TableHead>Issued By</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recalls.map((recall) => (
+                  <TableRow key={recall.id} data-testid={`row-recall-${recall.id}`}>
+                    <TableCell>{new Date(recall.recallDate).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="mr-2">{scopeLabels[recall.scope as RecallScope] ?? recall.scope}</Badge>
+                      {describeTarget(recall)}
+                    </TableCell>
+                    <TableCell className="max-w-xs">{recall.reason}</TableCell>
+                    <TableCell>{recall.affectedCount}</TableCell>
+                    <TableCell>{recall.createdByUsername || "—"}</TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setDealersFor(recall)}
+                        data-testid={`button-recall-dealers-${recall.id}`}
+                      >
+                        <Truck className="h-3 w-3 mr-1" />
+                        Dealers
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dealersFor !== null} onOpenChange={(open) => !open && setDealersFor(null)}>
+        <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto" data-testid="dialog-recall-dealers">
+          <DialogHeader>
+            <DialogTitle>Where the Recalled Stock Went</DialogTitle>
+            <DialogDescription>
+              {dealersFor && `${describeTarget(dealersFor)}: dealers that received the affected lots`}
+            </DialogDescription>
+          </DialogHeader>
+          {dealersFor && (
+            <DispatchDestinations queryKey={["/api/recalls", dealersFor.id, "dispatches"]} showLot />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { cn } from "@/lib/utils";
+import { CheckSquare, Square } from "lucide-react";
+import type { AutomaticResult, ChecklistResult } from "@shared/review";
+
+interface ReviewChecklistResultsProps {
+  results: ChecklistResult[];
+  className?: string;
+}
+
+export const automaticResultStyles: Record<AutomaticResult, { label: string; className: string }> = {
+  pass: { label: "Data passes", className: "text-green-700" },
+  fail: { label: "Data fails", className: "text-destructive" },
+  not_applicable: { label: "Not applicable", className: "text-muted-foreground" },
+};
+
+// QC checklist as ticked by the reviewer, stored with a review decision
+export default function ReviewChecklistResults({ results, className }: ReviewChecklistResultsProps) {
+  return (
+    <ul className={cn("space-y-1 text-xs", className)} data-testid="list-checklist-results">
+      {results.map((result) => (
+        <li key={result.itemId} className="flex items-start gap-2">
+          {result.checked
+            ? <CheckSquare className="h-3.5 w-3.5 shrink-0 text-green-700" aria-label="Ticked" />
+            : <Square className="h-3.5 w-3.5 shrink-0 text-muted-foreground" aria-label="Not ticked" />}
+          <span>
+            {result.label}
+            {result.required && <span className="text-muted-foreground"> (required)</span>}
+            {result.automatic && (
+              <span className={automaticResultStyles[result.automatic].className}>
+                {" "}· {automaticResultStyles[result.automatic].label}{result.detail && `: ${result.detail}`}
+              </span>
+            )}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
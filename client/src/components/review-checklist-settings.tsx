@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ClipboardCheck, Plus, Trash2 } from "lucide-react";
+import {
+  MAX_CHECKLIST_ITEMS,
+  reviewChecklistSettingsSchema,
+  type ChecklistItem,
+  type ReviewChecklistSettings as Settings,
+} from "@shared/review";
+
+type SettingsResponse = Settings & { updatedAt: string | null };
+
+// QC checklist items reviewers tick before approving, edited in the QC Checklist tab
+export default function ReviewChecklistSettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<Settings | null>(null);
+
+  const { data: settings, isLoading } = useQuery<SettingsResponse>({
+    queryKey: ["/api/settings/review-checklist"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setForm({ minGermination: settings.minGermination, items: settings.items });
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: Settings) => {
+      const res = await apiRequest("PUT", "/api/settings/review-checklist", values);
+      return (await res.json()) as SettingsResponse;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/settings/review-checklist"], saved);
+      toast({ title: "QC checklist saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "QC checklist not saved", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !form) {
+    return <p className="text-sm text-muted-foreground">Loading QC checklist...</p>;
+  }
+
+  const validation = reviewChecklistSettingsSchema.safeParse(form);
+
+  const updateItem = (id: string, changes: Partial<ChecklistItem>) => {
+    setForm({ ...form, items: form.items.map((item) => item.id === id ? { ...item, ...changes } : item) });
+  };
+
+  const addItem = () => {
+    const id = `custom-${Date.now().toString(36)}`;
+    setForm({ ...form, items: [...form.items, { id, label: "", check: null, enabled: true, required: false }] });
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-foreground">QC Checklist</h2>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Review Checklist
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Reviewers tick these items when approving, returning or rejecting a product, and the ticks are kept in the
+            product history. Required items must be ticked before a product can be approved. Automatic items also show
+            whether the product data passes, as a hint for the reviewer.
+          </p>
+
+          <div className="max-w-xs">
+            <Label htmlFor="checklist-min-germination">Minimum germination (%)</Label>
+            <Input
+              id="checklist-min-germination"
+              type="number"
+              min={0}
+              max={100}
+              value={form.minGermination}
+              onChange={(e) => setForm({ ...form, minGermination: Number(e.target.value) })}
+              className="mt-1"
+              data-testid="input-checklist-min-germination"
+            />
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-center">Shown</TableHead>
+                <TableHead className="text-center">Required</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {form.items.map((item) => (
+                <TableRow key={item.id} data-testid={`row-checklist-item-${item.id}`}>
+                  <TableCell>
+                    <Input
+                      value={item.label}
+                      onChange={(e) => updateItem(item.id, { label: e.target.value })}
+                      placeholder="What the reviewer checks"
+                      aria-label="Checklist item"
+                      data-testid={`input-checklist-label-${item.id}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                    {item.check ? "Automatic" : "Manual"}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Switch
+                      checked={item.enabled}
+                      onCheckedChange={(enabled) => updateItem(item.id, { enabled })}
+                      aria-label={`Show ${item.label}`}
+                      data-testid={`switch-checklist-enabled-${item.id}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Switch
+                      checked={item.required}
+                      onCheckedChange={(required) => updateItem(item.id, { required })}
+                      disabled={!item.enabled}
+                      aria-label={`Require ${item.label}`}
+                      data-testid={`switch-checklist-required-${item.id}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {/* Automatic checks can be hidden but not removed */}
+                    {!item.check && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setForm({ ...form, items: form.items.filter((other) => other.id !== item.id) })}
+                        aria-label="Remove item"
+                        data-testid={`button-remove-checklist-item-${item.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {!validation.success && (
+            <p className="text-sm text-destructive">{validation.error.errors[0]?.message}</p>
+          )}
+
+          <div className="flex justify-between">
+            <Button
+              variant="outline"
+              onClick={addItem}
+              disabled={form.items.length >= MAX_CHECKLIST_ITEMS}
+              data-testid="button-add-checklist-item"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Item
+            </Button>
+            <Button
+              onClick={() => validation.success && saveMutation.mutate(validation.data)}
+              disabled={!validation.success || saveMutation.isPending}
+              data-testid="button-save-checklist"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Checklist"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
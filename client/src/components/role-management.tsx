@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Edit, KeyRound, Plus, RotateCcw, Trash2 } from "lucide-react";
+import {
+  PERMISSIONS,
+  PERMISSION_GROUPS,
+  PERMISSION_LABELS,
+  SUPER_ADMIN_ROLE,
+  type Permission,
+  type RoleDefinition,
+} from "@shared/permissions";
+
+interface RoleForm {
+  name: string;
+  label: string;
+  description: string;
+  permissions: Permission[];
+}
+
+const emptyForm: RoleForm = { name: "", label: "", description: "", permissions: [] };
+
+interface RoleManagementProps {
+  // Number of users holding each role, shown next to it
+  userCounts: Record<string, number>;
+}
+
+// Role editor shown in the User Management tab
+export default function RoleManagement({ userCounts }: RoleManagementProps) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<RoleDefinition | null>(null);
+  const [form, setForm] = useState<RoleForm>(emptyForm);
+
+  const { data: roles = [], isLoading } = useQuery<RoleDefinition[]>({
+    queryKey: ["/api/roles"],
+  });
+
+  const saveRoleMutation = useMutation({
+    mutationFn: async () => {
+      const res = editing
+        ? await apiRequest("PUT", `/api/roles/${editing.name}`, form)
+        : await apiRequest("POST", "/api/roles", form);
+      return (await res.json()) as RoleDefinition;
+    },
+    onSuccess: (role) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      toast({
+        title: editing ? "Role updated" : "Role created",
+        description: `${role.label} has ${role.permissions.length} permission(s). Users with this role get the change on their next request.`,
+      });
+      setDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Role not saved",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteRoleMutation = useMutation({
+    mutationFn: async (role: RoleDefinition) => {
+      await apiRequest("DELETE", `/api/roles/${role.name}`);
+      return role;
+    },
+    onSuccess: (role) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      toast({ title: role.builtIn ? "Role restored to its defaults" : "Role deleted", description: role.label });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Role not changed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (role: RoleDefinition | null) => {
+    setEditing(role);
+    setForm(role
+      ? { name: role.name, label: role.label, description: role.description ?? "", permissions: role.permissions }
+      : emptyForm);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (role: RoleDefinition) => {
+    const message = role.builtIn
+      ? `Restore ${role.label} to its default permissions?`
+      : `Delete the ${role.label} role?`;
+    if (window.confirm(message)) {
+      deleteRoleMutation.mutate(role);
+    }
+  };
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setForm((current) => ({
+      ...current,
+      permissions: checked
+        ? PERMISSIONS.filter((p) => p === permission || current.permissions.includes(p))
+        : current.permissions.filter((p) => p !== permission),
+    }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Roles &amp; Permissions
+          </CardTitle>
+          <Button variant="outline" onClick={() => openDialog(null)} data-testid="button-add-role">
+            <Plus className="h-4 w-4 mr-2" />
+            New Role
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading roles...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Role</TableHead>
+                <TableHead>Permissions</TableHead>
+                <TableHead className="text-right">Users</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {roles.map((role) => (
+                <TableRow key={role.name} data-testid={`row-role-${role.name}`}>
+                  <TableCell>
+                    <p className="font-medium">
+                      {role.label}
+                      {role.builtIn && <Badge variant="secondary" className="ml-2">Built-in</Badge>}
+                    </p>
+                    <p className="font-mono text-xs text-muted-foreground">{role.name}</p>
+                    {role.description && <p className="text-xs text-muted-foreground">{role.description}</p>}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {role.name === SUPER_ADMIN_ROLE
+                      ? "All permissions"
+                      : role.permissions.length === 0
+                        ? "None"
+                        : role.permissions.map((permission) => PERMISSION_LABELS[permission]).join(", ")}
+                  </TableCell>
+                  <TableCell className="text-right">{userCounts[role.name] ?? 0}</TableCell>
+                  <TableCell>
+                    {role.name !== SUPER_ADMIN_ROLE && (
+                      <div className="flex justify-end gap-1">
+                        <Button size="sm" variant="outline" onClick={() => openDialog(role)} data-testid={`button-edit-role-${role.name}`}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDelete(role)}
+                          disabled={deleteRoleMutation.isPending}
+                          title={role.builtIn ? "Restore defaults" : "Delete role"}
+                          data-testid={`button-delete-role-${role.name}`}
+                        >
+                          {role.builtIn ? <RotateCcw className="h-3 w-3" /> : <Trash2 className="h-3 w-3" />}
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-role">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.label}` : "New Role"}</DialogTitle>
+            <DialogDescription>
+              Users without "View and export all products" only work with the products they submitted themselves.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label htmlFor="role-label">Label</Label>
+              <Input
+                id="role-label"
+                value={form.label}
+                onChange={(e) => setForm((current) => ({ ...current, label: e.target.value }))}
+                className="mt-1"
+                data-testid="input-role-label"
+              />
+            </div>
+            <div>
+              <Label htmlFor="role-name">Name</Label>
+              <Input
+                id="role-name"
+                value={form.name}
+                placeholder="e.g. seed_analyst"
+                onChange={(e) => setForm((current) => ({ ...current, name: e.target.value }))}
+                disabled={!!editing}
+                className="mt-1 font-mono"
+                data-testid="input-role-name"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="role-description">Description</Label>
+              <Input
+                id="role-description"
+                value={form.description}
+                onChange={(e) => setForm((current) => ({ ...current, description: e.target.value }))}
+                className="mt-1"
+                data-testid="input-role-description"
+              />
+            </div>
+          </div>
+          <div className="space-y-4">
+            {PERMISSION_GROUPS.map((group) => (
+              <div key={group.label}>
+                <p className="text-sm font-semibold mb-1">{group.label}</p>
+                <div className="grid gap-1 md:grid-cols-2">
+                  {group.permissions.map((permission) => (
+                    <div key={permission} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        id={`role-permission-${permission}`}
+                        checked={form.permissions.includes(permission)}
+                        onCheckedChange={(checked) => togglePermission(permission, checked === true)}
+                        data-testid={`checkbox-permission-${permission}`}
+                      />
+                      <label htmlFor={`role-permission-${permission}`} className="cursor-pointer">
+                        {PERMISSION_LABELS[permission]}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveRoleMutation.mutate()}
+              disabled={!form.label.trim() || !form.name.trim() || saveRoleMutation.isPending}
+              data-testid="button-save-role"
+            >
+              {saveRoleMutation.isPending ? "Saving..." : "Save Role"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,13 @@
+import PasswordPolicySettings from "@/components/password-policy-settings";
+import TwoFactorPolicySettings from "@/components/two-factor-policy-settings";
+
+// Sign-in rules for all users, shown in the Security tab
+export default function SecuritySettings() {
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-foreground">Security</h2>
+      <PasswordPolicySettings />
+      <TwoFactorPolicySettings />
+    </div>
+  );
+}
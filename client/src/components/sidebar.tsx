@@ -4,6 +4,7 @@ import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Sprout, LogOut, Menu, X } from "lucide-react";
 import { cn } from "@/lib/utils";
+import NotificationBell from "@/components/notification-bell";
 import logoUrl from "@assets/nbil-logo-a_1762228411331.png";
 
 export interface SidebarItem {
@@ -73,9 +74,12 @@ export default function Sidebar({
 
           {/* User Info */}
           <div className="px-6 py-4 border-b border-border">
-            <div className="text-sm">
-              <p className="text-muted-foreground">Welcome,</p>
-              <p className="font-medium text-foreground truncate">{userName}</p>
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-sm min-w-0">
+                <p className="text-muted-foreground">Welcome,</p>
+                <p className="font-medium text-foreground truncate">{userName}</p>
+              </div>
+              <NotificationBell />
             </div>
           </div>
 
@@ -0,0 +1,467 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowRightLeft, History, Search, Warehouse } from "lucide-react";
+import type { StockBalance, StockMovementWithLines } from "@shared/schema";
+import {
+  STOCK_MOVEMENT_LABELS,
+  STOCK_MOVEMENT_SIDES,
+  STOCK_MOVEMENT_TYPES,
+  type StockMovementType,
+} from "@shared/inventory";
+import { hasPermission } from "@shared/permissions";
+
+// Select items cannot have an empty value
+const ALL_LOCATIONS = "__all__";
+
+const emptyForm = {
+  productUniqueId: "",
+  quantity: "",
+  packets: "",
+  newPackets: "",
+  fromLocation: "",
+  fromStack: "",
+  toLocation: "",
+  toStack: "",
+  reference: "",
+  note: "",
+};
+
+function formatQuantity(value: string | number) {
+  return Number(value).toLocaleString("en-IN", { maximumFractionDigits: 2 });
+}
+
+function describePlace(location: string, stackNo: string) {
+  return stackNo ? `${location || "Unassigned"} / ${stackNo}` : location || "Unassigned";
+}
+
+export default function StockManagement() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canRecord = hasPermission(user, "stock.manage");
+  const [type, setType] = useState<StockMovementType>("receipt");
+  const [form, setForm] = useState(emptyForm);
+  const [search, setSearch] = useState("");
+  const [location, setLocation] = useState(ALL_LOCATIONS);
+  const [historyFor, setHistoryFor] = useState<StockBalance | null>(null);
+
+  const { data: balances = [], isLoading } = useQuery<StockBalance[]>({
+    queryKey: ["/api/inventory/stock"],
+  });
+  const { data: movements = [], isLoading: movementsLoading } = useQuery<StockMovementWithLines[]>({
+    queryKey: ["/api/products", historyFor?.productId, "movements"],
+    enabled: !!historyFor,
+  });
+
+  const sides = STOCK_MOVEMENT_SIDES[type];
+
+  const movementMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/inventory/movements", {
+        type,
+        productUniqueId: form.productUniqueId.trim(),
+        quantity: form.quantity,
+        packets: form.packets,
+        newPackets: type === "rebag" ? form.newPackets : undefined,
+        fromLocation: sides.from ? form.fromLocation : undefined,
+        fromStack: sides.from ? form.fromStack : undefined,
+        toLocation: sides.to ? form.toLocation : undefined,
+        toStack: sides.to ? form.toStack : undefined,
+        reference: form.reference || undefined,
+        note: form.note || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: "Movement recorded",
+        description: `${STOCK_MOVEMENT_LABELS[type]} of ${form.quantity} for ${form.productUniqueId.trim()} saved.`,
+      });
+      setForm(emptyForm);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Movement not recorded",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateField = (field: keyof typeof emptyForm, value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  // Prefills the form to move stock out of a balance row
+  const startMovementFrom = (balance: StockBalance, movementType: StockMovementType) => {
+    setType(movementType);
+    setForm({
+      ...emptyForm,
+      productUniqueId: balance.uniqueId,
+      fromLocation: balance.location,
+      fromStack: balance.stackNo,
+      toLocation: movementType === "rebag" ? balance.location : "",
+      toStack: movementType === "rebag" ? balance.stackNo : "",
+    });
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const locations = Array.from(new Set(balances.map((balance) => balance.location))).sort();
+  const term = search.trim().toLowerCase();
+  const visibleBalances = balances.filter((balance) =>
+    (location === ALL_LOCATIONS || balance.location === location) &&
+    (!term || [balance.uniqueId, balance.product, balance.marketCode, balance.lotNo, balance.stackNo]
+      .some((value) => value?.toLowerCase().includes(term)))
+  );
+  const totalsByLocation = new Map<string, { quantity: number; packets: number }>();
+  for (const balance of visibleBalances) {
+    const totals = totalsByLocation.get(balance.location) ?? { quantity: 0, packets: 0 };
+    totals.quantity += Number(balance.quantity);
+    totals.packets += Number(balance.packets);
+    totalsByLocation.set(balance.location, totals);
+  }
+
+  const canSubmit = !!form.productUniqueId.trim() && Number(form.quantity) > 0 &&
+    (!sides.from || !!form.fromLocation.trim()) && (!sides.to || !!form.toLocation.trim());
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-foreground">Stock</h2>
+
+      {canRecord && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowRightLeft className="h-5 w-5" />
+              Record a Movement
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Stock is only changed through movements. A product's remaining quantity is the sum of its movements and
+              updates as soon as one is recorded.
+            </p>
+            <div className="grid gap-4 md:grid-cols-4">
+              <div>
+                <Label>Movement</Label>
+                <Select value={type} onValueChange={(value) => setType(value as StockMovementType)}>
+                  <SelectTrigger className="mt-1" data-testid="select-movement-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STOCK_MOVEMENT_TYPES.map((movementType) => (
+                      <SelectItem key={movementType} value={movementType}>{STOCK_MOVEMENT_LABELS[movementType]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="movement-unique-id">Product Unique ID</Label>
+                <Input
+                  id="movement-unique-id"
+                  value={form.productUniqueId}
+                  onChange={(e) => updateField("productUniqueId", e.target.value)}
+                  className="mt-1 font-mono"
+                  data-testid="input-movement-unique-id"
+                />
+              </div>
+              <div>
+                <Label htmlFor="movement-quantity">Quantity</Label>
+                <Input
+                  id="movement-quantity"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.quantity}
+                  onChange={(e) => updateField("quantity", e.target.value)}
+                  className="mt-1"
+                  data-testid="input-movement-quantity"
+                />
+              </div>
+              <div className={type === "rebag" ? "grid grid-cols-2 gap-2" : ""}>
+                <div>
+                  <Label htmlFor="movement-packets">{type === "rebag" ? "Packets Before" : "Packets"}</Label>
+                  <Input
+                    id="movement-packets"
+                    type="number"
+                    min={0}
+                    value={form.packets}
+                    onChange={(e) => updateField("packets", e.target.value)}
+                    className="mt-1"
+                    data-testid="input-movement-packets"
+                  />
+                </div>
+                {type === "rebag" && (
+                  <div>
+                    <Label htmlFor="movement-new-packets">Packets After</Label>
+                    <Input
+                      id="movement-new-packets"
+                      type="number"
+                      min={0}
+                      value={form.newPackets}
+                      onChange={(e) => updateField("newPackets", e.target.value)}
+                      className="mt-1"
+                      data-testid="input-movement-new-packets"
+                    />
+                  </div>
+                )}
+              </div>
+
+              {sides.from && (
+                <>
+                  <div>
+                    <Label htmlFor="movement-from-location">From Location</Label>
+                    <Input
+                      id="movement-from-location"
+                      list="stock-locations"
+                      value={form.fromLocation}
+                      onChange={(e) => updateField("fromLocation", e.target.value)}
+                      className="mt-1"
+                      data-testid="input-movement-from-location"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="movement-from-stack">From Stack</Label>
+                    <Input
+                      id="movement-from-stack"
+                      value={form.fromStack}
+                      onChange={(e) => updateField("fromStack", e.target.value)}
+                      className="mt-1"
+                      data-testid="input-movement-from-stack"
+                    />
+                  </div>
+                </>
+              )}
+              {sides.to && (
+                <>
+                  <div>
+                    <Label htmlFor="movement-to-location">{type === "rebag" ? "Location After" : "To Location"}</Label>
+                    <Input
+                      id="movement-to-location"
+                      list="stock-locations"
+                      value={form.toLocation}
+                      onChange={(e) => updateField("toLocation", e.target.value)}
+                      className="mt-1"
+                      data-testid="input-movement-to-location"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="movement-to-stack">{type === "rebag" ? "Stack After" : "To Stack"}</Label>
+                    <Input
+                      id="movement-to-stack"
+                      value={form.toStack}
+                      onChange={(e) => updateField("toStack", e.target.value)}
+                      className="mt-1"
+                      data-testid="input-movement-to-stack"
+                    />
+                  </div>
+                </>
+              )}
+              <datalist id="stock-locations">
+                {locations.filter(Boolean).map((name) => <option key={name} value={name} />)}
+              </datalist>
+
+              <div className="md:col-span-2">
+                <Label htmlFor="movement-reference">Reference (optional)</Label>
+                <Input
+                  id="movement-reference"
+                  placeholder="e.g. GRN or dispatch note number"
+                  value={form.reference}
+                  onChange={(e) => updateField("reference", e.target.value)}
+                  className="mt-1"
+                  data-testid="input-movement-reference"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="movement-note">Note (optional)</Label>
+              <Textarea
+                id="movement-note"
+                value={form.note}
+                onChange={(e) => updateField("note", e.target.value)}
+                className="mt-1"
+                data-testid="textarea-movement-note"
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={() => movementMutation.mutate()}
+                disabled={!canSubmit || movementMutation.isPending}
+                data-testid="button-record-movement"
+              >
+                {movementMutation.isPending ? "Saving..." : `Record ${STOCK_MOVEMENT_LABELS[type]}`}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Warehouse className="h-5 w-5" />
+            Stock by Location
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <div className="relative flex-1 min-w-[200px] max-w-md">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by unique ID, crop, variety, lot or stack..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10"
+                data-testid="input-stock-search"
+              />
+            </div>
+            <Select value={location} onValueChange={setLocation}>
+              <SelectTrigger className="w-48" data-testid="select-stock-location">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>
+                {locations.map((name) => (
+                  <SelectItem key={name || "unassigned"} value={name}>{name || "Unassigned"}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading stock...</p>
+          ) : visibleBalances.length === 0 ? (
+            <p className="text-muted-foreground">No stock found.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Location / Stack</TableHead>
+                  <TableHead>Unique ID</TableHead>
+                  <TableHead>Crop / Variety</TableHead>
+                  <TableHead>Lot No.</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Packets</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleBalances.map((balance, index) => {
+                  const firstOfLocation = index === 0 || visibleBalances[index - 1].location !== balance.location;
+                  const totals = totalsByLocation.get(balance.location)!;
+                  return [
+                    firstOfLocation && (
+                      <TableRow key={`location-${balance.location}`} className="bg-muted/50">
+                        <TableCell colSpan={4} className="font-semibold">{balance.location || "Unassigned"}</TableCell>
+                        <TableCell className="text-right font-semibold">{formatQuantity(totals.quantity)}</TableCell>
+                        <TableCell className="text-right font-semibold">{formatQuantity(totals.packets)}</TableCell>
+                        <TableCell />
+                      </TableRow>
+                    ),
+                    <TableRow
+                      key={`${balance.productId}-${balance.location}-${balance.stackNo}`}
+                      data-testid={`row-stock-${balance.uniqueId}`}
+                    >
+                      <TableCell className="pl-6">{balance.stackNo || "—"}</TableCell>
+                      <TableCell className="font-mono text-xs">{balance.uniqueId}</TableCell>
+                      <TableCell>
+                        {balance.product}
+                        {balance.marketCode && <span className="text-muted-foreground"> / {balance.marketCode}</span>}
+                      </TableCell>
+                      <TableCell>{balance.lotNo}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(balance.quantity)}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(balance.packets)}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          {canRecord && (
+                            <>
+                              <Button size="sm" variant="outline" onClick={() => startMovementFrom(balance, "dispatch")}>
+                                Dispatch
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => startMovementFrom(balance, "transfer")}>
+                                Transfer
+                              </Button>
+                            </>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setHistoryFor(balance)}
+                            data-testid={`button-stock-history-${balance.uniqueId}`}
+                          >
+                            <History className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>,
+                  ];
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={historyFor !== null} onOpenChange={(open) => !open && setHistoryFor(null)}>
+        <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto" data-testid="dialog-stock-history">
+          <DialogHeader>
+            <DialogTitle>Stock Movements</DialogTitle>
+            <DialogDescription>
+              {historyFor && `${historyFor.uniqueId} — ${historyFor.product ?? ""} ${historyFor.marketCode ?? ""}`}
+            </DialogDescription>
+          </DialogHeader>
+          {movementsLoading ? (
+            <p className="text-muted-foreground">Loading movements...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Movement</TableHead>
+                  <TableHead>Changes</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {movements.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(movement.createdAt).toLocaleString("en-IN")}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{STOCK_MOVEMENT_LABELS[movement.type as StockMovementType] ?? movement.type}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {movement.lines.map((line, index) => (
+                        <div key={index} className={Number(line.quantity) < 0 ? "text-red-600" : "text-green-700"}>
+                          {Number(line.quantity) > 0 && "+"}{formatQuantity(line.quantity)}
+                          {Number(line.packets) !== 0 && ` (${Number(line.packets) > 0 ? "+" : ""}${formatQuantity(line.packets)} pkts)`}
+                          {" "}at {describePlace(line.location, line.stackNo)}
+                        </div>
+                      ))}
+                      {movement.note && <p className="text-xs text-muted-foreground">{movement.note}</p>}
+                    </TableCell>
+                    <TableCell>{movement.reference || "—"}</TableCell>
+                    <TableCell>{movement.createdByUsername || "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
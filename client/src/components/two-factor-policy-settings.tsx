@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ShieldCheck } from "lucide-react";
+import type { RoleDefinition } from "@shared/permissions";
+import type { TwoFactorPolicy } from "@shared/two-factor";
+
+type TwoFactorPolicyResponse = TwoFactorPolicy & { updatedAt: string | null };
+
+export default function TwoFactorPolicySettings() {
+  const { toast } = useToast();
+  const [requiredRoles, setRequiredRoles] = useState<string[] | null>(null);
+
+  const { data: policy, isLoading } = useQuery<TwoFactorPolicyResponse>({
+    queryKey: ["/api/settings/two-factor"],
+  });
+
+  const { data: roles = [] } = useQuery<RoleDefinition[]>({
+    queryKey: ["/api/roles"],
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setRequiredRoles(policy.requiredRoles);
+    }
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (roles: string[]) => {
+      const res = await apiRequest("PUT", "/api/settings/two-factor", { requiredRoles: roles });
+      return (await res.json()) as TwoFactorPolicyResponse;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/settings/two-factor"], saved);
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Two-factor policy saved",
+        description: "Users of the selected roles without two-factor authentication must set it up before continuing.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save two-factor policy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !requiredRoles) {
+    return <p className="text-sm text-muted-foreground">Loading two-factor policy...</p>;
+  }
+
+  const toggleRole = (name: string, checked: boolean) => {
+    setRequiredRoles(checked ? [...requiredRoles, name] : requiredRoles.filter((role) => role !== name));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Users with these roles must sign in with a code from an authenticator app. Those who haven't set it up yet are
+          asked to on their next request. Everyone else can turn it on under Account Settings.
+        </p>
+        <div className="grid gap-2 md:grid-cols-2">
+          {roles.map((role) => (
+            <div key={role.name} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                id={`two-factor-role-${role.name}`}
+                checked={requiredRoles.includes(role.name)}
+                onCheckedChange={(checked) => toggleRole(role.name, checked === true)}
+                data-testid={`checkbox-two-factor-role-${role.name}`}
+              />
+              <label htmlFor={`two-factor-role-${role.name}`} className="cursor-pointer">
+                {role.label}
+              </label>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <Button
+            onClick={() => saveMutation.mutate(requiredRoles)}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-two-factor-policy"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Policy"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SessionUser } from "@shared/schema";
+import type { TwoFactorSetup } from "@shared/two-factor";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} data-testid="input-two-factor-code">
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Enroll in, manage and turn off two-factor authentication for the signed-in user
+export default function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  // Shown once; the signed-in user is only refreshed after they confirm saving them, since
+  // that may take them away from a forced setup page
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [enabledUser, setEnabledUser] = useState<SessionUser | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/two-factor"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/setup");
+      return (await res.json()) as TwoFactorSetup;
+    },
+    onSuccess: (result) => {
+      setSetup(result);
+      setCode("");
+    },
+    onError: onError("Could not start setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/enable", { code });
+      return (await res.json()) as { recoveryCodes: string[]; user: SessionUser };
+    },
+    onSuccess: (result) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      setEnabledUser(result.user);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+    },
+    onError: onError("Two-factor authentication not turned on"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/recovery-codes", { code });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (result) => {
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+    },
+    onError: onError("Recovery codes not replaced"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/disable", { password });
+      return (await res.json()) as SessionUser;
+    },
+    onSuccess: (user) => {
+      setPassword("");
+      queryClient.setQueryData(["/api/user"], user);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/two-factor"] });
+      toast({ title: "Two-factor authentication turned off" });
+    },
+    onError: onError("Two-factor authentication not turned off"),
+  });
+
+  const finishRecoveryCodes = () => {
+    setRecoveryCodes(null);
+    if (enabledUser) {
+      queryClient.setQueryData(["/api/user"], enabledUser);
+      setEnabledUser(null);
+      toast({ title: "Two-factor authentication turned on" });
+    }
+  };
+
+  if (isLoading || !status) {
+    return <p className="text-sm text-muted-foreground">Loading two-factor status...</p>;
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm">
+          Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone. They won't be
+          shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-muted rounded-md p-3 select-all" data-testid="list-recovery-codes">
+          {recoveryCodes.map((recoveryCode) => (
+            <li key={recoveryCode}>{recoveryCode}</li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => navigator.clipboard.writeText(recoveryCodes.join("\n"))}>
+            Copy
+          </Button>
+          <Button className="flex-1" onClick={finishRecoveryCodes} data-testid="button-recovery-codes-saved">
+            I've saved these codes
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (setup) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm">
+          Scan this QR code with an authenticator app such as Google Authenticator or Microsoft Authenticator, then
+          enter the 6-digit code it shows.
+        </p>
+        <img src={setup.qrCode} alt="Two-factor QR code" className="h-48 w-48 border rounded-md" data-testid="img-two-factor-qr" />
+        <div className="text-sm">
+          <p className="text-muted-foreground">Can't scan it? Enter this key instead:</p>
+          <p className="font-mono break-all select-all" data-testid="text-two-factor-secret">{setup.secret}</p>
+        </div>
+        <CodeInput value={code} onChange={setCode} />
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setSetup(null)}>
+            Cancel
+          </Button>
+          <Button
+            className="flex-1"
+            onClick={() => enableMutation.mutate()}
+            disabled={code.length !== 6 || enableMutation.isPending}
+            data-testid="button-enable-two-factor"
+          >
+            {enableMutation.isPending ? "Verifying..." : "Turn On"}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!status.enabled) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {status.required
+            ? "Your role requires two-factor authentication. Set it up to continue."
+            : "Protect your account with a code from an authenticator app in addition to your password."}
+        </p>
+        <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-two-factor">
+          {setupMutation.isPending ? "Starting..." : "Set Up Two-Factor Authentication"}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2 text-sm">
+        <Badge variant="secondary">On</Badge>
+        <span className="text-muted-foreground">
+          {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        <Label>New recovery codes</Label>
+        <p className="text-xs text-muted-foreground">Enter a code from your authenticator app. Your old recovery codes stop working.</p>
+        <CodeInput value={code} onChange={setCode} />
+        <Button
+          variant="outline"
+          onClick={() => regenerateMutation.mutate()}
+          disabled={code.length !== 6 || regenerateMutation.isPending}
+          data-testid="button-regenerate-recovery-codes"
+        >
+          Generate New Recovery Codes
+        </Button>
+      </div>
+
+      {status.required ? (
+        <p className="text-xs text-muted-foreground">Your role requires two-factor authentication, so it can't be turned off.</p>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="two-factor-password">Turn off</Label>
+          <Input
+            id="two-factor-password"
+            type="password"
+            value={password}
+            placeholder="Your password"
+            onChange={(e) => setPassword(e.target.value)}
+            data-testid="input-two-factor-password"
+          />
+          <Button
+            variant="destructive"
+            onClick={() => disableMutation.mutate()}
+            disabled={!password || disableMutation.isPending}
+            data-testid="button-disable-two-factor"
+          >
+            Turn Off Two-Factor Authentication
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Hash } from "lucide-react";
+import {
+  UNIQUE_ID_TOKENS,
+  renderUniqueId,
+  renderUniqueIdScope,
+  uniqueIdFormatSchema,
+  type UniqueIdFormat,
+} from "@shared/unique-id";
+
+type UniqueIdFormatResponse = UniqueIdFormat & { updatedAt: string | null; example: string };
+
+export default function UniqueIdSettings() {
+  const { toast } = useToast();
+  const [form, setForm] = useState<UniqueIdFormat | null>(null);
+
+  const { data: settings, isLoading } = useQuery<UniqueIdFormatResponse>({
+    queryKey: ["/api/settings/unique-id"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setForm({ prefix: settings.prefix, pattern: settings.pattern, sequenceDigits: settings.sequenceDigits });
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (format: UniqueIdFormat) => {
+      const res = await apiRequest("PUT", "/api/settings/unique-id", format);
+      return (await res.json()) as UniqueIdFormatResponse;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/settings/unique-id"], saved);
+      toast({
+        title: "Unique ID format saved",
+        description: `New products will get IDs like ${saved.example}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save format",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !form) {
+    return <p className="text-sm text-muted-foreground">Loading unique ID format...</p>;
+  }
+
+  const validation = uniqueIdFormatSchema.safeParse(form);
+  const preview = validation.success
+    ? ["Paddy", "Wheat"].map((cropName) =>
+        renderUniqueId(renderUniqueIdScope(validation.data, { cropName }), validation.data, 1))
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-foreground">Unique ID Format</h2>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Hash className="h-5 w-5" />
+            ID Pattern
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            IDs are numbered from a database counter, kept separately for each combination of prefix, year and crop
+            that appears in the pattern. Changing the format only affects products created afterwards.
+          </p>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div>
+              <Label htmlFor="unique-id-prefix">Prefix</Label>
+              <Input
+                id="unique-id-prefix"
+                value={form.prefix}
+                onChange={(e) => setForm({ ...form, prefix: e.target.value })}
+                className="mt-1 font-mono"
+                data-testid="input-unique-id-prefix"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="unique-id-pattern">Pattern</Label>
+              <Input
+                id="unique-id-pattern"
+                value={form.pattern}
+                onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+                className="mt-1 font-mono"
+                data-testid="input-unique-id-pattern"
+              />
+            </div>
+            <div>
+              <Label htmlFor="unique-id-digits">Counter Digits</Label>
+              <Input
+                id="unique-id-digits"
+                type="number"
+                min={3}
+                max={10}
+                value={form.sequenceDigits}
+                onChange={(e) => setForm({ ...form, sequenceDigits: Number(e.target.value) })}
+                className="mt-1"
+                data-testid="input-unique-id-digits"
+              />
+            </div>
+          </div>
+
+          <div className="rounded-md border p-3 text-sm">
+            <p className="font-medium mb-2">Available tokens</p>
+            <ul className="space-y-1">
+              {Object.entries(UNIQUE_ID_TOKENS).map(([token, description]) => (
+                <li key={token}>
+                  <button
+                    type="button"
+                    className="font-mono text-primary hover:underline"
+                    onClick={() => setForm({ ...form, pattern: form.pattern + token })}
+                  >
+                    {token}
+                  </button>
+                  <span className="text-muted-foreground"> — {description}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {validation.success ? (
+            <div className="text-sm" data-testid="text-unique-id-preview">
+              <span className="text-muted-foreground">Example IDs: </span>
+              <span className="font-mono">{preview.join(", ")}</span>
+            </div>
+          ) : (
+            <p className="text-sm text-destructive">{validation.error.errors[0]?.message}</p>
+          )}
+          {form.pattern.includes("{CHECK}") && (
+            <p className="text-xs text-muted-foreground">
+              To verify a printed ID by hand, take all of its digits, double every second digit from the right (starting
+              with the one before the last), subtract 9 from any result above 9 and add everything up. The ID is valid
+              when the total ends in 0.
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => validation.success && saveMutation.mutate(validation.data)}
+              disabled={!validation.success || saveMutation.isPending}
+              data-testid="button-save-unique-id-format"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Format"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
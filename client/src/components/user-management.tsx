@@ -0,0 +1,551 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Edit, KeyRound, LockOpen, Plus, ShieldOff, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import type { PublicUser, UpdateUser } from "@shared/schema";
+import { hasPermission, type RoleDefinition } from "@shared/permissions";
+import { describePasswordPolicy, type PasswordPolicy } from "@shared/password-policy";
+import RoleManagement from "@/components/role-management";
+import LoginAttemptLog from "@/components/login-attempt-log";
+
+const createUserSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  email: z.string().email("Invalid email address"),
+  // Checked against the password policy by the server
+  password: z.string().min(1, "Password is required"),
+  role: z.string().min(1, "Choose a role"),
+});
+
+type CreateUserData = z.infer<typeof createUserSchema>;
+
+// Locked after too many failed sign-ins; the lock lifts by itself at lockedUntil
+function isLocked(account: PublicUser) {
+  return !!account.lockedUntil && new Date(account.lockedUntil) > new Date();
+}
+
+type EditUserForm = Required<Pick<UpdateUser, "username" | "email" | "active">>;
+
+// User accounts and, for super admins, the role editor
+export default function UserManagement() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const [showCreateUserDialog, setShowCreateUserDialog] = useState(false);
+  const [editing, setEditing] = useState<PublicUser | null>(null);
+  const [editForm, setEditForm] = useState<EditUserForm>({ username: "", email: "", active: true });
+  const [resetting, setResetting] = useState<PublicUser | null>(null);
+  const [resetPassword, setResetPassword] = useState("");
+  // Shown once after a reset so it can be handed to the user
+  const [temporaryPassword, setTemporaryPassword] = useState<string | null>(null);
+
+  const createUserForm = useForm<CreateUserData>({
+    resolver: zodResolver(createUserSchema),
+    defaultValues: {
+      username: "",
+      email: "",
+      password: "",
+      role: "operator",
+    },
+  });
+
+  const { data: users = [], isLoading: usersLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: roles = [] } = useQuery<RoleDefinition[]>({
+    queryKey: ["/api/roles"],
+  });
+  const { data: passwordPolicy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/user/password-policy"],
+  });
+  const roleLabels = Object.fromEntries(roles.map((role) => [role.name, role.label]));
+  const userCounts = users.reduce<Record<string, number>>((counts, account) => {
+    counts[account.role] = (counts[account.role] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  const createUserMutation = useMutation({
+    mutationFn: async (userData: CreateUserData) => {
+      const res = await apiRequest("POST", "/api/users", userData);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setShowCreateUserDialog(false);
+      createUserForm.reset();
+      toast({
+        title: "User created",
+        description: "The account has been created successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create user",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ userId, updates }: { userId: string; updates: UpdateUser }) => {
+      const res = await apiRequest("PATCH", `/api/users/${userId}`, updates);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: (account) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "User updated", description: account.username });
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "User not updated",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async ({ userId, password }: { userId: string; password: string }) => {
+      const res = await apiRequest("POST", `/api/users/${userId}/reset-password`, { password });
+      return (await res.json()) as { temporaryPassword: string };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setTemporaryPassword(result.temporaryPassword);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Password not reset",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unlockUserMutation = useMutation({
+    mutationFn: async (account: PublicUser) => {
+      await apiRequest("POST", `/api/users/${account.id}/unlock`);
+      return account;
+    },
+    onSuccess: (account) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "User unlocked", description: `${account.username} can sign in again.` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "User not unlocked",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (account: PublicUser) => {
+      await apiRequest("POST", `/api/users/${account.id}/reset-two-factor`);
+      return account;
+    },
+    onSuccess: (account) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Two-factor authentication reset", description: account.username });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Two-factor authentication not reset",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteUserMutation = useMutation({
+    mutationFn: async (account: PublicUser) => {
+      await apiRequest("DELETE", `/api/users/${account.id}`);
+      return account;
+    },
+    onSuccess: (account) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "User deleted", description: account.username });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "User not deleted",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreateUser = (data: CreateUserData) => {
+    createUserMutation.mutate(data);
+  };
+
+  const openEditDialog = (account: PublicUser) => {
+    setEditing(account);
+    setEditForm({ username: account.username, email: account.email, active: account.active });
+  };
+
+  const openResetDialog = (account: PublicUser) => {
+    setResetting(account);
+    setResetPassword("");
+    setTemporaryPassword(null);
+  };
+
+  const handleResetTwoFactor = (account: PublicUser) => {
+    if (window.confirm(`Turn off two-factor authentication for ${account.username}? Do this only if they lost their authenticator and recovery codes.`)) {
+      resetTwoFactorMutation.mutate(account);
+    }
+  };
+
+  const handleDelete = (account: PublicUser) => {
+    if (window.confirm(`Delete ${account.username}? Users who submitted products or made changes can only be deactivated.`)) {
+      deleteUserMutation.mutate(account);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-foreground">User Management</h2>
+        <Button 
+          onClick={() => setShowCreateUserDialog(true)}
+          data-testid="button-create-user"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Create User
+        </Button>
+      </div>
+
+      {usersLoading ? (
+        <div className="text-center py-8">
+          <p className="text-muted-foreground">Loading users...</p>
+        </div>
+      ) : users.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-muted-foreground">No users found.</p>
+        </div>
+      ) : (
+        <div className="grid gap-4">
+          {users.map((account) => (
+            <Card key={account.id} data-testid={`card-user-${account.id}`}>
+              <CardContent className="p-4">
+                <div className="flex justify-between items-center gap-4">
+                  <div>
+                    <h3 className="font-semibold text-foreground" data-testid="text-username">
+                      {account.username}
+                      {!account.active && <Badge variant="secondary" className="ml-2">Inactive</Badge>}
+                      {account.mustChangePassword && <Badge variant="outline" className="ml-2">Password reset pending</Badge>}
+                      {account.twoFactorEnabled && <Badge variant="outline" className="ml-2">2FA</Badge>}
+                      {isLocked(account) && (
+                        <Badge variant="destructive" className="ml-2" data-testid={`badge-locked-${account.id}`}>
+                          Locked until {new Date(account.lockedUntil!).toLocaleTimeString()}
+                        </Badge>
+                      )}
+                    </h3>
+                    <p className="text-sm text-muted-foreground" data-testid="text-email">
+                      {account.email}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Created: {account.createdAt ? new Date(account.createdAt).toLocaleDateString() : 'N/A'}
+                    </p>
+                  </div>
+                  {account.id === currentUser?.id ? (
+                    <Badge variant="default" data-testid="badge-role">
+                      {roleLabels[account.role] ?? account.role}
+                    </Badge>
+                  ) : (
+                    <div className="flex items-center gap-1">
+                      <Select
+                        value={account.role}
+                        onValueChange={(role) => updateUserMutation.mutate({ userId: account.id, updates: { role } })}
+                        disabled={updateUserMutation.isPending}
+                      >
+                        <SelectTrigger className="w-56" data-testid={`select-role-${account.id}`}>
+                          <SelectValue placeholder={account.role} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {roles.map((role) => (
+                            <SelectItem key={role.name} value={role.name}>{role.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button size="sm" variant="outline" onClick={() => openEditDialog(account)} data-testid={`button-edit-user-${account.id}`}>
+                        <Edit className="h-3 w-3" />
+                      </Button>
+                      {isLocked(account) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => unlockUserMutation.mutate(account)}
+                          disabled={unlockUserMutation.isPending}
+                          title="Unlock"
+                          data-testid={`button-unlock-user-${account.id}`}
+                        >
+                          <LockOpen className="h-3 w-3" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => openResetDialog(account)}
+                        title="Reset password"
+                        data-testid={`button-reset-password-${account.id}`}
+                      >
+                        <KeyRound className="h-3 w-3" />
+                      </Button>
+                      {account.twoFactorEnabled && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleResetTwoFactor(account)}
+                          disabled={resetTwoFactorMutation.isPending}
+                          title="Reset two-factor authentication"
+                          data-testid={`button-reset-two-factor-${account.id}`}
+                        >
+                          <ShieldOff className="h-3 w-3" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleDelete(account)}
+                        disabled={deleteUserMutation.isPending}
+                        data-testid={`button-delete-user-${account.id}`}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <LoginAttemptLog />
+
+      {hasPermission(currentUser, "roles.manage") && <RoleManagement userCounts={userCounts} />}
+
+      {/* Create User Dialog */}
+      <Dialog open={showCreateUserDialog} onOpenChange={setShowCreateUserDialog}>
+        <DialogContent data-testid="dialog-create-user">
+          <DialogHeader>
+            <DialogTitle>Create User Account</DialogTitle>
+            <DialogDescription>
+              The role decides what the user can see and do. Operators submit products for review.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...createUserForm}>
+            <form onSubmit={createUserForm.handleSubmit(handleCreateUser)} className="space-y-4">
+              <FormField
+                control={createUserForm.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-create-username" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={createUserForm.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" {...field} data-testid="input-create-email" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <FormField
+                control={createUserForm.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" {...field} data-testid="input-create-password" />
+                    </FormControl>
+                    {passwordPolicy && (
+                      <FormDescription>{describePasswordPolicy(passwordPolicy, false).join(" · ")}</FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={createUserForm.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-create-role">
+                          <SelectValue placeholder="Choose a role" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {roles.map((role) => (
+                          <SelectItem key={role.name} value={role.name}>{role.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <DialogFooter>
+                <Button 
+                  type="button"
+                  variant="outline" 
+                  onClick={() => setShowCreateUserDialog(false)}
+                  data-testid="button-cancel-create-user"
+                >
+                  Cancel
+                </Button>
+                <Button 
+                  type="submit"
+                  disabled={createUserMutation.isPending}
+                  data-testid="button-confirm-create-user"
+                >
+                  {createUserMutation.isPending ? "Creating..." : "Create User"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent data-testid="dialog-edit-user">
+          <DialogHeader>
+            <DialogTitle>Edit {editing?.username}</DialogTitle>
+            <DialogDescription>
+              Inactive users can't sign in and are signed out straight away. Their products and history are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="edit-user-username">Username</Label>
+              <Input
+                id="edit-user-username"
+                value={editForm.username}
+                onChange={(e) => setEditForm((current) => ({ ...current, username: e.target.value }))}
+                className="mt-1"
+                data-testid="input-edit-username"
+              />
+            </div>
+            <div>
+              <Label htmlFor="edit-user-email">Email</Label>
+              <Input
+                id="edit-user-email"
+                type="email"
+                value={editForm.email}
+                onChange={(e) => setEditForm((current) => ({ ...current, email: e.target.value }))}
+                className="mt-1"
+                data-testid="input-edit-email"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="edit-user-active"
+                checked={editForm.active}
+                onCheckedChange={(checked) => setEditForm((current) => ({ ...current, active: checked }))}
+                data-testid="switch-user-active"
+              />
+              <Label htmlFor="edit-user-active">Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => editing && updateUserMutation.mutate({ userId: editing.id, updates: editForm })}
+              disabled={!editForm.username.trim() || !editForm.email.trim() || updateUserMutation.isPending}
+              data-testid="button-save-user"
+            >
+              {updateUserMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={resetting !== null} onOpenChange={(open) => !open && setResetting(null)}>
+        <DialogContent data-testid="dialog-reset-password">
+          <DialogHeader>
+            <DialogTitle>Reset password for {resetting?.username}</DialogTitle>
+            <DialogDescription>
+              The user signs in with the temporary password and must choose a new one before doing anything else.
+            </DialogDescription>
+          </DialogHeader>
+          {temporaryPassword ? (
+            <div className="space-y-2">
+              <p className="text-sm">Give this temporary password to {resetting?.username}. It won't be shown again.</p>
+              <p className="font-mono text-lg bg-muted rounded-md p-3 select-all" data-testid="text-temporary-password">
+                {temporaryPassword}
+              </p>
+            </div>
+          ) : (
+            <div>
+              <Label htmlFor="reset-password">Temporary password</Label>
+              <Input
+                id="reset-password"
+                value={resetPassword}
+                placeholder="Leave empty to generate one"
+                onChange={(e) => setResetPassword(e.target.value)}
+                className="mt-1"
+                data-testid="input-reset-password"
+              />
+            </div>
+          )}
+          <DialogFooter>
+            {temporaryPassword ? (
+              <Button onClick={() => setResetting(null)}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setResetting(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => resetting && resetPasswordMutation.mutate({ userId: resetting.id, password: resetPassword })}
+                  disabled={resetPasswordMutation.isPending}
+                  data-testid="button-confirm-reset-password"
+                >
+                  {resetPasswordMutation.isPending ? "Resetting..." : "Reset Password"}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
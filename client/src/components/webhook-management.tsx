@@ -0,0 +1,401 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Edit, History, Plus, Send, Trash2, Webhook as WebhookIcon } from "lucide-react";
+import type { Webhook, WebhookDelivery } from "@shared/schema";
+import {
+  WEBHOOK_DELIVERY_STATUS_LABELS,
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_HEADERS,
+  webhookSchema,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+  type WebhookInput,
+} from "@shared/webhooks";
+
+const emptyForm: WebhookInput = { name: "", url: "", events: [], active: true };
+
+const DELIVERY_STATUS_VARIANTS: Record<WebhookDeliveryStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  retrying: "secondary",
+  succeeded: "default",
+  failed: "destructive",
+};
+
+function DeliveryLog({ webhook }: { webhook: Webhook }) {
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({
+    queryKey: ["/api/webhooks", webhook.id, "deliveries"],
+    // Retries happen in the background, so keep the log current while it's open
+    refetchInterval: 15 * 1000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Deliveries to {webhook.name}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading deliveries...</p>
+        ) : deliveries.length === 0 ? (
+          <p className="text-muted-foreground">Nothing has been sent to this webhook yet.</p>
+        ) : (
+          <ScrollArea className="h-96">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Last Response</TableHead>
+                  <TableHead>Next Attempt</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => {
+                  const status = delivery.status as WebhookDeliveryStatus;
+                  return (
+                    <TableRow key={delivery.id} data-testid={`row-webhook-delivery-${delivery.id}`}>
+                      <TableCell className="whitespace-nowrap">{new Date(delivery.createdAt).toLocaleString()}</TableCell>
+                      <TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+                      <TableCell>
+                        <Badge variant={DELIVERY_STATUS_VARIANTS[status] ?? "outline"}>
+                          {WEBHOOK_DELIVERY_STATUS_LABELS[status] ?? delivery.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{delivery.attempts}</TableCell>
+                      <TableCell className="text-xs max-w-sm">
+                        {delivery.responseStatus && <span className="font-mono">HTTP {delivery.responseStatus}</span>}
+                        {delivery.lastError && <p className="text-destructive break-words">{delivery.lastError}</p>}
+                        {!delivery.responseStatus && !delivery.lastError && "—"}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-xs">
+                        {delivery.nextAttemptAt ? new Date(delivery.nextAttemptAt).toLocaleString() : "—"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Webhooks that tell other systems about product changes, with their delivery logs
+export default function WebhookManagement() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Webhook | null>(null);
+  const [form, setForm] = useState<WebhookInput>(emptyForm);
+  const [logWebhookId, setLogWebhookId] = useState<string | null>(null);
+
+  const { data: webhooks = [], isLoading } = useQuery<Webhook[]>({
+    queryKey: ["/api/webhooks"],
+  });
+
+  const saveWebhookMutation = useMutation({
+    mutationFn: async (values: WebhookInput) => {
+      const res = editing
+        ? await apiRequest("PUT", `/api/webhooks/${editing.id}`, values)
+        : await apiRequest("POST", "/api/webhooks", values);
+      return (await res.json()) as Webhook;
+    },
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      toast({
+        title: editing ? "Webhook updated" : "Webhook added",
+        description: editing ? webhook.name : "Give the receiving system the signing secret shown under Edit.",
+      });
+      setDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Webhook not saved", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const rotateSecretMutation = useMutation({
+    mutationFn: async (webhook: Webhook) => {
+      const res = await apiRequest("POST", `/api/webhooks/${webhook.id}/rotate-secret`);
+      return (await res.json()) as Webhook;
+    },
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      setEditing(webhook);
+      toast({ title: "Signing secret replaced", description: "Deliveries are signed with the new secret from now on." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Signing secret not replaced", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const testWebhookMutation = useMutation({
+    mutationFn: async (webhook: Webhook) => {
+      const res = await apiRequest("POST", `/api/webhooks/${webhook.id}/test`);
+      return (await res.json()) as WebhookDelivery;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks", delivery.webhookId, "deliveries"] });
+      if (delivery.status === "succeeded") {
+        toast({ title: "Test event delivered", description: `The receiver answered HTTP ${delivery.responseStatus}.` });
+      } else {
+        toast({ title: "Test event not delivered", description: delivery.lastError ?? "Unknown error", variant: "destructive" });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Test event not sent", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteWebhookMutation = useMutation({
+    mutationFn: async (webhook: Webhook) => {
+      await apiRequest("DELETE", `/api/webhooks/${webhook.id}`);
+    },
+    onSuccess: (_, webhook) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/webhooks"] });
+      if (logWebhookId === webhook.id) {
+        setLogWebhookId(null);
+      }
+      toast({ title: "Webhook deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Webhook not deleted", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openDialog = (webhook: Webhook | null) => {
+    setEditing(webhook);
+    setForm(webhook
+      ? { name: webhook.name, url: webhook.url, events: webhook.events as WebhookEvent[], active: webhook.active }
+      : emptyForm);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (webhook: Webhook) => {
+    if (window.confirm(`Delete the ${webhook.name} webhook? Its delivery log is deleted too. Consider switching it off instead.`)) {
+      deleteWebhookMutation.mutate(webhook);
+    }
+  };
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setForm((current) => ({
+      ...current,
+      events: checked ? [...current.events, event] : current.events.filter((existing) => existing !== event),
+    }));
+  };
+
+  const validation = webhookSchema.safeParse(form);
+  const logWebhook = webhooks.find((webhook) => webhook.id === logWebhookId);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-foreground">Webhooks</h2>
+        <Button onClick={() => openDialog(null)} data-testid="button-add-webhook">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Webhook
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <WebhookIcon className="h-5 w-5" />
+            Endpoints
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Each event is sent as a JSON POST. The <code className="font-mono">{WEBHOOK_HEADERS.signature}</code> header
+            holds <code className="font-mono">sha256=</code> and the HMAC-SHA256 of the{" "}
+            <code className="font-mono">{WEBHOOK_HEADERS.timestamp}</code> header, a dot and the body, keyed with the
+            webhook's signing secret. Failed deliveries are retried for several hours.
+          </p>
+
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading webhooks...</p>
+          ) : webhooks.length === 0 ? (
+            <p className="text-muted-foreground">No webhooks added yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>URL</TableHead>
+                  <TableHead>Events</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {webhooks.map((webhook) => (
+                  <TableRow key={webhook.id} data-testid={`row-webhook-${webhook.id}`}>
+                    <TableCell className="font-medium">{webhook.name}</TableCell>
+                    <TableCell className="font-mono text-xs break-all">{webhook.url}</TableCell>
+                    <TableCell className="text-xs">
+                      {webhook.events.map((event) => WEBHOOK_EVENT_LABELS[event as WebhookEvent] ?? event).join(", ")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={webhook.active ? "default" : "secondary"}>{webhook.active ? "Active" : "Off"}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => testWebhookMutation.mutate(webhook)}
+                          disabled={!webhook.active || testWebhookMutation.isPending}
+                          title="Send test event"
+                          data-testid={`button-test-webhook-${webhook.id}`}
+                        >
+                          <Send className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={logWebhookId === webhook.id ? "default" : "outline"}
+                          onClick={() => setLogWebhookId(logWebhookId === webhook.id ? null : webhook.id)}
+                          title="Delivery log"
+                          data-testid={`button-webhook-deliveries-${webhook.id}`}
+                        >
+                          <History className="h-3 w-3" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => openDialog(webhook)} data-testid={`button-edit-webhook-${webhook.id}`}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDelete(webhook)}
+                          disabled={deleteWebhookMutation.isPending}
+                          data-testid={`button-delete-webhook-${webhook.id}`}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {logWebhook && <DeliveryLog webhook={logWebhook} />}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl" data-testid="dialog-webhook">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Webhook" : "Add Webhook"}</DialogTitle>
+            <DialogDescription>Choose where events are sent and which ones.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <Label htmlFor="webhook-name">Name</Label>
+                <Input
+                  id="webhook-name"
+                  value={form.name}
+                  placeholder="e.g. ERP"
+                  onChange={(e) => setForm((current) => ({ ...current, name: e.target.value }))}
+                  className="mt-1"
+                  data-testid="input-webhook-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="webhook-url">URL</Label>
+                <Input
+                  id="webhook-url"
+                  value={form.url}
+                  placeholder="https://erp.example.com/hooks/seeds"
+                  onChange={(e) => setForm((current) => ({ ...current, url: e.target.value }))}
+                  className="mt-1"
+                  data-testid="input-webhook-url"
+                />
+              </div>
+            </div>
+            <div>
+              <p className="text-sm font-semibold mb-1">Events</p>
+              <div className="grid gap-1 md:grid-cols-2">
+                {WEBHOOK_EVENTS.map((event) => (
+                  <div key={event} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      id={`webhook-event-${event}`}
+                      checked={form.events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                      data-testid={`checkbox-webhook-event-${event}`}
+                    />
+                    <label htmlFor={`webhook-event-${event}`} className="cursor-pointer">
+                      {WEBHOOK_EVENT_LABELS[event]} <span className="font-mono text-xs text-muted-foreground">{event}</span>
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch
+                id="webhook-active"
+                checked={form.active}
+                onCheckedChange={(checked) => setForm((current) => ({ ...current, active: checked }))}
+                data-testid="switch-webhook-active"
+              />
+              <Label htmlFor="webhook-active">Send events to this webhook</Label>
+            </div>
+            {editing && (
+              <div className="space-y-1">
+                <Label>Signing secret</Label>
+                <div className="flex gap-2">
+                  <Input readOnly value={editing.secret} className="font-mono text-xs" data-testid="text-webhook-secret" />
+                  <Button variant="outline" onClick={() => navigator.clipboard.writeText(editing.secret)}>
+                    Copy
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => rotateSecretMutation.mutate(editing)}
+                    disabled={rotateSecretMutation.isPending}
+                    data-testid="button-rotate-webhook-secret"
+                  >
+                    Replace
+                  </Button>
+                </div>
+              </div>
+            )}
+            {!validation.success && (form.name || form.url) && (
+              <p className="text-sm text-destructive">{validation.error.errors[0]?.message}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => validation.success && saveWebhookMutation.mutate(validation.data)}
+              disabled={!validation.success || saveWebhookMutation.isPending}
+              data-testid="button-save-webhook"
+            >
+              {saveWebhookMutation.isPending ? "Saving..." : "Save Webhook"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -4,7 +4,9 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import { insertUserSchema, SessionUser as SelectUser, InsertUser } from "@shared/schema";
+import { isTwoFactorChallenge, type TwoFactorChallenge, type twoFactorLoginSchema } from "@shared/two-factor";
+import type { z } from "zod";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -12,12 +14,15 @@ type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  // Resolves with a challenge instead of the user when an authenticator code is needed
+  loginMutation: UseMutationResult<SelectUser | TwoFactorChallenge, Error, LoginData>;
+  twoFactorLoginMutation: UseMutationResult<SelectUser, Error, TwoFactorLoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
+type TwoFactorLoginData = z.infer<typeof twoFactorLoginSchema>;
 
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -36,6 +41,25 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
+    onSuccess: (result: SelectUser | TwoFactorChallenge) => {
+      if (!isTwoFactorChallenge(result)) {
+        queryClient.setQueryData(["/api/user"], result);
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const twoFactorLoginMutation = useMutation({
+    mutationFn: async (data: TwoFactorLoginData) => {
+      const res = await apiRequest("POST", "/api/login/two-factor", data);
+      return await res.json();
+    },
     onSuccess: (user: SelectUser) => {
       queryClient.setQueryData(["/api/user"], user);
     },
@@ -88,6 +112,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorLoginMutation,
         logoutMutation,
         registerMutation,
       }}
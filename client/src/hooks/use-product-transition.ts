@@ -0,0 +1,38 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ACTION_LABELS, STATUS_LABELS, type ProductStatus, type ProductWithActions, type WorkflowAction } from "@shared/workflow";
+import type { ChecklistAnswer } from "@shared/review";
+
+interface TransitionInput {
+  productId: string;
+  action: WorkflowAction;
+  comment?: string;
+  checklist?: ChecklistAnswer[];
+}
+
+export function useProductTransition(onSuccess?: (product: ProductWithActions) => void) {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ productId, action, comment, checklist }: TransitionInput) => {
+      const res = await apiRequest("POST", `/api/products/${productId}/transitions`, { action, comment, checklist });
+      return (await res.json()) as ProductWithActions;
+    },
+    onSuccess: (product) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: "Product updated",
+        description: `The product is now ${STATUS_LABELS[product.status as ProductStatus]?.toLowerCase() ?? product.status}.`,
+      });
+      onSuccess?.(product);
+    },
+    onError: (error: Error, { action }) => {
+      toast({
+        title: `${ACTION_LABELS[action]} failed`,
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
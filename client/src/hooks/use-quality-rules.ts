@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import type { QualityRule } from "@shared/schema";
+import { evaluateQualityRules, type QualityCheckedProduct, type QualityFinding } from "@shared/quality-rules";
+
+// Checks product values against the quality rules as they are typed; the server checks them again
+export function useQualityFindings(product: QualityCheckedProduct): QualityFinding[] {
+  const { data: rules = [] } = useQuery<QualityRule[]>({
+    queryKey: ["/api/settings/quality-rules"],
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+  return evaluateQualityRules(product, rules);
+}
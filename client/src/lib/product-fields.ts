@@ -0,0 +1,49 @@
+// Display names of product columns, for audit trails and review diffs
+export const productFieldLabels: Record<string, string> = {
+  uniqueId: "Unique ID",
+  company: "Company",
+  brand: "Brand",
+  product: "Crop Name",
+  description: "Description",
+  mrp: "MRP",
+  netQty: "Net Quantity",
+  lotBatch: "New Lot No",
+  mfgDate: "Date of Packing",
+  expiryDate: "Valid Upto",
+  customerCare: "Customer Care",
+  email: "Email",
+  companyAddress: "Company Address",
+  marketedBy: "Marketed By",
+  brochureUrl: "Brochure URL",
+  brochureFilename: "Brochure Filename",
+  packSize: "Pack Size",
+  dateOfTest: "Date of Test",
+  unitSalePrice: "Unit Sale Price",
+  noOfPkts: "No. of Packets",
+  totalPkts: "Total Packets",
+  from: "Label No. From",
+  to: "Label No. To",
+  marketingCode: "Marketing Code",
+  unitOfMeasureCode: "Unit of Measure Code",
+  marketCode: "Variety",
+  prodCode: "Product Code",
+  lotNo: "Lot Number",
+  gb: "GB",
+  location: "Location",
+  stageCode: "Stage Code",
+  remainingQuantity: "Remaining Quantity",
+  stackNo: "Stack No",
+  normalGermination: "Normal Germination (%)",
+  gerAve: "Germination Average",
+  gotPercent: "GOT Percent",
+  gotAve: "GOT Average",
+  labelNumber: "Label Number",
+  classType: "Class",
+  status: "Status",
+  submissionDate: "Submission Date",
+  approvalDate: "Approval Date",
+  submittedBy: "Submitted By",
+  approvedBy: "Approved By",
+  rejectionReason: "Reviewer Comment",
+  dealerId: "Dealer",
+};
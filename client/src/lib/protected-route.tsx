@@ -1,6 +1,8 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
+import ChangePasswordPage from "@/pages/change-password-page";
+import TwoFactorSetupPage from "@/pages/two-factor-setup-page";
 
 export function ProtectedRoute({
   path,
@@ -29,5 +31,14 @@ export function ProtectedRoute({
     );
   }
 
+  // The server refuses everything else until a reset password has been changed
+  if (user.mustChangePassword) {
+    return <ChangePasswordPage />;
+  }
+
+  if (user.twoFactorRequired && !user.twoFactorEnabled) {
+    return <TwoFactorSetupPage />;
+  }
+
   return <Component />
 }
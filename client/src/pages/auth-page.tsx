@@ -1,14 +1,22 @@
+import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Sprout, Phone, Mail } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Sprout, Phone, Mail, Lock } from "lucide-react";
 import { useForm } from "react-hook-form";
 import logoUrl from "@assets/nbil-logo-a_1762228411331.png";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { z } from "zod";
+import { usesAdminDashboard } from "@shared/permissions";
+import type { LoginRejection } from "@shared/login-attempts";
+import { isTwoFactorChallenge } from "@shared/two-factor";
+import type { SessionUser } from "@shared/schema";
 
 const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -17,9 +25,24 @@ const loginSchema = z.object({
 
 type LoginData = z.infer<typeof loginSchema>;
 
+// Refused sign-ins reach us as "<status>: <JSON body>" (see throwIfResNotOk)
+function parseLoginError(error: Error | null): { status: number; rejection: LoginRejection } | null {
+  const match = error?.message.match(/^(\d{3}): ([\s\S]*)$/);
+  if (!match) return null;
+  try {
+    return { status: Number(match[1]), rejection: JSON.parse(match[2]) as LoginRejection };
+  } catch {
+    return null;
+  }
+}
+
 export default function AuthPage() {
-  const { user, loginMutation } = useAuth();
+  const { user, loginMutation, twoFactorLoginMutation } = useAuth();
   const [, setLocation] = useLocation();
+  // Second step after a correct password for accounts with two-factor authentication
+  const [awaitingCode, setAwaitingCode] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
 
   const loginForm = useForm<LoginData>({
     resolver: zodResolver(loginSchema),
@@ -31,7 +54,7 @@ export default function AuthPage() {
 
   // Redirect if already logged in
   if (user) {
-    if (user.role === "admin") {
+    if (usesAdminDashboard(user)) {
       setLocation("/admin");
     } else {
       setLocation("/");
@@ -39,18 +62,51 @@ export default function AuthPage() {
     return null;
   }
 
+  // Locked accounts and throttled attempts get a lasting message, not only a toast
+  const loginError = parseLoginError(awaitingCode ? twoFactorLoginMutation.error : loginMutation.error);
+  const blocked = loginError && (loginError.status === 423 || loginError.status === 429) ? loginError : null;
+
+  const goToDashboard = (user: SessionUser) => {
+    if (usesAdminDashboard(user)) {
+      setLocation("/admin");
+    } else {
+      setLocation("/");
+    }
+  };
+
   const onLogin = (data: LoginData) => {
     loginMutation.mutate(data, {
-      onSuccess: (user) => {
-        if (user.role === "admin") {
-          setLocation("/admin");
+      onSuccess: (result) => {
+        if (isTwoFactorChallenge(result)) {
+          setAwaitingCode(true);
+          setCode("");
         } else {
-          setLocation("/");
+          goToDashboard(result);
         }
       },
     });
   };
 
+  const onSubmitCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    twoFactorLoginMutation.mutate(useRecoveryCode ? { recoveryCode: code } : { code }, {
+      onSuccess: goToDashboard,
+      onError: (error) => {
+        // The password step has to be repeated once the pending sign-in expired
+        if (parseLoginError(error)?.status === 401) {
+          setAwaitingCode(false);
+        }
+      },
+    });
+  };
+
+  const backToPassword = () => {
+    setAwaitingCode(false);
+    setUseRecoveryCode(false);
+    setCode("");
+    loginForm.setValue("password", "");
+  };
+
   const handleDemoLogin = (credentials: LoginData) => {
     loginForm.setValue("username", credentials.username);
     loginForm.setValue("password", credentials.password);
@@ -72,49 +128,117 @@ export default function AuthPage() {
         <Card className="shadow-lg">
           <CardHeader>
             <CardTitle>Access Your Account</CardTitle>
-            <CardDescription>Sign in to continue</CardDescription>
+            <CardDescription>{awaitingCode ? "Two-factor authentication" : "Sign in to continue"}</CardDescription>
           </CardHeader>
           <CardContent>
-            <Form {...loginForm}>
-              <form onSubmit={loginForm.handleSubmit(onLogin)} className="space-y-4" data-testid="form-login">
-                <FormField
-                  control={loginForm.control}
-                  name="username"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Username</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Enter your username" {...field} data-testid="input-username" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                
-                <FormField
-                  control={loginForm.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Password</FormLabel>
-                      <FormControl>
-                        <Input type="password" placeholder="Enter your password" {...field} data-testid="input-password" />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
+            {blocked && (
+              <Alert variant="destructive" className="mb-4" data-testid="alert-login-blocked">
+                <Lock className="h-4 w-4" />
+                <AlertTitle>{blocked.status === 423 ? "Account locked" : "Too many attempts"}</AlertTitle>
+                <AlertDescription>
+                  {blocked.rejection.message}
+                  {blocked.rejection.lockedUntil && (
+                    <> The lock lifts at {new Date(blocked.rejection.lockedUntil).toLocaleTimeString()}.</>
                   )}
-                />
-                
-                <Button 
-                  type="submit" 
-                  className="w-full" 
-                  disabled={loginMutation.isPending}
-                  data-testid="button-login"
+                </AlertDescription>
+              </Alert>
+            )}
+            {awaitingCode ? (
+              <form onSubmit={onSubmitCode} className="space-y-4" data-testid="form-two-factor">
+                {useRecoveryCode ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="recovery-code">Recovery code</Label>
+                    <Input
+                      id="recovery-code"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      placeholder="xxxxx-xxxxx"
+                      autoComplete="off"
+                      autoFocus
+                      className="font-mono"
+                      data-testid="input-recovery-code"
+                    />
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <Label>Enter the 6-digit code from your authenticator app</Label>
+                    <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus data-testid="input-totp-code">
+                      <InputOTPGroup>
+                        {[0, 1, 2, 3, 4, 5].map((index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={twoFactorLoginMutation.isPending || (useRecoveryCode ? !code.trim() : code.length !== 6)}
+                  data-testid="button-verify-code"
                 >
-                  {loginMutation.isPending ? "Signing In..." : "Sign In"}
+                  {twoFactorLoginMutation.isPending ? "Verifying..." : "Verify"}
                 </Button>
+                <div className="flex justify-between text-sm">
+                  <button type="button" className="text-primary hover:underline" onClick={backToPassword}>
+                    Back
+                  </button>
+                  <button
+                    type="button"
+                    className="text-primary hover:underline"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setCode("");
+                    }}
+                    data-testid="button-toggle-recovery-code"
+                  >
+                    {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                  </button>
+                </div>
               </form>
-            </Form>
+            ) : (
+              <Form {...loginForm}>
+                <form onSubmit={loginForm.handleSubmit(onLogin)} className="space-y-4" data-testid="form-login">
+                  <FormField
+                    control={loginForm.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Enter your username" {...field} data-testid="input-username" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <FormField
+                    control={loginForm.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" placeholder="Enter your password" {...field} data-testid="input-password" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <Button 
+                    type="submit" 
+                    className="w-full" 
+                    disabled={loginMutation.isPending}
+                    data-testid="button-login"
+                  >
+                    {loginMutation.isPending ? "Signing In..." : "Sign In"}
+                  </Button>
+                </form>
+              </Form>
+            )}
             
             {/* <div className="mt-6 pt-6 border-t">
               <p className="text-sm text-muted-foreground text-center mb-4">Quick Demo Access</p>
@@ -0,0 +1,39 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import ChangePasswordForm from "@/components/change-password-form";
+import { useAuth } from "@/hooks/use-auth";
+
+// Shown instead of the app after an admin reset the user's password
+export default function ChangePasswordPage() {
+  const { user, logoutMutation } = useAuth();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 to-yellow-50 px-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader>
+          <CardTitle>Choose a New Password</CardTitle>
+          <CardDescription>
+            Your password was reset by an administrator. Enter the temporary password you were given and choose a new
+            one to continue{user ? `, ${user.username}` : ""}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChangePasswordForm
+            currentPasswordLabel="Temporary Password"
+            secondaryAction={
+              <Button
+                type="button"
+                variant="outline"
+                className="flex-1"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+              >
+                Sign Out
+              </Button>
+            }
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
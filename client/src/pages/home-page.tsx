@@ -1,15 +1,19 @@
 import { useAuth } from "@/hooks/use-auth";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
-import { Plus, List, Eye, Home, FileCheck, Edit, Search } from "lucide-react";
-import { Badge } from "@/components/ui/badge";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
+import { Plus, List, Home, FileCheck, Edit, Printer, ExternalLink, UserCircle } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import ProductForm from "@/components/product-form";
 import ProductEditDialog from "@/components/product-edit-dialog";
 import { Product } from "@shared/schema";
+import { OPERATOR_EDITABLE_STATUSES, type ProductStatus } from "@shared/workflow";
+import { usesAdminDashboard } from "@shared/permissions";
+import PagedProductTable from "@/components/paged-product-table";
+import ProductWorkflowActions from "@/components/product-workflow-actions";
+import LabelPrintDialog from "@/components/label-print-dialog";
+import AccountSettings from "@/components/account-settings";
 import Sidebar, { SidebarItem } from "@/components/sidebar";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -20,25 +24,20 @@ export default function HomePage() {
   const [activeTab, setActiveTab] = useState("overview");
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [showEditDialog, setShowEditDialog] = useState(false);
-  const [searchTerm, setSearchTerm] = useState("");
+  // Products offered in the label dialog; null while it is closed
+  const [labelProducts, setLabelProducts] = useState<Product[] | null>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
-  const { data: products = [], isLoading, refetch } = useQuery<Product[]>({
-    queryKey: ["/api/products", user?.id, searchTerm],
+  const { data: statusCounts = {} } = useQuery<Record<string, number>>({
+    queryKey: ["/api/products", "status-counts"],
     enabled: !!user?.id,
-    queryFn: async () => {
-      const params = new URLSearchParams();
-      if (searchTerm.trim()) {
-        params.append("search", searchTerm.trim());
-      }
-      const url = params.toString() ? `/api/products?${params}` : "/api/products";
-      const res = await fetch(url, { credentials: "include" });
-      if (!res.ok) return [];
-      const data = await res.json();
-      return Array.isArray(data) ? data : [];
-    },
   });
+  const totalCount = Object.values(statusCounts).reduce((sum, value) => sum + value, 0);
+
+  const refreshProducts = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+  };
 
   // Edit product mutation
   const editProductMutation = useMutation({
@@ -85,28 +84,11 @@ export default function HomePage() {
     });
   };
 
-  if (user?.role === "admin") {
+  if (usesAdminDashboard(user)) {
     setLocation("/admin");
     return null;
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "approved":
-        return "bg-green-500";
-      case "rejected":
-        return "bg-red-500";
-      case "pending":
-        return "bg-yellow-500";
-      default:
-        return "bg-gray-500";
-    }
-  };
-
-  const formatDate = (dateString: string | Date) => {
-    return new Date(dateString).toLocaleDateString('en-IN');
-  };
-
   const sidebarItems: SidebarItem[] = [
     {
       id: "overview",
@@ -127,9 +109,16 @@ export default function HomePage() {
       label: "My Products",
       icon: <List className="h-4 w-4" />,
       onClick: () => setActiveTab("products"),
-      badge: products.length,
+      badge: totalCount,
       active: activeTab === "products",
     },
+    {
+      id: "account",
+      label: "Account Settings",
+      icon: <UserCircle className="h-4 w-4" />,
+      onClick: () => setActiveTab("account"),
+      active: activeTab === "account",
+    },
   ];
 
   const renderOverview = () => (
@@ -141,7 +130,7 @@ export default function HomePage() {
             <div className="flex items-center gap-3">
               <FileCheck className="h-8 w-8 text-blue-500" />
               <div>
-                <p className="text-2xl font-bold">{products.length}</p>
+                <p className="text-2xl font-bold">{totalCount}</p>
                 <p className="text-sm text-muted-foreground">Total Products</p>
               </div>
             </div>
@@ -152,7 +141,7 @@ export default function HomePage() {
             <div className="flex items-center gap-3">
               <Plus className="h-8 w-8 text-green-500" />
               <div>
-                <p className="text-2xl font-bold">{products.filter(p => p.status === 'pending').length}</p>
+                <p className="text-2xl font-bold">{statusCounts.pending ?? 0}</p>
                 <p className="text-sm text-muted-foreground">Pending Approval</p>
               </div>
             </div>
@@ -163,7 +152,7 @@ export default function HomePage() {
             <div className="flex items-center gap-3">
               <FileCheck className="h-8 w-8 text-green-600" />
               <div>
-                <p className="text-2xl font-bold">{products.filter(p => p.status === 'approved').length}</p>
+                <p className="text-2xl font-bold">{statusCounts.approved ?? 0}</p>
                 <p className="text-sm text-muted-foreground">Approved Products</p>
               </div>
             </div>
@@ -194,7 +183,7 @@ export default function HomePage() {
           {activeTab === "submit" && (
             <div className="space-y-4">
               <h2 className="text-2xl font-bold text-foreground">Submit Product</h2>
-              <ProductForm onSuccess={() => refetch()} />
+              <ProductForm onSuccess={refreshProducts} />
             </div>
           )}
           
@@ -202,118 +191,65 @@ export default function HomePage() {
             <div className="space-y-4">
             <div className="flex justify-between items-center">
               <h2 className="text-2xl font-bold text-foreground">My Submitted Products</h2>
-              <Button onClick={() => refetch()} variant="outline" size="sm" data-testid="button-refresh">
+              <Button onClick={refreshProducts} variant="outline" size="sm" data-testid="button-refresh">
                 Refresh
               </Button>
             </div>
             
-            {/* Search Input */}
-            <div className="relative max-w-md">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                type="text"
-                placeholder="Search by product, batch, company, brand..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-                data-testid="input-search"
-              />
-            </div>
-            
-            {isLoading ? (
-              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {[...Array(3)].map((_, i) => (
-                  <Card key={i} className="animate-pulse">
-                    <CardHeader>
-                      <div className="h-4 bg-muted rounded w-3/4"></div>
-                      <div className="h-3 bg-muted rounded w-1/2"></div>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-2">
-                        <div className="h-3 bg-muted rounded"></div>
-                        <div className="h-3 bg-muted rounded w-5/6"></div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            ) : products.length === 0 ? (
-              <Card>
-                <CardContent className="text-center py-8">
-                  <List className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                  <h3 className="text-lg font-medium text-foreground mb-2">No Products Submitted</h3>
-                  <p className="text-muted-foreground mb-4">You haven't submitted any products yet.</p>
-                  <Button variant="outline" onClick={() => setActiveTab("submit")} data-testid="button-submit-first">
-                    Submit Your First Product
-                  </Button>
-                </CardContent>
-              </Card>
-            ) : (
-              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {products.map((product) => (
-                  <Card key={product.id} className="hover:shadow-md transition-shadow" data-testid={`card-product-${product.id}`}>
-                    <CardHeader className="pb-3">
-                      <div className="flex justify-between items-start">
-                        <CardTitle className="text-lg font-semibold text-foreground line-clamp-2">
-                          {product.product}
-                        </CardTitle>
-                        <Badge 
-                          className={`${getStatusColor(product.status)} text-white text-xs`}
-                          data-testid={`status-${product.status}`}
-                        >
-                          {product.status}
-                        </Badge>
-                      </div>
-                      <p className="text-sm text-muted-foreground">{product.brand}</p>
-                    </CardHeader>
-                    <CardContent className="space-y-3">
-                      <div className="text-sm space-y-1">
-                        <p><span className="font-medium">Unique ID:</span> {product.uniqueId}</p>
-                        <p><span className="font-medium">MRP:</span> ₹{product.mrp}</p>
-                        <p><span className="font-medium">Net Qty:</span> {product.netQty}</p>
-                        <p><span className="font-medium">Batch:</span> {product.lotBatch}</p>
-                        <p><span className="font-medium">Submitted:</span> {product.submissionDate ? formatDate(product.submissionDate) : 'N/A'}</p>
-                        {product.status === "approved" && product.approvalDate && (
-                          <p><span className="font-medium">Approved:</span> {formatDate(product.approvalDate)}</p>
-                        )}
-                        {product.status === "rejected" && product.rejectionReason && (
-                          <p className="text-red-600"><span className="font-medium">Reason:</span> {product.rejectionReason}</p>
-                        )}
-                      </div>
-                      
-                      <div className="flex gap-2 pt-2">
-                        {(product.status === "pending" || product.status === "rejected") && (
-                          <Button 
-                            size="sm" 
-                            variant="outline" 
-                            onClick={() => handleEdit(product)}
-                            className="flex-1"
-                            data-testid={`button-edit-${product.id}`}
-                          >
-                            <Edit className="h-4 w-4 mr-1" />
-                            Edit
-                          </Button>
-                        )}
-                        {product.status === "approved" && (
-                          <Button 
-                            size="sm" 
-                            variant="outline" 
-                            onClick={() => window.open(`/track/${product.uniqueId}`, '_blank')}
-                            className="flex-1"
-                            data-testid={`button-view-${product.id}`}
-                          >
-                            <Eye className="h-4 w-4 mr-1" />
-                            View Public
-                          </Button>
-                        )}
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            )}
+            <PagedProductTable
+              toolbar={(products) => (
+                <Button
+                  onClick={() => setLabelProducts(products.filter((product) => product.status === "approved"))}
+                  disabled={!products.some((product) => product.status === "approved")}
+                  variant="outline"
+                  data-testid="button-print-labels"
+                >
+                  <Printer className="h-4 w-4 mr-2" />
+                  Print Labels
+                </Button>
+              )}
+              renderActions={(product) => (
+                <>
+                  {OPERATOR_EDITABLE_STATUSES.includes(product.status as ProductStatus) && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleEdit(product)}
+                      data-testid={`button-edit-${product.id}`}
+                    >
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                  )}
+                  {product.status === "approved" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => window.open(`/track/${product.uniqueId}`, '_blank')}
+                      data-testid={`button-view-${product.id}`}
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                    </Button>
+                  )}
+                  {product.status === "approved" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setLabelProducts([product])}
+                      data-testid={`button-label-${product.id}`}
+                    >
+                      <Printer className="h-3 w-3" />
+                    </Button>
+                  )}
+                  <ProductWorkflowActions product={product} compact />
+                </>
+              )}
+            />
             </div>
           )}
+
+          {activeTab === "account" && (
+            <AccountSettings />
+          )}
         </div>
       </div>
       
@@ -327,6 +263,12 @@ export default function HomePage() {
           isLoading={editProductMutation.isPending}
         />
       )}
+
+      <LabelPrintDialog
+        open={labelProducts !== null}
+        onOpenChange={(open) => !open && setLabelProducts(null)}
+        products={labelProducts ?? []}
+      />
     </div>
   );
 }
@@ -4,15 +4,17 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Sprout, Phone, Mail, Download, Calendar, Package, QrCode } from "lucide-react";
-import { Product } from "@shared/schema";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Sprout, Phone, Mail, Download, Calendar, Package, QrCode, AlertTriangle, Store } from "lucide-react";
+import { PublicProductView } from "@shared/schema";
+import { formatDisplayDate } from "@shared/dates";
 import logoUrl from "@assets/nbil-logo-a_1762228411331.png";
 
 export default function PublicProduct() {
   const { uniqueId } = useParams();
   const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string>('');
 
-  const { data: product, isLoading, error } = useQuery<Product>({
+  const { data: product, isLoading, error } = useQuery<PublicProductView>({
     queryKey: ["/api/track", uniqueId],
     queryFn: () => fetch(`/api/track/${uniqueId}`).then(res => {
       if (!res.ok) throw new Error("Product not found");
@@ -102,6 +104,52 @@ export default function PublicProduct() {
 
       {/* Product Information */}
       <div className="max-w-4xl mx-auto p-6">
+        {product.expired && !product.recall && (
+          <Alert variant="destructive" className="mb-6 border-2" data-testid="alert-expired">
+            <AlertTriangle className="h-5 w-5" />
+            <AlertTitle className="text-xl font-bold">Expired Lot - Do Not Sow</AlertTitle>
+            <AlertDescription>
+              This seed lot was valid up to {formatDisplayDate(product.expiryDate)}. Seed from an expired lot may not germinate as stated on
+              the label; please contact your dealer or our customer care.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {product.recall && (
+          <Alert variant="destructive" className="mb-6 border-2" data-testid="alert-recall">
+            <AlertTriangle className="h-5 w-5" />
+            <AlertTitle className="text-xl font-bold">Product Recalled - Do Not Use</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>
+                This seed lot was recalled on {new Date(product.recall.recallDate).toLocaleDateString('en-IN')}.
+              </p>
+              <p data-testid="text-recall-reason">
+                <span className="font-semibold">Reason:</span> {product.recall.reason}
+              </p>
+              <p data-testid="text-recall-instructions">
+                <span className="font-semibold">What to do:</span>{" "}
+                {product.recall.instructions || "Stop using this product and return unused packets to your dealer for a replacement or refund."}
+              </p>
+              {(product.customerCare || product.email) && (
+                <div className="flex flex-wrap gap-4 pt-1">
+                  {product.customerCare && (
+                    <a href={`tel:${product.customerCare}`} className="flex items-center font-semibold underline" data-testid="link-recall-phone">
+                      <Phone className="h-4 w-4 mr-1" />
+                      {product.customerCare}
+                    </a>
+                  )}
+                  {product.email && (
+                    <a href={`mailto:${product.email}`} className="flex items-center font-semibold underline" data-testid="link-recall-email">
+                      <Mail className="h-4 w-4 mr-1" />
+                      {product.email}
+                    </a>
+                  )}
+                </div>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Product Header */}
         <Card className="mb-6">
           <CardHeader>
@@ -114,9 +162,19 @@ export default function PublicProduct() {
                   {product.description}
                 </p>
                 <div className="flex items-center space-x-4">
-                  <Badge className="bg-primary/10 text-primary" data-testid="badge-verified">
-                    Verified Product
-                  </Badge>
+                  {product.recall ? (
+                    <Badge variant="destructive" data-testid="badge-recalled">
+                      Recalled
+                    </Badge>
+                  ) : product.expired ? (
+                    <Badge variant="destructive" data-testid="badge-expired">
+                      Expired
+                    </Badge>
+                  ) : (
+                    <Badge className="bg-primary/10 text-primary" data-testid="badge-verified">
+                      Verified Product
+                    </Badge>
+                  )}
                   <span className="text-sm text-muted-foreground">
                     Product ID: <span className="font-mono" data-testid="text-product-id">{product.uniqueId}</span>
                   </span>
@@ -225,18 +283,20 @@ export default function PublicProduct() {
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
               <div className="bg-muted rounded-lg p-4">
                 <h4 className="font-semibold text-foreground mb-2">Date of Packing</h4>
-                <p className="text-muted-foreground" data-testid="text-mfg-date">{product.mfgDate}</p>
+                <p className="text-muted-foreground" data-testid="text-mfg-date">{formatDisplayDate(product.mfgDate)}</p>
               </div>
               
-              <div className="bg-muted rounded-lg p-4">
+              <div className={product.expired ? "bg-red-50 border border-red-300 rounded-lg p-4" : "bg-muted rounded-lg p-4"}>
                 <h4 className="font-semibold text-foreground mb-2">Valid Upto</h4>
-                <p className="text-muted-foreground" data-testid="text-expiry-date">{product.expiryDate}</p>
+                <p className={product.expired ? "text-red-700 font-semibold" : "text-muted-foreground"} data-testid="text-expiry-date">
+                  {formatDisplayDate(product.expiryDate)}{product.expired && " (expired)"}
+                </p>
               </div>
               
               {product.dateOfTest && (
                 <div className="bg-muted rounded-lg p-4">
                   <h4 className="font-semibold text-foreground mb-2">Date of Test</h4>
-                  <p className="text-muted-foreground" data-testid="text-date-of-test">{product.dateOfTest}</p>
+                  <p className="text-muted-foreground" data-testid="text-date-of-test">{formatDisplayDate(product.dateOfTest)}</p>
                 </div>
               )}
             </div>
@@ -356,6 +416,32 @@ export default function PublicProduct() {
           </CardContent>
         </Card>
 
+        {/* Dealers the lot was sold through */}
+        {product.soldThrough.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Sold Through</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {product.soldThrough.map((dealer, index) => (
+                <div key={`${dealer.name}-${index}`} className="flex items-start gap-3 bg-muted rounded-lg p-3" data-testid="card-sold-through">
+                  <Store className="h-5 w-5 text-primary mt-0.5" />
+                  <div>
+                    <p className="font-semibold text-foreground">{dealer.name}</p>
+                    {dealer.region && <p className="text-sm text-muted-foreground">{dealer.region}</p>}
+                    {dealer.phone && (
+                      <a href={`tel:${dealer.phone}`} className="text-sm text-primary flex items-center gap-1 mt-1">
+                        <Phone className="h-3 w-3" />
+                        {dealer.phone}
+                      </a>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* QR Code Section */}
         <Card className="mb-6">
           <CardHeader>
@@ -0,0 +1,33 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import TwoFactorSettings from "@/components/two-factor-settings";
+import { useAuth } from "@/hooks/use-auth";
+
+// Shown instead of the app until a user whose role requires it sets up two-factor authentication
+export default function TwoFactorSetupPage() {
+  const { logoutMutation } = useAuth();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 to-yellow-50 px-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader>
+          <CardTitle>Set Up Two-Factor Authentication</CardTitle>
+          <CardDescription>
+            Your role requires a code from an authenticator app in addition to your password when signing in.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <TwoFactorSettings />
+          <Button
+            variant="ghost"
+            className="w-full"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+          >
+            Sign Out
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+// Posts opening stock balances for products that had a remaining quantity before the stock
+// ledger existed, so the stock view sees all of it rather than only lots that have
+// since had a movement. Safe to rerun: products that already have ledger lines are skipped.
+//
+//   npx tsx scripts/backfill-opening-stock.ts --dry-run   report only
+//   npx tsx scripts/backfill-opening-stock.ts             post the opening balances
+//
+// Lots without a location are put at the "Unassigned" location. Opening balances posted earlier
+// at a blank location are moved there with a transfer, since no movement can take stock from a
+// blank location.
+import { pool } from "../server/db";
+import { UNASSIGNED_LOCATION } from "@shared/inventory";
+
+const OPENING_NOTE = "Opening balance from the product record";
+const TRANSFER_NOTE = "Moved from a blank location by the opening stock backfill";
+
+async function backfillOpeningStock() {
+  const dryRun = process.argv.includes("--dry-run");
+
+  const { rows: [pending] } = await pool.query(
+    `SELECT count(*)::int AS products, coalesce(sum(remaining_quantity), 0) AS quantity
+     FROM products p
+     WHERE remaining_quantity > 0
+       AND NOT EXISTS (SELECT 1 FROM stock_movement_lines l WHERE l.product_id = p.id)`
+  );
+  const { rows: blank } = await pool.query(
+    `SELECT product_id, stack_no, sum(quantity) AS quantity, sum(packets) AS packets
+     FROM stock_movement_lines
+     WHERE location = ''
+     GROUP BY product_id, stack_no
+     HAVING sum(quantity) <> 0 OR sum(packets) <> 0`
+  );
+
+  console.log(`📊 ${pending.products} products without an opening balance (${pending.quantity} in total), ${blank.length} balances at a blank location`);
+  if (dryRun) {
+    console.log("Dry run: no changes made.");
+    return;
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    // Same lines as the storage layer posts when a product's first movement is written
+    const { rowCount: opened } = await client.query(
+      `WITH candidates AS (
+         SELECT id, location, stack_no, remaining_quantity, total_pkts
+         FROM products p
+         WHERE remaining_quantity > 0
+           AND NOT EXISTS (SELECT 1 FROM stock_movement_lines l WHERE l.product_id = p.id)
+         FOR UPDATE
+       ), movements AS (
+         INSERT INTO stock_movements (product_id, type, note)
+         SELECT id, 'receipt', $1 FROM candidates
+         RETURNING id, product_id
+       )
+       INSERT INTO stock_movement_lines (movement_id, product_id, location, stack_no, quantity, packets)
+       SELECT m.id, c.id, coalesce(nullif(trim(c.location), ''), $2), coalesce(c.stack_no, ''), c.remaining_quantity, coalesce(c.total_pkts, 0)
+       FROM movements m JOIN candidates c ON c.id = m.product_id`,
+      [OPENING_NOTE, UNASSIGNED_LOCATION],
+    );
+
+    // The ledger is append-only, so blank-location stock is moved rather than relabelled
+    for (const balance of blank) {
+      const { rows: [transfer] } = await client.query(
+        `INSERT INTO stock_movements (product_id, type, note) VALUES ($1, 'transfer', $2) RETURNING id`,
+        [balance.product_id, TRANSFER_NOTE],
+      );
+      await client.query(
+        `INSERT INTO stock_movement_lines (movement_id, product_id, location, stack_no, quantity, packets)
+         VALUES ($1, $2, '', $3, -$4::numeric, -$5::numeric), ($1, $2, $6, $3, $4::numeric, $5::numeric)`,
+        [transfer.id, balance.product_id, balance.stack_no, balance.quantity, balance.packets, UNASSIGNED_LOCATION],
+      );
+    }
+    await client.query("COMMIT");
+    console.log(`🎉 Posted ${opened} opening balances and moved ${blank.length} balances to "${UNASSIGNED_LOCATION}".`);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+backfillOpeningStock()
+  .then(async () => {
+    await pool.end();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    console.error("💥 Opening stock backfill failed:", error);
+    await pool.end();
+    process.exit(1);
+  });
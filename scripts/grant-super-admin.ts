@@ -0,0 +1,33 @@
+// Gives an existing user the built-in super_admin role, the only one that can edit roles.
+// Run once after upgrading to the role model, since existing admins keep the "admin" role:
+//
+//   npx tsx scripts/grant-super-admin.ts <username>
+import { pool } from "../server/db";
+import { storage } from "../server/storage";
+import { SUPER_ADMIN_ROLE } from "@shared/permissions";
+
+async function grantSuperAdmin() {
+  const username = process.argv[2];
+  if (!username) {
+    throw new Error("Usage: npx tsx scripts/grant-super-admin.ts <username>");
+  }
+
+  const user = await storage.getUserByUsername(username);
+  if (!user) {
+    throw new Error(`User "${username}" not found`);
+  }
+
+  await storage.updateUser(user.id, { role: SUPER_ADMIN_ROLE });
+  console.log(`✅ ${user.username} is now a super admin (was ${user.role})`);
+}
+
+grantSuperAdmin()
+  .then(async () => {
+    await pool.end();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    console.error("💥 Granting super admin failed:", error instanceof Error ? error.message : error);
+    await pool.end();
+    process.exit(1);
+  });
@@ -0,0 +1,138 @@
+// Converts products.mfg_date, expiry_date and date_of_test from free text to `date` columns.
+// Run this before `npm run db:push` on databases created before the columns were typed:
+//
+//   npx tsx scripts/migrate-product-dates.ts --dry-run            report only
+//   npx tsx scripts/migrate-product-dates.ts                      convert, refusing if any value can't be parsed
+//   npx tsx scripts/migrate-product-dates.ts --clear-unparseable  convert, clearing values that can't be parsed
+//
+// Values in DD/MM/YYYY, YYYY-MM-DD or as Excel serial numbers are converted. Every product whose
+// dates change gets an "updated" audit event holding the original text, so nothing is lost.
+import fs from "fs";
+import { pool } from "../server/db";
+import { parseDateInput } from "@shared/dates";
+import type { ProductFieldChange } from "@shared/schema";
+
+const DATE_COLUMNS = [
+  { column: "mfg_date", field: "mfgDate" },
+  { column: "expiry_date", field: "expiryDate" },
+  { column: "date_of_test", field: "dateOfTest" },
+] as const;
+
+const REPORT_FILE = "product-date-migration-report.csv";
+
+interface UnparseableValue {
+  uniqueId: string;
+  column: string;
+  value: string;
+}
+
+function csvEscape(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+async function migrateProductDates() {
+  const dryRun = process.argv.includes("--dry-run");
+  const clearUnparseable = process.argv.includes("--clear-unparseable");
+
+  const { rows: columnTypes } = await pool.query(
+    `SELECT column_name, data_type FROM information_schema.columns
+     WHERE table_name = 'products' AND column_name = ANY($1)`,
+    [DATE_COLUMNS.map((definition) => definition.column)],
+  );
+  const textColumns = DATE_COLUMNS.filter((definition) =>
+    columnTypes.some((row) => row.column_name === definition.column && row.data_type !== "date")
+  );
+  if (textColumns.length === 0) {
+    console.log("✅ Product date columns are already typed. Nothing to do.");
+    return;
+  }
+  console.log(`🔍 Converting ${textColumns.map((definition) => definition.column).join(", ")}`);
+
+  const { rows } = await pool.query(
+    `SELECT id, unique_id, ${textColumns.map((definition) => definition.column).join(", ")} FROM products`
+  );
+
+  const unparseable: UnparseableValue[] = [];
+  // New values and audit changes per product id, for products with at least one changed date
+  const updates = new Map<string, { values: Record<string, string | null>; changes: ProductFieldChange[] }>();
+
+  for (const row of rows) {
+    for (const { column, field } of textColumns) {
+      const original: string | null = row[column];
+      // Already in the target format
+      if (original === null || parseDateInput(original) === original) {
+        continue;
+      }
+      const trimmed = original.trim();
+      const converted = trimmed === "" ? null : parseDateInput(trimmed);
+      if (converted === null && trimmed !== "") {
+        unparseable.push({ uniqueId: row.unique_id, column, value: original });
+        if (!clearUnparseable) {
+          continue;
+        }
+      }
+      const update = updates.get(row.id) ?? { values: {}, changes: [] };
+      update.values[column] = converted;
+      update.changes.push({ field, oldValue: original, newValue: converted });
+      updates.set(row.id, update);
+    }
+  }
+
+  console.log(`📊 ${rows.length} products, ${updates.size} with dates to rewrite, ${unparseable.length} unparseable values`);
+
+  if (unparseable.length > 0) {
+    console.table(unparseable);
+    fs.writeFileSync(
+      REPORT_FILE,
+      ["Unique ID,Column,Value", ...unparseable.map((item) => [item.uniqueId, item.column, item.value].map(csvEscape).join(","))].join("\r\n") + "\r\n",
+    );
+    console.log(`📝 Unparseable values written to ${REPORT_FILE}`);
+  }
+
+  if (dryRun) {
+    console.log("Dry run: no changes made.");
+    return;
+  }
+  if (unparseable.length > 0 && !clearUnparseable) {
+    throw new Error("Some dates could not be parsed. Fix them, or rerun with --clear-unparseable to clear them.");
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    for (const [id, update] of Array.from(updates)) {
+      const columns = Object.keys(update.values);
+      await client.query(
+        `UPDATE products SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(", ")} WHERE id = $1`,
+        [id, ...columns.map((column) => update.values[column])],
+      );
+      await client.query(
+        `INSERT INTO product_events (product_id, product_unique_id, event_type, changes, comment)
+         SELECT id, unique_id, 'updated', $2::jsonb, $3 FROM products WHERE id = $1`,
+        [id, JSON.stringify(update.changes), "Dates converted to YYYY-MM-DD by the date column migration"],
+      );
+    }
+    for (const { column } of textColumns) {
+      await client.query(`ALTER TABLE products ALTER COLUMN ${column} TYPE date USING ${column}::date`);
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  console.log(`🎉 Converted ${textColumns.length} columns; rewrote dates on ${updates.size} products.`);
+}
+
+migrateProductDates()
+  .then(async () => {
+    await pool.end();
+    process.exit(0);
+  })
+  .catch(async (error) => {
+    console.error("💥 Date migration failed:", error);
+    await pool.end();
+    process.exit(1);
+  });
@@ -0,0 +1,74 @@
+// A local endpoint for trying out webhooks. It checks each delivery's signature and prints
+// the event. Add a webhook for http://localhost:4000/ in the Webhooks tab, then run it with
+// that webhook's secret:
+//
+//   npx tsx scripts/webhook-receiver.ts <secret> [--port 4000] [--fail]
+//
+// With --fail every delivery is answered with a 500, to watch the retries in the delivery log.
+import { createServer } from "http";
+import { createHmac, timingSafeEqual } from "crypto";
+import { WEBHOOK_HEADERS } from "@shared/webhooks";
+
+// Deliveries signed longer ago than this are refused, so a captured request can't be replayed
+const MAX_AGE_SECONDS = 5 * 60;
+
+function option(name: string) {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function verifySignature(secret: string, timestamp: string, body: string, signature: string) {
+  const expected = Buffer.from(`sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+function startReceiver() {
+  const secret = process.argv[2];
+  if (!secret || secret.startsWith("--")) {
+    throw new Error("Usage: npx tsx scripts/webhook-receiver.ts <secret> [--port 4000] [--fail]");
+  }
+  const port = Number(option("--port") ?? 4000);
+  const fail = process.argv.includes("--fail");
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const body = Buffer.concat(chunks).toString("utf8");
+      const header = (name: string) => String(req.headers[name.toLowerCase()] ?? "");
+      const timestamp = header(WEBHOOK_HEADERS.timestamp);
+      const event = header(WEBHOOK_HEADERS.event);
+
+      if (!verifySignature(secret, timestamp, body, header(WEBHOOK_HEADERS.signature))) {
+        console.log(`❌ ${event || req.method}: bad signature`);
+        res.writeHead(401).end("Bad signature");
+        return;
+      }
+      if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_AGE_SECONDS) {
+        console.log(`❌ ${event}: timestamp too old`);
+        res.writeHead(401).end("Timestamp too old");
+        return;
+      }
+
+      console.log(`📨 ${event} (delivery ${header(WEBHOOK_HEADERS.delivery)})`);
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+      if (fail) {
+        res.writeHead(500).end("Failing on purpose (--fail)");
+        return;
+      }
+      res.writeHead(204).end();
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`👂 Webhook receiver listening on http://localhost:${port}/${fail ? " (failing every delivery)" : ""}`);
+  });
+}
+
+try {
+  startReceiver();
+} catch (error) {
+  console.error("💥", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,58 @@
+import { storage, type ProductAlertInput } from "./storage";
+import { log } from "./log";
+import { notifyNewAlerts } from "./notifications";
+import { evaluateProductAlerts } from "@shared/alerts";
+import { todayIsoDate } from "@shared/dates";
+
+// Dates only change once a day, but an hourly scan picks up edited products and settings soon enough
+const ALERT_SCAN_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface AlertScanResult {
+  scannedAt: Date;
+  products: number;
+  alerts: number;
+}
+
+let lastScan: AlertScanResult | null = null;
+let runningScan: Promise<AlertScanResult> | null = null;
+
+export function getLastAlertScan(): AlertScanResult | null {
+  return lastScan;
+}
+
+async function scan(): Promise<AlertScanResult> {
+  const settings = await storage.getAlertSettings();
+  const today = todayIsoDate();
+  const products = await storage.getProductsForAlertScan();
+
+  const alerts: ProductAlertInput[] = products.flatMap((product) =>
+    evaluateProductAlerts(product, settings, today).map((finding) => ({ productId: product.id, ...finding }))
+  );
+  const opened = await storage.replaceProductAlerts(alerts);
+  notifyNewAlerts(opened, products).catch((error) => console.error("Alert notification error:", error));
+
+  lastScan = { scannedAt: new Date(), products: products.length, alerts: alerts.length };
+  return lastScan;
+}
+
+// Re-evaluates every monitored product. Concurrent callers share the scan already in progress.
+export function runAlertScan(): Promise<AlertScanResult> {
+  if (!runningScan) {
+    runningScan = scan().finally(() => {
+      runningScan = null;
+    });
+  }
+  return runningScan;
+}
+
+export function startAlertScheduler() {
+  const runScheduledScan = () => {
+    runAlertScan()
+      .then((result) => log(`alert scan: ${result.alerts} alerts across ${result.products} products`))
+      .catch((error) => console.error("Alert scan error:", error));
+  };
+
+  runScheduledScan();
+  // Don't keep the process alive just for the scheduler
+  setInterval(runScheduledScan, ALERT_SCAN_INTERVAL_MS).unref();
+}
@@ -0,0 +1,75 @@
+// Bearer token authentication for API tokens (see shared/api-tokens.ts). A token request acts
+// as the token's user, limited to the token's scopes.
+import type { NextFunction, Request, Response } from "express";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { API_TOKEN_PREFIX } from "@shared/api-tokens";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request was authenticated with an API token rather than a session
+      apiToken?: { id: string; name: string };
+    }
+  }
+}
+
+// Characters of the token kept in the clear to tell tokens apart
+const TOKEN_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+// Last-used time is only written when older than this, to avoid a write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function hashApiToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function generateApiToken() {
+  const token = API_TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  return { token, tokenPrefix: token.slice(0, TOKEN_PREFIX_LENGTH), tokenHash: hashApiToken(token) };
+}
+
+function isApiPathOpenToTokens(path: string) {
+  // Tokens can't manage the account they act as, or other tokens
+  if (path === "/user") return true;
+  return !path.startsWith("/user/") && !path.startsWith("/api-tokens") && !path.startsWith("/login") && path !== "/logout";
+}
+
+// Authenticates requests with an "Authorization: Bearer" header. Runs after the session so the
+// token decides who the request acts as; requests without the header are left alone, and so are
+// the scheduled job routes, whose bearer value is the cron secret they check themselves.
+export async function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ") || req.path.startsWith("/cron/")) {
+    return next();
+  }
+  try {
+    const token = header.slice("Bearer ".length).trim();
+    const apiToken = token.startsWith(API_TOKEN_PREFIX)
+      ? await storage.getApiTokenByHash(hashApiToken(token))
+      : undefined;
+    const user = apiToken && !apiToken.revokedAt && apiToken.expiresAt > new Date()
+      ? await storage.getUserWithPermissions(apiToken.userId)
+      : undefined;
+    if (!apiToken || !user?.active) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+    if (!isApiPathOpenToTokens(req.path)) {
+      return res.status(403).json({ message: "API tokens can't be used for this request" });
+    }
+
+    // A token never grants more than its user currently has
+    req.user = { ...user, permissions: user.permissions.filter((permission) => apiToken.scopes.includes(permission)) };
+    req.apiToken = { id: apiToken.id, name: apiToken.name };
+
+    const ipAddress = req.ip ?? null;
+    if (!apiToken.lastUsedAt
+      || Date.now() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+      || apiToken.lastUsedIp !== ipAddress) {
+      await storage.recordApiTokenUse(apiToken.id, ipAddress);
+    }
+    next();
+  } catch (error) {
+    console.error("API token authentication error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+}
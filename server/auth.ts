@@ -1,39 +1,155 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { AuthenticatedUser, SessionUser, User, passwordChangeSchema } from "@shared/schema";
+import { checkPasswordComplexity } from "@shared/password-policy";
+import { isCommonPassword } from "./common-passwords";
+import { beginLoginAttempt, checkLoginThrottle, clearFailedLogins, finishLoginAttempt, lockedRefusal, recordLoginFailure, type LoginRefusal } from "./login-protection";
+import { generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, totpProvisioningUri, verifyTotp } from "./totp";
+import { notificationPreferencesSchema } from "@shared/notifications";
+import { twoFactorCodeSchema, twoFactorDisableSchema, twoFactorLoginSchema, type TwoFactorChallenge, type TwoFactorSetup } from "@shared/two-factor";
+import { authenticateApiToken } from "./api-tokens";
+import QRCode from "qrcode";
+import { z } from "zod";
 
 declare global {
   namespace Express {
-    interface User extends SelectUser {}
+    interface User extends AuthenticatedUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Set after a correct password for an account with two-factor authentication
+    pendingTwoFactor?: { userId: string; expiresAt: number };
   }
 }
 
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+// Paths under /api a user with a pending forced password change can still use
+const PASSWORD_CHANGE_PATHS = ["/user", "/user/password", "/user/password-policy", "/logout"];
+// ...and those a user whose role requires two-factor authentication can use before setting it up
+const TWO_FACTOR_SETUP_PATHS = ["/user", "/user/two-factor", "/user/two-factor/setup", "/user/two-factor/enable", "/logout"];
+
+// Time allowed between the password and the authenticator code
+const TWO_FACTOR_LOGIN_MINUTES = 5;
+const TOTP_ISSUER = "Nath Seeds";
+
+// Every response about the signed-in user goes through this, so secrets stored on the row never
+// reach the browser
+function toSessionUser(user: AuthenticatedUser): SessionUser {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    role: user.role,
+    mustChangePassword: user.mustChangePassword,
+    twoFactorEnabled: user.twoFactorEnabled,
+    twoFactorRequired: user.twoFactorRequired,
+    createdAt: user.createdAt,
+    permissions: user.permissions,
+  };
+}
+
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Checks a new password against the password policy; reuse is only checked when the
+// account's previous passwords are given. Returns the first problem found, or null.
+export async function checkNewPassword(
+  password: string,
+  username: string,
+  previous?: Pick<User, "id" | "password">,
+): Promise<string | null> {
+  const policy = await storage.getPasswordPolicy();
+  const problem = checkPasswordComplexity(password, policy, username);
+  if (problem) {
+    return problem;
+  }
+  if (policy.rejectCommonPasswords && isCommonPassword(password)) {
+    return "This password is too common. Choose one that is harder to guess";
+  }
+  if (previous && policy.historyCount > 0) {
+    const hashes = [previous.password, ...await storage.getPasswordHistory(previous.id, policy.historyCount)];
+    for (const hash of hashes) {
+      if (await comparePasswords(password, hash)) {
+        return `Choose a password you haven't used in your last ${policy.historyCount} passwords`;
+      }
+    }
+  }
+  return null;
+}
+
+// Stores a new password for the user and remembers it for the reuse check
+export async function setUserPassword(userId: string, password: string, mustChangePassword: boolean) {
+  const hashed = await hashPassword(password);
+  const user = await storage.updateUser(userId, { password: hashed, mustChangePassword });
+  if (user) {
+    await storage.addPasswordHistory(userId, hashed);
+  }
+  return user;
+}
+
+// Checks an authenticator code for a user with two-factor authentication switched on.
+// Each code is accepted once.
+async function verifyUserTotp(userId: string, code: string): Promise<boolean> {
+  const totp = await storage.getTotp(userId);
+  if (!totp?.enabledAt) {
+    return false;
+  }
+  const step = verifyTotp(totp.secret, code);
+  return step !== null && await storage.claimTotpStep(userId, step);
+}
+
+// Passed on by the local strategy when the password is right, to finish the attempt it recorded
+interface PasswordAccepted {
+  message: string;
+  attemptId: string;
+}
+
+// Final step of a successful sign-in, after the password and, if enabled, the authenticator code
+async function completeLogin(req: Request, res: Response, next: NextFunction, user: Express.User, attemptId: string) {
+  await finishLoginAttempt(attemptId, "success");
+  if (user.failedLoginCount > 0 || user.lockedUntil) {
+    await clearFailedLogins(user.id);
+  }
+  req.login(user, (loginErr) => {
+    if (loginErr) return next(loginErr);
+    res.status(200).json(toSessionUser(user));
+  });
+}
+
+function sendRefusal(res: Response, { status, ...body }: LoginRefusal) {
+  if (body.retryAfterSeconds) {
+    res.set("Retry-After", String(body.retryAfterSeconds));
+  }
+  res.status(status).json(body);
+}
+
 export function setupAuth(app: Express) {
-  // Get session secret from environment or use a temporary default for development
-  const sessionSecret = process.env.SESSION_SECRET || 'temp-dev-secret-change-in-production-' + Date.now();
+  // Get session secret from environment; development falls back to a random one per process
+  if (!process.env.SESSION_SECRET && process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  const sessionSecret = process.env.SESSION_SECRET || randomBytes(32).toString("hex");
   
   if (!process.env.SESSION_SECRET) {
-    console.warn('⚠️  SESSION_SECRET not set! Using temporary secret for development. Please set SESSION_SECRET environment variable for production.');
+    console.warn('⚠️  SESSION_SECRET not set! Using a random secret for development; sessions end when the server restarts. Please set SESSION_SECRET environment variable for production.');
   }
 
   const sessionSettings: session.SessionOptions = {
@@ -42,7 +158,9 @@ export function setupAuth(app: Express) {
     saveUninitialized: false,
     store: storage.sessionStore,
     cookie: {
-      secure: false, // Set to true in production with HTTPS
+      // Secure whenever the request came over HTTPS, including through the Vercel or Replit
+      // proxy (see trust proxy below), so plain-HTTP local servers still get a cookie
+      secure: "auto",
       httpOnly: true,
       maxAge: 24 * 60 * 60 * 1000, // 24 hours
       sameSite: 'lax'
@@ -54,27 +172,141 @@ export function setupAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // Every attempt is logged; refusals carry a LoginRefusal for the response and accepted
+  // passwords the attempt to finish
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
-      const user = await storage.getUserByUsername(username);
-      if (!user || !(await comparePasswords(password, user.password))) {
-        return done(null, false);
-      } else {
-        return done(null, user);
+    new LocalStrategy({ passReqToCallback: true }, async (req, username, password, done) => {
+      try {
+        const ipAddress = req.ip ?? null;
+        const user = await storage.getUserByUsername(username);
+        const attemptId = await beginLoginAttempt(username, user, ipAddress);
+
+        const throttled = await checkLoginThrottle(user, ipAddress);
+        if (throttled) {
+          await finishLoginAttempt(attemptId, throttled.status === 423 ? "locked" : "throttled");
+          return done(null, false, throttled);
+        }
+
+        const invalid: LoginRefusal = { status: 401, message: "Invalid username or password" };
+        if (!user) {
+          await finishLoginAttempt(attemptId, "unknown_user");
+          return done(null, false, invalid);
+        }
+        if (!(await comparePasswords(password, user.password))) {
+          await finishLoginAttempt(attemptId, "wrong_password");
+          const lockedUntil = await recordLoginFailure(user);
+          return done(null, false, lockedUntil ? lockedRefusal(lockedUntil) : invalid);
+        }
+        if (!user.active) {
+          await finishLoginAttempt(attemptId, "inactive");
+          return done(null, false, invalid);
+        }
+
+        // Success is recorded by completeLogin, after the authenticator code if one is needed
+        const accepted: PasswordAccepted = { message: "Password accepted", attemptId };
+        return done(null, await storage.getUserWithPermissions(user.id), accepted);
+      } catch (error) {
+        return done(error);
       }
     }),
   );
 
   passport.serializeUser((user, done) => done(null, user.id));
+  // Permissions are read with the user on every request, so role changes and deactivation apply immediately
   passport.deserializeUser(async (id: string, done) => {
-    const user = await storage.getUser(id);
-    done(null, user);
+    const user = await storage.getUserWithPermissions(id);
+    done(null, user?.active ? user : false);
+  });
+
+  app.use("/api", authenticateApiToken);
+
+  // After an admin reset, the user may only change their password or sign out. Then, if their
+  // role requires it, they must set up two-factor authentication. API tokens aren't held back.
+  app.use("/api", (req, res, next) => {
+    if (!req.isAuthenticated() || req.apiToken) {
+      return next();
+    }
+    if (req.user.mustChangePassword) {
+      if (!PASSWORD_CHANGE_PATHS.includes(req.path)) {
+        return res.status(403).json({ message: "You must change your password before continuing" });
+      }
+    } else if (req.user.twoFactorRequired && !req.user.twoFactorEnabled && !TWO_FACTOR_SETUP_PATHS.includes(req.path)) {
+      return res.status(403).json({ message: "You must set up two-factor authentication before continuing" });
+    }
+    next();
   });
 
-  // Registration disabled - operators created by admin through user management
+  // Registration disabled - users are created by admins through user management
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  // Answers with the user, or with a TwoFactorChallenge when an authenticator code is needed
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", async (err: unknown, user: Express.User | false, info?: LoginRefusal | PasswordAccepted) => {
+      try {
+        if (err) return next(err);
+        if (!user || !info || !("attemptId" in info)) {
+          const refusal = info && "status" in info ? info : undefined;
+          return sendRefusal(res, refusal ?? { status: 401, message: "Invalid username or password" });
+        }
+        if (user.twoFactorEnabled) {
+          await finishLoginAttempt(info.attemptId, "awaiting_two_factor");
+          req.session.pendingTwoFactor = {
+            userId: user.id,
+            expiresAt: Date.now() + TWO_FACTOR_LOGIN_MINUTES * 60 * 1000,
+          };
+          const challenge: TwoFactorChallenge = { awaitingTwoFactor: true };
+          return res.status(200).json(challenge);
+        }
+        await completeLogin(req, res, next, user, info.attemptId);
+      } catch (error) {
+        next(error);
+      }
+    })(req, res, next);
+  });
+
+  // Second sign-in step with an authenticator or recovery code. Wrong codes count
+  // towards the lockout like wrong passwords.
+  app.post("/api/login/two-factor", async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      const user = pending && pending.expiresAt > Date.now()
+        ? await storage.getUserWithPermissions(pending.userId)
+        : undefined;
+      if (!user || !user.active || !user.twoFactorEnabled) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired. Enter your username and password again." });
+      }
+
+      const body = twoFactorLoginSchema.parse(req.body);
+      const ipAddress = req.ip ?? null;
+      const attemptId = await beginLoginAttempt(user.username, user, ipAddress);
+      const throttled = await checkLoginThrottle(user, ipAddress);
+      if (throttled) {
+        await finishLoginAttempt(attemptId, throttled.status === 423 ? "locked" : "throttled");
+        return sendRefusal(res, throttled);
+      }
+
+      const valid = "code" in body
+        ? await verifyUserTotp(user.id, body.code)
+        : await storage.useRecoveryCode(user.id, hashRecoveryCode(body.recoveryCode));
+      if (!valid) {
+        await finishLoginAttempt(attemptId, "two_factor_failed");
+        const lockedUntil = await recordLoginFailure(user);
+        if (lockedUntil) {
+          delete req.session.pendingTwoFactor;
+          return sendRefusal(res, lockedRefusal(lockedUntil));
+        }
+        return res.status(400).json({ message: "That code is not correct" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      await completeLogin(req, res, next, user, attemptId);
+    } catch (error) {
+      console.error("Two-factor login error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -86,6 +318,198 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toSessionUser(req.user));
+  });
+
+  // Password rules, so forms can show them before the password is submitted
+  app.get("/api/user/password-policy", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      res.json(await storage.getPasswordPolicy());
+    } catch (error) {
+      console.error("Get password policy error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Change your own password; also clears a pending forced change
+  app.post("/api/user/password", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const { currentPassword, newPassword } = passwordChangeSchema.parse(req.body);
+      if (!(await comparePasswords(currentPassword, req.user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      const problem = await checkNewPassword(newPassword, req.user.username, req.user);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+
+      await setUserPassword(req.user.id, newPassword, false);
+      const user = await storage.getUserWithPermissions(req.user.id);
+      res.json(toSessionUser(user!));
+    } catch (error) {
+      console.error("Change password error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Which notifications the signed-in user gets in the app and by email
+  app.get("/api/user/notification-preferences", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      res.json(await storage.getNotificationPreferences(req.user.id));
+    } catch (error) {
+      console.error("Get notification preferences error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/user/notification-preferences", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const preferences = notificationPreferencesSchema.parse(req.body);
+      res.json(await storage.updateNotificationPreferences(req.user.id, preferences));
+    } catch (error) {
+      console.error("Update notification preferences error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/user/two-factor", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      res.json({
+        enabled: req.user.twoFactorEnabled,
+        required: req.user.twoFactorRequired,
+        recoveryCodesRemaining: req.user.twoFactorEnabled ? await storage.countUnusedRecoveryCodes(req.user.id) : 0,
+      });
+    } catch (error) {
+      console.error("Get two-factor status error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Start enrollment: a new secret to scan into an authenticator app
+  app.post("/api/user/two-factor/setup", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      if (req.user.twoFactorEnabled) {
+        return res.status(400).json({ message: "Two-factor authentication is already on" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.saveTotpSecret(req.user.id, secret);
+      const otpauthUrl = totpProvisioningUri(secret, req.user.username, TOTP_ISSUER);
+      const setup: TwoFactorSetup = {
+        secret,
+        otpauthUrl,
+        qrCode: await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 240 }),
+      };
+      res.json(setup);
+    } catch (error) {
+      console.error("Two-factor setup error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Finish enrollment with a first code; the recovery codes are only ever shown in this response
+  app.post("/api/user/two-factor/enable", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const totp = await storage.getTotp(req.user.id);
+      if (!totp || totp.enabledAt) {
+        return res.status(400).json({ message: "Start the two-factor setup again" });
+      }
+      const step = verifyTotp(totp.secret, code);
+      if (step === null) {
+        return res.status(400).json({ message: "That code is not correct. Check that the time on your phone is right and try again." });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.enableTwoFactor(req.user.id, step, recoveryCodes.map(hashRecoveryCode));
+      const user = await storage.getUserWithPermissions(req.user.id);
+      res.json({ recoveryCodes, user: toSessionUser(user!) });
+    } catch (error) {
+      console.error("Enable two-factor error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // New recovery codes replace all earlier ones
+  app.post("/api/user/two-factor/recovery-codes", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      if (!(await verifyUserTotp(req.user.id, code))) {
+        return res.status(400).json({ message: "That code is not correct" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(req.user.id, recoveryCodes.map(hashRecoveryCode));
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Regenerate recovery codes error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/user/two-factor/disable", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      if (req.user.twoFactorRequired) {
+        return res.status(403).json({ message: "Your role requires two-factor authentication" });
+      }
+
+      const { password } = twoFactorDisableSchema.parse(req.body);
+      if (!(await comparePasswords(password, req.user.password))) {
+        return res.status(400).json({ message: "Password is incorrect" });
+      }
+
+      await storage.disableTwoFactor(req.user.id);
+      const user = await storage.getUserWithPermissions(req.user.id);
+      res.json(toSessionUser(user!));
+    } catch (error) {
+      console.error("Disable two-factor error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
   });
 }
@@ -0,0 +1,21 @@
+import type { NextFunction, Request, Response } from "express";
+import { hasPermission, type Permission } from "@shared/permissions";
+
+export { hasPermission };
+
+// Route guard: the user must be signed in and hold at least one of the permissions.
+// Without any permissions it only requires a signed-in user.
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (permissions.length > 0 && !permissions.some((permission) => hasPermission(req.user, permission))) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    next();
+  };
+}
+
+// Shorthand for routes open to any signed-in user
+export const requireAuthenticated = requirePermission();
@@ -0,0 +1,46 @@
+// Commonly used and breached passwords, checked locally so no password leaves the server.
+// Compiled from public top-password lists plus local variants (company, crop and city names).
+const COMMON_PASSWORD_LIST = `
+123456 123456789 12345678 12345 1234567 1234567890 123123 111111 000000 654321
+666666 121212 112233 123321 987654321 1q2w3e4r 1q2w3e 1qaz2wsx qwerty qwerty123
+qwertyuiop qwe123 asdfgh asdfghjkl asdf1234 zxcvbnm zxcvbn password password1 password12
+password123 passw0rd p@ssword p@ssw0rd pass pass123 pass1234 admin admin1 admin12
+admin123 admin1234 administrator root toor test test1 test12 test123 test1234
+testing guest guest123 user user123 login welcome welcome1 welcome123 letmein
+letmein1 changeme default secret secret123 master master123 iloveyou iloveu
+princess sunshine shadow dragon monkey football baseball basketball soccer hockey
+cricket superman batman trustno1 starwars whatever freedom hello hello123 hellohello
+abc123 abcd1234 abcdef abcdefg abc12345 aa123456 a123456 a12345678 qazwsx
+michael jennifer jessica charlie daniel ashley andrew thomas jordan hunter
+killer harley ranger buster tigger summer winter spring autumn flower
+computer internet google facebook linkedin instagram samsung apple
+mustang ferrari porsche chelsea arsenal liverpool manchester barcelona
+india india123 india@123 bharat hindustan mumbai mumbai123 pune delhi
+aurangabad sambhajinagar maharashtra nagpur nashik hyderabad bangalore chennai
+kolkata jaipur jalna latur nanded solapur kolhapur
+nath nath123 nathseeds nathseeds123 nathseed nath@123 seeds seeds123 seed seed123
+farmer farmer123 farming kisan kisan123 krishi krishi123 agri agri123
+agriculture crop crops paddy wheat cotton soybean maize tomato onion
+chilli brinjal bajra jowar sugarcane
+ganesh ganesha ganpati krishna shiva shivaji jaishriram jaihind jaimaharashtra
+saibaba omsairam radhe radhekrishna sairam om123 hanuman
+operator operator123 manager manager123 office office123 company company123
+demo demo123 sample temp temp123 temporary newpassword newpass
+mypassword mypass yourpassword nopassword password!
+qwerty1 qwerty12 qwerty1234 123qwe 123abc 1234qwer 12qwaszx zaq12wsx
+000000000 1111111 11111111 123123123 1234512345 0987654321 147258369 159753
+7777777 88888888 999999 5555555 1212121 696969 131313 202020
+baby123 love love123 lovely loveme lover iloveyou1 mother father family
+`.trim().split(/\s+/);
+
+const COMMON_PASSWORDS = new Set(COMMON_PASSWORD_LIST);
+
+// Also catches simple decorations of listed words, e.g. "Test@123" or "Welcome2024!"
+export function isCommonPassword(password: string): boolean {
+  const normalized = password.toLowerCase();
+  if (COMMON_PASSWORDS.has(normalized)) {
+    return true;
+  }
+  const base = normalized.replace(/[^a-z]+$/, "").replace(/^[^a-z]+/, "");
+  return base.length >= 4 && COMMON_PASSWORDS.has(base);
+}
@@ -0,0 +1,137 @@
+import PDFDocument from "pdfkit";
+import type { DispatchNoteWithItems } from "@shared/schema";
+import { formatDisplayDate } from "@shared/dates";
+
+const PAGE_MARGIN = 40;
+
+// Line item columns; widths are fractions of the printable width
+const ITEM_COLUMNS: { label: string; width: number; align?: "right"; value: (item: DispatchNoteWithItems["items"][number], index: number) => string }[] = [
+  { label: "#", width: 0.05, value: (_item, index) => String(index + 1) },
+  { label: "Unique ID", width: 0.18, value: (item) => item.product.uniqueId },
+  { label: "Crop / Variety", width: 0.22, value: (item) => [item.product.product, item.product.marketCode].filter(Boolean).join(" / ") },
+  { label: "Lot No", width: 0.13, value: (item) => item.product.lotNo ?? "" },
+  { label: "From", width: 0.18, value: (item) => item.fromStack ? `${item.fromLocation} / ${item.fromStack}` : item.fromLocation },
+  { label: "Packets", width: 0.1, align: "right", value: (item) => formatQuantity(item.packets) },
+  { label: "Quantity", width: 0.14, align: "right", value: (item) => formatQuantity(item.quantity) },
+];
+
+function formatQuantity(value: string | number): string {
+  return Number(value).toLocaleString("en-IN", { maximumFractionDigits: 2 });
+}
+
+function drawItemRow(doc: PDFKit.PDFDocument, values: string[], y: number, width: number, bold: boolean): number {
+  doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+  let x = PAGE_MARGIN;
+  let height = 0;
+  ITEM_COLUMNS.forEach((column, index) => {
+    const columnWidth = column.width * width;
+    const options = { width: columnWidth - 6, align: column.align ?? "left" } as const;
+    doc.text(values[index], x + 3, y + 4, options);
+    height = Math.max(height, doc.heightOfString(values[index], options));
+    x += columnWidth;
+  });
+  return height + 8;
+}
+
+// Renders a dispatch note (delivery challan) for the dealer and the transporter
+export async function renderDispatchNotePdf(note: DispatchNoteWithItems): Promise<Buffer> {
+  const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN, info: { Title: `Dispatch Note ${note.noteNumber}` } });
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const sender = note.items.find((item) => item.product.company)?.product;
+
+  // Header: sender and note number
+  doc.font("Helvetica-Bold").fontSize(16).text(sender?.company || "Dispatch Note", PAGE_MARGIN, PAGE_MARGIN, { width });
+  if (sender?.companyAddress) {
+    doc.font("Helvetica").fontSize(9).text(sender.companyAddress, { width });
+  }
+  doc.moveDown(0.5);
+  doc.font("Helvetica-Bold").fontSize(13).text("DISPATCH NOTE", { width, align: "center" });
+  doc.moveDown(0.5);
+
+  // Consignee on the left, dispatch details on the right
+  const detailsY = doc.y;
+  const halfWidth = width / 2 - 10;
+  doc.font("Helvetica-Bold").fontSize(10).text("Consignee", PAGE_MARGIN, detailsY, { width: halfWidth });
+  doc.font("Helvetica").text(note.dealerName, { width: halfWidth });
+  if (note.dealerAddress) {
+    doc.text(note.dealerAddress, { width: halfWidth });
+  }
+  const leftBottom = doc.y;
+
+  const details: [string, string | null][] = [
+    ["Note No", note.noteNumber],
+    ["Date", formatDisplayDate(note.dispatchDate)],
+    ["Vehicle No", note.vehicleNo],
+    ["Driver", note.driverName],
+  ];
+  const rightX = PAGE_MARGIN + width / 2 + 10;
+  let detailY = detailsY;
+  for (const [label, value] of details.filter(([, value]) => value)) {
+    doc.font("Helvetica").fontSize(10).text(`${label}:`, rightX, detailY, { width: 70 });
+    doc.font("Helvetica-Bold").text(value!, rightX + 70, detailY, { width: halfWidth - 70 });
+    detailY = doc.y + 2;
+  }
+
+  let y = Math.max(leftBottom, detailY) + 15;
+
+  // Line items, repeating the header row on every page
+  const drawHeader = () => {
+    doc.rect(PAGE_MARGIN, y, width, 18).fill("#eeeeee").fillColor("#000000");
+    y += drawItemRow(doc, ITEM_COLUMNS.map((column) => column.label), y, width, true);
+  };
+  drawHeader();
+  note.items.forEach((item, index) => {
+    const values = ITEM_COLUMNS.map((column) => column.value(item, index));
+    if (y + 30 > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+      drawHeader();
+    }
+    y += drawItemRow(doc, values, y, width, false);
+    doc.moveTo(PAGE_MARGIN, y).lineTo(PAGE_MARGIN + width, y).lineWidth(0.5).stroke("#cccccc");
+  });
+
+  const totalPackets = note.items.reduce((sum, item) => sum + Number(item.packets), 0);
+  const totalQuantity = note.items.reduce((sum, item) => sum + Number(item.quantity), 0);
+  const totals = ITEM_COLUMNS.map((column) => {
+    switch (column.label) {
+      case "From":
+        return "Total";
+      case "Packets":
+        return formatQuantity(totalPackets);
+      case "Quantity":
+        return formatQuantity(totalQuantity);
+      default:
+        return "";
+    }
+  });
+  y += drawItemRow(doc, totals, y, width, true);
+
+  if (note.remarks) {
+    doc.font("Helvetica-Bold").fontSize(10).text("Remarks", PAGE_MARGIN, y + 10, { width });
+    doc.font("Helvetica").text(note.remarks, { width });
+    y = doc.y;
+  }
+
+  // Signatures at the bottom of the last page
+  if (y + 80 > doc.page.height - PAGE_MARGIN) {
+    doc.addPage();
+  }
+  const signatureY = doc.page.height - PAGE_MARGIN - 40;
+  const signatureWidth = width / 3;
+  ["Prepared by", "Driver", "Received by (dealer)"].forEach((label, index) => {
+    const x = PAGE_MARGIN + index * signatureWidth;
+    doc.moveTo(x + 10, signatureY).lineTo(x + signatureWidth - 10, signatureY).lineWidth(0.5).stroke("#000000");
+    doc.font("Helvetica").fontSize(9).text(label, x + 10, signatureY + 4, { width: signatureWidth - 20, align: "center" });
+  });
+
+  doc.end();
+  return await finished;
+}
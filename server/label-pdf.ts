@@ -0,0 +1,144 @@
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import type { Product } from "@shared/schema";
+import type { LabelTemplate } from "@shared/labels";
+import { formatDisplayDate } from "@shared/dates";
+
+const POINTS_PER_MM = 72 / 25.4;
+
+// Statutory seed label fields in print order
+const LABEL_FIELDS: { label: string; value: (product: Product) => string | null | undefined }[] = [
+  { label: "Kind", value: (product) => product.product },
+  { label: "Variety", value: (product) => product.marketCode },
+  { label: "Class", value: (product) => product.classType },
+  { label: "Lot No", value: (product) => product.lotNo || product.lotBatch },
+  { label: "Label No", value: (product) => product.labelNumber },
+  { label: "Date of Test", value: (product) => formatDisplayDate(product.dateOfTest) },
+  { label: "Date of Packing", value: (product) => formatDisplayDate(product.mfgDate) },
+  { label: "Valid Upto", value: (product) => formatDisplayDate(product.expiryDate) },
+  { label: "Germination (min)", value: (product) => product.normalGermination && `${product.normalGermination}%` },
+  { label: "Genetic Purity", value: (product) => product.gotPercent && `${product.gotPercent}%` },
+  { label: "Net Qty", value: (product) => product.netQty },
+  { label: "MRP", value: (product) => product.mrp && `Rs. ${product.mrp}` },
+];
+
+function mm(value: number): number {
+  return value * POINTS_PER_MM;
+}
+
+function drawLabel(
+  doc: PDFKit.PDFDocument,
+  product: Product,
+  qrCode: Buffer,
+  trackingUrl: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) {
+  const padding = mm(3);
+  doc.lineWidth(0.5).rect(x + 1, y + 1, width - 2, height - 2).stroke("#999999");
+
+  const innerX = x + padding;
+  const innerWidth = width - padding * 2;
+  let cursorY = y + padding;
+
+  // Header: producer and marketer
+  const headerSize = Math.min(10, height / 18);
+  doc.fillColor("#000000").font("Helvetica-Bold").fontSize(headerSize)
+    .text(product.company || product.marketedBy || "", innerX, cursorY, { width: innerWidth, lineBreak: false, ellipsis: true });
+  cursorY += headerSize * 1.3;
+  if (product.companyAddress) {
+    doc.font("Helvetica").fontSize(headerSize * 0.7)
+      .text(product.companyAddress, innerX, cursorY, { width: innerWidth, lineBreak: false, ellipsis: true });
+    cursorY += headerSize;
+  }
+  doc.moveTo(innerX, cursorY).lineTo(innerX + innerWidth, cursorY).stroke("#000000");
+  cursorY += mm(1.5);
+
+  // QR code on the right, with the unique ID printed underneath
+  const footerSize = Math.min(7, height / 24);
+  const footerLines = product.customerCare ? 2 : 1;
+  const bodyHeight = y + height - padding - cursorY - footerSize * 1.2 * footerLines;
+  const qrSize = Math.min(bodyHeight - footerSize * 1.4, innerWidth * 0.38);
+  const qrX = innerX + innerWidth - qrSize;
+  doc.image(qrCode, qrX, cursorY, { width: qrSize, height: qrSize });
+  doc.font("Helvetica-Bold").fontSize(footerSize)
+    .text(product.uniqueId, qrX - mm(5), cursorY + qrSize + 2, { width: qrSize + mm(5), align: "right", lineBreak: false });
+
+  // Field rows on the left, shrunk to fit the label height
+  const fields = LABEL_FIELDS
+    .map((field) => ({ label: field.label, value: field.value(product) }))
+    .filter((field) => field.value);
+  const fieldWidth = innerWidth - qrSize - mm(2);
+  const fontSize = Math.max(4.5, Math.min(9, bodyHeight / (fields.length * 1.3)));
+  const labelWidth = fieldWidth * 0.45;
+  for (const field of fields) {
+    doc.font("Helvetica").fontSize(fontSize)
+      .text(`${field.label}:`, innerX, cursorY, { width: labelWidth, lineBreak: false, ellipsis: true });
+    doc.font("Helvetica-Bold")
+      .text(String(field.value), innerX + labelWidth, cursorY, { width: fieldWidth - labelWidth, lineBreak: false, ellipsis: true });
+    cursorY += fontSize * 1.3;
+  }
+
+  // Footer: where the label can be verified
+  doc.font("Helvetica").fontSize(footerSize * 0.85).fillColor("#333333")
+    .text(`Verify: ${trackingUrl}`, innerX, y + height - padding - footerSize, { width: innerWidth, lineBreak: false, ellipsis: true });
+  if (product.customerCare) {
+    doc.text(`Customer care: ${product.customerCare}`, innerX, y + height - padding - footerSize * 2.2, {
+      width: fieldWidth,
+      lineBreak: false,
+      ellipsis: true,
+    });
+  }
+  doc.fillColor("#000000");
+}
+
+// Renders labels for the given products (already in print order) into a PDF
+export async function renderLabelsPdf(
+  products: Product[],
+  template: LabelTemplate,
+  options: { copies: number; startPosition: number; trackingBaseUrl: string }
+): Promise<Buffer> {
+  const doc = new PDFDocument({ autoFirstPage: false, margin: 0, info: { Title: "Seed Labels" } });
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const perPage = template.columns * template.rows;
+  const pageSize: [number, number] = [mm(template.pageWidthMm), mm(template.pageHeightMm)];
+  // Positions before the start position are left blank on the first sheet
+  let position = Math.min(options.startPosition, perPage) - 1;
+  doc.addPage({ size: pageSize, margin: 0 });
+
+  for (const product of products) {
+    const trackingUrl = `${options.trackingBaseUrl}/track/${encodeURIComponent(product.uniqueId)}`;
+    const qrCode = await QRCode.toBuffer(trackingUrl, { margin: 1, width: 300, errorCorrectionLevel: "M" });
+
+    for (let copy = 0; copy < options.copies; copy++) {
+      if (position === perPage) {
+        doc.addPage({ size: pageSize, margin: 0 });
+        position = 0;
+      }
+      const column = position % template.columns;
+      const row = Math.floor(position / template.columns);
+      drawLabel(
+        doc,
+        product,
+        qrCode,
+        trackingUrl,
+        mm(template.marginLeftMm + column * (template.labelWidthMm + template.gapXMm)),
+        mm(template.marginTopMm + row * (template.labelHeightMm + template.gapYMm)),
+        mm(template.labelWidthMm),
+        mm(template.labelHeightMm)
+      );
+      position++;
+    }
+  }
+
+  doc.end();
+  return await finished;
+}
@@ -0,0 +1,104 @@
+// Brute-force protection for POST /api/login: progressive delays and a temporary lockout per
+// account, and a cap on failed attempts per IP address for guessing across many usernames.
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+import type { LoginOutcome, LoginRejection } from "@shared/login-attempts";
+
+// Failed sign-ins in a row that lock an account, and for how long
+const LOCKOUT_THRESHOLD = 5;
+const LOCKOUT_MINUTES = 15;
+// Failures allowed before each further attempt has to wait, doubling up to the maximum
+const FAILURES_BEFORE_DELAY = 2;
+const MAX_DELAY_SECONDS = 30;
+// Failed attempts allowed from one address within the window
+const MAX_FAILURES_PER_IP = 20;
+const IP_WINDOW_MINUTES = 15;
+
+export interface LoginRefusal extends LoginRejection {
+  status: number;
+}
+
+function describeWait(seconds: number) {
+  return seconds < 120 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`;
+}
+
+export function lockedRefusal(lockedUntil: Date, now = new Date()): LoginRefusal {
+  const seconds = Math.max(Math.ceil((lockedUntil.getTime() - now.getTime()) / 1000), 1);
+  return {
+    status: 423,
+    message: `This account is locked after too many failed sign-ins. Try again in ${describeWait(seconds)} or ask an administrator to unlock it.`,
+    lockedUntil: lockedUntil.toISOString(),
+  };
+}
+
+function throttledRefusal(retryAfterSeconds: number): LoginRefusal {
+  return {
+    status: 429,
+    message: `Too many failed sign-ins. Try again in ${describeWait(retryAfterSeconds)}.`,
+    retryAfterSeconds,
+  };
+}
+
+export function isLocked(user: Pick<User, "lockedUntil">, now = new Date()) {
+  return !!user.lockedUntil && user.lockedUntil > now;
+}
+
+// Refuses the attempt before the password is checked when the address or the account
+// has failed too often recently. The attempt must already be recorded by beginLoginAttempt.
+export async function checkLoginThrottle(
+  user: User | undefined,
+  ipAddress: string | null,
+): Promise<LoginRefusal | null> {
+  const now = new Date();
+
+  if (ipAddress) {
+    const since = new Date(now.getTime() - IP_WINDOW_MINUTES * 60 * 1000);
+    // Includes this attempt and others still in progress
+    const failures = await storage.countLoginFailuresFromIp(ipAddress, since);
+    if (failures > MAX_FAILURES_PER_IP) {
+      return throttledRefusal(IP_WINDOW_MINUTES * 60);
+    }
+  }
+
+  if (user && isLocked(user, now)) {
+    return lockedRefusal(user.lockedUntil!, now);
+  }
+
+  if (user?.lastFailedLoginAt && user.failedLoginCount >= FAILURES_BEFORE_DELAY) {
+    const delaySeconds = Math.min(2 ** (user.failedLoginCount - FAILURES_BEFORE_DELAY), MAX_DELAY_SECONDS);
+    const waitMs = user.lastFailedLoginAt.getTime() + delaySeconds * 1000 - now.getTime();
+    if (waitMs > 0) {
+      return throttledRefusal(Math.ceil(waitMs / 1000));
+    }
+  }
+
+  return null;
+}
+
+// Records the attempt as pending before anything is checked, so attempts from one address
+// running at the same time count against each other. Returns the id to finish it with.
+export async function beginLoginAttempt(
+  username: string,
+  user: Pick<User, "id"> | undefined,
+  ipAddress: string | null,
+): Promise<string> {
+  return await storage.recordLoginAttempt({ username, userId: user?.id ?? null, ipAddress, outcome: "pending" });
+}
+
+export async function finishLoginAttempt(attemptId: string, outcome: LoginOutcome) {
+  await storage.setLoginAttemptOutcome(attemptId, outcome);
+}
+
+// Counts a wrong password or authenticator code against the account and locks it once the threshold is reached.
+// The count is incremented in the database, so concurrent failures can't overwrite each other.
+// Returns the lock expiry when this failure locked the account.
+export async function recordLoginFailure(user: Pick<User, "id">): Promise<Date | null> {
+  const lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+  const counted = await storage.recordFailedLogin(user.id, LOCKOUT_THRESHOLD, lockedUntil);
+  // The count only goes back to 0 on the failure that locks the account
+  return counted?.failedLoginCount === 0 ? counted.lockedUntil : null;
+}
+
+export async function clearFailedLogins(userId: string) {
+  await storage.updateUser(userId, { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null });
+}
@@ -0,0 +1,96 @@
+// Outgoing email. The transport is chosen with MAIL_TRANSPORT:
+//   smtp    - SMTP_HOST, SMTP_PORT (587), SMTP_SECURE ("true" for port 465), SMTP_USER, SMTP_PASSWORD
+//   file    - writes each message as an .eml file to MAIL_DIR (mail-outbox), for local testing
+//   console - prints each message to the server log
+//   none    - drops email
+// Without MAIL_TRANSPORT it is smtp when SMTP_HOST is set, otherwise console.
+import nodemailer from "nodemailer";
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import { log } from "./log";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "Nath Seeds <no-reply@localhost>";
+
+function smtpTransport(env: NodeJS.ProcessEnv, from: string): MailTransport {
+  if (!env.SMTP_HOST) {
+    throw new Error("SMTP_HOST must be set for MAIL_TRANSPORT=smtp");
+  }
+  const transporter = nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT) || 587,
+    secure: env.SMTP_SECURE === "true",
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD } : undefined,
+  });
+  return {
+    name: "smtp",
+    send: async (message) => {
+      await transporter.sendMail({ from, ...message });
+    },
+  };
+}
+
+function fileTransport(env: NodeJS.ProcessEnv, from: string): MailTransport {
+  const dir = path.resolve(env.MAIL_DIR || "mail-outbox");
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+  return {
+    name: `file (${dir})`,
+    send: async (message) => {
+      const info = await transporter.sendMail({ from, ...message });
+      await fs.promises.mkdir(dir, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomBytes(3).toString("hex")}.eml`;
+      await fs.promises.writeFile(path.join(dir, fileName), info.message as Buffer);
+    },
+  };
+}
+
+const consoleTransport: MailTransport = {
+  name: "console",
+  send: async (message) => {
+    log(`email to ${message.to}: ${message.subject}\n${message.text}`, "mail");
+  },
+};
+
+const noTransport: MailTransport = {
+  name: "none",
+  send: async () => {},
+};
+
+export function createMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const from = env.MAIL_FROM || DEFAULT_FROM;
+  const kind = env.MAIL_TRANSPORT || (env.SMTP_HOST ? "smtp" : "console");
+  switch (kind) {
+    case "smtp":
+      return smtpTransport(env, from);
+    case "file":
+      return fileTransport(env, from);
+    case "console":
+      return consoleTransport;
+    case "none":
+      return noTransport;
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"; use smtp, file, console or none`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+// Created on first use, so a misconfigured transport shows up in the log of the first email
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!transport) {
+    transport = createMailTransport();
+    log(`email transport: ${transport.name}`, "mail");
+  }
+  await transport.send(message);
+}
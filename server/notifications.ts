@@ -0,0 +1,150 @@
+// Notifies users about products in their feed and, if they chose to, by email. Recipients'
+// preferences decide the channels (see shared/notifications.ts).
+import { storage, type ProductAlertInput } from "./storage";
+import { sendMail } from "./mailer";
+import type { Product } from "@shared/schema";
+import type { WorkflowAction } from "@shared/workflow";
+import { ALERT_TYPE_LABELS } from "@shared/alerts";
+import type { NotificationType } from "@shared/notifications";
+
+interface NotificationContent {
+  type: NotificationType;
+  title: string;
+  body: string;
+  productId?: string | null;
+}
+
+// Products listed by name in an alert summary; the rest are counted
+const MAX_ALERTS_LISTED = 10;
+
+function describeProduct(product: Pick<Product, "uniqueId" | "product">) {
+  return product.product ? `${product.uniqueId} (${product.product})` : product.uniqueId;
+}
+
+function emailText(content: NotificationContent) {
+  const lines = [content.body, ""];
+  if (process.env.APP_URL) {
+    lines.push(`Open Nath Seeds: ${process.env.APP_URL}`, "");
+  }
+  lines.push("You can choose which emails you get under Account Settings.");
+  return lines.join("\n");
+}
+
+async function deliver(recipientIds: string[], content: NotificationContent) {
+  const ids = Array.from(new Set(recipientIds));
+  if (ids.length === 0) {
+    return;
+  }
+  const [preferences, recipients] = await Promise.all([
+    storage.getNotificationPreferencesFor(ids),
+    storage.getUsersByIds(ids),
+  ]);
+  const active = recipients.filter((user) => user.active);
+
+  await storage.createNotifications(
+    active
+      .filter((user) => preferences.get(user.id)?.[content.type].inApp)
+      .map((user) => ({ userId: user.id, type: content.type, title: content.title, body: content.body, productId: content.productId ?? null })),
+  );
+
+  // One failed email shouldn't stop the others
+  for (const user of active.filter((user) => user.email && preferences.get(user.id)?.[content.type].email)) {
+    try {
+      await sendMail({ to: user.email, subject: content.title, text: emailText(content) });
+    } catch (error) {
+      console.error(`Notification email to ${user.username} error:`, error);
+    }
+  }
+}
+
+// Never throws: a notification problem must not fail the change that caused it
+function notify(recipientIds: string[], content: NotificationContent) {
+  deliver(recipientIds, content).catch((error) => console.error(`Notification ${content.type} error:`, error));
+}
+
+async function notifyReviewers(product: Product, actorId: string) {
+  const reviewers = await storage.getActiveUsersWithPermission("products.review");
+  notify(reviewers.map((user) => user.id).filter((id) => id !== actorId), {
+    type: "product_submitted",
+    title: `Product submitted for review: ${product.uniqueId}`,
+    body: `${describeProduct(product)} is waiting for review.`,
+    productId: product.id,
+  });
+}
+
+// Tells the submitter about review outcomes and reviewers about submissions; nobody is told
+// about their own actions
+export function notifyWorkflowAction(action: WorkflowAction, product: Product, actorId: string, comment: string | null) {
+  const submitter = product.submittedBy && product.submittedBy !== actorId ? [product.submittedBy] : [];
+  switch (action) {
+    case "submit":
+    case "resubmit":
+      notifyReviewers(product, actorId).catch((error) => console.error("Notification product_submitted error:", error));
+      break;
+    case "approve":
+      notify(submitter, {
+        type: "product_approved",
+        title: `Product approved: ${product.uniqueId}`,
+        body: `${describeProduct(product)} was approved.`,
+        productId: product.id,
+      });
+      break;
+    case "request_changes":
+      notify(submitter, {
+        type: "product_changes_requested",
+        title: `Changes requested: ${product.uniqueId}`,
+        body: `${describeProduct(product)} was returned for changes.\n\nReviewer's comment: ${comment ?? product.rejectionReason ?? "none"}`,
+        productId: product.id,
+      });
+      break;
+    case "reject":
+      notify(submitter, {
+        type: "product_rejected",
+        title: `Product rejected: ${product.uniqueId}`,
+        body: `${describeProduct(product)} was rejected.\n\nReason: ${product.rejectionReason ?? comment ?? "none given"}`,
+        productId: product.id,
+      });
+      break;
+  }
+}
+
+// Sends each affected user one summary of the alerts a scan opened: submitters about their
+// own products, and users who see all products about every product
+export async function notifyNewAlerts(
+  alerts: ProductAlertInput[],
+  products: Pick<Product, "id" | "uniqueId" | "submittedBy">[],
+) {
+  if (alerts.length === 0) {
+    return;
+  }
+  const productsById = new Map(products.map((product) => [product.id, product]));
+  const overseers = await storage.getActiveUsersWithPermission("products.view_all");
+
+  const alertsByUser = new Map<string, ProductAlertInput[]>();
+  const add = (userId: string, alert: ProductAlertInput) => {
+    alertsByUser.set(userId, [...alertsByUser.get(userId) ?? [], alert]);
+  };
+  for (const alert of alerts) {
+    const submittedBy = productsById.get(alert.productId)?.submittedBy;
+    if (submittedBy) add(submittedBy, alert);
+    for (const user of overseers) {
+      if (user.id !== submittedBy) add(user.id, alert);
+    }
+  }
+
+  for (const [userId, userAlerts] of Array.from(alertsByUser.entries())) {
+    const lines = userAlerts.slice(0, MAX_ALERTS_LISTED).map((alert) =>
+      `${productsById.get(alert.productId)?.uniqueId ?? alert.productId}: ${ALERT_TYPE_LABELS[alert.type]} (${alert.dueDate})`);
+    if (userAlerts.length > MAX_ALERTS_LISTED) {
+      lines.push(`...and ${userAlerts.length - MAX_ALERTS_LISTED} more`);
+    }
+    notify([userId], {
+      type: "product_alert",
+      title: userAlerts.length === 1
+        ? `Alert: ${lines[0]}`
+        : `${userAlerts.length} new expiry and re-test alerts`,
+      body: lines.join("\n"),
+      productId: userAlerts.length === 1 ? userAlerts[0].productId : null,
+    });
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { canViewProductHistory, diffProductFields, toAuditValue } from "./product-audit";
+
+describe("toAuditValue", () => {
+  it("records missing and empty values alike as no value", () => {
+    expect(toAuditValue(null)).toBeNull();
+    expect(toAuditValue(undefined)).toBeNull();
+    expect(toAuditValue("")).toBeNull();
+  });
+
+  it("keeps blank-looking values that aren't empty", () => {
+    expect(toAuditValue(" ")).toBe(" ");
+    expect(toAuditValue(0)).toBe("0");
+    expect(toAuditValue(false)).toBe("false");
+  });
+
+  it("records timestamps in UTC", () => {
+    expect(toAuditValue(new Date("2025-03-07T10:15:00+05:30"))).toBe("2025-03-07T04:45:00.000Z");
+  });
+
+  it("records decimals as text", () => {
+    expect(toAuditValue("120.50")).toBe("120.50");
+    expect(toAuditValue(120.5)).toBe("120.5");
+  });
+});
+
+describe("diffProductFields", () => {
+  it("ignores unchanged fields and the row id", () => {
+    const before = { id: "a", company: "Green Gold Seeds", mrp: "120.00", lotBatch: "L-01" };
+    expect(diffProductFields(before, { ...before, id: "b" })).toEqual([]);
+  });
+
+  it("lists each changed field with its old and new value", () => {
+    expect(diffProductFields(
+      { company: "Green Gold Seeds", mrp: "120.00", lotBatch: "L-01" },
+      { company: "Green Gold Seeds", mrp: "125.50", lotBatch: "L-02" },
+    )).toEqual([
+      { field: "mrp", oldValue: "120.00", newValue: "125.50" },
+      { field: "lotBatch", oldValue: "L-01", newValue: "L-02" },
+    ]);
+  });
+
+  it("doesn't count clearing a field that was empty as a change", () => {
+    expect(diffProductFields({ description: "" }, { description: null })).toEqual([]);
+    expect(diffProductFields({ description: null }, {})).toEqual([]);
+  });
+
+  it("records clearing and filling a field", () => {
+    expect(diffProductFields({ email: "care@example.com" }, { email: "" })).toEqual([
+      { field: "email", oldValue: "care@example.com", newValue: null },
+    ]);
+    expect(diffProductFields({ email: null }, { email: "care@example.com" })).toEqual([
+      { field: "email", oldValue: null, newValue: "care@example.com" },
+    ]);
+  });
+
+  it("compares timestamps by instant", () => {
+    const createdAt = new Date("2025-03-07T04:45:00Z");
+    expect(diffProductFields({ createdAt }, { createdAt: new Date(createdAt.getTime()) })).toEqual([]);
+    expect(diffProductFields({ createdAt }, { createdAt: new Date("2025-03-08T04:45:00Z") })).toEqual([
+      { field: "createdAt", oldValue: "2025-03-07T04:45:00.000Z", newValue: "2025-03-08T04:45:00.000Z" },
+    ]);
+  });
+
+  it("lists every filled field of a created or deleted product", () => {
+    const product = { id: "a", uniqueId: "GGS-0001", brand: "Rasi", description: null };
+    expect(diffProductFields({}, product)).toEqual([
+      { field: "uniqueId", oldValue: null, newValue: "GGS-0001" },
+      { field: "brand", oldValue: null, newValue: "Rasi" },
+    ]);
+    expect(diffProductFields(product, {})).toEqual([
+      { field: "uniqueId", oldValue: "GGS-0001", newValue: null },
+      { field: "brand", oldValue: "Rasi", newValue: null },
+    ]);
+  });
+});
+
+describe("canViewProductHistory", () => {
+  const reviewer = { id: "reviewer-1", permissions: ["products.view_all" as const] };
+  const operator = { id: "operator-1", permissions: ["products.create" as const] };
+
+  it("lets users who can see every product read any product's trail", () => {
+    expect(canViewProductHistory(reviewer, { submittedBy: "operator-2" })).toBe(true);
+    expect(canViewProductHistory(reviewer, { submittedBy: null })).toBe(true);
+  });
+
+  it("limits everyone else to the products they submitted", () => {
+    expect(canViewProductHistory(operator, { submittedBy: "operator-1" })).toBe(true);
+    expect(canViewProductHistory(operator, { submittedBy: "operator-2" })).toBe(false);
+    expect(canViewProductHistory(operator, { submittedBy: null })).toBe(false);
+  });
+});
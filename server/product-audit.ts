@@ -0,0 +1,35 @@
+import type { AuthenticatedUser, Product, ProductFieldChange } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+
+// How a column value is recorded in the audit trail; empty values all count as "no value"
+export function toAuditValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+// Field-level differences between two versions of a product row
+export function diffProductFields(before: Partial<Product>, after: Partial<Product>): ProductFieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  fields.delete("id");
+
+  const changes: ProductFieldChange[] = [];
+  for (const field of Array.from(fields)) {
+    const oldValue = toAuditValue(before[field as keyof Product]);
+    const newValue = toAuditValue(after[field as keyof Product]);
+    if (oldValue !== newValue) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+  return changes;
+}
+
+// Users who can see every product can read any product's audit trail, others only the trail
+// of the products they submitted
+export function canViewProductHistory(user: Pick<AuthenticatedUser, "id" | "permissions">, product: Pick<Product, "submittedBy">): boolean {
+  return hasPermission(user, "products.view_all") || product.submittedBy === user.id;
+}
@@ -0,0 +1,150 @@
+import type { Response } from "express";
+import ExcelJS from "exceljs";
+import QRCode from "qrcode";
+import type { Product } from "@shared/schema";
+import { EXPORT_COLUMNS, type ExportColumnKey, type ExportFormat } from "@shared/export";
+import { STATUS_LABELS, type ProductStatus } from "@shared/workflow";
+
+// Products are read from the database in batches of this size while the file is written
+export const EXPORT_BATCH_SIZE = 500;
+
+export interface ProductExportOptions {
+  format: ExportFormat;
+  columns: ExportColumnKey[];
+  trackingBaseUrl: string;
+  fileName: string;
+  // Loads the next batch of products; an empty batch ends the export
+  loadBatch: (offset: number, limit: number) => Promise<Product[]>;
+}
+
+function formatDate(value: Date | null): string {
+  return value ? new Date(value).toISOString().split("T")[0] : "";
+}
+
+function cellValue(product: Product, column: ExportColumnKey, trackingUrl: string): string {
+  switch (column) {
+    case "trackingUrl":
+      return trackingUrl;
+    case "qrCode":
+      return "";
+    case "status":
+      return STATUS_LABELS[product.status as ProductStatus] ?? product.status;
+    case "submissionDate":
+      return formatDate(product.submissionDate);
+    case "approvalDate":
+      return formatDate(product.approvalDate);
+    default:
+      return product[column] ?? "";
+  }
+}
+
+function csvEscape(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+async function* productBatches(loadBatch: ProductExportOptions["loadBatch"]): AsyncGenerator<Product[]> {
+  for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+    const batch = await loadBatch(offset, EXPORT_BATCH_SIZE);
+    if (batch.length === 0) {
+      return;
+    }
+    yield batch;
+    if (batch.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+  }
+}
+
+async function writeCsv(res: Response, options: ProductExportOptions) {
+  // QR images cannot be represented in CSV
+  const columns = options.columns.filter((column) => column !== "qrCode");
+  const headers = columns.map((column) => EXPORT_COLUMNS.find((definition) => definition.key === column)!.header);
+
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${options.fileName}.csv"`);
+  // Byte order mark so Excel opens the file as UTF-8
+  res.write("\uFEFF" + headers.map(csvEscape).join(",") + "\r\n");
+
+  for await (const batch of productBatches(options.loadBatch)) {
+    const lines = batch.map((product) => {
+      const trackingUrl = `${options.trackingBaseUrl}/track/${product.uniqueId}`;
+      return columns.map((column) => csvEscape(cellValue(product, column, trackingUrl))).join(",");
+    });
+    res.write(lines.join("\r\n") + "\r\n");
+  }
+  res.end();
+}
+
+function styleHeaderRow(row: ExcelJS.Row) {
+  row.height = 30;
+  row.eachCell((cell) => {
+    cell.font = { bold: true, color: { argb: "FFFFFFFF" } };
+    cell.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FF366092" } };
+    cell.alignment = { horizontal: "center", vertical: "middle", wrapText: true };
+  });
+}
+
+// Without QR codes the workbook is streamed row by row. ExcelJS's streaming writer cannot
+// anchor images to cells, so exports with QR codes are built in memory before being sent.
+async function writeXlsx(res: Response, options: ProductExportOptions) {
+  const withQrCodes = options.columns.includes("qrCode");
+  const workbook = withQrCodes
+    ? new ExcelJS.Workbook()
+    : new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+  const worksheet = workbook.addWorksheet("Products", { views: [{ state: "frozen", ySplit: 1 }] });
+  worksheet.columns = options.columns.map((column) => {
+    const definition = EXPORT_COLUMNS.find((candidate) => candidate.key === column)!;
+    return { header: definition.header, key: definition.key, width: definition.width };
+  });
+  styleHeaderRow(worksheet.getRow(1));
+
+  res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+  res.setHeader("Content-Disposition", `attachment; filename="${options.fileName}.xlsx"`);
+
+  const qrColumnIndex = options.columns.indexOf("qrCode");
+  const trackingColumnIndex = options.columns.indexOf("trackingUrl");
+  let rowNumber = 1;
+
+  for await (const batch of productBatches(options.loadBatch)) {
+    for (const product of batch) {
+      rowNumber++;
+      const trackingUrl = `${options.trackingBaseUrl}/track/${product.uniqueId}`;
+      const row = worksheet.addRow(options.columns.map((column) => cellValue(product, column, trackingUrl)));
+      row.alignment = { vertical: "middle", wrapText: true };
+
+      if (trackingColumnIndex >= 0) {
+        const trackingCell = row.getCell(trackingColumnIndex + 1);
+        trackingCell.value = { text: trackingUrl, hyperlink: trackingUrl };
+        trackingCell.font = { color: { argb: "FF0066CC" }, underline: true };
+      }
+
+      if (withQrCodes) {
+        const qrCode = await QRCode.toBuffer(trackingUrl, { margin: 2, width: 150 });
+        const imageId = workbook.addImage({ buffer: qrCode, extension: "png" });
+        (worksheet as ExcelJS.Worksheet).addImage(imageId, {
+          tl: { col: qrColumnIndex, row: rowNumber - 1 },
+          ext: { width: 80, height: 80 },
+        });
+        row.height = 64;
+      } else {
+        row.commit();
+      }
+    }
+  }
+
+  if (workbook instanceof ExcelJS.stream.xlsx.WorkbookWriter) {
+    await workbook.commit();
+  } else {
+    await workbook.xlsx.write(res);
+    res.end();
+  }
+}
+
+// Writes the products matching the export to the response as CSV or XLSX
+export async function writeProductExport(res: Response, options: ProductExportOptions) {
+  if (options.format === "csv") {
+    await writeCsv(res, options);
+  } else {
+    await writeXlsx(res, options);
+  }
+}
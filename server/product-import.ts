@@ -0,0 +1,280 @@
+import csv from "csv-parser";
+import { Readable } from "stream";
+import * as XLSX from "xlsx";
+import { insertProductSchema, type InsertProduct, type QualityRule } from "@shared/schema";
+import {
+  IMPORT_FIELDS,
+  type ColumnMapping,
+  type ImportFieldDefinition,
+  type ImportPreview,
+  type ImportRowResult,
+} from "@shared/import";
+import { parseDateInput } from "@shared/dates";
+import { evaluateQualityRules, parseClassType } from "@shared/quality-rules";
+
+// Unique IDs are only assigned when a row is actually imported
+const importRowSchema = insertProductSchema.omit({ uniqueId: true });
+
+// Number of rows shown in the preview table
+const PREVIEW_SAMPLE_SIZE = 20;
+
+// Raised for files that cannot be imported at all; carries the HTTP status to respond with
+export class ImportFileError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "ImportFileError";
+    this.status = status;
+  }
+}
+
+export interface ParsedImportFile {
+  headers: string[];
+  rows: Record<string, any>[];
+}
+
+export interface MappedImportRow extends ImportRowResult {
+  // Present only when the row passed validation
+  data?: Omit<InsertProduct, "uniqueId">;
+}
+
+// Helper function to handle decimal values with precision preservation
+function parseDecimal(value: any): string | null {
+  if (value === "" || value === null || value === undefined) {
+    return null;
+  }
+  
+  // Handle numeric values directly to preserve precision
+  if (typeof value === 'number') {
+    return value.toString();
+  }
+  
+  // Handle string values - sanitize formatted numbers
+  let stringValue = String(value).trim();
+  if (stringValue === "") {
+    return null;
+  }
+  
+  // Remove thousands separators (commas) and normalize
+  stringValue = stringValue.replace(/,/g, '');
+  
+  // Convert to number and preserve decimals
+  const parsed = parseFloat(stringValue);
+  if (isNaN(parsed)) {
+    return null;
+  }
+  
+  // Preserve original precision by converting back to string carefully
+  return parsed.toString();
+}
+
+// "Lot No.", "lotNo" and "LOT NO" all compare equal
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9%]/g, "");
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || String(value).trim() === "";
+}
+
+export async function parseImportFile(file: Express.Multer.File): Promise<ParsedImportFile> {
+  const { buffer, mimetype, originalname } = file;
+  let rows: Record<string, any>[] = [];
+  let headers: string[] = [];
+
+  // Parse CSV files
+  if (mimetype === 'text/csv' || originalname.endsWith('.csv')) {
+    rows = await new Promise((resolve, reject) => {
+      const results: any[] = [];
+      Readable.from(buffer)
+        .pipe(csv())
+        .on('headers', (csvHeaders: string[]) => {
+          headers = csvHeaders;
+        })
+        .on('data', (data: any) => results.push(data))
+        .on('end', () => resolve(results))
+        .on('error', reject);
+    });
+  }
+  // Parse Excel files
+  else if (mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' || 
+           mimetype === 'application/vnd.ms-excel' ||
+           originalname.endsWith('.xlsx') || originalname.endsWith('.xls')) {
+    // Read workbook with options that preserve decimal precision
+    const workbook = XLSX.read(buffer, { 
+      type: 'buffer',
+      cellDates: true,      // Convert dates to JS Date objects
+      cellNF: false,        // Don't format numbers
+      cellText: false,      // Don't convert to text
+      raw: false,           // Use formatted values to avoid type issues
+      dateNF: 'yyyy-mm-dd'  // Standard date format
+    });
+    
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1:A1');
+    
+    // Extract headers from first row
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      const cell = worksheet[XLSX.utils.encode_cell({ r: range.s.r, c: col })];
+      headers.push(cell && cell.v ? String(cell.v).trim() : `Column_${col + 1}`);
+    }
+    
+    rows = XLSX.utils.sheet_to_json(worksheet, {
+      header: headers,
+      range: 1, // Skip first row (headers)
+      defval: "", // Default value for empty cells
+      raw: false, // Use formatted values to avoid type issues
+      dateNF: 'yyyy-mm-dd'
+    });
+  } else {
+    throw new ImportFileError("Unsupported file format. Please upload CSV or Excel files.");
+  }
+
+  // Trailing blank lines are common in spreadsheet exports
+  rows = rows.filter((row) => Object.values(row).some((value) => !isBlank(value)));
+
+  if (rows.length === 0) {
+    throw new ImportFileError("No data found in the file");
+  }
+
+  return { headers, rows };
+}
+
+// Guesses which column feeds each product field from the header names
+export function proposeMapping(headers: string[]): ColumnMapping {
+  const byNormalizedName = new Map<string, string>();
+  for (const header of headers) {
+    const key = normalizeHeader(header);
+    if (!byNormalizedName.has(key)) {
+      byNormalizedName.set(key, header);
+    }
+  }
+
+  const mapping: ColumnMapping = {};
+  for (const definition of IMPORT_FIELDS) {
+    const candidates = [definition.field, definition.label, ...definition.aliases];
+    for (const candidate of candidates) {
+      const header = byNormalizedName.get(normalizeHeader(candidate));
+      if (header) {
+        mapping[definition.field] = header;
+        break;
+      }
+    }
+  }
+  return mapping;
+}
+
+// Checks that every mapped column exists in the file
+export function validateMapping(mapping: ColumnMapping, headers: string[]): void {
+  const missing = Object.values(mapping).filter((header) => !headers.includes(header));
+  if (missing.length > 0) {
+    throw new ImportFileError(`Column(s) not found in file: ${Array.from(new Set(missing)).join(", ")}`);
+  }
+}
+
+function convertValue(definition: ImportFieldDefinition, raw: unknown): { value: string | null; error?: string } {
+  if (isBlank(raw)) {
+    return { value: null };
+  }
+  switch (definition.type) {
+    case "decimal": {
+      const value = parseDecimal(raw);
+      return value === null
+        ? { value, error: `${definition.label}: "${raw}" is not a number` }
+        : { value };
+    }
+    case "date": {
+      const value = parseDateInput(raw);
+      return value === null
+        ? { value: String(raw), error: `${definition.label}: "${raw}" is not a valid date (use YYYY-MM-DD or DD/MM/YYYY)` }
+        : { value };
+    }
+    case "class": {
+      const value = parseClassType(raw);
+      return value === null
+        ? { value: String(raw), error: `${definition.label}: "${raw}" is not a seed class (use Trustful, Certified or Foundation)` }
+        : { value };
+    }
+    default:
+      return { value: String(raw).trim() };
+  }
+}
+
+// Maps and validates every row without writing anything. Imported rows go straight to review,
+// so blocking quality rule findings make a row invalid; warnings are passed on.
+export function mapImportRows(
+  rows: Record<string, any>[],
+  mapping: ColumnMapping,
+  submittedBy: string,
+  qualityRules: QualityRule[],
+): MappedImportRow[] {
+  return rows.map((row, index) => {
+    // Row 1 is the header row in the file
+    const rowNumber = index + 2;
+    const values: Record<string, string | null> = {};
+    const errors: string[] = [];
+
+    for (const definition of IMPORT_FIELDS) {
+      const header = mapping[definition.field];
+      const { value, error } = convertValue(definition, header ? row[header] : undefined);
+      values[definition.field] = value;
+      if (error) {
+        errors.push(error);
+      }
+      if (definition.required && value === null) {
+        errors.push(`Missing ${definition.label}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      return { rowNumber, values, errors, warnings: [] };
+    }
+
+    const parsed = importRowSchema.safeParse({ ...values, submittedBy });
+    if (!parsed.success) {
+      return {
+        rowNumber,
+        values,
+        errors: parsed.error.errors.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+        warnings: [],
+      };
+    }
+
+    const findings = evaluateQualityRules(parsed.data, qualityRules);
+    const warnings = findings.filter((finding) => finding.severity === "warning").map((finding) => finding.message);
+    const qualityErrors = findings.filter((finding) => finding.severity === "error").map((finding) => finding.message);
+    if (qualityErrors.length > 0) {
+      return { rowNumber, values, errors: qualityErrors, warnings };
+    }
+
+    return { rowNumber, values, errors, warnings, data: parsed.data };
+  });
+}
+
+export function buildImportPreview(
+  fileName: string,
+  headers: string[],
+  mapping: ColumnMapping,
+  results: MappedImportRow[],
+): ImportPreview {
+  const mappedHeaders = new Set(Object.values(mapping));
+  const invalid = results.filter((result) => result.errors.length > 0);
+  const warned = results.filter((result) => result.errors.length === 0 && result.warnings.length > 0);
+  const strip = ({ rowNumber, values, errors, warnings, existingUniqueId }: MappedImportRow): ImportRowResult =>
+    ({ rowNumber, values, errors, warnings, existingUniqueId: existingUniqueId ?? null });
+
+  return {
+    fileName,
+    headers,
+    mapping,
+    unmappedHeaders: headers.filter((header) => !mappedHeaders.has(header)),
+    totalRows: results.length,
+    validRows: results.length - invalid.length,
+    invalidRows: invalid.length,
+    duplicateRows: results.filter((result) => result.data && result.existingUniqueId).length,
+    sampleRows: results.slice(0, PREVIEW_SAMPLE_SIZE).map(strip),
+    invalid: invalid.map(strip),
+    warned: warned.map(strip),
+  };
+}
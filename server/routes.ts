@@ -1,58 +1,47 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { setupAuth } from "./auth";
-import { storage } from "./storage";
-import { insertProductSchema } from "@shared/schema";
+import { timingSafeEqual } from "crypto";
+import { checkNewPassword, hashPassword, setUserPassword, setupAuth } from "./auth";
+import { clearFailedLogins } from "./login-protection";
+import { generateApiToken } from "./api-tokens";
+import { notifyWorkflowAction } from "./notifications";
+import { dispatchWebhookBatch, emitImportCompleted, emitRecallEvents, emitWorkflowEvent, generateWebhookSecret, sendWebhookTestEvent } from "./webhooks";
+import { hasPermission, requireAuthenticated, requirePermission } from "./authorization";
+import { storage, ImportAbortedError, InsufficientStockError, ProductInUseError, UserInUseError, type BulkProductChange } from "./storage";
+import { canViewProductHistory } from "./product-audit";
+import { WorkflowError, checkQualityRules, performTransition, planTransition, recordChecklist, withAllowedActions } from "./workflow";
+import { insertProductSchema, insertProductRecallSchema, insertDealerSchema, productEditSchema, insertImportMappingProfileSchema, updateUserSchema, passwordResetSchema, type PublicRecallNotice, type User } from "@shared/schema";
+import { columnMappingSchema, importOptionsSchema, type ColumnMapping, type ImportOptions, type ImportReportRow, type ImportResult } from "@shared/import";
+import { OPERATOR_EDITABLE_STATUSES, legacyStatusRequestSchema, transitionRequestSchema, bulkStatusRequestSchema, type BulkItemResult, type BulkStatusResult, type ProductStatus, type ProductWithActions } from "@shared/workflow";
+import { productListQuerySchema, type PagedResult } from "@shared/product-filters";
+import { getLabelTemplate, labelRequestSchema } from "@shared/labels";
+import { DEFAULT_EXPORT_COLUMNS, productExportQuerySchema } from "@shared/export";
+import { renderUniqueId, renderUniqueIdScope, uniqueIdFormatSchema, type UniqueIdFormat } from "@shared/unique-id";
+import { alertSettingsSchema, isLotExpired } from "@shared/alerts";
+import { changesSinceLastReview, evaluateChecklist, reviewChecklistSettingsSchema, type ProductReviewContext } from "@shared/review";
+import { passwordPolicySchema } from "@shared/password-policy";
+import { twoFactorPolicySchema } from "@shared/two-factor";
+import { apiTokenCreateSchema } from "@shared/api-tokens";
+import { webhookSchema } from "@shared/webhooks";
+import { QUALITY_ENFORCED_STATUSES, blockingFindings, evaluateQualityRules, qualityErrorMessage, qualityRuleSchema } from "@shared/quality-rules";
+import type { NotificationFeed } from "@shared/notifications";
+import { stockBalanceQuerySchema, stockMovementRequestSchema } from "@shared/inventory";
+import { dispatchNoteRequestSchema } from "@shared/dispatch";
+import { SUPER_ADMIN_ROLE, roleSchema } from "@shared/permissions";
 import { z } from "zod";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
-import csv from "csv-parser";
-import { Readable } from "stream";
-import * as XLSX from "xlsx";
-
-// Helper function to convert Excel date number to string
-function excelDateToString(value: any): string {
-  if (typeof value === 'number' && value > 25567) { // Excel epoch starts at 1900-01-01, Unix epoch equivalent
-    const excelEpoch = new Date(1899, 11, 30); // Excel's epoch (December 30, 1899)
-    const jsDate = new Date(excelEpoch.getTime() + value * 24 * 60 * 60 * 1000);
-    return jsDate.toLocaleDateString('en-GB'); // DD/MM/YYYY format
-  }
-  return value ? String(value) : "";
-}
-
-// Helper function to handle decimal values with precision preservation
-function parseDecimal(value: any): string | null {
-  if (value === "" || value === null || value === undefined) {
-    return null;
-  }
-  
-  // Handle numeric values directly to preserve precision
-  if (typeof value === 'number') {
-    return value.toString();
-  }
-  
-  // Handle string values - sanitize formatted numbers
-  let stringValue = String(value).trim();
-  if (stringValue === "") {
-    return null;
-  }
-  
-  // Remove thousands separators (commas) and normalize
-  stringValue = stringValue.replace(/,/g, '');
-  
-  // Convert to number and preserve decimals
-  const parsed = parseFloat(stringValue);
-  if (isNaN(parsed)) {
-    return null;
-  }
-  
-  // Preserve original precision by converting back to string carefully
-  return parsed.toString();
-}
-
-// Setup multer for file uploads
-const uploadDir = path.join(process.cwd(), "uploads");
+import { randomBytes } from "crypto";
+import { renderLabelsPdf } from "./label-pdf";
+import { renderDispatchNotePdf } from "./dispatch-pdf";
+import { writeProductExport } from "./product-export";
+import { getLastAlertScan, runAlertScan } from "./alert-scheduler";
+import { ImportFileError, buildImportPreview, mapImportRows, parseImportFile, proposeMapping, validateMapping } from "./product-import";
+
+// Setup multer for file uploads. UPLOAD_DIR points elsewhere where the app directory is
+// read-only, as on Vercel.
+const uploadDir = process.env.UPLOAD_DIR || path.join(process.cwd(), "uploads");
 if (!fs.existsSync(uploadDir)) {
   fs.mkdirSync(uploadDir, { recursive: true });
 }
@@ -101,16 +90,35 @@ const importUpload = multer({
   }
 });
 
+// Origin used in tracking URLs printed on labels and exports
+function trackingBaseUrl(req: Request): string {
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+// Upper bound on labels (products × copies) rendered into one PDF
+const MAX_LABELS_PER_REQUEST = 2000;
+
+// Scheduled jobs on Vercel (see the crons in vercel.json) call the /api/cron routes with
+// "Authorization: Bearer <CRON_SECRET>". Without CRON_SECRET set, every call is refused.
+function isCronRequest(req: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(req.get("authorization") ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
 export function registerRoutes(app: Express): Server {
   // Setup authentication routes
   setupAuth(app);
 
-  // Generate unique ID for products
-  function generateUniqueId(): string {
-    const year = new Date().getFullYear();
-    const timestamp = Date.now().toString().slice(-6);
-    return `GGS-${year}-${timestamp}`;
-  }
+// What the first ID issued with this format would look like
+function exampleUniqueId(format: UniqueIdFormat): string {
+  return renderUniqueId(renderUniqueIdScope(format, { cropName: "Paddy" }), format, 1);
+}
+
 function normalizeProductData(data: Record<string, any>) {
   const numericFields = [
     "mrp",
@@ -134,46 +142,95 @@ function normalizeProductData(data: Record<string, any>) {
   return data;
 }
 
+// Users can only hand out roles whose permissions they hold themselves
+async function checkAssignableRole(roleName: unknown, assigner: Express.User): Promise<{ status: number; message: string } | null> {
+  const role = typeof roleName === "string" ? await storage.getRole(roleName) : undefined;
+  if (!role) {
+    return { status: 400, message: "Unknown role" };
+  }
+  if (role.permissions.some((permission) => !hasPermission(assigner, permission))) {
+    return { status: 403, message: `You cannot assign or change the ${role.label} role` };
+  }
+  return null;
+}
+
+// Loads a user the manager may change: not themselves, and holding a role they could assign
+async function findManagedUser(id: string, manager: Express.User): Promise<{ user: User } | { status: number; message: string }> {
+  if (id === manager.id) {
+    return { status: 400, message: "You cannot change your own account here" };
+  }
+  const user = await storage.getUser(id);
+  if (!user) {
+    return { status: 404, message: "User not found" };
+  }
+  return await checkAssignableRole(user.role, manager) ?? { user };
+}
+
 
 
   // Product routes
-  app.post("/api/products", upload.single("brochure"), async (req, res) => {
+  app.post("/api/products", requirePermission("products.create"), upload.single("brochure"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user?.role !== "operator") {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const productData = { ...req.body };
-      
-      // Auto-generate unique ID if not provided
-      if (!productData.uniqueId) {
-        productData.uniqueId = generateUniqueId();
-      }
 
-      // Handle file upload
-      if (req.file) {
-        const fileExtension = path.extname(req.file.originalname);
-        const newFilename = `${productData.uniqueId}${fileExtension}`;
-        const newPath = path.join(uploadDir, newFilename);
-        
-        fs.renameSync(req.file.path, newPath);
-        
-        productData.brochureUrl = `/api/files/${newFilename}`;
-        productData.brochureFilename = req.file.originalname;
-      }
+      // Operators can keep a product as a draft and submit it for review later
+      const saveAsDraft = productData.saveAsDraft === "true" || productData.saveAsDraft === true;
+      delete productData.saveAsDraft;
 
+      // Without a unique ID, one is generated in the same transaction that inserts the product,
+      // so a create that fails validation doesn't use up a sequence number
+      if (!productData.uniqueId) {
+        delete productData.uniqueId;
+      }
 
       const normalizedData = normalizeProductData(productData);
 
       // Validate product data
-      const validatedData = insertProductSchema.parse({
+      const validatedData = insertProductSchema.partial({ uniqueId: true }).parse({
         ...normalizedData,
-        submittedBy: req.user.id,
+        submittedBy: req.user!.id,
       });
 
-      const product = await storage.createProduct(validatedData);
-      res.status(201).json(product);
+      // Drafts may break blocking quality rules until they are submitted
+      if (!saveAsDraft) {
+        const qualityFindings = evaluateQualityRules(validatedData, await storage.getQualityRules());
+        const errors = blockingFindings(qualityFindings);
+        if (errors.length > 0) {
+          if (req.file) {
+            fs.rm(req.file.path, { force: true }, () => {});
+          }
+          return res.status(400).json({ message: qualityErrorMessage(errors), qualityFindings });
+        }
+      }
+
+      let product = await storage.createProduct(
+        saveAsDraft ? { ...validatedData, status: "draft" } : validatedData,
+        { actorId: req.user!.id }
+      );
+
+      // The brochure is named after the unique ID, so it's moved into place once the product exists
+      if (req.file) {
+        const newFilename = `${product.uniqueId}${path.extname(req.file.originalname)}`;
+        fs.renameSync(req.file.path, path.join(uploadDir, newFilename));
+
+        product = await storage.updateProduct(
+          product.id,
+          { brochureUrl: `/api/files/${newFilename}`, brochureFilename: req.file.originalname },
+          { actorId: req.user!.id }
+        ) ?? product;
+      }
+
+      if (!saveAsDraft) {
+        emitWorkflowEvent("submit", product, req.user!.id, null);
+        notifyWorkflowAction("submit", product, req.user!.id, null);
+      }
+
+      res.status(201).json(withAllowedActions(product, req.user!));
     } catch (error) {
+      // A brochure that wasn't moved into place belongs to no product
+      if (req.file) {
+        fs.rm(req.file.path, { force: true }, () => {});
+      }
       console.error("Product creation error:", error);
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
@@ -182,495 +239,1613 @@ function normalizeProductData(data: Record<string, any>) {
     }
   });
 
-  // Get products by status (for admin)
-  app.get("/api/products", async (req, res) => {
+  // Paged product list with filters and sorting, e.g.
+  // /api/products?status=pending&crop=Paddy&sort=expiryDate:asc&page=2&pageSize=50
+  // Users without products.view_all only see their own products.
+  app.get("/api/products", requirePermission("products.view_all", "products.create"), async (req, res) => {
+    try {
+      const { page, pageSize, sort, ...filters } = productListQuerySchema.parse(req.query);
+      if (!hasPermission(req.user, "products.view_all")) {
+        filters.submittedBy = req.user!.id;
+      }
+
+      const [products, total] = await Promise.all([
+        storage.findProducts(filters, { limit: pageSize, offset: (page - 1) * pageSize, sort }),
+        storage.countProducts(filters),
+      ]);
+
+      const user = req.user!;
+      const result: PagedResult<ProductWithActions> = {
+        items: products.map((product) => withAllowedActions(product, user)),
+        total,
+        page,
+        pageSize,
+      };
+      res.json(result);
+    } catch (error) {
+      console.error("Get products error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Number of products per status, for dashboard counters
+  app.get("/api/products/status-counts", requirePermission("products.view_all", "products.create"), async (req, res) => {
+    try {
+      const counts = await storage.getProductStatusCounts(
+        hasPermission(req.user, "products.view_all") ? {} : { submittedBy: req.user!.id }
+      );
+      res.json(counts);
+    } catch (error) {
+      console.error("Get product status counts error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Export products matching the filters as XLSX or CSV, e.g.
+  // /api/products/export?format=csv&status=approved&crop=Paddy&submittedFrom=2025-01-01&columns=uniqueId,lotNo
+  // Users without products.view_all only export their own products.
+  const exportProducts = async (req: Request, res: Response, input: unknown) => {
+    try {
+      const { format, columns, ...filters } = productExportQuerySchema.parse(input);
+      if (!hasPermission(req.user, "products.view_all")) {
+        filters.submittedBy = req.user!.id;
+      }
+
+      await writeProductExport(res, {
+        format,
+        columns: columns ?? DEFAULT_EXPORT_COLUMNS,
+        trackingBaseUrl: trackingBaseUrl(req),
+        fileName: `nath-seeds-products-${new Date().toISOString().split("T")[0]}`,
+        loadBatch: (offset, limit) => storage.findProducts(filters, { limit, offset }),
+      });
+    } catch (error) {
+      console.error("Export products error:", error);
+      // Once streaming has started the response can only be cut short
+      if (res.headersSent) {
+        return res.end();
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid export parameters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to export products" });
+    }
+  };
+
+  app.get("/api/products/export", requirePermission("products.view_all", "products.create"), async (req, res) => {
+    await exportProducts(req, res, req.query);
+  });
+
+  // The same parameters in a JSON body, for selections of product IDs too long for a URL
+  app.post("/api/products/export", requirePermission("products.view_all", "products.create"), async (req, res) => {
+    await exportProducts(req, res, req.body);
+  });
+
+  // Approve, reject or delete many selected products at once. Every change is applied in one
+  // transaction; products that can't be changed are skipped and reported per item.
+  app.post("/api/products/bulk-status", requirePermission("products.review", "products.delete"), async (req, res) => {
+    try {
+      const { ids, action, comment, checklist } = bulkStatusRequestSchema.parse(req.body);
+      if (action === "delete" ? !hasPermission(req.user, "products.delete") : !hasPermission(req.user, "products.review")) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const uniqueIds = Array.from(new Set(ids));
+      const checklistSettings = action === "delete" ? null : await storage.getReviewChecklistSettings();
+      const qualityRules = action === "approve" ? await storage.getQualityRules() : [];
+      const found = await storage.getProductsByIds(uniqueIds);
+      const byId = new Map(found.map((product) => [product.id, product]));
+
+      const results = new Map<string, BulkItemResult>();
+      const changes: BulkProductChange[] = [];
+      for (const id of uniqueIds) {
+        const product = byId.get(id);
+        if (!product) {
+          results.set(id, { id, uniqueId: null, outcome: "skipped", message: "Product not found" });
+          continue;
+        }
+        if (action === "delete") {
+          changes.push({ id, fromStatus: product.status, updates: null });
+          continue;
+        }
+        try {
+          const plan = planTransition(product, action, req.user!, comment);
+          checkQualityRules(product, action, qualityRules);
+          const recordedChecklist = recordChecklist(product, action, checklistSettings!, checklist);
+          changes.push({
+            id,
+            fromStatus: plan.from,
+            updates: plan.updates,
+            eventType: plan.eventType,
+            comment: plan.comment,
+            checklist: recordedChecklist,
+          });
+        } catch (error) {
+          if (!(error instanceof WorkflowError)) {
+            throw error;
+          }
+          results.set(id, { id, uniqueId: product.uniqueId, outcome: "skipped", message: error.message });
+        }
+      }
+
+      const applied = await storage.bulkChangeProducts(changes, { actorId: req.user!.id });
+      applied.forEach((result, index) => {
+        const { id, comment: eventComment = null } = changes[index];
+        const uniqueId = byId.get(id)!.uniqueId;
+        if (!result.product) {
+          results.set(id, { id, uniqueId, outcome: "failed", message: result.error });
+          return;
+        }
+        results.set(id, { id, uniqueId, outcome: action === "delete" ? "deleted" : "updated", message: null });
+        // Only committed changes are announced
+        if (action !== "delete") {
+          emitWorkflowEvent(action, result.product, req.user!.id, eventComment);
+          notifyWorkflowAction(action, result.product, req.user!.id, eventComment);
+        }
+      });
+
+      const items = uniqueIds.map((id) => results.get(id)!);
+      const body: BulkStatusResult = {
+        action,
+        results: items,
+        succeeded: items.filter((item) => item.outcome === "updated" || item.outcome === "deleted").length,
+        skipped: items.filter((item) => item.outcome === "skipped").length,
+        failed: items.filter((item) => item.outcome === "failed").length,
+      };
+      res.json(body);
+    } catch (error) {
+      console.error("Bulk product status error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get public product by unique ID
+  app.get("/api/track/:uniqueId", async (req, res) => {
+    try {
+      const { uniqueId } = req.params;
+      const product = await storage.getProductByUniqueId(uniqueId);
+
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      // Recalled products stay reachable so farmers scanning the label see the warning
+      if (product.status !== "approved" && product.status !== "recalled") {
+        return res.status(404).json({ message: "Product not available" });
+      }
+
+      // Only recalled products carry the notice. A recall matches by lot, code or variety, so a
+      // product approved after it was issued can match without having been recalled itself.
+      let recall: PublicRecallNotice | null = null;
+      if (product.status === "recalled") {
+        const recallRecord = await storage.getRecallForProduct(product);
+        recall = recallRecord
+          ? { reason: recallRecord.reason, instructions: recallRecord.instructions, recallDate: recallRecord.recallDate }
+          : { reason: "This product has been recalled.", instructions: null, recallDate: product.approvalDate ?? new Date() };
+      }
+
+      // Remove sensitive information for public view
+      const publicProduct = {
+        ...product,
+        submittedBy: undefined,
+        approvedBy: undefined,
+        rejectionReason: undefined,
+        dealerId: undefined,
+        recall,
+        expired: isLotExpired(product.expiryDate),
+        soldThrough: await storage.getProductDealers(product),
+      };
+
+      res.json(publicProduct);
+    } catch (error) {
+      console.error("Get public product error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Move a product through the approval workflow
+  app.post("/api/products/:id/transitions", requireAuthenticated, async (req, res) => {
+    try {
+      const { action, comment, checklist } = transitionRequestSchema.parse(req.body);
+
+      const product = await performTransition(req.params.id, action, req.user!, comment, checklist);
+      res.json(product);
+    } catch (error) {
+      if (error instanceof WorkflowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      console.error("Product transition error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Update product status. Kept for older clients; prefer the transitions endpoint
+  app.patch("/api/products/:id/status", requirePermission("products.review"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { status, rejectionReason } = legacyStatusRequestSchema.parse(req.body);
+
+      const product = await performTransition(
+        id,
+        status === "approved" ? "approve" : "reject",
+        req.user!,
+        rejectionReason
+      );
+      res.json(product);
+    } catch (error) {
+      if (error instanceof WorkflowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      console.error("Update product status error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Update any product, or with products.create only your own products that are not yet approved
+  app.patch("/api/products/:id", requirePermission("products.edit_all", "products.create"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const updates = productEditSchema.parse(req.body);
+
+      // Get the product first to check ownership and status
+      const existingProduct = await storage.getProductById(id);
+      if (!existingProduct) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      // Without products.edit_all users can only edit their own products until they are approved
+      if (!hasPermission(req.user, "products.edit_all")) {
+        if (existingProduct.submittedBy !== req.user!.id) {
+          return res.status(403).json({ message: "You can only edit your own products" });
+        }
+        if (!OPERATOR_EDITABLE_STATUSES.includes(existingProduct.status as ProductStatus)) {
+          return res.status(403).json({ message: "Only draft, submitted or returned products can be edited" });
+        }
+      }
+
+      if (QUALITY_ENFORCED_STATUSES.includes(existingProduct.status as ProductStatus)) {
+        const qualityFindings = evaluateQualityRules({ ...existingProduct, ...updates }, await storage.getQualityRules());
+        const errors = blockingFindings(qualityFindings);
+        if (errors.length > 0) {
+          return res.status(400).json({ message: qualityErrorMessage(errors), qualityFindings });
+        }
+      }
+      const product = await storage.updateProduct(id, updates, { actorId: req.user!.id });
+
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      res.json(withAllowedActions(product, req.user!));
+    } catch (error) {
+      console.error("Update product error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Delete product
+  app.delete("/api/products/:id", requirePermission("products.delete"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const success = await storage.deleteProduct(id, req.user!.id);
+
+      if (!success) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete product error:", error);
+      if (error instanceof ProductInUseError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // What the reviewer needs to decide on a product: the QC checklist with the automatic
+  // results and, when it was reviewed before, the fields changed since that review
+  app.get("/api/products/:id/review", requirePermission("products.review"), async (req, res) => {
+    try {
+      const product = await storage.getProductById(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const [events, settings, qualityRules] = await Promise.all([
+        storage.getProductEvents(product.id),
+        storage.getReviewChecklistSettings(),
+        storage.getQualityRules(),
+      ]);
+      const context: ProductReviewContext = {
+        ...changesSinceLastReview(events),
+        checklist: evaluateChecklist(product, settings),
+        qualityFindings: evaluateQualityRules(product, qualityRules),
+      };
+      res.json(context);
+    } catch (error) {
+      console.error("Get product review error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get the audit trail of a product (own products only without products.view_all)
+  app.get("/api/products/:id/history", requireAuthenticated, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      // Users who can see every product skip the lookup, so they can still read the trail of a deleted product
+      if (!hasPermission(req.user, "products.view_all")) {
+        const product = await storage.getProductById(id);
+        if (!product) {
+          return res.status(404).json({ message: "Product not found" });
+        }
+        if (!canViewProductHistory(req.user!, product)) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      const events = await storage.getProductEvents(id);
+      res.json(events);
+    } catch (error) {
+      console.error("Get product history error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Stock movements of a product, newest first
+  app.get("/api/products/:id/movements", requirePermission("stock.view"), async (req, res) => {
+    try {
+      const movements = await storage.getStockMovements(req.params.id);
+      res.json(movements);
+    } catch (error) {
+      console.error("Get stock movements error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Dealers a product was dispatched to, newest first
+  app.get("/api/products/:id/dispatches", requirePermission("dispatches.view"), async (req, res) => {
+    try {
+      const dispatches = await storage.getProductDispatches(req.params.id);
+      res.json(dispatches);
+    } catch (error) {
+      console.error("Get product dispatches error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Current stock per product, location and stack
+  app.get("/api/inventory/stock", requirePermission("stock.view"), async (req, res) => {
+    try {
+      const filters = stockBalanceQuerySchema.parse(req.query);
+      const balances = await storage.getStockBalances(filters);
+      res.json(balances);
+    } catch (error) {
+      console.error("Get stock balances error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Post a receipt, dispatch, transfer, re-bagging or write-off
+  app.post("/api/inventory/movements", requirePermission("stock.manage"), async (req, res) => {
+    try {
+      const movement = stockMovementRequestSchema.parse(req.body);
+      const product = await storage.getProductByUniqueId(movement.productUniqueId);
+      if (!product) {
+        return res.status(404).json({ message: `No product with unique ID ${movement.productUniqueId}` });
+      }
+
+      const created = await storage.postStockMovement(product, movement, req.user!.id);
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Post stock movement error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // List recalls
+  app.get("/api/recalls", requirePermission("recalls.view"), async (req, res) => {
+    try {
+      const recalls = await storage.getRecalls();
+      res.json(recalls);
+    } catch (error) {
+      console.error("Get recalls error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Recall approved products by product, lot, product code or crop/variety
+  app.post("/api/recalls", requirePermission("recalls.manage"), async (req, res) => {
+    try {
+      const { uniqueId, ...body } = req.body;
+
+      // Single-product recalls may name the product by the unique ID printed on its label
+      if (body.scope === "product" && !body.productId && uniqueId) {
+        const product = await storage.getProductByUniqueId(String(uniqueId).trim());
+        if (!product) {
+          return res.status(404).json({ message: "Product not found" });
+        }
+        body.productId = product.id;
+      }
+
+      const recallData = insertProductRecallSchema.parse(body);
+      const { recall, products } = await storage.createRecall(recallData, req.user!.id);
+      emitRecallEvents(recall, products, req.user!.id);
+
+      res.status(201).json({ ...recall, recalledUniqueIds: products.map((product) => product.uniqueId) });
+    } catch (error) {
+      console.error("Create recall error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Dealers each affected lot was dispatched to
+  app.get("/api/recalls/:id/dispatches", requirePermission("recalls.view"), async (req, res) => {
+    try {
+      const recall = await storage.getRecall(req.params.id);
+      if (!recall) {
+        return res.status(404).json({ message: "Recall not found" });
+      }
+
+      const dispatches = await storage.getRecallDispatches(recall);
+      res.json(dispatches);
+    } catch (error) {
+      console.error("Get recall dispatches error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Dealer directory; any signed-in user may list it to assign or filter by dealer
+  app.get("/api/dealers", requireAuthenticated, async (req, res) => {
+    try {
+      const dealers = await storage.getDealers();
+      res.json(dealers);
+    } catch (error) {
+      console.error("Get dealers error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/dealers", requirePermission("dealers.manage"), async (req, res) => {
+    try {
+      const dealerData = insertDealerSchema.parse(req.body);
+      const dealer = await storage.createDealer(dealerData);
+      res.status(201).json(dealer);
+    } catch (error) {
+      console.error("Create dealer error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes("unique")) {
+        return res.status(400).json({ message: "A dealer with this GSTIN already exists" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/dealers/:id", requirePermission("dealers.manage"), async (req, res) => {
+    try {
+      const dealerData = insertDealerSchema.parse(req.body);
+      const dealer = await storage.updateDealer(req.params.id, dealerData);
+      if (!dealer) {
+        return res.status(404).json({ message: "Dealer not found" });
+      }
+      res.json(dealer);
+    } catch (error) {
+      console.error("Update dealer error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes("unique")) {
+        return res.status(400).json({ message: "A dealer with this GSTIN already exists" });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/dealers/:id", requirePermission("dealers.manage"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteDealer(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Dealer not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete dealer error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // List dispatch notes, newest first
+  app.get("/api/dispatches", requirePermission("dispatches.view"), async (req, res) => {
+    try {
+      const notes = await storage.getDispatchNotes();
+      res.json(notes);
+    } catch (error) {
+      console.error("Get dispatch notes error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Create a dispatch note, taking every listed lot out of stock
+  app.post("/api/dispatches", requirePermission("dispatches.manage"), async (req, res) => {
+    try {
+      const note = dispatchNoteRequestSchema.parse(req.body);
+      const dealer = await storage.getDealer(note.dealerId);
+      if (!dealer) {
+        return res.status(404).json({ message: "Dealer not found" });
+      }
+      if (!dealer.active) {
+        return res.status(409).json({ message: `${dealer.name} is inactive and can't receive dispatches` });
+      }
+
+      const items = [];
+      for (const item of note.items) {
+        const product = await storage.getProductByUniqueId(item.productUniqueId);
+        if (!product) {
+          return res.status(404).json({ message: `No product with unique ID ${item.productUniqueId}` });
+        }
+        // Only lots cleared for sale may leave the warehouse
+        if (product.status !== "approved") {
+          return res.status(409).json({ message: `${product.uniqueId} is ${product.status} and can't be dispatched` });
+        }
+        items.push({ product, item });
+      }
+
+      const created = await storage.createDispatchNote(note, dealer, items, req.user!.id);
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Create dispatch note error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/dispatches/:id", requirePermission("dispatches.view"), async (req, res) => {
+    try {
+      const note = await storage.getDispatchNote(req.params.id);
+      if (!note) {
+        return res.status(404).json({ message: "Dispatch note not found" });
+      }
+      res.json(note);
+    } catch (error) {
+      console.error("Get dispatch note error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Printable dispatch note for the transporter and dealer
+  app.get("/api/dispatches/:id/pdf", requirePermission("dispatches.view"), async (req, res) => {
+    try {
+      const note = await storage.getDispatchNote(req.params.id);
+      if (!note) {
+        return res.status(404).json({ message: "Dispatch note not found" });
+      }
+
+      const pdf = await renderDispatchNotePdf(note);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="dispatch-note-${note.noteNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Generate dispatch note error:", error);
+      res.status(500).json({ message: "Failed to generate dispatch note" });
+    }
+  });
+
+  // Printable seed labels with tracking QR codes for approved products, as a PDF.
+  // Users without products.view_all may print labels for the products they submitted.
+  app.post("/api/labels", requirePermission("labels.print"), async (req, res) => {
+    try {
+      const labelRequest = labelRequestSchema.parse(req.body);
+      const template = getLabelTemplate(labelRequest.template)!;
+      if (labelRequest.productIds.length * labelRequest.copies > MAX_LABELS_PER_REQUEST) {
+        return res.status(400).json({ message: `At most ${MAX_LABELS_PER_REQUEST} labels can be printed at once` });
+      }
+
+      const found = await storage.getProductsByIds(labelRequest.productIds);
+      const byId = new Map(found.map((product) => [product.id, product]));
+      // Keep the order the products were selected in
+      const products = labelRequest.productIds.map((id) => byId.get(id)).filter((product) => product !== undefined);
+      if (products.length !== labelRequest.productIds.length) {
+        return res.status(404).json({ message: "One or more products were not found" });
+      }
+      if (!hasPermission(req.user, "products.view_all") && products.some((product) => product.submittedBy !== req.user!.id)) {
+        return res.status(403).json({ message: "You can only print labels for your own products" });
+      }
+      const notApproved = products.filter((product) => product.status !== "approved");
+      if (notApproved.length > 0) {
+        return res.status(409).json({
+          message: `Labels can only be printed for approved products (${notApproved.map((product) => product.uniqueId).join(", ")})`,
+        });
+      }
+
+      const pdf = await renderLabelsPdf(products, template, {
+        copies: labelRequest.copies,
+        startPosition: labelRequest.startPosition,
+        trackingBaseUrl: trackingBaseUrl(req),
+      });
+
+      const fileName = products.length === 1 ? `label-${products[0].uniqueId}.pdf` : `labels-${template.id}-${Date.now()}.pdf`;
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Generate labels error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to generate labels" });
+    }
+  });
+
+  // Column mapping for an import: the one sent by the client (as JSON in the
+  // multipart body) or, if none was sent, one guessed from the headers
+  function resolveImportMapping(rawMapping: unknown, headers: string[]): ColumnMapping {
+    if (typeof rawMapping !== "string" || !rawMapping) {
+      return proposeMapping(headers);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rawMapping);
+    } catch {
+      throw new ImportFileError("Invalid column mapping");
+    }
+    const mapping = columnMappingSchema.parse(parsed);
+    validateMapping(mapping, headers);
+    return mapping;
+  }
+
+  // Import options (natural key, duplicate strategy, error mode), sent as JSON in the multipart body
+  function parseImportOptions(rawOptions: unknown): ImportOptions {
+    if (typeof rawOptions !== "string" || !rawOptions) {
+      return importOptionsSchema.parse({});
+    }
+    try {
+      return importOptionsSchema.parse(JSON.parse(rawOptions));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw error;
+      }
+      throw new ImportFileError("Invalid import options");
+    }
+  }
+
+  // Preview an import: detected headers, proposed mapping and per-row validation, without writing
+  app.post("/api/products/import/preview", requirePermission("products.import"), importUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const { headers, rows } = await parseImportFile(req.file);
+      const mapping = resolveImportMapping(req.body.mapping, headers);
+      const options = parseImportOptions(req.body.options);
+      const results = mapImportRows(rows, mapping, req.user!.id, await storage.getQualityRules());
+
+      const validResults = results.filter((result) => result.data);
+      const duplicates = await storage.findDuplicateProducts(options.naturalKey, validResults.map((result) => result.data!));
+      validResults.forEach((result, i) => {
+        result.existingUniqueId = duplicates[i]?.uniqueId ?? null;
+      });
+
+      res.json(buildImportPreview(req.file.originalname, headers, mapping, results));
+    } catch (error) {
+      if (error instanceof ImportFileError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid column mapping", errors: error.errors });
+      }
+      console.error("Import preview error:", error);
+      res.status(500).json({ message: "Failed to read import file" });
+    }
+  });
+
+  // Import products from CSV/Excel file
+  app.post("/api/products/import", requirePermission("products.import"), importUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const { originalname } = req.file;
+      console.log(`📄 Importing ${originalname} (${req.file.size} bytes)`);
+
+      const { headers, rows } = await parseImportFile(req.file);
+      const mapping = resolveImportMapping(req.body.mapping, headers);
+      const options = parseImportOptions(req.body.options);
+      const results = mapImportRows(rows, mapping, req.user!.id, await storage.getQualityRules());
+      const user = req.user!;
+
+      const invalidReport: ImportReportRow[] = results
+        .filter((result) => !result.data)
+        .map((result) => ({ rowNumber: result.rowNumber, outcome: "invalid", uniqueId: null, message: result.errors.join("; ") }));
+      const validRows = results
+        .filter((result) => result.data)
+        .map((result) => ({ rowNumber: result.rowNumber, data: result.data! }));
+
+      const buildResult = (writtenReport: ImportReportRow[], committed: boolean): ImportResult => {
+        const reportRows = [...invalidReport, ...writtenReport].sort((a, b) => a.rowNumber - b.rowNumber);
+        const count = (outcome: ImportReportRow["outcome"]) => reportRows.filter((row) => row.outcome === outcome).length;
+        return {
+          fileName: originalname,
+          options,
+          committed,
+          total: results.length,
+          created: count("created"),
+          updated: count("updated"),
+          skipped: count("skipped_duplicate"),
+          invalid: count("invalid"),
+          failed: count("failed"),
+          rows: reportRows,
+        };
+      };
+
+      // All-or-nothing imports refuse the whole file as soon as one row is invalid
+      if (options.errorMode === "all_or_nothing" && invalidReport.length > 0) {
+        const notImported: ImportReportRow[] = validRows.map((row) => ({
+          rowNumber: row.rowNumber,
+          outcome: "not_imported",
+          uniqueId: null,
+          message: "Import cancelled because other rows are invalid",
+        }));
+        return res.status(422).json({
+          message: `Import cancelled: ${invalidReport.length} row(s) are invalid`,
+          ...buildResult(notImported, false),
+        });
+      }
+
+      let writtenReport: ImportReportRow[];
+      try {
+        writtenReport = await storage.importProducts(validRows, {
+          ...options,
+          // Without products.edit_all users may only refresh their own products that are not yet approved
+          canUpdate: (product) =>
+            hasPermission(user, "products.edit_all") ||
+            (product.submittedBy === user.id && OPERATOR_EDITABLE_STATUSES.includes(product.status as ProductStatus)),
+        }, {
+          actorId: user.id,
+          eventType: "imported",
+          comment: `Imported from ${originalname}`,
+        });
+      } catch (error) {
+        if (!(error instanceof ImportAbortedError)) {
+          throw error;
+        }
+        // The transaction was rolled back, so nothing from this file was written
+        const notImported: ImportReportRow[] = validRows.map((row) => ({
+          rowNumber: row.rowNumber,
+          outcome: row.rowNumber === error.rowNumber ? "failed" : "not_imported",
+          uniqueId: null,
+          message: row.rowNumber === error.rowNumber ? error.message : "Import rolled back",
+        }));
+        return res.status(422).json({
+          message: `Import rolled back: row ${error.rowNumber} could not be saved (${error.message})`,
+          ...buildResult(notImported, false),
+        });
+      }
+
+      // Rows imported despite quality rule warnings say so in the report
+      const warningsByRow = new Map(results.map((result) => [result.rowNumber, result.warnings]));
+      writtenReport = writtenReport.map((row) => {
+        const warnings = warningsByRow.get(row.rowNumber) ?? [];
+        return (row.outcome === "created" || row.outcome === "updated") && warnings.length > 0 && !row.message
+          ? { ...row, message: `Warnings: ${warnings.join("; ")}` }
+          : row;
+      });
+
+      const result = buildResult(writtenReport, true);
+      emitImportCompleted(result, user.id);
+      console.log(`📊 Import of ${originalname} completed: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped, ${result.invalid + result.failed} failed`);
+
+      res.json({ message: "Import completed", ...result });
+
+    } catch (error) {
+      if (error instanceof ImportFileError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid column mapping", errors: error.errors });
+      }
+      console.error("❌ Import error:", error);
+      res.status(500).json({ message: "Failed to import products" });
+    }
+  });
+
+  // Saved import column mappings
+  app.get("/api/import-profiles", requirePermission("products.import"), async (req, res) => {
+    try {
+      const profiles = await storage.getImportMappingProfiles();
+      res.json(profiles);
+    } catch (error) {
+      console.error("Get import profiles error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/import-profiles", requirePermission("products.import"), async (req, res) => {
+    try {
+      const profileData = insertImportMappingProfileSchema.parse(req.body);
+      const profile = await storage.saveImportMappingProfile(profileData, req.user!.id);
+      res.status(201).json(profile);
+    } catch (error) {
+      console.error("Save import profile error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Delete a saved mapping (settings managers, or the user who created it)
+  app.delete("/api/import-profiles/:id", requirePermission("products.import"), async (req, res) => {
+    try {
+      const profile = await storage.getImportMappingProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Import profile not found" });
+      }
+      if (!hasPermission(req.user, "settings.manage") && profile.createdBy !== req.user!.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await storage.deleteImportMappingProfile(profile.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete import profile error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Unique ID format. Changing it only affects IDs issued afterwards.
+  app.get("/api/settings/unique-id", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const format = await storage.getUniqueIdFormat();
+      res.json({ ...format, example: exampleUniqueId(format) });
+    } catch (error) {
+      console.error("Get unique ID format error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/settings/unique-id", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const format = uniqueIdFormatSchema.parse(req.body);
+      const settings = await storage.updateUniqueIdFormat(format, req.user!.id);
+      res.json({ ...format, updatedAt: settings.updatedAt, example: exampleUniqueId(format) });
+    } catch (error) {
+      console.error("Update unique ID format error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Open expiry and germination re-test alerts from the last scan; own products only without products.view_all
+  app.get("/api/alerts", requirePermission("products.view_all", "products.create"), async (req, res) => {
+    try {
+      const [alerts, settings] = await Promise.all([
+        storage.getProductAlerts(hasPermission(req.user, "products.view_all") ? {} : { submittedBy: req.user!.id }),
+        storage.getAlertSettings(),
+      ]);
+      res.json({ alerts, settings, lastScan: getLastAlertScan() });
+    } catch (error) {
+      console.error("Get alerts error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/alerts/scan", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      res.json(await runAlertScan());
+    } catch (error) {
+      console.error("Alert scan error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // The alert scan of deployments without the long-running server's scheduler, e.g. Vercel
+  app.get("/api/cron/alert-scan", async (req, res) => {
+    try {
+      if (!isCronRequest(req)) {
+        return res.status(401).json({ message: "Invalid cron secret" });
+      }
+
+      res.json(await runAlertScan());
+    } catch (error) {
+      console.error("Cron alert scan error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/settings/alerts", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      res.json(await storage.getAlertSettings());
+    } catch (error) {
+      console.error("Get alert settings error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/settings/alerts", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const settings = alertSettingsSchema.parse(req.body);
+      const saved = await storage.updateAlertSettings(settings, req.user!.id);
+      // Apply the new windows straight away instead of at the next scheduled scan
+      await runAlertScan();
+      res.json({ ...settings, updatedAt: saved.updatedAt });
+    } catch (error) {
+      console.error("Update alert settings error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Reviewers read the checklist for bulk approvals
+  app.get("/api/settings/review-checklist", requirePermission("settings.manage", "products.review"), async (req, res) => {
+    try {
+      res.json(await storage.getReviewChecklistSettings());
+    } catch (error) {
+      console.error("Get review checklist error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/settings/review-checklist", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const settings = reviewChecklistSettingsSchema.parse(req.body);
+      const saved = await storage.updateReviewChecklistSettings(settings, req.user!.id);
+      res.json({ minGermination: saved.minGermination, items: saved.items, updatedAt: saved.updatedAt });
+    } catch (error) {
+      console.error("Update review checklist error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Operators and reviewers read the quality rules to check products as they are entered
+  app.get("/api/settings/quality-rules", requirePermission("settings.manage", "products.create", "products.edit_all", "products.review", "products.import"), async (req, res) => {
+    try {
+      res.json(await storage.getQualityRules());
+    } catch (error) {
+      console.error("Get quality rules error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/settings/quality-rules", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const rule = qualityRuleSchema.parse(req.body);
+      res.status(201).json(await storage.createQualityRule(rule, req.user!.id));
+    } catch (error) {
+      console.error("Create quality rule error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/settings/quality-rules/:id", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const rule = qualityRuleSchema.parse(req.body);
+      const updated = await storage.updateQualityRule(req.params.id, rule, req.user!.id);
+      if (!updated) {
+        return res.status(404).json({ message: "Quality rule not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Update quality rule error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/settings/quality-rules/:id", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const success = await storage.deleteQualityRule(req.params.id);
+      if (!success) {
+        return res.status(404).json({ message: "Quality rule not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete quality rule error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/settings/two-factor", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      res.json(await storage.getTwoFactorPolicy());
+    } catch (error) {
+      console.error("Get two-factor policy error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Users of newly covered roles are asked to set up two-factor authentication on their next request
+  app.put("/api/settings/two-factor", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const policy = twoFactorPolicySchema.parse(req.body);
+      res.json(await storage.updateTwoFactorPolicy(policy, req.user!.id));
+    } catch (error) {
+      console.error("Update two-factor policy error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Anyone signed in reads the policy from /api/user/password-policy
+  app.put("/api/settings/password-policy", requirePermission("settings.manage"), async (req, res) => {
+    try {
+      const policy = passwordPolicySchema.parse(req.body);
+      const saved = await storage.updatePasswordPolicy(policy, req.user!.id);
+      res.json({ ...policy, updatedAt: saved.updatedAt });
+    } catch (error) {
+      console.error("Update password policy error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Create a user account with the given role (operator unless specified)
+  app.post("/api/users", requirePermission("users.manage"), async (req, res) => {
+    try {
+      const { username, email, password, role = "operator" } = req.body;
+
+      if (!username || !email || !password) {
+        return res.status(400).json({ message: "Username, email, and password are required" });
+      }
+
+      const roleError = await checkAssignableRole(role, req.user!);
+      if (roleError) {
+        return res.status(roleError.status).json({ message: roleError.message });
+      }
+
+      // Check if user already exists
+      const existingUser = await storage.getUserByUsername(username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const existingEmail = await storage.getUserByEmail(email);
+      if (existingEmail) {
+        return res.status(400).json({ message: "Email already exists" });
+      }
+
+      const passwordProblem = await checkNewPassword(password, username);
+      if (passwordProblem) {
+        return res.status(400).json({ message: passwordProblem });
+      }
+
+      const hashedPassword = await hashPassword(password);
+      const user = await storage.createUser({
+        username,
+        email,
+        password: hashedPassword,
+        role,
+      });
+      await storage.addPasswordHistory(user.id, hashedPassword);
+
+      // Remove password from response
+      const { password: _, ...userResponse } = user;
+      res.status(201).json(userResponse);
+    } catch (error) {
+      console.error("Create user error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Get all users
+  app.get("/api/users", requirePermission("users.manage"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      
+      // Remove passwords from response
+      const usersResponse = users.map(({ password, ...user }) => user);
+      res.json(usersResponse);
+    } catch (error) {
+      console.error("Get users error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Edit another user's username, email, role or active flag
+  app.patch("/api/users/:id", requirePermission("users.manage"), async (req, res) => {
+    try {
+      const updates = updateUserSchema.parse(req.body);
+      const target = await findManagedUser(req.params.id, req.user!);
+      if ("status" in target) {
+        return res.status(target.status).json({ message: target.message });
+      }
+
+      if (updates.role !== undefined && updates.role !== target.user.role) {
+        const roleError = await checkAssignableRole(updates.role, req.user!);
+        if (roleError) {
+          return res.status(roleError.status).json({ message: roleError.message });
+        }
+      }
+      if (updates.username && updates.username !== target.user.username) {
+        const existingUser = await storage.getUserByUsername(updates.username);
+        if (existingUser) {
+          return res.status(400).json({ message: "Username already exists" });
+        }
+      }
+      if (updates.email && updates.email !== target.user.email) {
+        const existingEmail = await storage.getUserByEmail(updates.email);
+        if (existingEmail) {
+          return res.status(400).json({ message: "Email already exists" });
+        }
+      }
+
+      const user = await storage.updateUser(target.user.id, updates);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { password: _, ...userResponse } = user;
+      res.json(userResponse);
+    } catch (error) {
+      console.error("Update user error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Set a temporary password the user must change at their next sign-in. Without a password
+  // in the request one is generated; it is only ever shown in this response.
+  app.post("/api/users/:id/reset-password", requirePermission("users.manage"), async (req, res) => {
+    try {
+      const { password } = passwordResetSchema.parse(req.body ?? {});
+      const target = await findManagedUser(req.params.id, req.user!);
+      if ("status" in target) {
+        return res.status(target.status).json({ message: target.message });
+      }
+
+      // Generated passwords are random enough; chosen ones must follow the policy
+      if (password) {
+        const passwordProblem = await checkNewPassword(password, target.user.username);
+        if (passwordProblem) {
+          return res.status(400).json({ message: passwordProblem });
+        }
+      }
+
+      const temporaryPassword = password ?? randomBytes(9).toString("base64url");
+      await setUserPassword(target.user.id, temporaryPassword, true);
+      // The user needs to be able to sign in with it straight away
+      await clearFailedLogins(target.user.id);
+      res.json({ temporaryPassword });
+    } catch (error) {
+      console.error("Reset password error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Turn off two-factor authentication for a user who lost their authenticator and recovery
+  // codes; if their role requires it, they set it up again at their next sign-in
+  app.post("/api/users/:id/reset-two-factor", requirePermission("users.manage"), async (req, res) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Authentication required" });
+      const target = await findManagedUser(req.params.id, req.user!);
+      if ("status" in target) {
+        return res.status(target.status).json({ message: target.message });
       }
 
-      const { status, search } = req.query;
-      let products;
+      await storage.disableTwoFactor(target.user.id);
+      res.json({ message: `Two-factor authentication was reset for ${target.user.username}` });
+    } catch (error) {
+      console.error("Reset two-factor error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      if (req.user?.role === "admin") {
-        if (search && typeof search === "string") {
-          // Search across all products for admin
-          products = await storage.searchProducts(search, status as string);
-        } else if (status && typeof status === "string") {
-          products = await storage.getProductsByStatus(status);
-        } else {
-          products = await storage.getAllProducts();
-        }
-      } else if (req.user?.role === "operator") {
-        // Operators can only see their own products
-        if (search && typeof search === "string") {
-          products = await storage.searchProductsBySubmitter(req.user.id, search);
-        } else {
-          products = await storage.getProductsBySubmitter(req.user.id);
-        }
-      } else {
-        return res.status(403).json({ message: "Access denied" });
+  // Lift a lockout after too many failed sign-ins
+  app.post("/api/users/:id/unlock", requirePermission("users.manage"), async (req, res) => {
+    try {
+      const target = await findManagedUser(req.params.id, req.user!);
+      if ("status" in target) {
+        return res.status(target.status).json({ message: target.message });
       }
 
-      res.json(products);
+      await clearFailedLogins(target.user.id);
+      res.json({ message: `${target.user.username} can sign in again` });
     } catch (error) {
-      console.error("Get products error:", error);
+      console.error("Unlock user error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Get public product by unique ID
-  app.get("/api/track/:uniqueId", async (req, res) => {
+  // Recent sign-in attempts, optionally for one username
+  app.get("/api/login-attempts", requirePermission("users.manage"), async (req, res) => {
     try {
-      const { uniqueId } = req.params;
-      const product = await storage.getProductByUniqueId(uniqueId);
-
-      if (!product) {
-        return res.status(404).json({ message: "Product not found" });
-      }
+      const username = typeof req.query.username === "string" && req.query.username.trim()
+        ? req.query.username.trim()
+        : undefined;
+      const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+      res.json(await storage.getLoginAttempts({ username, limit }));
+    } catch (error) {
+      console.error("Get login attempts error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      if (product.status !== "approved") {
-        return res.status(404).json({ message: "Product not available" });
+  // The signed-in user's API tokens; token managers can list everyone's with ?scope=all
+  app.get("/api/api-tokens", requireAuthenticated, async (req, res) => {
+    try {
+      if (req.query.scope === "all") {
+        if (!hasPermission(req.user, "api_tokens.manage")) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        return res.json(await storage.getApiTokens());
       }
-
-      // Remove sensitive information for public view
-      const publicProduct = {
-        ...product,
-        submittedBy: undefined,
-        approvedBy: undefined,
-        rejectionReason: undefined,
-      };
-
-      res.json(publicProduct);
+      res.json(await storage.getApiTokens(req.user!.id));
     } catch (error) {
-      console.error("Get public product error:", error);
+      console.error("Get API tokens error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Update product status (admin only)
-  app.patch("/api/products/:id/status", async (req, res) => {
+  // Issue a token for yourself, or with api_tokens.manage a service token for another user.
+  // The token is only ever returned here.
+  app.post("/api/api-tokens", requireAuthenticated, async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied" });
+      const data = apiTokenCreateSchema.parse(req.body);
+      const issuer = req.user!;
+      let owner: Pick<User, "id" | "active"> & { permissions: readonly string[] } = issuer;
+      if (data.userId && data.userId !== issuer.id) {
+        if (!hasPermission(issuer, "api_tokens.manage")) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        const target = await findManagedUser(data.userId, issuer);
+        if ("status" in target) {
+          return res.status(target.status).json({ message: target.message });
+        }
+        const user = await storage.getUserWithPermissions(target.user.id);
+        if (!user?.active) {
+          return res.status(400).json({ message: "API tokens can only be issued for active users" });
+        }
+        owner = user;
       }
 
-      const { id } = req.params;
-      const { status, rejectionReason } = req.body;
-
-      if (!["approved", "rejected"].includes(status)) {
-        return res.status(400).json({ message: "Invalid status" });
+      // Neither the issuer nor the token's user can gain permissions through a token
+      const unavailable = data.scopes.filter((scope) => !hasPermission(issuer, scope) || !owner.permissions.includes(scope));
+      if (unavailable.length > 0) {
+        return res.status(400).json({ message: `The token can't have these permissions: ${unavailable.join(", ")}` });
       }
 
-      if (status === "rejected" && !rejectionReason) {
-        return res.status(400).json({ message: "Rejection reason is required" });
+      const { token, tokenPrefix, tokenHash } = generateApiToken();
+      const apiToken = await storage.createApiToken({
+        userId: owner.id,
+        name: data.name,
+        kind: owner.id === issuer.id ? "personal" : "service",
+        tokenPrefix,
+        tokenHash,
+        scopes: data.scopes,
+        expiresAt: new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000),
+        createdBy: issuer.id,
+      });
+      res.status(201).json({ token, apiToken });
+    } catch (error) {
+      console.error("Create API token error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
       }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      const product = await storage.updateProductStatus(
-        id,
-        status,
-        req.user.id,
-        rejectionReason
-      );
-
-      if (!product) {
-        return res.status(404).json({ message: "Product not found" });
+  // Revoke one of your own tokens, or with api_tokens.manage anyone's
+  app.delete("/api/api-tokens/:id", requireAuthenticated, async (req, res) => {
+    try {
+      const apiToken = await storage.getApiToken(req.params.id);
+      if (!apiToken || (apiToken.userId !== req.user!.id && !hasPermission(req.user, "api_tokens.manage"))) {
+        return res.status(404).json({ message: "API token not found" });
       }
 
-      res.json(product);
+      await storage.revokeApiToken(apiToken.id);
+      res.status(204).send();
     } catch (error) {
-      console.error("Update product status error:", error);
+      console.error("Revoke API token error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Update product (admin for any product, operator for own pending products)
-  app.patch("/api/products/:id", async (req, res) => {
+  // The signed-in user's notifications, newest first, with the number still unread
+  app.get("/api/notifications", requireAuthenticated, async (req, res) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Authentication required" });
-      }
-
-      const { id } = req.params;
-      const updates = req.body;
-
-      // Get the product first to check ownership and status
-      const existingProduct = await storage.getProductById(id);
-      if (!existingProduct) {
-        return res.status(404).json({ message: "Product not found" });
-      }
-
-      // Check permissions
-      if (req.user.role === "admin") {
-        // Admins can edit any product
-      } else if (req.user.role === "operator") {
-        // Operators can only edit their own pending or rejected products
-        if (existingProduct.submittedBy !== req.user.id) {
-          return res.status(403).json({ message: "You can only edit your own products" });
-        }
-        if (existingProduct.status !== "pending" && existingProduct.status !== "rejected") {
-          return res.status(403).json({ message: "Only pending or rejected products can be edited" });
-        }
-      } else {
-        return res.status(403).json({ message: "Access denied" });
-      }
+      const limit = Math.min(Math.max(Number(req.query.limit) || 30, 1), 100);
+      const [items, unreadCount] = await Promise.all([
+        storage.getNotifications(req.user!.id, { limit, unreadOnly: req.query.unread === "true" }),
+        storage.countUnreadNotifications(req.user!.id),
+      ]);
+      const feed: NotificationFeed = { items, unreadCount };
+      res.json(feed);
+    } catch (error) {
+      console.error("Get notifications error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      const product = await storage.updateProduct(id, updates);
+  app.post("/api/notifications/read-all", requireAuthenticated, async (req, res) => {
+    try {
+      await storage.markAllNotificationsRead(req.user!.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Mark notifications read error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      if (!product) {
-        return res.status(404).json({ message: "Product not found" });
+  app.post("/api/notifications/:id/read", requireAuthenticated, async (req, res) => {
+    try {
+      const success = await storage.markNotificationRead(req.params.id, req.user!.id);
+      if (!success) {
+        return res.status(404).json({ message: "Notification not found" });
       }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Mark notification read error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      res.json(product);
+  // Webhooks, with their signing secrets so they can be set up on the receiving side
+  app.get("/api/webhooks", requirePermission("webhooks.manage"), async (req, res) => {
+    try {
+      res.json(await storage.getWebhooks());
     } catch (error) {
-      console.error("Update product error:", error);
+      console.error("Get webhooks error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Delete product (admin only)
-  app.delete("/api/products/:id", async (req, res) => {
+  app.post("/api/webhooks", requirePermission("webhooks.manage"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied" });
+      const data = webhookSchema.parse(req.body);
+      const webhook = await storage.createWebhook({ ...data, secret: generateWebhookSecret() }, req.user!.id);
+      res.status(201).json(webhook);
+    } catch (error) {
+      console.error("Create webhook error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
       }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      const { id } = req.params;
-      const success = await storage.deleteProduct(id);
+  app.put("/api/webhooks/:id", requirePermission("webhooks.manage"), async (req, res) => {
+    try {
+      const data = webhookSchema.parse(req.body);
+      const webhook = await storage.updateWebhook(req.params.id, data);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
+      }
+      res.json(webhook);
+    } catch (error) {
+      console.error("Update webhook error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
+  // Deleting a webhook also drops its delivery log
+  app.delete("/api/webhooks/:id", requirePermission("webhooks.manage"), async (req, res) => {
+    try {
+      const success = await storage.deleteWebhook(req.params.id);
       if (!success) {
-        return res.status(404).json({ message: "Product not found" });
+        return res.status(404).json({ message: "Webhook not found" });
       }
-
       res.status(204).send();
     } catch (error) {
-      console.error("Delete product error:", error);
+      console.error("Delete webhook error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Import products from CSV/Excel file (admin and operator)
-  app.post("/api/products/import", importUpload.single('file'), async (req, res) => {
+  // Replace the signing secret; the receiver must be given the new one
+  app.post("/api/webhooks/:id/rotate-secret", requirePermission("webhooks.manage"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || (req.user?.role !== "admin" && req.user?.role !== "operator")) {
-        return res.status(403).json({ message: "Access denied. Admin or operator role required for bulk import." });
+      const webhook = await storage.updateWebhook(req.params.id, { secret: generateWebhookSecret() });
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
       }
+      res.json(webhook);
+    } catch (error) {
+      console.error("Rotate webhook secret error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      if (!req.file) {
-        return res.status(400).json({ message: "No file uploaded" });
+  // Send a webhook.test event now and answer with the delivery's outcome
+  app.post("/api/webhooks/:id/test", requirePermission("webhooks.manage"), async (req, res) => {
+    try {
+      const webhook = await storage.getWebhook(req.params.id);
+      if (!webhook) {
+        return res.status(404).json({ message: "Webhook not found" });
       }
-
-      console.log("🔍 Starting Excel Import Process");
-      console.log(`📄 File: ${req.file.originalname}, Size: ${req.file.size} bytes, MimeType: ${req.file.mimetype}`);
-
-      const { buffer, mimetype, originalname } = req.file;
-      let products: any[] = [];
-      let headers: string[] = [];
-
-      // Parse CSV files
-      if (mimetype === 'text/csv' || originalname.endsWith('.csv')) {
-        console.log("📊 Processing CSV file...");
-        products = await new Promise((resolve, reject) => {
-          const results: any[] = [];
-          Readable.from(buffer)
-            .pipe(csv())
-            .on('data', (data: any) => {
-              if (results.length === 0) {
-                headers = Object.keys(data);
-                console.log("📋 CSV Headers found:", headers);
-              }
-              results.push(data);
-            })
-            .on('end', () => resolve(results))
-            .on('error', reject);
-        });
+      if (!webhook.active) {
+        return res.status(400).json({ message: "Switch the webhook on before sending a test event" });
       }
-      // Parse Excel files with enhanced options
-      else if (mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' || 
-               mimetype === 'application/vnd.ms-excel' ||
-               originalname.endsWith('.xlsx') || originalname.endsWith('.xls')) {
-        
-        console.log("📊 Processing Excel file...");
-        
-        // Read workbook with enhanced options to preserve decimal precision
-        const workbook = XLSX.read(buffer, { 
-          type: 'buffer',
-          cellDates: true,      // Convert dates to JS Date objects
-          cellNF: false,        // Don't format numbers
-          cellText: false,      // Don't convert to text
-          raw: false,           // Use formatted values to avoid type issues
-          dateNF: 'yyyy-mm-dd'  // Standard date format
-        });
-        
-        console.log("📚 Available sheets:", workbook.SheetNames);
-        
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        
-        console.log("📋 Processing sheet:", sheetName);
-        
-        // Get the range of the worksheet
-        const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1:A1');
-        console.log(`📏 Sheet range: ${range.s.r + 1}:${range.e.r + 1} rows, ${range.s.c + 1}:${range.e.c + 1} columns`);
-        
-        // Extract headers from first row
-        headers = [];
-        for (let col = range.s.c; col <= range.e.c; col++) {
-          const cellAddress = XLSX.utils.encode_cell({ r: range.s.r, c: col });
-          const cell = worksheet[cellAddress];
-          if (cell && cell.v) {
-            headers.push(String(cell.v).trim());
-          } else {
-            headers.push(`Column_${col + 1}`);
-          }
-        }
-        
-        console.log("📋 Excel Headers extracted:", headers);
-        console.log("📋 Number of headers:", headers.length);
-        
-        // Convert to JSON with proper options to preserve decimal precision
-        products = XLSX.utils.sheet_to_json(worksheet, {
-          header: headers,
-          range: 1, // Skip first row (headers)
-          defval: "", // Default value for empty cells
-          raw: false, // Use formatted values to avoid type issues
-          dateNF: 'yyyy-mm-dd'
-        });
-        
-        console.log(`📈 Total rows extracted: ${products.length}`);
-        
-      } else {
-        return res.status(400).json({ message: "Unsupported file format. Please upload CSV or Excel files." });
+      const delivery = await sendWebhookTestEvent(webhook);
+      if (!delivery) {
+        return res.status(404).json({ message: "Webhook not found" });
       }
+      res.json(delivery);
+    } catch (error) {
+      console.error("Test webhook error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      if (products.length === 0) {
-        console.log("❌ No data found in the file");
-        return res.status(400).json({ message: "No data found in the file" });
-      }
+  // Recent deliveries of one webhook
+  app.get("/api/webhooks/:id/deliveries", requirePermission("webhooks.manage"), async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+      res.json(await storage.getWebhookDeliveries(req.params.id, limit));
+    } catch (error) {
+      console.error("Get webhook deliveries error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      console.log("✅ File parsing completed successfully");
-      console.log(`🔢 Total rows to process: ${products.length}`);
-      
-      // Log first few rows for debugging
-      console.log("🔍 Sample data from first 3 rows:");
-      for (let i = 0; i < Math.min(3, products.length); i++) {
-        console.log(`📝 Row ${i + 1} data:`, JSON.stringify(products[i], null, 2));
+  // Webhook deliveries and retries of deployments without the long-running server's dispatcher
+  app.get("/api/cron/webhook-dispatch", async (req, res) => {
+    try {
+      if (!isCronRequest(req)) {
+        return res.status(401).json({ message: "Invalid cron secret" });
       }
 
-      // Process and validate products
-      let imported = 0;
-      let skipped = 0;
-      const errors: string[] = [];
-
-      for (let i = 0; i < products.length; i++) {
-        try {
-          const row = products[i];
-          console.log(`\n🔄 Processing row ${i + 1}:`);
-          console.log(`📄 Raw row data:`, JSON.stringify(row, null, 2));
-          
-          // Enhanced column mapping with exact matches from your Excel structure
-          console.log("🗂️ Mapping Excel columns to schema fields...");
-          
-          // Skip empty rows - check if essential fields are missing
-          // const hasEssentialData = row['Crop Name'] || row['Location'] || row['Lot No.'] || row['Production Code FF'];
-          // if (!hasEssentialData) {
-          //   console.log(`⚠️  Row ${i + 1}: Skipping empty row - no essential data found`);
-          //   skipped++;
-          //   continue;
-          // }
-
-          const productData = {
-            // Core product info - NO FALLBACKS
-            company: row.company || row.Company || row.COMPANY || '',
-            brand: row.brand || row.Brand || row.BRAND || '',
-            product: row['Crop Name'] || row.product || row.Product || row.PRODUCT || row['Product Name'] || row['CROP NAME'] || null,
-            description: row.description || row.Description || row.DESCRIPTION || null,
-            
-            // Pricing info - NO FALLBACKS  
-            mrp: parseDecimal(row.mrp || row.MRP || row['MRP (₹)'] || row.price || row.Price),
-            unitSalePrice: parseDecimal(row.unitSalePrice || row['Unit Sale Price'] || row['Unit Sale Prize'] || row.unitPrice || row['Unit Price']),
-            
-            // Quantity and packaging - NO FALLBACKS
-            netQty: row.netQty || row['Net Qty'] || row['Net Quantity'] || row.quantity || row.Quantity || row['Qty(kg)'] || null,
-            packSize: row.packSize || row['Pack Size'] || row.size || row.Size || null,
-            noOfPkts: parseDecimal(row['No. of Bags'] || row.noOfPkts || row['No Of Pkts'] || row['No of Pkts'] || row.packets || row.Packets),
-            totalPkts: parseDecimal(row.totalPkts || row['Total Pkts'] || row.totalPackets || row['Total Packets'] || row['Total Pkg']),
-            
-            // Batch and lot info - NO FALLBACKS
-            lotBatch: row.lotBatch || row['Lot/Batch'] || row['Lot Batch'] || row.batch || row.Batch || row['New Lot No'] || null,
-            lotNo: row['Lot No.'] || row.lotNo || row['Lot No'] || row.lot || row.Lot || null,
-            gb: parseDecimal(row.gb || row.GB || row.Gb),
-            
-            // Dates - NO FALLBACKS
-            mfgDate: excelDateToString(row.mfgDate || row['Mfg Date'] || row['Manufacturing Date'] || row['Date of Packing'] || row['Date Of Packing']),
-            expiryDate: excelDateToString(row.expiryDate || row['Expiry Date'] || row['Valid Up To'] || row['Valid Upto']),
-            dateOfTest: excelDateToString(row['Date of Test'] || row.dateOfTest || row['Date Of Test'] || row.testDate || row['Test Date']),
-            
-            // Contact and company info - NO FALLBACKS
-            customerCare: row.customerCare || row['Customer Care'] || row.support || row.Support || null,
-            email: row.email || row.Email || row.EMAIL || null,
-            companyAddress: row.companyAddress || row['Company Address'] || row.address || row.Address || null,
-            marketedBy: row.marketedBy || row['Marketed By'] || row.marketer || row.Marketer || null,
-            
-            // Range and location - NO FALLBACKS
-            from: row.from || row.From || row.FROM || row['From'] || null,
-            to: row.to || row.To || row.TO || row['To'] || null,
-            
-            // Codes - CONSOLIDATED MAPPING (Marketing Code and Market Code treated as same)
-            marketingCode: row['Market Code FF'] || row.marketingCode || row['Marketing Code'] || row.code || row.Code || null,
-            unitOfMeasureCode: row.unitOfMeasureCode || row['Unit of Measure Code'] || row.unit || row.Unit || null,
-            marketCode: row.marketCode || row['Market Code'] || row.market || row.Market || row['Market Code FF'] || row.marketingCode || row['Marketing Code'] || row.code || row.Code || null,
-            prodCode: row['Production Code FF'] || row.prodCode || row['Prod. Co*'] || row['Prod. Code'] || row['Prod Code'] || row.productCode || row['Product Code'] || null,
-            
-            // NEW COLUMNS FROM EXCEL
-            location: row['Location'] || row.location || null,
-            stageCode: row['Stage Code'] || row.stageCode || null,
-            remainingQuantity: parseDecimal(row['Remaining Quantity'] || row.remainingQuantity),
-            stackNo: row['STACK NO'] || row.stackNo || null,
-            normalGermination: parseDecimal(row['Normal Germination %'] || row.normalGermination),
-            gerAve: parseDecimal(row['GER AVE'] || row.gerAve),
-            gotPercent: parseDecimal(row['GOT %'] || row.gotPercent),
-            gotAve: parseDecimal(row['GOT AVE'] || row.gotAve),
-            
-            // Generate unique ID
-            uniqueId: generateUniqueId(),
-            submittedBy: req.user.id,
-          };
-
-          console.log("✨ Mapped product data:");
-          console.log(`   Company: "${productData.company}"`);
-          console.log(`   Brand: "${productData.brand}"`);
-          console.log(`   Product: "${productData.product}"`);
-          console.log(`   Description: "${productData.description}"`);
-          console.log(`   MRP: "${productData.mrp}"`);
-          console.log(`   Net Qty: "${productData.netQty}"`);
-          console.log(`   Lot/Batch: "${productData.lotBatch}"`);
-          console.log(`   Pack Size: "${productData.packSize}"`);
-          console.log(`   Mfg Date: "${productData.mfgDate}"`);
-          console.log(`   Expiry Date: "${productData.expiryDate}"`);
-          console.log(`   Date of Test: "${productData.dateOfTest}"`);
-          console.log(`   Market Code: "${productData.marketCode}"`);
-          console.log(`   Prod Code: "${productData.prodCode}"`);
-          console.log(`   Location: "${productData.location}"`);
-          console.log(`   Stage Code: "${productData.stageCode}"`);
-          console.log(`   Remaining Quantity: "${productData.remainingQuantity}"`);
-          console.log(`   Stack No: "${productData.stackNo}"`);
-          console.log(`   Normal Germination %: "${productData.normalGermination}"`);
-          console.log(`   GER AVE: "${productData.gerAve}"`);
-          console.log(`   GOT %: "${productData.gotPercent}"`);
-          console.log(`   GOT AVE: "${productData.gotAve}"`);
-          console.log(`   Unique ID: "${productData.uniqueId}"`);
-
-          // Basic validation - NO FALLBACKS ALLOWED
-          if (!productData.product) {
-            console.log(`❌ Row ${i + 1}: Missing product name, skipping row`);
-            skipped++;
-            errors.push(`Row ${i + 1}: Missing product name (Crop Name)`);
-            continue;
-          }
-
-          console.log(`🔍 Validating row ${i + 1} against schema...`);
-          
-          // Validate and create product
-          const validatedData = insertProductSchema.parse(productData);
-          console.log(`✅ Row ${i + 1}: Schema validation passed`);
-          
-          await storage.createProduct(validatedData);
-          console.log(`✅ Row ${i + 1}: Product created successfully`);
-          
-          imported++;
+      res.json(await dispatchWebhookBatch());
+    } catch (error) {
+      console.error("Cron webhook dispatch error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-        } catch (error) {
-          console.log(`❌ Row ${i + 1}: Error occurred -`, error instanceof Error ? error.message : 'Unknown error');
-          skipped++;
-          errors.push(`Row ${i + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
+  // Delete a user that has no products or records; others can only be deactivated
+  app.delete("/api/users/:id", requirePermission("users.manage"), async (req, res) => {
+    try {
+      const target = await findManagedUser(req.params.id, req.user!);
+      if ("status" in target) {
+        return res.status(target.status).json({ message: target.message });
       }
 
-      console.log("\n📊 Import Summary:");
-      console.log(`✅ Successfully imported: ${imported} products`);
-      console.log(`⚠️  Skipped: ${skipped} products`);
-      console.log(`📝 Total processed: ${products.length} rows`);
-      console.log("🔚 Import process completed");
-
-      res.json({
-        message: "Import completed",
-        imported,
-        skipped,
-        total: products.length,
-        errors: errors.slice(0, 10) // Limit errors shown to first 10
-      });
+      await storage.deleteUser(target.user.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete user error:", error);
+      if (error instanceof UserInUseError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
+  // Roles and their permissions; readable by user managers so they can assign them, and by
+  // settings managers for the two-factor policy
+  app.get("/api/roles", requirePermission("users.manage", "roles.manage", "settings.manage"), async (req, res) => {
+    try {
+      const roles = await storage.getRoles();
+      res.json(roles);
     } catch (error) {
-      console.error("❌ Import error:", error);
-      res.status(500).json({ message: "Failed to import products" });
+      console.error("Get roles error:", error);
+      res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Create operator account (admin only)
-  app.post("/api/users", async (req, res) => {
+  app.post("/api/roles", requirePermission("roles.manage"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied" });
+      const roleData = roleSchema.parse(req.body);
+      if (await storage.getRole(roleData.name)) {
+        return res.status(400).json({ message: "A role with this name already exists" });
       }
 
-      const { username, email, password } = req.body;
-
-      if (!username || !email || !password) {
-        return res.status(400).json({ message: "Username, email, and password are required" });
+      const role = await storage.saveRole(roleData, req.user!.id);
+      res.status(201).json(role);
+    } catch (error) {
+      console.error("Create role error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
       }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      // Check if user already exists
-      const existingUser = await storage.getUserByUsername(username);
-      if (existingUser) {
-        return res.status(400).json({ message: "Username already exists" });
+  // Edit a role's label, description and permissions. Takes effect on the holders' next request.
+  app.put("/api/roles/:name", requirePermission("roles.manage"), async (req, res) => {
+    try {
+      const { name } = req.params;
+      if (name === SUPER_ADMIN_ROLE) {
+        return res.status(403).json({ message: "The Super Admin role cannot be changed" });
       }
-
-      const existingEmail = await storage.getUserByEmail(email);
-      if (existingEmail) {
-        return res.status(400).json({ message: "Email already exists" });
+      if (!(await storage.getRole(name))) {
+        return res.status(404).json({ message: "Role not found" });
       }
 
-      // Hash password
-      const { scrypt, randomBytes } = await import("crypto");
-      const { promisify } = await import("util");
-      const scryptAsync = promisify(scrypt);
-      
-      const salt = randomBytes(16).toString("hex");
-      const buf = (await scryptAsync(password, salt, 64)) as Buffer;
-      const hashedPassword = `${buf.toString("hex")}.${salt}`;
-
-      // Create operator user
-      const user = await storage.createUser({
-        username,
-        email,
-        password: hashedPassword,
-        role: "operator",
-      });
-
-      // Remove password from response
-      const { password: _, ...userResponse } = user;
-      res.status(201).json(userResponse);
+      const roleData = roleSchema.parse({ ...req.body, name });
+      const role = await storage.saveRole(roleData, req.user!.id);
+      res.json(role);
     } catch (error) {
-      console.error("Create user error:", error);
+      console.error("Update role error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message ?? "Validation error", errors: error.errors });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Get all users (admin only)
-  app.get("/api/users", async (req, res) => {
+  // Delete a custom role that nobody holds, or restore a built-in role to its defaults
+  app.delete("/api/roles/:name", requirePermission("roles.manage"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied" });
+      const { name } = req.params;
+      if (name === SUPER_ADMIN_ROLE) {
+        return res.status(403).json({ message: "The Super Admin role cannot be changed" });
+      }
+      const role = await storage.getRole(name);
+      if (!role) {
+        return res.status(404).json({ message: "Role not found" });
       }
 
-      const users = await storage.getAllUsers();
-      
-      // Remove passwords from response
-      const usersResponse = users.map(({ password, ...user }) => user);
-      res.json(usersResponse);
+      if (!role.builtIn) {
+        const holders = await storage.countUsersWithRole(name);
+        if (holders > 0) {
+          return res.status(409).json({ message: `Assign the ${holders} user(s) with this role another role first` });
+        }
+      }
+
+      await storage.deleteRole(name);
+      res.status(204).send();
     } catch (error) {
-      console.error("Get users error:", error);
+      console.error("Delete role error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -726,12 +1901,8 @@ function normalizeProductData(data: Record<string, any>) {
   // Crop and variety management endpoints
   
   // Get all crops with their varieties
-  app.get("/api/crops", async (req, res) => {
+  app.get("/api/crops", requireAuthenticated, async (req, res) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Authentication required" });
-      }
-
       const crops = await storage.getAllCropsWithVarieties();
       res.json(crops);
     } catch (error) {
@@ -740,13 +1911,9 @@ function normalizeProductData(data: Record<string, any>) {
     }
   });
 
-  // Create new crop (admin only)
-  app.post("/api/crops", async (req, res) => {
+  // Create new crop
+  app.post("/api/crops", requirePermission("catalog.manage"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied. Admin role required." });
-      }
-
       const { name } = req.body;
       if (!name || typeof name !== "string" || name.trim() === "") {
         return res.status(400).json({ message: "Crop name is required" });
@@ -763,13 +1930,9 @@ function normalizeProductData(data: Record<string, any>) {
     }
   });
 
-  // Delete crop (admin only)
-  app.delete("/api/crops/:id", async (req, res) => {
+  // Delete crop
+  app.delete("/api/crops/:id", requirePermission("catalog.manage"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied. Admin role required." });
-      }
-
       const { id } = req.params;
       const success = await storage.deleteCrop(id);
 
@@ -784,13 +1947,9 @@ function normalizeProductData(data: Record<string, any>) {
     }
   });
 
-  // Create new variety (admin only)
-  app.post("/api/varieties", async (req, res) => {
+  // Create new variety
+  app.post("/api/varieties", requirePermission("catalog.manage"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied. Admin role required." });
-      }
-
       const { code, cropId } = req.body;
       if (!code || typeof code !== "string" || code.trim() === "") {
         return res.status(400).json({ message: "Variety code is required" });
@@ -813,13 +1972,9 @@ function normalizeProductData(data: Record<string, any>) {
     }
   });
 
-  // Delete variety (admin only)
-  app.delete("/api/varieties/:id", async (req, res) => {
+  // Delete variety
+  app.delete("/api/varieties/:id", requirePermission("catalog.manage"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied. Admin role required." });
-      }
-
       const { id } = req.params;
       const success = await storage.deleteVariety(id);
 
@@ -834,13 +1989,9 @@ function normalizeProductData(data: Record<string, any>) {
     }
   });
 
-  // Extract crops and varieties from existing products (admin only)
-  app.get("/api/products/extract-crops-varieties", async (req, res) => {
+  // Extract crops and varieties from existing products
+  app.get("/api/products/extract-crops-varieties", requirePermission("catalog.manage"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied. Admin role required." });
-      }
-
       const products = await storage.getAllProducts();
       
       // Extract unique crops and their varieties
@@ -878,13 +2029,9 @@ function normalizeProductData(data: Record<string, any>) {
     }
   });
 
-  // Seed crops and varieties from existing product data (admin only)
-  app.post("/api/products/seed-crops-varieties", async (req, res) => {
+  // Seed crops and varieties from existing product data
+  app.post("/api/products/seed-crops-varieties", requirePermission("catalog.manage"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied. Admin role required." });
-      }
-
       const products = await storage.getAllProducts();
       
       // Extract unique crops and their varieties
@@ -980,13 +2127,9 @@ function normalizeProductData(data: Record<string, any>) {
 
   // Crop-variety URL management endpoints
 
-  // Get all crop-variety URLs (admin only)
-  app.get("/api/crop-variety-urls", async (req, res) => {
+  // Get all crop-variety URLs
+  app.get("/api/crop-variety-urls", requirePermission("catalog.manage"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied. Admin role required." });
-      }
-
       const cropVarietyUrls = await storage.getAllCropVarietyUrls();
       res.json(cropVarietyUrls);
     } catch (error) {
@@ -996,12 +2139,8 @@ function normalizeProductData(data: Record<string, any>) {
   });
 
   // Get crop-variety URL by crop name and variety code (for forms)
-  app.get("/api/crop-variety-urls/by-names/:cropName/:varietyCode", async (req, res) => {
+  app.get("/api/crop-variety-urls/by-names/:cropName/:varietyCode", requireAuthenticated, async (req, res) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Authentication required" });
-      }
-
       const { cropName, varietyCode } = req.params;
       const cropVarietyUrl = await storage.getCropVarietyUrlByCropAndVarietyNames(cropName, varietyCode);
       
@@ -1016,13 +2155,9 @@ function normalizeProductData(data: Record<string, any>) {
     }
   });
 
-  // Create crop-variety URL (admin only)
-  app.post("/api/crop-variety-urls", async (req, res) => {
+  // Create crop-variety URL
+  app.post("/api/crop-variety-urls", requirePermission("catalog.manage"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied. Admin role required." });
-      }
-
       const { cropId, varietyId, url, description } = req.body;
       
       if (!cropId || typeof cropId !== "string") {
@@ -1055,13 +2190,9 @@ function normalizeProductData(data: Record<string, any>) {
     }
   });
 
-  // Update crop-variety URL (admin only)
-  app.put("/api/crop-variety-urls/:id", async (req, res) => {
+  // Update crop-variety URL
+  app.put("/api/crop-variety-urls/:id", requirePermission("catalog.manage"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied. Admin role required." });
-      }
-
       const { id } = req.params;
       const { url, description } = req.body;
 
@@ -1085,13 +2216,9 @@ function normalizeProductData(data: Record<string, any>) {
     }
   });
 
-  // Delete crop-variety URL (admin only)
-  app.delete("/api/crop-variety-urls/:id", async (req, res) => {
+  // Delete crop-variety URL
+  app.delete("/api/crop-variety-urls/:id", requirePermission("catalog.manage"), async (req, res) => {
     try {
-      if (!req.isAuthenticated() || req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied. Admin role required." });
-      }
-
       const { id } = req.params;
       const success = await storage.deleteCropVarietyUrl(id);
 
@@ -27,7 +27,7 @@ async function seedDatabase() {
         username: "admin",
         email: "admin@test.com",
         password: hashedPassword,
-        role: "admin",
+        role: "super_admin",
       });
       console.log("✅ Admin user created");
     }
@@ -169,7 +169,7 @@ async function seedDatabase() {
 
     console.log("✅ Database seeded successfully!");
     console.log("📧 Demo credentials:");
-    console.log("   Admin - Username: admin, Password: admin123");
+    console.log("   Super Admin - Username: admin, Password: admin123");
     console.log("   Operator - Username: op2, Password: test123");
     console.log("📦 Sample products added with various statuses for testing");
     
@@ -1,30 +1,455 @@
-import { users, products, crops, varieties, cropVarietyUrls, type User, type InsertUser, type Product, type InsertProduct, type Crop, type InsertCrop, type Variety, type InsertVariety, type CropVarietyUrl, type InsertCropVarietyUrl } from "@shared/schema";
+import { users, roles, products, productEvents, productRecalls, importMappingProfiles, uniqueIdSettings, uniqueIdSequences, alertSettings, reviewChecklistSettings, qualityRules, passwordPolicySettings, passwordHistory, loginAttempts, userTotp, recoveryCodes, twoFactorSettings, apiTokens, webhooks, webhookDeliveries, notifications, notificationPreferences, productAlerts, stockMovements, stockMovementLines, dispatchNotes, dispatchNoteItems, dealers, crops, varieties, cropVarietyUrls, type User, type InsertUser, type AuthenticatedUser, type RoleRow, type Product, type InsertProduct, type ProductEventType, type ProductEventWithActor, type InsertProductRecall, type ProductRecall, type ProductRecallWithCreator, type ImportMappingProfile, type InsertImportMappingProfile, type UniqueIdSettings, type AlertSettingsRow, type ReviewChecklistSettingsRow, type QualityRule, type PasswordPolicySettingsRow, type LoginAttempt, type InsertLoginAttempt, type UserTotp, type ApiToken, type InsertApiToken, type ApiTokenWithOwner, type Notification, type InsertNotification, type Webhook, type WebhookDelivery, type InsertWebhookDelivery, type ProductAlertWithProduct, type StockBalance, type StockMovementWithLines, type DispatchNoteSummary, type DispatchNoteWithItems, type ProductDispatch, type Dealer, type InsertDealer, type PublicDealer, type Crop, type InsertCrop, type Variety, type InsertVariety, type CropVarietyUrl, type InsertCropVarietyUrl } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, or, ilike } from "drizzle-orm";
+import { eq, desc, asc, and, or, ilike, inArray, isNull, gte, lt, lte, sql, count, getTableColumns, type AnyColumn, type SQL } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import type { DuplicateStrategy, ImportErrorMode, ImportReportRow, NaturalKeyField } from "@shared/import";
+import { DEFAULT_PRODUCT_SORT, type ProductFilters, type ProductSort } from "@shared/product-filters";
+import { DEFAULT_ALERT_SETTINGS, MONITORED_STATUSES, type AlertSettings, type AlertType } from "@shared/alerts";
+import { DEFAULT_REVIEW_CHECKLIST, type ChecklistResult, type ReviewChecklistSettings } from "@shared/review";
+import { UNASSIGNED_LOCATION, buildMovementLines, type StockMovementRequest } from "@shared/inventory";
+import { formatDispatchNoteNumber, type DispatchNoteItemRequest, type DispatchNoteRequest } from "@shared/dispatch";
+import { COUNTED_FAILURES, type LoginOutcome } from "@shared/login-attempts";
+import { DEFAULT_TWO_FACTOR_POLICY, type TwoFactorPolicy } from "@shared/two-factor";
+import { DEFAULT_PASSWORD_POLICY, MAX_PASSWORD_HISTORY, type PasswordPolicy } from "@shared/password-policy";
+import type { WebhookInput } from "@shared/webhooks";
+import type { QualityRuleInput } from "@shared/quality-rules";
+import { withDefaultPreferences, type NotificationPreferences } from "@shared/notifications";
+import { BUILT_IN_ROLES, PERMISSIONS, SUPER_ADMIN_ROLE, isPermission, type Permission, type RoleDefinition, type RoleInput } from "@shared/permissions";
+import { DEFAULT_UNIQUE_ID_FORMAT, renderUniqueId, renderUniqueIdScope, uniqueIdCounterKey, uniqueIdScopeRegex, type UniqueIdFormat } from "@shared/unique-id";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
+import { diffProductFields } from "./product-audit";
 
 const PostgresSessionStore = connectPg(session);
 
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface ProductAlertInput {
+  productId: string;
+  type: AlertType;
+  dueDate: string;
+}
+
+// Who made a product change and how it should appear in the audit trail
+export interface ProductAuditContext {
+  actorId?: string | null;
+  eventType?: ProductEventType;
+  comment?: string | null;
+  checklist?: ChecklistResult[] | null;
+}
+
+export interface BulkProductChange {
+  id: string;
+  // Status the product had when the change was planned
+  fromStatus: string;
+  // Column updates for a status change, or null to delete the product
+  updates: Partial<Product> | null;
+  // Audit event of this product's status change; each product's own transition decides them
+  eventType?: ProductEventType;
+  comment?: string | null;
+  checklist?: ChecklistResult[] | null;
+}
+
+// The updated or deleted product, or why it was not changed
+export type BulkProductChangeResult =
+  | { product: Product; error: null }
+  | { product: null; error: string };
+
+// Saved rows override the built-in role of the same name; super_admin always holds every permission
+function toRoleDefinition(row: RoleRow | undefined, builtIn: RoleDefinition | undefined): RoleDefinition | undefined {
+  if (builtIn?.name === SUPER_ADMIN_ROLE) {
+    return { ...builtIn, permissions: [...PERMISSIONS] };
+  }
+  if (!row) {
+    return builtIn;
+  }
+  return {
+    name: row.name,
+    label: row.label,
+    description: row.description,
+    permissions: row.permissions.filter(isPermission),
+    builtIn: !!builtIn,
+  };
+}
+
+// Which products a recall covers, based on its scope
+function recallTargetCondition(recall: Pick<InsertProductRecall, "productId" | "lotNo" | "prodCode" | "cropName" | "varietyCode"> & { scope: string }) {
+  switch (recall.scope) {
+    case "product":
+      return eq(products.id, recall.productId!);
+    case "lot":
+      return eq(products.lotNo, recall.lotNo!);
+    case "prodCode":
+      return eq(products.prodCode, recall.prodCode!);
+    case "cropVariety":
+      return and(eq(products.product, recall.cropName!), eq(products.marketCode, recall.varietyCode!));
+    default:
+      return sql`false`;
+  }
+}
+
+// "%term%" for ilike with the term's own % and _ matched literally rather than as wildcards
+function containsPattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+// Exact filters on free-text columns ignore case, so "paddy" finds "Paddy"
+function equalsIgnoringCase(column: AnyColumn, value: string): SQL {
+  return sql`lower(${column}) = lower(${value})`;
+}
+
+// Matches a date column typed either as YYYY-MM-DD or as DD/MM/YYYY
+function searchableDate(column: AnyColumn) {
+  return sql`concat_ws(' ', ${column}::text, to_char(${column}, 'DD/MM/YYYY'))`;
+}
+
+function productSearchCondition(searchTerm: string) {
+  const searchPattern = containsPattern(searchTerm);
+  return or(
+    ilike(products.uniqueId, searchPattern),
+    ilike(products.company, searchPattern),
+    ilike(products.brand, searchPattern),
+    ilike(products.product, searchPattern),
+    ilike(products.description, searchPattern),
+    ilike(products.lotBatch, searchPattern),
+    ilike(products.lotNo, searchPattern),
+    ilike(searchableDate(products.mfgDate), searchPattern),
+    ilike(searchableDate(products.expiryDate), searchPattern),
+    ilike(products.customerCare, searchPattern),
+    ilike(products.email, searchPattern),
+    ilike(products.marketedBy, searchPattern)
+  );
+}
+
+// Start of the given day and of the day after it, for inclusive date range filters
+function dayBounds(date: string): [Date, Date] {
+  const start = new Date(`${date}T00:00:00`);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return [start, end];
+}
+
+function productFilterCondition(filters: ProductFilters) {
+  const conditions: SQL[] = [];
+  if (filters.ids) {
+    conditions.push(filters.ids.length > 0 ? inArray(products.id, filters.ids) : sql`false`);
+  }
+  if (filters.status && filters.status.length > 0) {
+    conditions.push(inArray(products.status, filters.status));
+  }
+  if (filters.search) {
+    conditions.push(productSearchCondition(filters.search)!);
+  }
+  if (filters.crop) {
+    conditions.push(equalsIgnoringCase(products.product, filters.crop));
+  }
+  if (filters.marketCode) {
+    conditions.push(equalsIgnoringCase(products.marketCode, filters.marketCode));
+  }
+  if (filters.classType) {
+    conditions.push(equalsIgnoringCase(products.classType, filters.classType));
+  }
+  if (filters.location) {
+    conditions.push(equalsIgnoringCase(products.location, filters.location));
+  }
+  if (filters.submittedBy) {
+    conditions.push(eq(products.submittedBy, filters.submittedBy));
+  }
+  if (filters.dealerId) {
+    conditions.push(or(
+      eq(products.dealerId, filters.dealerId),
+      inArray(
+        products.id,
+        db.select({ productId: dispatchNoteItems.productId })
+          .from(dispatchNoteItems)
+          .innerJoin(dispatchNotes, eq(dispatchNoteItems.dispatchNoteId, dispatchNotes.id))
+          .where(eq(dispatchNotes.dealerId, filters.dealerId)),
+      ),
+    )!);
+  }
+  if (filters.submittedFrom) {
+    conditions.push(gte(products.submissionDate, dayBounds(filters.submittedFrom)[0]));
+  }
+  if (filters.submittedTo) {
+    conditions.push(lt(products.submissionDate, dayBounds(filters.submittedTo)[1]));
+  }
+  if (filters.approvedFrom) {
+    conditions.push(gte(products.approvalDate, dayBounds(filters.approvedFrom)[0]));
+  }
+  if (filters.approvedTo) {
+    conditions.push(lt(products.approvalDate, dayBounds(filters.approvedTo)[1]));
+  }
+  if (filters.expiryFrom) {
+    conditions.push(gte(products.expiryDate, filters.expiryFrom));
+  }
+  if (filters.expiryTo) {
+    conditions.push(lte(products.expiryDate, filters.expiryTo));
+  }
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+function productOrderBy(sort: ProductSort[]) {
+  const order = sort.map(({ field, direction }) => {
+    const column = products[field];
+    // Products without a value sort last in either direction
+    return direction === "desc" ? sql`${column} DESC NULLS LAST` : sql`${column} ASC NULLS LAST`;
+  });
+  // Tie-breaker so pages never overlap
+  return [...order, asc(products.id)];
+}
+
+export interface ImportProductRow {
+  rowNumber: number;
+  data: Omit<InsertProduct, "uniqueId">;
+}
+
+export interface ImportWriteOptions {
+  naturalKey: NaturalKeyField[];
+  duplicateStrategy: DuplicateStrategy;
+  errorMode: ImportErrorMode;
+  // Whether the importing user may overwrite this existing product
+  canUpdate: (product: Product) => boolean;
+}
+
+// Thrown by an all-or-nothing import when a row fails to write; the whole import is rolled back
+export class ImportAbortedError extends Error {
+  rowNumber: number;
+
+  constructor(rowNumber: number, message: string) {
+    super(message);
+    this.name = "ImportAbortedError";
+    this.rowNumber = rowNumber;
+  }
+}
+
+// Thrown when a movement would take more stock from a location and stack than it holds
+export class InsufficientStockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InsufficientStockError";
+  }
+}
+
+// Thrown when deleting a product that other records still point at, such as stock movements
+// or dispatch notes
+export class ProductInUseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductInUseError";
+  }
+}
+
+// Thrown when deleting a user that products, the audit trail or other records still point at
+export class UserInUseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserInUseError";
+  }
+}
+
+const USER_IN_USE_MESSAGE = "This user has submitted products or made changes that are kept in the history. Deactivate the account instead.";
+
+// Columns that keep the ID of the user who created, changed or approved a record
+const USER_REFERENCES: [PgTable, PgColumn][] = [
+  [products, products.submittedBy],
+  [products, products.approvedBy],
+  [productEvents, productEvents.actorId],
+  [productRecalls, productRecalls.createdBy],
+  [stockMovements, stockMovements.createdBy],
+  [dispatchNotes, dispatchNotes.createdBy],
+  [importMappingProfiles, importMappingProfiles.createdBy],
+  [roles, roles.updatedBy],
+  [uniqueIdSettings, uniqueIdSettings.updatedBy],
+  [alertSettings, alertSettings.updatedBy],
+  [passwordPolicySettings, passwordPolicySettings.updatedBy],
+  [twoFactorSettings, twoFactorSettings.updatedBy],
+];
+
+function normalizeKeyValue(value: unknown): string {
+  return value === null || value === undefined ? "" : String(value).trim().toLowerCase();
+}
+
+// Composite natural key of a product, or null when every key field is empty
+function naturalKeyOf(record: Partial<Record<NaturalKeyField, unknown>>, naturalKey: NaturalKeyField[]): string | null {
+  const values = naturalKey.map((field) => normalizeKeyValue(record[field]));
+  return values.every((value) => value === "") ? null : JSON.stringify(values);
+}
+
+export type NewProduct = Omit<InsertProduct, "uniqueId"> & { uniqueId?: string; status?: string };
+
+// Gives up when this many consecutive sequence values are already taken by existing IDs
+const MAX_UNIQUE_ID_ATTEMPTS = 100;
+
+function isUniqueIdViolation(error: unknown): boolean {
+  const { code, constraint } = (error ?? {}) as { code?: string; constraint?: string };
+  return code === "23505" && constraint === "products_unique_id_unique";
+}
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   getAllUsers(): Promise<User[]>;
+  getUsersByIds(ids: string[]): Promise<User[]>;
+  // Active users whose role grants the permission
+  getActiveUsersWithPermission(permission: Permission): Promise<User[]>;
+  getUserWithPermissions(id: string): Promise<AuthenticatedUser | undefined>;
+  updateUser(id: string, updates: Partial<Omit<User, "id" | "createdAt">>): Promise<User | undefined>;
+  // Fails with a foreign key error while products or records still refer to the user
+  deleteUser(id: string): Promise<boolean>;
+  // Newest first; the user's current password is the first entry once it has been changed
+  getPasswordHistory(userId: string, limit: number): Promise<string[]>;
+  // Keeps the latest MAX_PASSWORD_HISTORY hashes per user
+  addPasswordHistory(userId: string, passwordHash: string): Promise<void>;
+
+  // Returns the attempt's id, so an attempt recorded as pending can be finished with its outcome
+  recordLoginAttempt(attempt: InsertLoginAttempt): Promise<string>;
+  setLoginAttemptOutcome(id: string, outcome: LoginOutcome): Promise<void>;
+  // Failed and pending attempts from the address since the given time, not counting throttled ones
+  countLoginFailuresFromIp(ipAddress: string, since: Date): Promise<number>;
+  // Counts a failed sign-in in one statement, so concurrent failures are all counted. The failure
+  // that reaches lockAfter locks the account until lockedUntil and resets the count to 0.
+  recordFailedLogin(userId: string, lockAfter: number, lockedUntil: Date): Promise<{ failedLoginCount: number; lockedUntil: Date | null } | undefined>;
+  // Newest first
+  getLoginAttempts(options: { username?: string; limit: number }): Promise<LoginAttempt[]>;
+
+  getTotp(userId: string): Promise<UserTotp | undefined>;
+  // Starts enrollment with a new secret, replacing one that was never confirmed
+  saveTotpSecret(userId: string, secret: string): Promise<UserTotp>;
+  // Confirms enrollment and stores the first set of recovery codes
+  enableTwoFactor(userId: string, step: number, recoveryCodeHashes: string[]): Promise<void>;
+  disableTwoFactor(userId: string): Promise<void>;
+  // False when this or a later step was already used
+  claimTotpStep(userId: string, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  // Marks an unused recovery code as used; false when there is none with this hash
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: string): Promise<number>;
+
+  createApiToken(token: InsertApiToken): Promise<ApiTokenWithOwner>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiToken(id: string): Promise<ApiTokenWithOwner | undefined>;
+  // All tokens, or only those acting as the given user; newest first
+  getApiTokens(userId?: string): Promise<ApiTokenWithOwner[]>;
+  revokeApiToken(id: string): Promise<boolean>;
+  recordApiTokenUse(id: string, ipAddress: string | null): Promise<void>;
+
+  createNotifications(rows: InsertNotification[]): Promise<void>;
+  // Newest first
+  getNotifications(userId: string, options: { limit: number; unreadOnly?: boolean }): Promise<Notification[]>;
+  countUnreadNotifications(userId: string): Promise<number>;
+  markNotificationRead(id: string, userId: string): Promise<boolean>;
+  markAllNotificationsRead(userId: string): Promise<void>;
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences>;
+  // Preferences of several users at once, for sending a notification
+  getNotificationPreferencesFor(userIds: string[]): Promise<Map<string, NotificationPreferences>>;
+  updateNotificationPreferences(userId: string, preferences: NotificationPreferences): Promise<NotificationPreferences>;
+
+  getWebhooks(): Promise<Webhook[]>;
+  getWebhook(id: string): Promise<Webhook | undefined>;
+  // Active webhooks subscribed to the event
+  getWebhooksForEvent(event: string): Promise<Webhook[]>;
+  createWebhook(webhook: WebhookInput & { secret: string }, userId: string): Promise<Webhook>;
+  updateWebhook(id: string, updates: Partial<WebhookInput & { secret: string }>): Promise<Webhook | undefined>;
+  deleteWebhook(id: string): Promise<boolean>;
+  createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  // Claims pending and retrying deliveries whose next attempt is due, oldest first, by moving their
+  // next attempt to claimUntil in the same statement. Rows another dispatcher is claiming are
+  // skipped, so no delivery is sent twice; one whose sender dies is picked up again at claimUntil.
+  claimDueWebhookDeliveries(now: Date, limit: number, claimUntil: Date): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: string, updates: Partial<Omit<WebhookDelivery, "id" | "webhookId" | "createdAt">>): Promise<WebhookDelivery | undefined>;
+  // Newest first
+  getWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]>;
   
-  createProduct(product: InsertProduct): Promise<Product>;
+  // Roles: the built-in ones from shared/permissions.ts merged with saved rows
+  getRoles(): Promise<RoleDefinition[]>;
+  getRole(name: string): Promise<RoleDefinition | undefined>;
+  saveRole(role: RoleInput, userId: string): Promise<RoleDefinition>;
+  // Removes a custom role, or restores a built-in role to its defaults
+  deleteRole(name: string): Promise<boolean>;
+  countUsersWithRole(name: string): Promise<number>;
+  
+  // Products without a uniqueId get the next one from the configured format
+  createProduct(product: NewProduct, audit?: ProductAuditContext): Promise<Product>;
   getProductById(id: string): Promise<Product | undefined>;
   getProductByUniqueId(uniqueId: string): Promise<Product | undefined>;
-  getProductsByStatus(status: string): Promise<Product[]>;
+  getProductsByIds(ids: string[]): Promise<Product[]>;
   getAllProducts(): Promise<Product[]>;
-  getProductsBySubmitter(submitterId: string): Promise<Product[]>;
-  searchProducts(searchTerm: string, status?: string): Promise<Product[]>;
-  searchProductsBySubmitter(submitterId: string, searchTerm: string): Promise<Product[]>;
-  updateProductStatus(id: string, status: string, approvedBy?: string, rejectionReason?: string): Promise<Product | undefined>;
-  updateProduct(id: string, updates: Partial<Product>): Promise<Product | undefined>;
-  deleteProduct(id: string): Promise<boolean>;
+  // Filtered products in pages of `limit` starting at `offset`, newest submission first unless sorted otherwise
+  findProducts(filters: ProductFilters, page: { limit: number; offset: number; sort?: ProductSort[] }): Promise<Product[]>;
+  countProducts(filters: ProductFilters): Promise<number>;
+  getProductStatusCounts(filters?: ProductFilters): Promise<Record<string, number>>;
+  transitionProductStatus(id: string, fromStatus: string, updates: Partial<Product>, audit: ProductAuditContext): Promise<Product | undefined>;
+  updateProduct(id: string, updates: Partial<Product>, audit?: ProductAuditContext): Promise<Product | undefined>;
+  deleteProduct(id: string, actorId?: string): Promise<boolean>;
+  bulkChangeProducts(changes: BulkProductChange[], audit: ProductAuditContext): Promise<BulkProductChangeResult[]>;
+  findDuplicateProducts(naturalKey: NaturalKeyField[], records: Partial<Record<NaturalKeyField, unknown>>[]): Promise<(Product | undefined)[]>;
+  importProducts(rows: ImportProductRow[], options: ImportWriteOptions, audit: ProductAuditContext): Promise<ImportReportRow[]>;
+  
+  // Product audit trail (append-only)
+  getProductEvents(productId: string): Promise<ProductEventWithActor[]>;
+  
+  // Product recalls
+  createRecall(recall: InsertProductRecall, actorId: string): Promise<{ recall: ProductRecall; products: Product[] }>;
+  getRecalls(): Promise<ProductRecallWithCreator[]>;
+  getRecall(id: string): Promise<ProductRecall | undefined>;
+  getRecallForProduct(product: Product): Promise<ProductRecall | undefined>;
+  
+  // Unique ID format and sequences
+  getUniqueIdFormat(): Promise<UniqueIdFormat & { updatedAt: Date | null }>;
+  updateUniqueIdFormat(format: UniqueIdFormat, userId: string): Promise<UniqueIdSettings>;
+  
+  // Expiry and re-test alerts
+  getAlertSettings(): Promise<AlertSettings & { updatedAt: Date | null }>;
+  updateAlertSettings(settings: AlertSettings, userId: string): Promise<AlertSettingsRow>;
+  getReviewChecklistSettings(): Promise<ReviewChecklistSettings & { updatedAt: Date | null }>;
+  updateReviewChecklistSettings(settings: ReviewChecklistSettings, userId: string): Promise<ReviewChecklistSettingsRow>;
+  getQualityRules(): Promise<QualityRule[]>;
+  createQualityRule(rule: QualityRuleInput, userId: string): Promise<QualityRule>;
+  updateQualityRule(id: string, rule: QualityRuleInput, userId: string): Promise<QualityRule | undefined>;
+  deleteQualityRule(id: string): Promise<boolean>;
+  getPasswordPolicy(): Promise<PasswordPolicy & { updatedAt: Date | null }>;
+  getTwoFactorPolicy(): Promise<TwoFactorPolicy & { updatedAt: Date | null }>;
+  updateTwoFactorPolicy(policy: TwoFactorPolicy, userId: string): Promise<TwoFactorPolicy & { updatedAt: Date | null }>;
+  updatePasswordPolicy(policy: PasswordPolicy, userId: string): Promise<PasswordPolicySettingsRow>;
+  getProductsForAlertScan(): Promise<Pick<Product, "id" | "uniqueId" | "submittedBy" | "expiryDate" | "dateOfTest">[]>;
+  // Returns the alerts that weren't open before
+  replaceProductAlerts(alerts: ProductAlertInput[]): Promise<ProductAlertInput[]>;
+  getProductAlerts(filters?: { submittedBy?: string }): Promise<ProductAlertWithProduct[]>;
+  
+  // Warehouse stock ledger
+  postStockMovement(product: Product, movement: StockMovementRequest, userId: string): Promise<StockMovementWithLines>;
+  getStockBalances(filters: { search?: string; location?: string }): Promise<StockBalance[]>;
+  getStockMovements(productId: string): Promise<StockMovementWithLines[]>;
+  
+  // Dealer directory
+  getDealers(): Promise<Dealer[]>;
+  getDealer(id: string): Promise<Dealer | undefined>;
+  createDealer(dealer: InsertDealer): Promise<Dealer>;
+  updateDealer(id: string, updates: InsertDealer): Promise<Dealer | undefined>;
+  deleteDealer(id: string): Promise<boolean>;
+  // Active dealers the product is assigned to or was dispatched to
+  getProductDealers(product: Product): Promise<PublicDealer[]>;
+  
+  // Dispatch notes
+  createDispatchNote(
+    note: DispatchNoteRequest,
+    dealer: Dealer,
+    items: { product: Product; item: DispatchNoteItemRequest }[],
+    userId: string
+  ): Promise<DispatchNoteWithItems>;
+  getDispatchNotes(): Promise<DispatchNoteSummary[]>;
+  getDispatchNote(id: string): Promise<DispatchNoteWithItems | undefined>;
+  getProductDispatches(productId: string): Promise<ProductDispatch[]>;
+  getRecallDispatches(recall: ProductRecall): Promise<ProductDispatch[]>;
+  
+  // Saved import column mappings
+  getImportMappingProfiles(): Promise<ImportMappingProfile[]>;
+  getImportMappingProfile(id: string): Promise<ImportMappingProfile | undefined>;
+  saveImportMappingProfile(profile: InsertImportMappingProfile, userId: string): Promise<ImportMappingProfile>;
+  deleteImportMappingProfile(id: string): Promise<boolean>;
   
   // Crop and variety management
   getAllCropsWithVarieties(): Promise<(Crop & { varieties: Variety[] })[]>;
@@ -84,14 +509,495 @@ export class DatabaseStorage implements IStorage {
       .orderBy(users.createdAt);
   }
 
-  async createProduct(insertProduct: InsertProduct): Promise<Product> {
-    const [product] = await db
-      .insert(products)
-      .values(insertProduct)
+  async getUsersByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return await db.select().from(users).where(inArray(users.id, ids));
+  }
+
+  async getActiveUsersWithPermission(permission: Permission): Promise<User[]> {
+    const roleNames = (await this.getRoles())
+      .filter((role) => role.permissions.includes(permission))
+      .map((role) => role.name);
+    if (roleNames.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(users)
+      .where(and(eq(users.active, true), inArray(users.role, roleNames)));
+  }
+
+  async getUserWithPermissions(id: string): Promise<AuthenticatedUser | undefined> {
+    const [row] = await db
+      .select({ user: users, role: roles })
+      .from(users)
+      .leftJoin(roles, eq(roles.name, users.role))
+      .where(eq(users.id, id));
+    if (!row) {
+      return undefined;
+    }
+    const role = toRoleDefinition(row.role ?? undefined, BUILT_IN_ROLES.find((builtIn) => builtIn.name === row.user.role));
+    const { requiredRoles } = await this.getTwoFactorPolicy();
+    return {
+      ...row.user,
+      permissions: role?.permissions ?? [],
+      twoFactorRequired: requiredRoles.includes(row.user.role),
+    };
+  }
+
+  async updateUser(id: string, updates: Partial<Omit<User, "id" | "createdAt">>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        for (const [table, column] of USER_REFERENCES) {
+          const [reference] = await tx.select({ id: sql`1` }).from(table).where(eq(column, id)).limit(1);
+          if (reference) {
+            throw new UserInUseError(USER_IN_USE_MESSAGE);
+          }
+        }
+
+        const result = await tx.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+        return result.length > 0;
+      });
+    } catch (error) {
+      // foreign_key_violation: a reference written since the check, or one the list doesn't cover
+      if ((error as { code?: string }).code === "23503") {
+        throw new UserInUseError(USER_IN_USE_MESSAGE);
+      }
+      throw error;
+    }
+  }
+
+  async getPasswordHistory(userId: string, limit: number): Promise<string[]> {
+    if (limit <= 0) {
+      return [];
+    }
+    const rows = await db
+      .select({ passwordHash: passwordHistory.passwordHash })
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt))
+      .limit(limit);
+    return rows.map((row) => row.passwordHash);
+  }
+
+  async addPasswordHistory(userId: string, passwordHash: string): Promise<void> {
+    await db.insert(passwordHistory).values({ userId, passwordHash });
+    const stale = await db
+      .select({ id: passwordHistory.id })
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt))
+      .offset(MAX_PASSWORD_HISTORY);
+    if (stale.length > 0) {
+      await db.delete(passwordHistory).where(inArray(passwordHistory.id, stale.map((row) => row.id)));
+    }
+  }
+
+  async recordLoginAttempt(attempt: InsertLoginAttempt): Promise<string> {
+    const [recorded] = await db.insert(loginAttempts).values(attempt).returning({ id: loginAttempts.id });
+    return recorded.id;
+  }
+
+  async setLoginAttemptOutcome(id: string, outcome: LoginOutcome): Promise<void> {
+    await db.update(loginAttempts).set({ outcome }).where(eq(loginAttempts.id, id));
+  }
+
+  async recordFailedLogin(userId: string, lockAfter: number, lockedUntil: Date): Promise<{ failedLoginCount: number; lockedUntil: Date | null } | undefined> {
+    const reachesLimit = sql`${users.failedLoginCount} + 1 >= ${lockAfter}`;
+    const [user] = await db
+      .update(users)
+      .set({
+        failedLoginCount: sql`CASE WHEN ${reachesLimit} THEN 0 ELSE ${users.failedLoginCount} + 1 END`,
+        lastFailedLoginAt: new Date(),
+        lockedUntil: sql`CASE WHEN ${reachesLimit} THEN ${lockedUntil.toISOString()}::timestamp ELSE ${users.lockedUntil} END`,
+      })
+      .where(eq(users.id, userId))
+      .returning({ failedLoginCount: users.failedLoginCount, lockedUntil: users.lockedUntil });
+    return user || undefined;
+  }
+
+  async countLoginFailuresFromIp(ipAddress: string, since: Date): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(loginAttempts)
+      .where(and(
+        eq(loginAttempts.ipAddress, ipAddress),
+        gte(loginAttempts.createdAt, since),
+        inArray(loginAttempts.outcome, COUNTED_FAILURES),
+      ));
+    return result?.count ?? 0;
+  }
+
+  async getLoginAttempts(options: { username?: string; limit: number }): Promise<LoginAttempt[]> {
+    return await db
+      .select()
+      .from(loginAttempts)
+      .where(options.username ? eq(loginAttempts.username, options.username) : undefined)
+      .orderBy(desc(loginAttempts.createdAt))
+      .limit(options.limit);
+  }
+
+  async getTotp(userId: string): Promise<UserTotp | undefined> {
+    const [totp] = await db.select().from(userTotp).where(eq(userTotp.userId, userId));
+    return totp || undefined;
+  }
+
+  async saveTotpSecret(userId: string, secret: string): Promise<UserTotp> {
+    const [totp] = await db
+      .insert(userTotp)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: userTotp.userId,
+        set: { secret, enabledAt: null, lastUsedStep: null, createdAt: new Date() },
+      })
+      .returning();
+    return totp;
+  }
+
+  async enableTwoFactor(userId: string, step: number, recoveryCodeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.update(userTotp).set({ enabledAt: new Date(), lastUsedStep: step }).where(eq(userTotp.userId, userId));
+      await tx.update(users).set({ twoFactorEnabled: true }).where(eq(users.id, userId));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+
+  async disableTwoFactor(userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(userTotp).where(eq(userTotp.userId, userId));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.update(users).set({ twoFactorEnabled: false }).where(eq(users.id, userId));
+    });
+  }
+
+  async claimTotpStep(userId: string, step: number): Promise<boolean> {
+    const result = await db
+      .update(userTotp)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(userTotp.userId, userId),
+        or(isNull(userTotp.lastUsedStep), lt(userTotp.lastUsedStep, step)),
+      ))
+      .returning({ userId: userTotp.userId });
+    return result.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt),
+      ))
+      .returning({ id: recoveryCodes.id });
+    return result.length > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return result?.count ?? 0;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiTokenWithOwner> {
+    const [created] = await db.insert(apiTokens).values(token).returning({ id: apiTokens.id });
+    return (await this.getApiToken(created.id))!;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  private selectApiTokens() {
+    const { tokenHash: _, ...columns } = getTableColumns(apiTokens);
+    return db
+      .select({ ...columns, username: users.username })
+      .from(apiTokens)
+      .innerJoin(users, eq(users.id, apiTokens.userId));
+  }
+
+  async getApiToken(id: string): Promise<ApiTokenWithOwner | undefined> {
+    const [token] = await this.selectApiTokens().where(eq(apiTokens.id, id));
+    return token || undefined;
+  }
+
+  async getApiTokens(userId?: string): Promise<ApiTokenWithOwner[]> {
+    return await this.selectApiTokens()
+      .where(userId ? eq(apiTokens.userId, userId) : undefined)
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async revokeApiToken(id: string): Promise<boolean> {
+    const result = await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), isNull(apiTokens.revokedAt)))
+      .returning({ id: apiTokens.id });
+    return result.length > 0;
+  }
+
+  async recordApiTokenUse(id: string, ipAddress: string | null): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: new Date(), lastUsedIp: ipAddress }).where(eq(apiTokens.id, id));
+  }
+
+  async createNotifications(rows: InsertNotification[]): Promise<void> {
+    if (rows.length > 0) {
+      await db.insert(notifications).values(rows);
+    }
+  }
+
+  async getNotifications(userId: string, options: { limit: number; unreadOnly?: boolean }): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), options.unreadOnly ? isNull(notifications.readAt) : undefined))
+      .orderBy(desc(notifications.createdAt))
+      .limit(options.limit);
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return row?.count ?? 0;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<boolean> {
+    const result = await db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning({ id: notifications.id });
+    return result.length > 0;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    return (await this.getNotificationPreferencesFor([userId])).get(userId)!;
+  }
+
+  async getNotificationPreferencesFor(userIds: string[]): Promise<Map<string, NotificationPreferences>> {
+    const rows = userIds.length > 0
+      ? await db.select().from(notificationPreferences).where(inArray(notificationPreferences.userId, userIds))
+      : [];
+    const saved = new Map(rows.map((row) => [row.userId, row.preferences]));
+    return new Map(userIds.map((userId) => [userId, withDefaultPreferences(saved.get(userId))]));
+  }
+
+  async updateNotificationPreferences(userId: string, preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    const [row] = await db
+      .insert(notificationPreferences)
+      .values({ userId, preferences })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { preferences, updatedAt: new Date() },
+      })
+      .returning();
+    return withDefaultPreferences(row.preferences);
+  }
+
+  async getWebhooks(): Promise<Webhook[]> {
+    return await db.select().from(webhooks).orderBy(asc(webhooks.createdAt));
+  }
+
+  async getWebhook(id: string): Promise<Webhook | undefined> {
+    const [webhook] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook || undefined;
+  }
+
+  async getWebhooksForEvent(event: string): Promise<Webhook[]> {
+    return await db
+      .select()
+      .from(webhooks)
+      .where(and(eq(webhooks.active, true), sql`${webhooks.events} @> ${JSON.stringify([event])}::jsonb`));
+  }
+
+  async createWebhook(webhook: WebhookInput & { secret: string }, userId: string): Promise<Webhook> {
+    const [created] = await db.insert(webhooks).values({ ...webhook, createdBy: userId }).returning();
+    return created;
+  }
+
+  async updateWebhook(id: string, updates: Partial<WebhookInput & { secret: string }>): Promise<Webhook | undefined> {
+    const [webhook] = await db
+      .update(webhooks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(webhooks.id, id))
+      .returning();
+    return webhook || undefined;
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    const result = await db.delete(webhooks).where(eq(webhooks.id, id)).returning({ id: webhooks.id });
+    return result.length > 0;
+  }
+
+  async createWebhookDeliveries(deliveries: InsertWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) {
+      return [];
+    }
+    return await db.insert(webhookDeliveries).values(deliveries).returning();
+  }
+
+  async claimDueWebhookDeliveries(now: Date, limit: number, claimUntil: Date): Promise<WebhookDelivery[]> {
+    const due = db
+      .select({ id: webhookDeliveries.id })
+      .from(webhookDeliveries)
+      .where(and(
+        inArray(webhookDeliveries.status, ["pending", "retrying"]),
+        lte(webhookDeliveries.nextAttemptAt, now),
+      ))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+    const claimed = await db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: claimUntil })
+      .where(inArray(webhookDeliveries.id, due))
+      .returning();
+    return claimed.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async updateWebhookDelivery(
+    id: string,
+    updates: Partial<Omit<WebhookDelivery, "id" | "webhookId" | "createdAt">>,
+  ): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.update(webhookDeliveries).set(updates).where(eq(webhookDeliveries.id, id)).returning();
+    return delivery || undefined;
+  }
+
+  async getWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async getRoles(): Promise<RoleDefinition[]> {
+    const rows = await db.select().from(roles).orderBy(asc(roles.label));
+    const rowsByName = new Map(rows.map((row) => [row.name, row]));
+    const builtIn = BUILT_IN_ROLES.map((role) => toRoleDefinition(rowsByName.get(role.name), role)!);
+    const custom = rows
+      .filter((row) => !BUILT_IN_ROLES.some((role) => role.name === row.name))
+      .map((row) => toRoleDefinition(row, undefined)!);
+    return [...builtIn, ...custom];
+  }
+
+  async getRole(name: string): Promise<RoleDefinition | undefined> {
+    const [row] = await db.select().from(roles).where(eq(roles.name, name));
+    return toRoleDefinition(row, BUILT_IN_ROLES.find((role) => role.name === name));
+  }
+
+  async saveRole(role: RoleInput, userId: string): Promise<RoleDefinition> {
+    const values = {
+      label: role.label,
+      description: role.description ?? null,
+      permissions: role.permissions,
+      updatedBy: userId,
+    };
+    const [row] = await db
+      .insert(roles)
+      .values({ name: role.name, ...values })
+      .onConflictDoUpdate({
+        target: roles.name,
+        set: { ...values, updatedAt: new Date() },
+      })
       .returning();
+    return toRoleDefinition(row, BUILT_IN_ROLES.find((builtIn) => builtIn.name === row.name))!;
+  }
+
+  async deleteRole(name: string): Promise<boolean> {
+    const result = await db.delete(roles).where(eq(roles.name, name)).returning({ name: roles.name });
+    return result.length > 0;
+  }
+
+  async countUsersWithRole(name: string): Promise<number> {
+    const [row] = await db.select({ value: count() }).from(users).where(eq(users.role, name));
+    return row?.value ?? 0;
+  }
+
+  async createProduct(insertProduct: NewProduct, audit: ProductAuditContext = {}): Promise<Product> {
+    return await db.transaction(async (tx) => await this.insertProductWithEvent(tx, insertProduct, audit));
+  }
+
+  // A generated ID can still collide with one entered by hand in another transaction after the
+  // free-ID check; the insert runs in a savepoint so it can be retried with the next ID.
+  private async insertProductRow(tx: DbTransaction, insertProduct: NewProduct, format?: UniqueIdFormat): Promise<Product> {
+    if (insertProduct.uniqueId) {
+      const [product] = await tx.insert(products).values({ ...insertProduct, uniqueId: insertProduct.uniqueId }).returning();
+      return product;
+    }
+
+    const idFormat = format ?? await this.getUniqueIdFormat();
+    for (let attempt = 1; ; attempt++) {
+      const uniqueId = await this.nextUniqueId(tx, idFormat, { cropName: insertProduct.product });
+      try {
+        return await tx.transaction(async (savepoint) => {
+          const [product] = await savepoint.insert(products).values({ ...insertProduct, uniqueId }).returning();
+          return product;
+        });
+      } catch (error) {
+        if (attempt >= MAX_UNIQUE_ID_ATTEMPTS || !isUniqueIdViolation(error)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private async insertProductWithEvent(
+    tx: DbTransaction,
+    insertProduct: NewProduct,
+    audit: ProductAuditContext,
+    format?: UniqueIdFormat
+  ): Promise<Product> {
+    const product = await this.insertProductRow(tx, insertProduct, format);
+
+    await tx.insert(productEvents).values({
+      productId: product.id,
+      productUniqueId: product.uniqueId,
+      eventType: audit.eventType ?? "created",
+      actorId: audit.actorId ?? product.submittedBy,
+      changes: diffProductFields({}, product),
+      comment: audit.comment ?? null,
+    });
+    await this.openStockLedger(tx, product, audit.actorId ?? product.submittedBy);
+
     return product;
   }
 
+
   async getProductById(id: string): Promise<Product | undefined> {
     const [product] = await db
       .select()
@@ -108,12 +1014,14 @@ export class DatabaseStorage implements IStorage {
     return product || undefined;
   }
 
-  async getProductsByStatus(status: string): Promise<Product[]> {
+  async getProductsByIds(ids: string[]): Promise<Product[]> {
+    if (ids.length === 0) {
+      return [];
+    }
     return await db
       .select()
       .from(products)
-      .where(eq(products.status, status))
-      .orderBy(desc(products.submissionDate));
+      .where(inArray(products.id, ids));
   }
 
   async getAllProducts(): Promise<Product[]> {
@@ -123,121 +1031,1048 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(products.submissionDate));
   }
 
-  async getProductsBySubmitter(submitterId: string): Promise<Product[]> {
+  async findProducts(filters: ProductFilters, page: { limit: number; offset: number; sort?: ProductSort[] }): Promise<Product[]> {
     return await db
       .select()
       .from(products)
-      .where(eq(products.submittedBy, submitterId))
-      .orderBy(desc(products.submissionDate));
+      .where(productFilterCondition(filters))
+      .orderBy(...productOrderBy(page.sort ?? DEFAULT_PRODUCT_SORT))
+      .limit(page.limit)
+      .offset(page.offset);
   }
 
-  async searchProducts(searchTerm: string, status?: string): Promise<Product[]> {
-    const searchPattern = `%${searchTerm}%`;
-    
-    const searchConditions = or(
-      ilike(products.uniqueId, searchPattern),
-      ilike(products.company, searchPattern),
-      ilike(products.brand, searchPattern),
-      ilike(products.product, searchPattern),
-      ilike(products.description, searchPattern),
-      ilike(products.lotBatch, searchPattern),
-      ilike(products.lotNo, searchPattern),
-      ilike(products.mfgDate, searchPattern),
-      ilike(products.expiryDate, searchPattern),
-      ilike(products.customerCare, searchPattern),
-      ilike(products.email, searchPattern),
-      ilike(products.marketedBy, searchPattern)
-    );
-
-    let whereCondition;
-    if (status) {
-      whereCondition = and(searchConditions, eq(products.status, status));
-    } else {
-      whereCondition = searchConditions;
-    }
-
-    return await db
+  async countProducts(filters: ProductFilters): Promise<number> {
+    const [result] = await db
+      .select({ total: count() })
+      .from(products)
+      .where(productFilterCondition(filters));
+    return result.total;
+  }
+
+  async getProductStatusCounts(filters: ProductFilters = {}): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: products.status, total: count() })
+      .from(products)
+      .where(productFilterCondition(filters))
+      .groupBy(products.status);
+    return Object.fromEntries(rows.map((row) => [row.status, row.total]));
+  }
+
+  async transitionProductStatus(
+    id: string,
+    fromStatus: string,
+    updates: Partial<Product>,
+    audit: ProductAuditContext
+  ): Promise<Product | undefined> {
+    return await db.transaction(async (tx) => await this.applyProductUpdate(tx, id, updates, audit, fromStatus));
+  }
+
+  async updateProduct(id: string, updates: Partial<Product>, audit: ProductAuditContext = {}): Promise<Product | undefined> {
+    return await db.transaction(async (tx) => await this.applyProductUpdate(tx, id, updates, audit));
+  }
+
+  private async applyProductUpdate(
+    tx: DbTransaction,
+    id: string,
+    updates: Partial<Product>,
+    audit: ProductAuditContext,
+    fromStatus?: string
+  ): Promise<Product | undefined> {
+    const [existing] = await tx
       .select()
       .from(products)
-      .where(whereCondition)
-      .orderBy(desc(products.submissionDate));
+      .where(eq(products.id, id));
+    if (!existing || (fromStatus !== undefined && existing.status !== fromStatus)) {
+      return undefined;
+    }
+
+    // The remaining quantity is derived from the stock ledger
+    const { remainingQuantity: _remainingQuantity, ...fields } = updates;
+    const [product] = await tx
+      .update(products)
+      .set(fields)
+      .where(
+        fromStatus !== undefined
+          ? and(eq(products.id, id), eq(products.status, fromStatus))
+          : eq(products.id, id)
+      )
+      .returning();
+    if (!product) {
+      return undefined;
+    }
+
+    const changes = diffProductFields(existing, product);
+    const eventType = audit.eventType ?? "updated";
+    // A save that changed nothing is not worth an "updated" entry, but
+    // workflow events (approvals, resubmissions) are always recorded
+    if (changes.length > 0 || eventType !== "updated") {
+      await tx.insert(productEvents).values({
+        productId: product.id,
+        productUniqueId: product.uniqueId,
+        eventType,
+        actorId: audit.actorId ?? null,
+        changes,
+        comment: audit.comment ?? null,
+        checklist: audit.checklist ?? null,
+      });
+    }
+
+    return product;
   }
 
-  async searchProductsBySubmitter(submitterId: string, searchTerm: string): Promise<Product[]> {
-    const searchPattern = `%${searchTerm}%`;
-    
-    return await db
+
+  // Existing products indexed by natural key. Only products whose first key field matches
+  // one of the given records are loaded, the remaining fields are compared in memory.
+  private async loadNaturalKeyIndex(
+    executor: typeof db | DbTransaction,
+    naturalKey: NaturalKeyField[],
+    records: Partial<Record<NaturalKeyField, unknown>>[]
+  ): Promise<Map<string, Product>> {
+    const index = new Map<string, Product>();
+    const keyedRecords = records.filter((record) => naturalKeyOf(record, naturalKey) !== null);
+    if (keyedRecords.length === 0) {
+      return index;
+    }
+
+    const [firstField] = naturalKey;
+    const firstValues = Array.from(new Set(keyedRecords.map((record) => normalizeKeyValue(record[firstField]))));
+    const nonEmpty = firstValues.filter((value) => value !== "");
+    const column = products[firstField];
+    const conditions = [];
+    if (nonEmpty.length > 0) {
+      conditions.push(inArray(sql`lower(trim(${column}))`, nonEmpty));
+    }
+    if (firstValues.includes("")) {
+      conditions.push(or(isNull(column), eq(column, "")));
+    }
+
+    const candidates = await executor
       .select()
       .from(products)
+      .where(or(...conditions))
+      .orderBy(asc(products.submissionDate));
+
+    for (const product of candidates) {
+      const key = naturalKeyOf(product, naturalKey);
+      // Keep the oldest product when the table already holds duplicates
+      if (key && !index.has(key)) {
+        index.set(key, product);
+      }
+    }
+    return index;
+  }
+
+  async findDuplicateProducts(
+    naturalKey: NaturalKeyField[],
+    records: Partial<Record<NaturalKeyField, unknown>>[]
+  ): Promise<(Product | undefined)[]> {
+    const index = await this.loadNaturalKeyIndex(db, naturalKey, records);
+    return records.map((record) => {
+      const key = naturalKeyOf(record, naturalKey);
+      return key ? index.get(key) : undefined;
+    });
+  }
+
+  // Writes all rows in one transaction. Rows matching an existing product on the natural
+  // key are skipped, updated or created anew depending on the duplicate strategy. In
+  // skip_invalid mode each row gets its own savepoint so one failing row does not abort the rest.
+  async importProducts(rows: ImportProductRow[], options: ImportWriteOptions, audit: ProductAuditContext): Promise<ImportReportRow[]> {
+    return await db.transaction(async (tx) => {
+      const index = await this.loadNaturalKeyIndex(tx, options.naturalKey, rows.map((row) => row.data));
+      const format = await this.getUniqueIdFormat();
+      const report: ImportReportRow[] = [];
+
+      const writeRow = async (executor: DbTransaction, row: ImportProductRow): Promise<ImportReportRow> => {
+        const key = naturalKeyOf(row.data, options.naturalKey);
+        const existing = key ? index.get(key) : undefined;
+
+        if (existing && options.duplicateStrategy !== "create") {
+          if (options.duplicateStrategy === "skip") {
+            return { rowNumber: row.rowNumber, outcome: "skipped_duplicate", uniqueId: existing.uniqueId, message: "Matches an existing product" };
+          }
+          if (!options.canUpdate(existing)) {
+            return { rowNumber: row.rowNumber, outcome: "skipped_duplicate", uniqueId: existing.uniqueId, message: "Matches a product you are not allowed to update" };
+          }
+
+          // Imports update the product content only, never its ownership or workflow state
+          const { submittedBy, ...updates } = row.data;
+          const updated = await this.applyProductUpdate(executor, existing.id, updates, { ...audit, eventType: "updated" });
+          if (!updated) {
+            throw new Error("Product was deleted during import");
+          }
+          index.set(key!, updated);
+          return { rowNumber: row.rowNumber, outcome: "updated", uniqueId: updated.uniqueId, message: null };
+        }
+
+        const created = await this.insertProductWithEvent(executor, row.data, audit, format);
+        if (key && !index.has(key)) {
+          index.set(key, created);
+        }
+        return { rowNumber: row.rowNumber, outcome: "created", uniqueId: created.uniqueId, message: null };
+      };
+
+      for (const row of rows) {
+        if (options.errorMode === "skip_invalid") {
+          try {
+            report.push(await tx.transaction(async (savepoint) => await writeRow(savepoint, row)));
+          } catch (error) {
+            report.push({
+              rowNumber: row.rowNumber,
+              outcome: "failed",
+              uniqueId: null,
+              message: error instanceof Error ? error.message : "Unknown error",
+            });
+          }
+        } else {
+          try {
+            report.push(await writeRow(tx, row));
+          } catch (error) {
+            throw new ImportAbortedError(row.rowNumber, error instanceof Error ? error.message : "Unknown error");
+          }
+        }
+      }
+
+      return report;
+    });
+  }
+
+  async deleteProduct(id: string, actorId?: string): Promise<boolean> {
+    return await db.transaction(async (tx) => !!(await this.removeProduct(tx, id, actorId ?? null)));
+  }
+
+  // Applies all changes in one transaction with a savepoint per product, so a product that
+  // fails doesn't undo the others. Products whose status moved on since they were checked
+  // are left alone.
+  async bulkChangeProducts(changes: BulkProductChange[], audit: ProductAuditContext): Promise<BulkProductChangeResult[]> {
+    return await db.transaction(async (tx) => {
+      const results: BulkProductChangeResult[] = [];
+      for (const change of changes) {
+        try {
+          const product = await tx.transaction(async (savepoint) =>
+            change.updates
+              ? await this.applyProductUpdate(
+                savepoint,
+                change.id,
+                change.updates,
+                { ...audit, eventType: change.eventType ?? audit.eventType, comment: change.comment ?? audit.comment, checklist: change.checklist },
+                change.fromStatus,
+              )
+              : await this.removeProduct(savepoint, change.id, audit.actorId ?? null, change.fromStatus));
+          results.push(product
+            ? { product, error: null }
+            : { product: null, error: "The product was changed or deleted by someone else" });
+        } catch (error) {
+          results.push({ product: null, error: error instanceof Error ? error.message : "Unknown error" });
+        }
+      }
+      return results;
+    });
+  }
+
+  // Dispatch notes and the stock ledger have to keep adding up, so products they mention are kept
+  private async assertProductUnused(tx: DbTransaction, id: string) {
+    const [dispatch] = await tx
+      .select({ id: dispatchNoteItems.id })
+      .from(dispatchNoteItems)
+      .where(eq(dispatchNoteItems.productId, id))
+      .limit(1);
+    if (dispatch) {
+      throw new ProductInUseError("The product has been dispatched and can't be deleted");
+    }
+
+    const [movement] = await tx
+      .select({ id: stockMovements.id })
+      .from(stockMovements)
+      .where(eq(stockMovements.productId, id))
+      .limit(1);
+    if (movement) {
+      throw new ProductInUseError("The product has stock movements and can't be deleted");
+    }
+  }
+
+  private async removeProduct(tx: DbTransaction, id: string, actorId: string | null, fromStatus?: string): Promise<Product | undefined> {
+    await this.assertProductUnused(tx, id);
+
+    const [existing] = await tx
+      .delete(products)
       .where(
-        and(
-          eq(products.submittedBy, submitterId),
-          or(
-            ilike(products.uniqueId, searchPattern),
-            ilike(products.company, searchPattern),
-            ilike(products.brand, searchPattern),
-            ilike(products.product, searchPattern),
-            ilike(products.description, searchPattern),
-            ilike(products.lotBatch, searchPattern),
-            ilike(products.lotNo, searchPattern),
-            ilike(products.mfgDate, searchPattern),
-            ilike(products.expiryDate, searchPattern),
-            ilike(products.customerCare, searchPattern),
-            ilike(products.email, searchPattern),
-            ilike(products.marketedBy, searchPattern)
-          )
-        )
+        fromStatus !== undefined
+          ? and(eq(products.id, id), eq(products.status, fromStatus))
+          : eq(products.id, id)
       )
-      .orderBy(desc(products.submissionDate));
+      .returning();
+    if (!existing) {
+      return undefined;
+    }
+
+    // Keep the full last state of the row so the deletion can be audited
+    await tx.insert(productEvents).values({
+      productId: existing.id,
+      productUniqueId: existing.uniqueId,
+      eventType: "deleted",
+      actorId,
+      changes: diffProductFields(existing, {}),
+    });
+
+    return existing;
   }
 
-  async updateProductStatus(
-    id: string, 
-    status: string, 
-    approvedBy?: string, 
-    rejectionReason?: string
-  ): Promise<Product | undefined> {
-    const updates: any = { 
-      status,
-      approvalDate: new Date()
-    };
-    
-    if (approvedBy) {
-      updates.approvedBy = approvedBy;
+  async getProductEvents(productId: string): Promise<ProductEventWithActor[]> {
+    const rows = await db
+      .select({
+        event: productEvents,
+        actorUsername: users.username,
+      })
+      .from(productEvents)
+      .leftJoin(users, eq(productEvents.actorId, users.id))
+      .where(eq(productEvents.productId, productId))
+      .orderBy(asc(productEvents.createdAt));
+
+    return rows.map((row) => ({ ...row.event, actorUsername: row.actorUsername }));
+  }
+
+  // Records a recall and moves every matching approved product to "recalled"
+  async createRecall(recall: InsertProductRecall, actorId: string): Promise<{ recall: ProductRecall; products: Product[] }> {
+    return await db.transaction(async (tx) => {
+      const recalledProducts = await tx
+        .update(products)
+        .set({ status: "recalled" })
+        .where(and(recallTargetCondition(recall), eq(products.status, "approved")))
+        .returning();
+
+      for (const product of recalledProducts) {
+        await tx.insert(productEvents).values({
+          productId: product.id,
+          productUniqueId: product.uniqueId,
+          eventType: "recalled",
+          actorId,
+          changes: [{ field: "status", oldValue: "approved", newValue: "recalled" }],
+          comment: recall.reason,
+        });
+      }
+
+      const [created] = await tx
+        .insert(productRecalls)
+        .values({
+          ...recall,
+          recallDate: recall.recallDate ?? new Date(),
+          affectedCount: recalledProducts.length,
+          createdBy: actorId,
+        })
+        .returning();
+
+      return { recall: created, products: recalledProducts };
+    });
+  }
+
+  async getRecalls(): Promise<ProductRecallWithCreator[]> {
+    const rows = await db
+      .select({
+        recall: productRecalls,
+        createdByUsername: users.username,
+      })
+      .from(productRecalls)
+      .leftJoin(users, eq(productRecalls.createdBy, users.id))
+      .orderBy(desc(productRecalls.recallDate));
+
+    return rows.map((row) => ({ ...row.recall, createdByUsername: row.createdByUsername }));
+  }
+
+  async getRecall(id: string): Promise<ProductRecall | undefined> {
+    const [recall] = await db.select().from(productRecalls).where(eq(productRecalls.id, id));
+    return recall || undefined;
+  }
+
+  // Most recent recall covering a recalled product, whether issued for the product itself or
+  // for its lot, product code or crop/variety. Callers check the product's status first.
+  async getRecallForProduct(product: Product): Promise<ProductRecall | undefined> {
+    const conditions = [and(eq(productRecalls.scope, "product"), eq(productRecalls.productId, product.id))];
+    if (product.lotNo) {
+      conditions.push(and(eq(productRecalls.scope, "lot"), eq(productRecalls.lotNo, product.lotNo)));
     }
-    
-    if (rejectionReason) {
-      updates.rejectionReason = rejectionReason;
+    if (product.prodCode) {
+      conditions.push(and(eq(productRecalls.scope, "prodCode"), eq(productRecalls.prodCode, product.prodCode)));
+    }
+    if (product.product && product.marketCode) {
+      conditions.push(and(
+        eq(productRecalls.scope, "cropVariety"),
+        eq(productRecalls.cropName, product.product),
+        eq(productRecalls.varietyCode, product.marketCode)
+      ));
     }
 
-    const [product] = await db
-      .update(products)
-      .set(updates)
-      .where(eq(products.id, id))
+    const [recall] = await db
+      .select()
+      .from(productRecalls)
+      .where(or(...conditions))
+      .orderBy(desc(productRecalls.recallDate))
+      .limit(1);
+    return recall || undefined;
+  }
+
+  async getUniqueIdFormat(): Promise<UniqueIdFormat & { updatedAt: Date | null }> {
+    const [settings] = await db
+      .select()
+      .from(uniqueIdSettings)
+      .where(eq(uniqueIdSettings.id, "default"));
+    if (!settings) {
+      return { ...DEFAULT_UNIQUE_ID_FORMAT, updatedAt: null };
+    }
+    const { prefix, pattern, sequenceDigits, updatedAt } = settings;
+    return { prefix, pattern, sequenceDigits, updatedAt };
+  }
+
+  async updateUniqueIdFormat(format: UniqueIdFormat, userId: string): Promise<UniqueIdSettings> {
+    const [settings] = await db
+      .insert(uniqueIdSettings)
+      .values({ id: "default", ...format, updatedBy: userId })
+      .onConflictDoUpdate({
+        target: uniqueIdSettings.id,
+        set: { ...format, updatedBy: userId, updatedAt: new Date() },
+      })
       .returning();
-    
-    return product || undefined;
+    return settings;
   }
 
-  async updateProduct(id: string, updates: Partial<Product>): Promise<Product | undefined> {
-    const [product] = await db
+  async getAlertSettings(): Promise<AlertSettings & { updatedAt: Date | null }> {
+    const [settings] = await db
+      .select()
+      .from(alertSettings)
+      .where(eq(alertSettings.id, "default"));
+    if (!settings) {
+      return { ...DEFAULT_ALERT_SETTINGS, updatedAt: null };
+    }
+    const { expiryWarningDays, germinationValidityMonths, retestWarningDays, updatedAt } = settings;
+    return { expiryWarningDays, germinationValidityMonths, retestWarningDays, updatedAt };
+  }
+
+  async updateAlertSettings(settings: AlertSettings, userId: string): Promise<AlertSettingsRow> {
+    const [saved] = await db
+      .insert(alertSettings)
+      .values({ id: "default", ...settings, updatedBy: userId })
+      .onConflictDoUpdate({
+        target: alertSettings.id,
+        set: { ...settings, updatedBy: userId, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getReviewChecklistSettings(): Promise<ReviewChecklistSettings & { updatedAt: Date | null }> {
+    const [settings] = await db
+      .select()
+      .from(reviewChecklistSettings)
+      .where(eq(reviewChecklistSettings.id, "default"));
+    if (!settings) {
+      return { ...DEFAULT_REVIEW_CHECKLIST, updatedAt: null };
+    }
+    const { minGermination, items, updatedAt } = settings;
+    return { minGermination, items, updatedAt };
+  }
+
+  async updateReviewChecklistSettings(settings: ReviewChecklistSettings, userId: string): Promise<ReviewChecklistSettingsRow> {
+    const [saved] = await db
+      .insert(reviewChecklistSettings)
+      .values({ id: "default", ...settings, updatedBy: userId })
+      .onConflictDoUpdate({
+        target: reviewChecklistSettings.id,
+        set: { ...settings, updatedBy: userId, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Rules for all crops first, then by crop, class and name
+  async getQualityRules(): Promise<QualityRule[]> {
+    return await db
+      .select()
+      .from(qualityRules)
+      .orderBy(sql`${qualityRules.cropName} nulls first`, sql`${qualityRules.classType} nulls first`, asc(qualityRules.name));
+  }
+
+  async createQualityRule(rule: QualityRuleInput, userId: string): Promise<QualityRule> {
+    const [created] = await db.insert(qualityRules).values({ ...rule, updatedBy: userId }).returning();
+    return created;
+  }
+
+  async updateQualityRule(id: string, rule: QualityRuleInput, userId: string): Promise<QualityRule | undefined> {
+    const [updated] = await db
+      .update(qualityRules)
+      .set({ ...rule, updatedBy: userId, updatedAt: new Date() })
+      .where(eq(qualityRules.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteQualityRule(id: string): Promise<boolean> {
+    const result = await db.delete(qualityRules).where(eq(qualityRules.id, id)).returning({ id: qualityRules.id });
+    return result.length > 0;
+  }
+
+  async getPasswordPolicy(): Promise<PasswordPolicy & { updatedAt: Date | null }> {
+    const [settings] = await db
+      .select()
+      .from(passwordPolicySettings)
+      .where(eq(passwordPolicySettings.id, "default"));
+    if (!settings) {
+      return { ...DEFAULT_PASSWORD_POLICY, updatedAt: null };
+    }
+    const { id: _id, updatedBy: _updatedBy, ...policy } = settings;
+    return policy;
+  }
+
+  async updatePasswordPolicy(policy: PasswordPolicy, userId: string): Promise<PasswordPolicySettingsRow> {
+    const [saved] = await db
+      .insert(passwordPolicySettings)
+      .values({ id: "default", ...policy, updatedBy: userId })
+      .onConflictDoUpdate({
+        target: passwordPolicySettings.id,
+        set: { ...policy, updatedBy: userId, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getTwoFactorPolicy(): Promise<TwoFactorPolicy & { updatedAt: Date | null }> {
+    const [settings] = await db
+      .select()
+      .from(twoFactorSettings)
+      .where(eq(twoFactorSettings.id, "default"));
+    if (!settings) {
+      return { ...DEFAULT_TWO_FACTOR_POLICY, updatedAt: null };
+    }
+    return { requiredRoles: settings.requiredRoles, updatedAt: settings.updatedAt };
+  }
+
+  async updateTwoFactorPolicy(policy: TwoFactorPolicy, userId: string): Promise<TwoFactorPolicy & { updatedAt: Date | null }> {
+    const [saved] = await db
+      .insert(twoFactorSettings)
+      .values({ id: "default", ...policy, updatedBy: userId })
+      .onConflictDoUpdate({
+        target: twoFactorSettings.id,
+        set: { ...policy, updatedBy: userId, updatedAt: new Date() },
+      })
+      .returning();
+    return { requiredRoles: saved.requiredRoles, updatedAt: saved.updatedAt };
+  }
+
+  async getProductsForAlertScan(): Promise<Pick<Product, "id" | "uniqueId" | "submittedBy" | "expiryDate" | "dateOfTest">[]> {
+    return await db
+      .select({
+        id: products.id,
+        uniqueId: products.uniqueId,
+        submittedBy: products.submittedBy,
+        expiryDate: products.expiryDate,
+        dateOfTest: products.dateOfTest,
+      })
+      .from(products)
+      .where(inArray(products.status, MONITORED_STATUSES));
+  }
+
+  // Makes the open alerts exactly the given set. Alerts that stay open keep their detectedAt.
+  async replaceProductAlerts(alerts: ProductAlertInput[]): Promise<ProductAlertInput[]> {
+    return await db.transaction(async (tx) => {
+      const existing = await tx
+        .select({ id: productAlerts.id, productId: productAlerts.productId, type: productAlerts.type })
+        .from(productAlerts);
+      const wanted = new Set(alerts.map((alert) => `${alert.productId}:${alert.type}`));
+      const open = new Set(existing.map((alert) => `${alert.productId}:${alert.type}`));
+      const resolvedIds = existing
+        .filter((alert) => !wanted.has(`${alert.productId}:${alert.type}`))
+        .map((alert) => alert.id);
+
+      if (resolvedIds.length > 0) {
+        await tx.delete(productAlerts).where(inArray(productAlerts.id, resolvedIds));
+      }
+      for (let i = 0; i < alerts.length; i += 500) {
+        await tx
+          .insert(productAlerts)
+          .values(alerts.slice(i, i + 500))
+          .onConflictDoUpdate({
+            target: [productAlerts.productId, productAlerts.type],
+            set: { dueDate: sql`excluded.due_date` },
+          });
+      }
+      return alerts.filter((alert) => !open.has(`${alert.productId}:${alert.type}`));
+    });
+  }
+
+  async getProductAlerts(filters: { submittedBy?: string } = {}): Promise<ProductAlertWithProduct[]> {
+    const rows = await db
+      .select({
+        alert: productAlerts,
+        product: {
+          id: products.id,
+          uniqueId: products.uniqueId,
+          product: products.product,
+          marketCode: products.marketCode,
+          lotNo: products.lotNo,
+          status: products.status,
+          expiryDate: products.expiryDate,
+          dateOfTest: products.dateOfTest,
+        },
+      })
+      .from(productAlerts)
+      .innerJoin(products, eq(productAlerts.productId, products.id))
+      .where(filters.submittedBy ? eq(products.submittedBy, filters.submittedBy) : undefined)
+      .orderBy(sql`${productAlerts.dueDate} ASC NULLS LAST`, asc(products.uniqueId));
+    return rows.map((row) => ({ ...row.alert, product: row.product }));
+  }
+
+  // Writes a movement and its ledger lines, then re-derives the product's remaining quantity.
+  // The product row is locked for the whole transaction so concurrent movements can't both
+  // draw on the same stock.
+  async postStockMovement(product: Product, movement: StockMovementRequest, userId: string): Promise<StockMovementWithLines> {
+    return await db.transaction(async (tx) => await this.writeStockMovement(tx, product, movement, userId));
+  }
+
+  private async writeStockMovement(
+    tx: DbTransaction,
+    product: Product,
+    movement: StockMovementRequest,
+    userId: string
+  ): Promise<StockMovementWithLines> {
+    await tx.select({ id: products.id }).from(products).where(eq(products.id, product.id)).for("update");
+
+    await this.openStockLedger(tx, product, userId);
+
+    const lines = buildMovementLines(movement);
+    for (const line of lines.filter((candidate) => candidate.quantity < 0)) {
+      const [balance] = await tx
+        .select({ quantity: sql<string>`coalesce(sum(${stockMovementLines.quantity}), 0)` })
+        .from(stockMovementLines)
+        .where(and(
+          eq(stockMovementLines.productId, product.id),
+          eq(stockMovementLines.location, line.location),
+          eq(stockMovementLines.stackNo, line.stackNo),
+        ));
+      if (Number(balance.quantity) < -line.quantity) {
+        const place = line.stackNo ? `${line.location} / stack ${line.stackNo}` : line.location;
+        throw new InsufficientStockError(`Only ${Number(balance.quantity)} available at ${place}`);
+      }
+    }
+
+    const [created] = await tx
+      .insert(stockMovements)
+      .values({
+        productId: product.id,
+        type: movement.type,
+        reference: movement.reference || null,
+        note: movement.note || null,
+        createdBy: userId,
+      })
+      .returning();
+    const createdLines = await tx
+      .insert(stockMovementLines)
+      .values(lines.map((line) => ({
+        movementId: created.id,
+        productId: product.id,
+        location: line.location,
+        stackNo: line.stackNo,
+        quantity: String(line.quantity),
+        packets: String(line.packets),
+      })))
+      .returning();
+
+    await this.syncRemainingQuantity(tx, product.id);
+
+    return {
+      ...created,
+      createdByUsername: null,
+      lines: createdLines.map(({ location, stackNo, quantity, packets }) => ({ location, stackNo, quantity, packets })),
+    };
+  }
+
+  // Products that had a remaining quantity before the ledger existed get it as an opening receipt,
+  // at UNASSIGNED_LOCATION if they have no location. scripts/backfill-opening-stock.ts does this
+  // for every such product at once, so the stock view starts complete.
+  private async openStockLedger(tx: DbTransaction, product: Product, actorId: string | null) {
+    const [existing] = await tx
+      .select({ id: stockMovementLines.id })
+      .from(stockMovementLines)
+      .where(eq(stockMovementLines.productId, product.id))
+      .limit(1);
+    if (existing || !product.remainingQuantity || Number(product.remainingQuantity) <= 0) {
+      return;
+    }
+
+    const [opening] = await tx
+      .insert(stockMovements)
+      .values({ productId: product.id, type: "receipt", note: "Opening balance from the product record", createdBy: actorId })
+      .returning();
+    await tx.insert(stockMovementLines).values({
+      movementId: opening.id,
+      productId: product.id,
+      location: product.location?.trim() || UNASSIGNED_LOCATION,
+      stackNo: product.stackNo ?? "",
+      quantity: product.remainingQuantity,
+      packets: product.totalPkts ?? "0",
+    });
+  }
+
+  private async syncRemainingQuantity(tx: DbTransaction, productId: string) {
+    const [total] = await tx
+      .select({ quantity: sql<string>`coalesce(sum(${stockMovementLines.quantity}), 0)` })
+      .from(stockMovementLines)
+      .where(eq(stockMovementLines.productId, productId));
+    await tx
       .update(products)
-      .set(updates)
-      .where(eq(products.id, id))
+      .set({ remainingQuantity: String(total.quantity) })
+      .where(eq(products.id, productId));
+  }
+
+  async getStockBalances(filters: { search?: string; location?: string }): Promise<StockBalance[]> {
+    const conditions: SQL[] = [];
+    if (filters.search) {
+      const searchPattern = containsPattern(filters.search);
+      conditions.push(or(
+        ilike(products.uniqueId, searchPattern),
+        ilike(products.product, searchPattern),
+        ilike(products.marketCode, searchPattern),
+        ilike(products.lotNo, searchPattern),
+        ilike(stockMovementLines.stackNo, searchPattern),
+      )!);
+    }
+    if (filters.location) {
+      conditions.push(eq(stockMovementLines.location, filters.location));
+    }
+
+    return await db
+      .select({
+        productId: stockMovementLines.productId,
+        uniqueId: products.uniqueId,
+        product: products.product,
+        marketCode: products.marketCode,
+        lotNo: products.lotNo,
+        location: stockMovementLines.location,
+        stackNo: stockMovementLines.stackNo,
+        quantity: sql<string>`sum(${stockMovementLines.quantity})`,
+        packets: sql<string>`sum(${stockMovementLines.packets})`,
+      })
+      .from(stockMovementLines)
+      .innerJoin(products, eq(stockMovementLines.productId, products.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(stockMovementLines.productId, products.id, stockMovementLines.location, stockMovementLines.stackNo)
+      // Locations that have been emptied are not shown
+      .having(sql`sum(${stockMovementLines.quantity}) <> 0 or sum(${stockMovementLines.packets}) <> 0`)
+      .orderBy(asc(stockMovementLines.location), asc(stockMovementLines.stackNo), asc(products.uniqueId));
+  }
+
+  async getStockMovements(productId: string): Promise<StockMovementWithLines[]> {
+    const movements = await db
+      .select({ movement: stockMovements, createdByUsername: users.username })
+      .from(stockMovements)
+      .leftJoin(users, eq(stockMovements.createdBy, users.id))
+      .where(eq(stockMovements.productId, productId))
+      .orderBy(desc(stockMovements.createdAt));
+    if (movements.length === 0) {
+      return [];
+    }
+
+    const lines = await db
+      .select()
+      .from(stockMovementLines)
+      .where(inArray(stockMovementLines.movementId, movements.map((row) => row.movement.id)));
+    return movements.map((row) => ({
+      ...row.movement,
+      createdByUsername: row.createdByUsername,
+      lines: lines
+        .filter((line) => line.movementId === row.movement.id)
+        .map(({ location, stackNo, quantity, packets }) => ({ location, stackNo, quantity, packets })),
+    }));
+  }
+
+  async getDealers(): Promise<Dealer[]> {
+    return await db.select().from(dealers).orderBy(asc(dealers.name));
+  }
+
+  async getDealer(id: string): Promise<Dealer | undefined> {
+    const [dealer] = await db.select().from(dealers).where(eq(dealers.id, id));
+    return dealer || undefined;
+  }
+
+  async createDealer(dealer: InsertDealer): Promise<Dealer> {
+    const [created] = await db.insert(dealers).values(dealer).returning();
+    return created;
+  }
+
+  async updateDealer(id: string, updates: InsertDealer): Promise<Dealer | undefined> {
+    const [dealer] = await db
+      .update(dealers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(dealers.id, id))
       .returning();
-    
-    return product || undefined;
+    return dealer || undefined;
   }
 
-  async deleteProduct(id: string): Promise<boolean> {
-    const result = await db
-      .delete(products)
-      .where(eq(products.id, id));
-    
-    return (result.rowCount ?? 0) > 0;
+  // Products and dispatch notes keep their history; their dealer link is cleared
+  async deleteDealer(id: string): Promise<boolean> {
+    const result = await db.delete(dealers).where(eq(dealers.id, id)).returning({ id: dealers.id });
+    return result.length > 0;
+  }
+
+  async getProductDealers(product: Product): Promise<PublicDealer[]> {
+    const dispatchedTo = db
+      .select({ dealerId: dispatchNotes.dealerId })
+      .from(dispatchNoteItems)
+      .innerJoin(dispatchNotes, eq(dispatchNoteItems.dispatchNoteId, dispatchNotes.id))
+      .where(eq(dispatchNoteItems.productId, product.id));
+    return await db
+      .select({ name: dealers.name, region: dealers.region, phone: dealers.phone })
+      .from(dealers)
+      .where(and(
+        eq(dealers.active, true),
+        product.dealerId
+          ? or(eq(dealers.id, product.dealerId), inArray(dealers.id, dispatchedTo))
+          : inArray(dealers.id, dispatchedTo),
+      ))
+      .orderBy(asc(dealers.name));
+  }
+
+  // Numbers the note, then posts each line as a dispatch movement referencing it. The whole note
+  // is rolled back if any lot doesn't have enough stock at its source location.
+  async createDispatchNote(
+    note: DispatchNoteRequest,
+    dealer: Dealer,
+    items: { product: Product; item: DispatchNoteItemRequest }[],
+    userId: string
+  ): Promise<DispatchNoteWithItems> {
+    const created = await db.transaction(async (tx) => {
+      // Lock every lot up front, in a fixed order, so two notes sharing lots can't deadlock
+      const productIds = Array.from(new Set(items.map(({ product }) => product.id))).sort();
+      await tx.select({ id: products.id }).from(products).where(inArray(products.id, productIds)).orderBy(asc(products.id)).for("update");
+
+      const [sequence] = await tx
+        .insert(uniqueIdSequences)
+        .values({ scope: `dispatch-note:${note.dispatchDate.slice(0, 4)}`, value: 1 })
+        .onConflictDoUpdate({
+          target: uniqueIdSequences.scope,
+          set: { value: sql`${uniqueIdSequences.value} + 1`, updatedAt: new Date() },
+        })
+        .returning({ value: uniqueIdSequences.value });
+
+      const [dispatchNote] = await tx
+        .insert(dispatchNotes)
+        .values({
+          noteNumber: formatDispatchNoteNumber(note.dispatchDate, sequence.value),
+          dealerId: dealer.id,
+          dealerName: dealer.name,
+          dealerAddress: dealer.address,
+          vehicleNo: note.vehicleNo,
+          driverName: note.driverName || null,
+          dispatchDate: note.dispatchDate,
+          remarks: note.remarks || null,
+          createdBy: userId,
+        })
+        .returning();
+
+      for (const { product, item } of items) {
+        let movement: StockMovementWithLines;
+        try {
+          movement = await this.writeStockMovement(tx, product, {
+            productUniqueId: product.uniqueId,
+            type: "dispatch",
+            quantity: item.quantity,
+            packets: item.packets,
+            newPackets: undefined,
+            fromLocation: item.fromLocation,
+            fromStack: item.fromStack,
+            toLocation: "",
+            toStack: "",
+            reference: dispatchNote.noteNumber,
+            note: `Dispatched to ${dealer.name}`,
+          }, userId);
+        } catch (error) {
+          if (error instanceof InsufficientStockError) {
+            throw new InsufficientStockError(`${product.uniqueId}: ${error.message}`);
+          }
+          throw error;
+        }
+
+        await tx.insert(dispatchNoteItems).values({
+          dispatchNoteId: dispatchNote.id,
+          productId: product.id,
+          stockMovementId: movement.id,
+          fromLocation: item.fromLocation,
+          fromStack: item.fromStack,
+          quantity: String(item.quantity),
+          packets: String(item.packets ?? 0),
+        });
+      }
+
+      return dispatchNote;
+    });
+
+    return (await this.getDispatchNote(created.id))!;
+  }
+
+  async getDispatchNotes(): Promise<DispatchNoteSummary[]> {
+    const rows = await db
+      .select({
+        note: dispatchNotes,
+        createdByUsername: users.username,
+        itemCount: sql<number>`count(${dispatchNoteItems.id})::int`,
+        totalQuantity: sql<string>`coalesce(sum(${dispatchNoteItems.quantity}), 0)`,
+      })
+      .from(dispatchNotes)
+      .leftJoin(users, eq(dispatchNotes.createdBy, users.id))
+      .leftJoin(dispatchNoteItems, eq(dispatchNoteItems.dispatchNoteId, dispatchNotes.id))
+      .groupBy(dispatchNotes.id, users.username)
+      .orderBy(desc(dispatchNotes.dispatchDate), desc(dispatchNotes.createdAt));
+
+    return rows.map(({ note, ...summary }) => ({ ...note, ...summary }));
+  }
+
+  async getDispatchNote(id: string): Promise<DispatchNoteWithItems | undefined> {
+    const [row] = await db
+      .select({ note: dispatchNotes, createdByUsername: users.username })
+      .from(dispatchNotes)
+      .leftJoin(users, eq(dispatchNotes.createdBy, users.id))
+      .where(eq(dispatchNotes.id, id));
+    if (!row) {
+      return undefined;
+    }
+
+    const items = await db
+      .select({
+        item: dispatchNoteItems,
+        product: {
+          uniqueId: products.uniqueId,
+          product: products.product,
+          marketCode: products.marketCode,
+          lotNo: products.lotNo,
+          classType: products.classType,
+          netQty: products.netQty,
+          company: products.company,
+          companyAddress: products.companyAddress,
+        },
+      })
+      .from(dispatchNoteItems)
+      .innerJoin(products, eq(dispatchNoteItems.productId, products.id))
+      .where(eq(dispatchNoteItems.dispatchNoteId, id))
+      .orderBy(asc(products.uniqueId), asc(dispatchNoteItems.fromLocation), asc(dispatchNoteItems.fromStack));
+
+    return {
+      ...row.note,
+      createdByUsername: row.createdByUsername,
+      items: items.map(({ item, product }) => ({ ...item, product })),
+    };
+  }
+
+  private async findDispatches(condition: SQL | undefined): Promise<ProductDispatch[]> {
+    return await db
+      .select({
+        dispatchNoteId: dispatchNotes.id,
+        noteNumber: dispatchNotes.noteNumber,
+        dealerId: dispatchNotes.dealerId,
+        dealerName: dispatchNotes.dealerName,
+        dealerAddress: dispatchNotes.dealerAddress,
+        dispatchDate: dispatchNotes.dispatchDate,
+        vehicleNo: dispatchNotes.vehicleNo,
+        productId: dispatchNoteItems.productId,
+        uniqueId: products.uniqueId,
+        lotNo: products.lotNo,
+        fromLocation: dispatchNoteItems.fromLocation,
+        fromStack: dispatchNoteItems.fromStack,
+        quantity: dispatchNoteItems.quantity,
+        packets: dispatchNoteItems.packets,
+      })
+      .from(dispatchNoteItems)
+      .innerJoin(dispatchNotes, eq(dispatchNoteItems.dispatchNoteId, dispatchNotes.id))
+      .innerJoin(products, eq(dispatchNoteItems.productId, products.id))
+      .where(condition)
+      .orderBy(desc(dispatchNotes.dispatchDate), asc(dispatchNotes.dealerName), asc(products.uniqueId));
+  }
+
+  async getProductDispatches(productId: string): Promise<ProductDispatch[]> {
+    return await this.findDispatches(eq(dispatchNoteItems.productId, productId));
+  }
+
+  // Every dispatch of a lot the recall covers, i.e. the dealers that need to be told
+  async getRecallDispatches(recall: ProductRecall): Promise<ProductDispatch[]> {
+    return await this.findDispatches(recallTargetCondition(recall));
+  }
+
+  // Increments the counter of the scope's prefix, year and crop with an upsert, which row-locks
+  // the counter until the surrounding transaction ends, so concurrent writers never get the same
+  // value. A new counter starts after the highest ID already issued in the rendered scope, and
+  // values already used by an existing product (legacy or hand-entered IDs) are skipped.
+  private async nextUniqueId(tx: DbTransaction, format: UniqueIdFormat, context: { cropName?: string | null }): Promise<string> {
+    const scope = renderUniqueIdScope(format, context);
+    const counterKey = uniqueIdCounterKey(format, context);
+
+    const [counter] = await tx
+      .select({ value: uniqueIdSequences.value })
+      .from(uniqueIdSequences)
+      .where(eq(uniqueIdSequences.scope, counterKey))
+      .for("update");
+    let firstValue = 1;
+    if (!counter) {
+      const regex = uniqueIdScopeRegex(scope, format);
+      const [issued] = await tx
+        .select({ max: sql<string | null>`max((regexp_match(${products.uniqueId}, ${regex}))[1]::bigint)` })
+        .from(products)
+        .where(sql`${products.uniqueId} ~ ${regex}`);
+      firstValue = Number(issued?.max ?? 0) + 1;
+    }
+
+    for (let attempt = 0; attempt < MAX_UNIQUE_ID_ATTEMPTS; attempt++) {
+      const [sequence] = await tx
+        .insert(uniqueIdSequences)
+        .values({ scope: counterKey, value: firstValue })
+        .onConflictDoUpdate({
+          target: uniqueIdSequences.scope,
+          set: { value: sql`${uniqueIdSequences.value} + 1`, updatedAt: new Date() },
+        })
+        .returning({ value: uniqueIdSequences.value });
+
+      const uniqueId = renderUniqueId(scope, format, sequence.value);
+      const [taken] = await tx
+        .select({ id: products.id })
+        .from(products)
+        .where(eq(products.uniqueId, uniqueId));
+      if (!taken) {
+        return uniqueId;
+      }
+    }
+
+    throw new Error(`Could not find a free unique ID for ${scope}`);
   }
 
   // Crop and variety management implementations
+  async getImportMappingProfiles(): Promise<ImportMappingProfile[]> {
+    return await db
+      .select()
+      .from(importMappingProfiles)
+      .orderBy(asc(importMappingProfiles.name));
+  }
+
+  async getImportMappingProfile(id: string): Promise<ImportMappingProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(importMappingProfiles)
+      .where(eq(importMappingProfiles.id, id));
+    return profile || undefined;
+  }
+
+  // Saving under an existing name replaces that profile's mapping
+  async saveImportMappingProfile(profile: InsertImportMappingProfile, userId: string): Promise<ImportMappingProfile> {
+    const [saved] = await db
+      .insert(importMappingProfiles)
+      .values({ ...profile, createdBy: userId })
+      .onConflictDoUpdate({
+        target: importMappingProfiles.name,
+        set: { mapping: profile.mapping, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteImportMappingProfile(id: string): Promise<boolean> {
+    const result = await db.delete(importMappingProfiles).where(eq(importMappingProfiles.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   async getAllCropsWithVarieties(): Promise<(Crop & { varieties: Variety[] })[]> {
     const result = await db
       .select({
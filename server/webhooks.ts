@@ -0,0 +1,216 @@
+// Queues and delivers webhook events. Each event is stored as a delivery per subscribed webhook
+// and sent from the background; failures are retried with growing delays until MAX_ATTEMPTS.
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { storage } from "./storage";
+import type { Product, ProductRecall, Webhook, WebhookDelivery } from "@shared/schema";
+import type { ImportResult } from "@shared/import";
+import type { WorkflowAction } from "@shared/workflow";
+import {
+  WEBHOOK_HEADERS,
+  WEBHOOK_TEST_EVENT,
+  type WebhookEvent,
+  type WebhookPayload,
+} from "@shared/webhooks";
+
+// Delays before the 2nd, 3rd, ... attempt; the last one is retried at the final delay
+const RETRY_DELAYS_MS = [30 * 1000, 2 * 60 * 1000, 10 * 60 * 1000, 60 * 60 * 1000, 6 * 60 * 60 * 1000];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Catches retries that came due; new events are sent straight away
+const DISPATCH_INTERVAL_MS = 15 * 1000;
+const DISPATCH_BATCH_SIZE = 20;
+// How long a claimed batch is held before another dispatcher may take over its unsent deliveries;
+// longer than the batch can take to send
+const CLAIM_MS = DISPATCH_BATCH_SIZE * REQUEST_TIMEOUT_MS + 60 * 1000;
+// Kept from the receiver's response for the delivery log
+const MAX_RESPONSE_EXCERPT = 300;
+
+const ACTION_EVENTS: Partial<Record<WorkflowAction, WebhookEvent>> = {
+  submit: "product.submitted",
+  resubmit: "product.submitted",
+  approve: "product.approved",
+  request_changes: "product.changes_requested",
+  reject: "product.rejected",
+  revoke: "product.revoked",
+};
+
+export function generateWebhookSecret() {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: string, body: string) {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+function retryDelay(attempts: number) {
+  return RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1];
+}
+
+// Makes one attempt and records its outcome. Test deliveries are not retried. Returns
+// undefined when the webhook was deleted meanwhile.
+async function attemptDelivery(delivery: WebhookDelivery, webhook: Webhook | undefined): Promise<WebhookDelivery | undefined> {
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  if (!webhook?.active) {
+    return await storage.updateWebhookDelivery(delivery.id, {
+      status: "failed",
+      nextAttemptAt: null,
+      lastError: "The webhook was switched off",
+    });
+  }
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(now.getTime() / 1000));
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "NathSeeds-Webhooks/1.0",
+        [WEBHOOK_HEADERS.event]: delivery.event,
+        [WEBHOOK_HEADERS.delivery]: delivery.id,
+        [WEBHOOK_HEADERS.timestamp]: timestamp,
+        [WEBHOOK_HEADERS.signature]: signWebhookPayload(webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      error = `HTTP ${response.status}${text ? `: ${text.slice(0, MAX_RESPONSE_EXCERPT)}` : ""}`;
+    }
+  } catch (requestError) {
+    error = requestError instanceof Error ? requestError.message : String(requestError);
+  }
+
+  if (!error) {
+    return await storage.updateWebhookDelivery(delivery.id, {
+      status: "succeeded",
+      attempts,
+      lastAttemptAt: now,
+      nextAttemptAt: null,
+      responseStatus,
+      lastError: null,
+      deliveredAt: now,
+    });
+  }
+
+  const maxAttempts = delivery.event === WEBHOOK_TEST_EVENT ? 1 : MAX_ATTEMPTS;
+  const giveUp = attempts >= maxAttempts;
+  return await storage.updateWebhookDelivery(delivery.id, {
+    status: giveUp ? "failed" : "retrying",
+    attempts,
+    lastAttemptAt: now,
+    nextAttemptAt: giveUp ? null : new Date(now.getTime() + retryDelay(attempts)),
+    responseStatus,
+    lastError: error,
+  });
+}
+
+let runningDispatch: Promise<unknown> | null = null;
+let dispatchAgain = false;
+
+// Returns how many deliveries were attempted
+async function dispatchDueDeliveries(): Promise<number> {
+  // Claimed rather than just read, so several server instances never send the same delivery
+  const now = new Date();
+  const due = await storage.claimDueWebhookDeliveries(now, DISPATCH_BATCH_SIZE, new Date(now.getTime() + CLAIM_MS));
+  const webhooksById = new Map<string, Webhook | undefined>();
+  for (const delivery of due) {
+    if (!webhooksById.has(delivery.webhookId)) {
+      webhooksById.set(delivery.webhookId, await storage.getWebhook(delivery.webhookId));
+    }
+    await attemptDelivery(delivery, webhooksById.get(delivery.webhookId));
+  }
+  // A full batch may mean more are waiting
+  if (due.length === DISPATCH_BATCH_SIZE) {
+    dispatchAgain = true;
+  }
+  return due.length;
+}
+
+// Sends the deliveries that are due. Runs one at a time; a request made while running
+// starts another pass afterwards so newly queued events aren't left for the interval.
+function runWebhookDispatch() {
+  if (runningDispatch) {
+    dispatchAgain = true;
+    return;
+  }
+  dispatchAgain = false;
+  runningDispatch = dispatchDueDeliveries()
+    .catch((error) => console.error("Webhook dispatch error:", error))
+    .finally(() => {
+      runningDispatch = null;
+      if (dispatchAgain) {
+        runWebhookDispatch();
+      }
+    });
+}
+
+// One batch of due deliveries, for deployments without the dispatcher's interval, e.g. a
+// Vercel cron. Deliveries are claimed, so this can overlap with a pass already running.
+export async function dispatchWebhookBatch(): Promise<{ attempted: number }> {
+  return { attempted: await dispatchDueDeliveries() };
+}
+
+export function startWebhookDispatcher() {
+  runWebhookDispatch();
+  // Don't keep the process alive just for the dispatcher
+  setInterval(runWebhookDispatch, DISPATCH_INTERVAL_MS).unref();
+}
+
+function buildDelivery(webhookId: string, event: WebhookPayload["event"], data: unknown, createdAt: Date) {
+  // The ID is chosen here so the payload can carry it
+  const id = randomUUID();
+  const payload: WebhookPayload = { id, event, createdAt: createdAt.toISOString(), data };
+  return { id, webhookId, event, payload, nextAttemptAt: createdAt, createdAt };
+}
+
+async function queueEvent(event: WebhookEvent, dataItems: unknown[]) {
+  const subscribed = await storage.getWebhooksForEvent(event);
+  if (subscribed.length === 0 || dataItems.length === 0) {
+    return;
+  }
+  const createdAt = new Date();
+  await storage.createWebhookDeliveries(
+    subscribed.flatMap((webhook) => dataItems.map((data) => buildDelivery(webhook.id, event, data, createdAt))),
+  );
+  runWebhookDispatch();
+}
+
+// Queues an event for every webhook subscribed to it, one delivery per data item. Never
+// throws: a webhook problem must not fail the change that caused the event.
+export function emitWebhookEvent(event: WebhookEvent, ...dataItems: unknown[]) {
+  queueEvent(event, dataItems).catch((error) => console.error(`Webhook event ${event} error:`, error));
+}
+
+export function emitWorkflowEvent(action: WorkflowAction, product: Product, actorId: string, comment: string | null) {
+  const event = ACTION_EVENTS[action];
+  if (event) {
+    emitWebhookEvent(event, { product, actorId, comment });
+  }
+}
+
+export function emitRecallEvents(recall: ProductRecall, products: Product[], actorId: string) {
+  emitWebhookEvent("product.recalled", ...products.map((product) => ({ product, recall, actorId })));
+}
+
+export function emitImportCompleted(result: ImportResult, actorId: string) {
+  const { rows: _, ...summary } = result;
+  emitWebhookEvent("import.completed", { ...summary, actorId });
+}
+
+// Sends a webhook.test event right away, whatever the webhook subscribes to
+export async function sendWebhookTestEvent(webhook: Webhook): Promise<WebhookDelivery | undefined> {
+  const data = { webhook: { id: webhook.id, name: webhook.name }, message: "This is a test event" };
+  // Not due, so the dispatcher leaves it to this attempt
+  const [delivery] = await storage.createWebhookDeliveries([
+    { ...buildDelivery(webhook.id, WEBHOOK_TEST_EVENT, data, new Date()), nextAttemptAt: null },
+  ]);
+  return await attemptDelivery(delivery, webhook);
+}
@@ -0,0 +1,211 @@
+import type { AuthenticatedUser, Product, ProductEventType, QualityRule } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import {
+  WORKFLOW_TRANSITIONS,
+  STATUS_LABELS,
+  ACTION_LABELS,
+  type ProductStatus,
+  type ProductWithActions,
+  type WorkflowAction,
+  type WorkflowTransition,
+} from "@shared/workflow";
+import {
+  CHECKLIST_ACTIONS,
+  checklistResults,
+  evaluateChecklist,
+  type ChecklistAnswer,
+  type ChecklistResult,
+  type ReviewChecklistSettings,
+} from "@shared/review";
+import {
+  QUALITY_CHECKED_ACTIONS,
+  blockingFindings,
+  evaluateQualityRules,
+  qualityErrorMessage,
+} from "@shared/quality-rules";
+import { storage } from "./storage";
+import { emitRecallEvents, emitWorkflowEvent } from "./webhooks";
+import { notifyWorkflowAction } from "./notifications";
+
+type WorkflowUser = Pick<AuthenticatedUser, "id" | "permissions">;
+
+// Raised when a requested transition is not allowed; carries the HTTP status to respond with
+export class WorkflowError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "WorkflowError";
+    this.status = status;
+  }
+}
+
+const ACTION_EVENT_TYPES: Record<WorkflowAction, ProductEventType> = {
+  submit: "submitted",
+  resubmit: "resubmitted",
+  request_changes: "changes_requested",
+  approve: "approved",
+  reject: "rejected",
+  revoke: "revoked",
+  recall: "recalled",
+};
+
+function canPerform(transition: WorkflowTransition, product: Product, user: WorkflowUser): boolean {
+  if (hasPermission(user, transition.permission)) {
+    return true;
+  }
+  return transition.allowSubmitter && product.submittedBy === user.id;
+}
+
+export function getAllowedActions(product: Product, user: WorkflowUser): WorkflowAction[] {
+  return WORKFLOW_TRANSITIONS
+    .filter((transition) => transition.from.includes(product.status as ProductStatus))
+    .filter((transition) => canPerform(transition, product, user))
+    .map((transition) => transition.action);
+}
+
+export function withAllowedActions(product: Product, user: WorkflowUser): ProductWithActions {
+  return { ...product, allowedActions: getAllowedActions(product, user) };
+}
+
+export interface PlannedTransition {
+  from: ProductStatus;
+  updates: Partial<Product>;
+  eventType: ProductEventType;
+  comment: string | null;
+}
+
+// Validates a transition for the given user and works out the column updates it implies
+export function planTransition(
+  product: Product,
+  action: WorkflowAction,
+  user: WorkflowUser,
+  comment?: string | null,
+): PlannedTransition {
+  const transition = WORKFLOW_TRANSITIONS.find((t) => t.action === action);
+  if (!transition) {
+    throw new WorkflowError("Invalid action");
+  }
+
+  if (!canPerform(transition, product, user)) {
+    throw new WorkflowError("You are not allowed to perform this action", 403);
+  }
+
+  const from = product.status as ProductStatus;
+  if (!transition.from.includes(from)) {
+    const statusLabel = STATUS_LABELS[from] ?? product.status;
+    throw new WorkflowError(`Cannot ${ACTION_LABELS[action].toLowerCase()} a product that is ${statusLabel.toLowerCase()}`, 409);
+  }
+
+  const trimmedComment = comment?.trim() || null;
+  if (transition.requiresComment && !trimmedComment) {
+    throw new WorkflowError("A comment is required for this action");
+  }
+
+  const updates: Partial<Product> = { status: transition.to };
+  switch (transition.to) {
+    case "pending":
+      updates.rejectionReason = null;
+      if (action === "submit") {
+        updates.submissionDate = new Date();
+      }
+      break;
+    case "approved":
+      updates.approvalDate = new Date();
+      updates.approvedBy = user.id;
+      updates.rejectionReason = null;
+      break;
+    case "changes_requested":
+    case "rejected":
+      updates.approvalDate = new Date();
+      updates.approvedBy = user.id;
+      updates.rejectionReason = trimmedComment;
+      break;
+  }
+
+  return { from, updates, eventType: ACTION_EVENT_TYPES[action], comment: trimmedComment };
+}
+
+// The QC checklist recorded with a review decision. Approving needs every required item
+// ticked; returns and rejections only record the checklist when the reviewer filled it in.
+export function recordChecklist(
+  product: Product,
+  action: WorkflowAction,
+  settings: ReviewChecklistSettings,
+  answers?: ChecklistAnswer[],
+): ChecklistResult[] | null {
+  if (!CHECKLIST_ACTIONS.includes(action) || (action !== "approve" && !answers)) {
+    return null;
+  }
+  const evaluations = evaluateChecklist(product, settings);
+  if (evaluations.length === 0) {
+    return null;
+  }
+  const { results, missingRequired } = checklistResults(evaluations, answers ?? []);
+  if (action === "approve" && missingRequired.length > 0) {
+    throw new WorkflowError(`Tick every required checklist item before approving: ${missingRequired.join(", ")}`);
+  }
+  return results;
+}
+
+// Products can only be submitted, resubmitted or approved while they pass every blocking
+// quality rule; warnings are left to the reviewer
+export function checkQualityRules(product: Product, action: WorkflowAction, rules: QualityRule[]): void {
+  if (!QUALITY_CHECKED_ACTIONS.includes(action)) {
+    return;
+  }
+  const errors = blockingFindings(evaluateQualityRules(product, rules));
+  if (errors.length > 0) {
+    throw new WorkflowError(qualityErrorMessage(errors));
+  }
+}
+
+// Loads the product, validates the transition and applies it atomically
+export async function performTransition(
+  productId: string,
+  action: WorkflowAction,
+  user: WorkflowUser,
+  comment?: string | null,
+  checklist?: ChecklistAnswer[],
+): Promise<ProductWithActions> {
+  const product = await storage.getProductById(productId);
+  if (!product) {
+    throw new WorkflowError("Product not found", 404);
+  }
+
+  const plan = planTransition(product, action, user, comment);
+  if (QUALITY_CHECKED_ACTIONS.includes(action)) {
+    checkQualityRules(product, action, await storage.getQualityRules());
+  }
+  const recordedChecklist = CHECKLIST_ACTIONS.includes(action)
+    ? recordChecklist(product, action, await storage.getReviewChecklistSettings(), checklist)
+    : null;
+
+  // Recalls keep their own record so the public tracking page can show the reason
+  if (action === "recall") {
+    const { recall, products } = await storage.createRecall(
+      { scope: "product", productId: product.id, reason: plan.comment! },
+      user.id,
+    );
+    if (products.length === 0) {
+      throw new WorkflowError("The product was changed by someone else, please reload and try again", 409);
+    }
+    emitRecallEvents(recall, products, user.id);
+    return withAllowedActions(products[0], user);
+  }
+
+  const updated = await storage.transitionProductStatus(product.id, plan.from, plan.updates, {
+    actorId: user.id,
+    eventType: plan.eventType,
+    comment: plan.comment ?? undefined,
+    checklist: recordedChecklist,
+  });
+
+  if (!updated) {
+    throw new WorkflowError("The product was changed by someone else, please reload and try again", 409);
+  }
+
+  emitWorkflowEvent(action, updated, user.id, plan.comment);
+  notifyWorkflowAction(action, updated, user.id, plan.comment);
+  return withAllowedActions(updated, user);
+}
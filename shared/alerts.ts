@@ -0,0 +1,94 @@
+// Expiry and germination-test validity monitoring over the products' "YYYY-MM-DD" dates
+import { z } from "zod";
+import { addDays, addMonths, todayIsoDate } from "./dates";
+import type { ProductStatus } from "./workflow";
+
+export const ALERT_TYPES = [
+  "expired",
+  "expiring",
+  "retest_overdue",
+  "retest_due",
+] as const;
+
+export type AlertType = typeof ALERT_TYPES[number];
+
+export type AlertSeverity = "critical" | "warning";
+
+export const ALERT_TYPE_LABELS: Record<AlertType, string> = {
+  expired: "Expired",
+  expiring: "Expiring soon",
+  retest_overdue: "Germination test expired",
+  retest_due: "Re-test due soon",
+};
+
+export const ALERT_SEVERITIES: Record<AlertType, AlertSeverity> = {
+  expired: "critical",
+  expiring: "warning",
+  retest_overdue: "critical",
+  retest_due: "warning",
+};
+
+// Lots that are on the market or on their way there; rejected, revoked and recalled lots are not monitored
+export const MONITORED_STATUSES: ProductStatus[] = ["pending", "changes_requested", "approved"];
+
+export interface AlertSettings {
+  // Warn this many days before the Valid Upto date
+  expiryWarningDays: number;
+  // Validity of a germination test from its Date of Test (Seeds Rules: nine months)
+  germinationValidityMonths: number;
+  // Warn this many days before the germination test stops being valid
+  retestWarningDays: number;
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  expiryWarningDays: 30,
+  germinationValidityMonths: 9,
+  retestWarningDays: 30,
+};
+
+export const alertSettingsSchema = z.object({
+  expiryWarningDays: z.coerce.number().int().min(0).max(365),
+  germinationValidityMonths: z.coerce.number().int().min(1).max(36),
+  retestWarningDays: z.coerce.number().int().min(0).max(180),
+});
+
+export interface ProductAlertFinding {
+  type: AlertType;
+  // Date the condition starts or started to apply
+  dueDate: string;
+}
+
+// A lot may still be sold on its Valid Upto date
+export function isLotExpired(expiryDate: string | null | undefined, today: string = todayIsoDate()): boolean {
+  return !!expiryDate && expiryDate < today;
+}
+
+export function evaluateProductAlerts(
+  product: { expiryDate: string | null; dateOfTest: string | null },
+  settings: AlertSettings,
+  today: string,
+): ProductAlertFinding[] {
+  const findings: ProductAlertFinding[] = [];
+
+  const expiry = product.expiryDate;
+  if (expiry) {
+    if (expiry < today) {
+      findings.push({ type: "expired", dueDate: expiry });
+    } else if (expiry <= addDays(today, settings.expiryWarningDays)) {
+      findings.push({ type: "expiring", dueDate: expiry });
+    }
+  }
+
+  const testDate = product.dateOfTest;
+  if (testDate) {
+    // Last day on which the germination test is still valid
+    const validUntil = addDays(addMonths(testDate, settings.germinationValidityMonths), -1);
+    if (validUntil < today) {
+      findings.push({ type: "retest_overdue", dueDate: validUntil });
+    } else if (validUntil <= addDays(today, settings.retestWarningDays)) {
+      findings.push({ type: "retest_due", dueDate: validUntil });
+    }
+  }
+
+  return findings;
+}
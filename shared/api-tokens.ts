@@ -0,0 +1,48 @@
+// API tokens let other systems, such as the ERP, call the API with an
+// "Authorization: Bearer <token>" header instead of a session cookie
+import { z } from "zod";
+import { PERMISSIONS, type Permission } from "./permissions";
+
+// Every token starts with this, so leaked tokens are easy to recognise
+export const API_TOKEN_PREFIX = "nst_";
+
+// Personal tokens act as their creator; service tokens are issued for another account,
+// typically one created for the integration
+export type ApiTokenKind = "personal" | "service";
+
+export const API_TOKEN_EXPIRY_DAYS = [30, 90, 180, 365] as const;
+
+export const apiTokenCreateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  // Issue the token for this user instead of yourself
+  userId: z.string().uuid().optional(),
+  scopes: z.array(z.enum(PERMISSIONS))
+    .min(1, "Choose at least one permission")
+    .transform((scopes) => Array.from(new Set(scopes))),
+  expiresInDays: z.coerce.number().int().min(1).max(365),
+});
+
+export type ApiTokenCreate = z.infer<typeof apiTokenCreateSchema>;
+
+// A token as listed; the token itself is only returned when it is created
+export interface ApiTokenSummary {
+  id: string;
+  name: string;
+  kind: ApiTokenKind;
+  userId: string;
+  username: string;
+  // Start of the token, to tell tokens apart
+  tokenPrefix: string;
+  scopes: Permission[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export function apiTokenStatus(token: Pick<ApiTokenSummary, "expiresAt" | "revokedAt">, now = new Date()): "active" | "expired" | "revoked" {
+  if (token.revokedAt) return "revoked";
+  if (new Date(token.expiresAt) <= now) return "expired";
+  return "active";
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { addDays, addMonths, formatDisplayDate, parseDateInput, productDateSchema, todayIsoDate } from "./dates";
+
+describe("parseDateInput", () => {
+  it("accepts ISO dates and pads single digits", () => {
+    expect(parseDateInput("2025-03-07")).toBe("2025-03-07");
+    expect(parseDateInput("2025-3-7")).toBe("2025-03-07");
+  });
+
+  it("reads slashed, dashed and dotted dates day first", () => {
+    expect(parseDateInput("07/03/2025")).toBe("2025-03-07");
+    expect(parseDateInput("7-3-2025")).toBe("2025-03-07");
+    expect(parseDateInput(" 07.03.2025 ")).toBe("2025-03-07");
+  });
+
+  it("rejects dates that don't exist", () => {
+    expect(parseDateInput("31/02/2025")).toBeNull();
+    expect(parseDateInput("2025-13-01")).toBeNull();
+    expect(parseDateInput("29/02/2023")).toBeNull();
+    expect(parseDateInput("29/02/2024")).toBe("2024-02-29");
+  });
+
+  it("converts Excel serial numbers in the plausible range", () => {
+    expect(parseDateInput(45658)).toBe("2025-01-01");
+    expect(parseDateInput("45658")).toBe("2025-01-01");
+    expect(parseDateInput(45658.75)).toBe("2025-01-01");
+    // Small numbers are more likely quantities
+    expect(parseDateInput(120)).toBeNull();
+  });
+
+  it("takes the local calendar day of Date values", () => {
+    expect(parseDateInput(new Date(2025, 2, 7))).toBe("2025-03-07");
+    expect(parseDateInput(new Date("not a date"))).toBeNull();
+  });
+
+  it("returns null for anything else", () => {
+    expect(parseDateInput("March 7th")).toBeNull();
+    expect(parseDateInput("")).toBeNull();
+    expect(parseDateInput(null)).toBeNull();
+    expect(parseDateInput(undefined)).toBeNull();
+  });
+});
+
+describe("productDateSchema", () => {
+  it("normalises dates, clears blanks and leaves missing values out", () => {
+    expect(productDateSchema.parse("07/03/2025")).toBe("2025-03-07");
+    expect(productDateSchema.parse("  ")).toBeNull();
+    expect(productDateSchema.parse(null)).toBeNull();
+    expect(productDateSchema.parse(undefined)).toBeUndefined();
+  });
+
+  it("rejects values that aren't dates", () => {
+    const result = productDateSchema.safeParse("soon");
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0].message).toContain('"soon" is not a valid date');
+  });
+});
+
+describe("date arithmetic", () => {
+  it("adds days across month and year ends", () => {
+    expect(addDays("2025-01-31", 1)).toBe("2025-02-01");
+    expect(addDays("2025-12-31", 1)).toBe("2026-01-01");
+    expect(addDays("2025-03-01", -1)).toBe("2025-02-28");
+  });
+
+  it("clamps added months to the end of shorter months", () => {
+    expect(addMonths("2025-08-31", 1)).toBe("2025-09-30");
+    expect(addMonths("2024-01-31", 1)).toBe("2024-02-29");
+    expect(addMonths("2025-11-15", 3)).toBe("2026-02-15");
+  });
+
+  it("gives today's date in local time", () => {
+    expect(todayIsoDate(new Date(2025, 0, 5, 23, 30))).toBe("2025-01-05");
+  });
+});
+
+describe("formatDisplayDate", () => {
+  it("prints dates day first as on labels", () => {
+    expect(formatDisplayDate("2025-03-07")).toBe("07/03/2025");
+    expect(formatDisplayDate(null)).toBe("");
+    expect(formatDisplayDate("unknown")).toBe("unknown");
+  });
+});
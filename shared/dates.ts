@@ -0,0 +1,103 @@
+// Calendar dates (Date of Packing, Valid Upto, Date of Test) are stored in `date` columns and
+// passed around as "YYYY-MM-DD" strings, which sort and compare correctly without time zones.
+// Input may still arrive as DD/MM/YYYY text, Excel serial numbers or spreadsheet Date cells.
+import { z } from "zod";
+
+// Day 0 of Excel's 1900 date system, which counts the non-existent 29 Feb 1900
+const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Serials between 1950 and 2150; smaller numbers are more likely quantities than dates
+const MIN_EXCEL_SERIAL = 18264;
+const MAX_EXCEL_SERIAL = 91311;
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function fromExcelSerial(serial: number): string | null {
+  if (serial < MIN_EXCEL_SERIAL || serial > MAX_EXCEL_SERIAL) {
+    return null;
+  }
+  return new Date(EXCEL_EPOCH_UTC + Math.floor(serial) * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Parses "YYYY-MM-DD", day-first "DD/MM/YYYY" (also with - or .), Excel serials and Date
+// values into a "YYYY-MM-DD" string. Returns null for anything else.
+export function parseDateInput(value: unknown): string | null {
+  if (value instanceof Date) {
+    // Spreadsheet parsers create these at local midnight
+    return isNaN(value.getTime()) ? null : isoDate(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  }
+  if (typeof value === "number") {
+    return fromExcelSerial(value);
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const text = value.trim();
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    return isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) {
+    return isoDate(Number(match[3]), Number(match[2]), Number(match[1]));
+  }
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    return fromExcelSerial(Number(text));
+  }
+  return null;
+}
+
+// Optional date field for product payloads: blank clears the date, anything unparseable is rejected
+export const productDateSchema = z
+  .union([z.string(), z.number(), z.date(), z.null()])
+  .optional()
+  .transform((value, ctx) => {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (value === null || (typeof value === "string" && value.trim() === "")) {
+      return null;
+    }
+    const date = parseDateInput(value);
+    if (!date) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" is not a valid date (use YYYY-MM-DD or DD/MM/YYYY)` });
+      return z.NEVER;
+    }
+    return date;
+  });
+
+// Today's date in the server's (or browser's) local time zone
+export function todayIsoDate(now: Date = new Date()): string {
+  return isoDate(now.getFullYear(), now.getMonth() + 1, now.getDate())!;
+}
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+// Calendar months, clamped to the end of shorter months (31 Aug + 1 month = 30 Sep)
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+// DD/MM/YYYY, as printed on seed labels
+export function formatDisplayDate(date: string | null | undefined): string {
+  if (!date) {
+    return "";
+  }
+  const [year, month, day] = date.split("-");
+  return day && month && year ? `${day}/${month}/${year}` : date;
+}
@@ -0,0 +1,58 @@
+// Dispatch notes send one or more lots from the warehouse to a dealer. Every line is posted
+// to the stock ledger as a "dispatch" movement referencing the note number, and stays linked
+// to the note so recalls and tracking can tell where each lot went.
+import { z } from "zod";
+import { parseDateInput } from "./dates";
+
+const place = z.preprocess(
+  (value) => typeof value === "string" ? value.trim() : value ?? "",
+  z.string().max(100),
+);
+
+export const dispatchNoteItemSchema = z.object({
+  productUniqueId: z.string().trim().min(1, "Product unique ID is required"),
+  fromLocation: place.refine((value) => value !== "", "Source location is required"),
+  fromStack: place,
+  quantity: z.coerce.number().positive("Quantity must be greater than zero").max(1e12),
+  packets: z.preprocess(
+    (value) => value === "" || value === null ? undefined : value,
+    z.coerce.number().min(0).max(1e9).optional(),
+  ),
+});
+
+export const dispatchNoteRequestSchema = z.object({
+  dealerId: z.string({ required_error: "Dealer is required" }).uuid("Choose a dealer from the directory"),
+  vehicleNo: z.string().trim().min(1, "Vehicle number is required").max(50),
+  driverName: z.string().trim().max(100).optional(),
+  dispatchDate: z.unknown().transform((value, ctx) => {
+    const date = parseDateInput(value);
+    if (!date) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Dispatch date is required (use YYYY-MM-DD or DD/MM/YYYY)" });
+      return z.NEVER;
+    }
+    return date;
+  }),
+  remarks: z.string().trim().max(1000).optional(),
+  items: z.array(dispatchNoteItemSchema).min(1, "Add at least one lot to dispatch").max(200),
+}).superRefine((note, ctx) => {
+  const seen = new Set<string>();
+  note.items.forEach((item, index) => {
+    const key = [item.productUniqueId, item.fromLocation, item.fromStack].join("\u0000");
+    if (seen.has(key)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["items", index, "productUniqueId"],
+        message: `${item.productUniqueId} is listed twice from the same location and stack`,
+      });
+    }
+    seen.add(key);
+  });
+});
+
+export type DispatchNoteRequest = z.infer<typeof dispatchNoteRequestSchema>;
+export type DispatchNoteItemRequest = z.infer<typeof dispatchNoteItemSchema>;
+
+// Note numbers run per year of the dispatch date, e.g. DN-2026-00042
+export function formatDispatchNoteNumber(dispatchDate: string, sequence: number): string {
+  return `DN-${dispatchDate.slice(0, 4)}-${String(sequence).padStart(5, "0")}`;
+}
@@ -0,0 +1,79 @@
+// Columns available in the product export, in their default order
+import { z } from "zod";
+import { productFilterSchema } from "./product-filters";
+
+export const EXPORT_COLUMNS = [
+  { key: "uniqueId", header: "Unique ID", width: 18 },
+  { key: "product", header: "Product Name", width: 25 },
+  { key: "brand", header: "Brand", width: 20 },
+  { key: "company", header: "Company", width: 25 },
+  { key: "description", header: "Description", width: 40 },
+  { key: "mrp", header: "MRP (₹)", width: 12 },
+  { key: "unitSalePrice", header: "Unit Sale Price (₹)", width: 12 },
+  { key: "netQty", header: "Net Quantity", width: 15 },
+  { key: "packSize", header: "Pack Size", width: 12 },
+  { key: "noOfPkts", header: "No. of Packets", width: 12 },
+  { key: "totalPkts", header: "Total Packets", width: 12 },
+  { key: "lotBatch", header: "Lot/Batch", width: 15 },
+  { key: "lotNo", header: "Lot No", width: 15 },
+  { key: "stackNo", header: "Stack No", width: 12 },
+  { key: "mfgDate", header: "Manufacturing Date", width: 18 },
+  { key: "expiryDate", header: "Expiry Date", width: 15 },
+  { key: "dateOfTest", header: "Date of Test", width: 15 },
+  { key: "customerCare", header: "Customer Care", width: 20 },
+  { key: "email", header: "Email", width: 25 },
+  { key: "companyAddress", header: "Company Address", width: 35 },
+  { key: "marketedBy", header: "Marketed By", width: 25 },
+  { key: "brochureUrl", header: "Brochure URL", width: 30 },
+  { key: "brochureFilename", header: "Brochure Filename", width: 25 },
+  { key: "location", header: "Location", width: 15 },
+  { key: "from", header: "From", width: 15 },
+  { key: "to", header: "To", width: 15 },
+  { key: "marketingCode", header: "Marketing Code", width: 15 },
+  { key: "unitOfMeasureCode", header: "Unit of Measure Code", width: 15 },
+  { key: "marketCode", header: "Market Code", width: 15 },
+  { key: "prodCode", header: "Product Code", width: 15 },
+  { key: "stageCode", header: "Stage Code", width: 12 },
+  { key: "remainingQuantity", header: "Remaining Quantity", width: 15 },
+  { key: "normalGermination", header: "Normal Germination (%)", width: 15 },
+  { key: "gerAve", header: "Germination Average", width: 15 },
+  { key: "gb", header: "GB", width: 12 },
+  { key: "gotPercent", header: "GOT Percent", width: 15 },
+  { key: "gotAve", header: "GOT Average", width: 15 },
+  { key: "labelNumber", header: "Label Number", width: 15 },
+  { key: "classType", header: "Class", width: 12 },
+  { key: "status", header: "Status", width: 15 },
+  { key: "submissionDate", header: "Submission Date", width: 15 },
+  { key: "approvalDate", header: "Approval Date", width: 15 },
+  { key: "rejectionReason", header: "Rejection Reason", width: 30 },
+  { key: "qrCode", header: "QR Code", width: 20 },
+  { key: "trackingUrl", header: "Tracking URL", width: 40 },
+] as const;
+
+export type ExportColumnKey = typeof EXPORT_COLUMNS[number]["key"];
+
+const exportColumnKeys = EXPORT_COLUMNS.map((column) => column.key) as [ExportColumnKey, ...ExportColumnKey[]];
+
+// Columns exported when none are requested, matching the dashboard's previous Excel export
+export const DEFAULT_EXPORT_COLUMNS: ExportColumnKey[] = [
+  "uniqueId", "product", "brand", "company", "description", "mrp", "unitSalePrice", "netQty", "packSize",
+  "noOfPkts", "totalPkts", "lotBatch", "lotNo", "mfgDate", "expiryDate", "dateOfTest", "customerCare", "email",
+  "companyAddress", "marketedBy", "brochureUrl", "brochureFilename", "from", "to", "marketCode", "prodCode", "gb",
+  "status", "submissionDate", "approvalDate", "rejectionReason", "qrCode", "trackingUrl",
+];
+
+export const EXPORT_FORMATS = ["xlsx", "csv"] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const productExportQuerySchema = productFilterSchema.extend({
+  format: z.enum(EXPORT_FORMATS).default("xlsx"),
+  // Comma-separated column keys in output order. The QR code column embeds images in
+  // XLSX and is left out of CSV.
+  columns: z.preprocess(
+    (value) => typeof value === "string" && value ? value.split(",").map((item) => item.trim()).filter(Boolean) : undefined,
+    z.array(z.enum(exportColumnKeys)).min(1).optional(),
+  ),
+});
+
+export type ProductExportQuery = z.infer<typeof productExportQuerySchema>;
@@ -0,0 +1,145 @@
+// Product fields that can be filled from a CSV/Excel import, with the column
+// headers our recurring spreadsheet formats use for each of them.
+import { z } from "zod";
+
+// "class" is a seed class, stored as one of CLASS_TYPES (see shared/quality-rules.ts)
+export type ImportFieldType = "text" | "decimal" | "date" | "class";
+
+export interface ImportFieldDefinition {
+  field: string;
+  label: string;
+  type: ImportFieldType;
+  required?: boolean;
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: "product", label: "Crop Name", type: "text", required: true, aliases: ["Crop Name", "product", "Product Name"] },
+  { field: "company", label: "Company", type: "text", aliases: ["company"] },
+  { field: "brand", label: "Brand", type: "text", aliases: ["brand"] },
+  { field: "description", label: "Description", type: "text", aliases: ["description"] },
+  { field: "mrp", label: "MRP", type: "decimal", aliases: ["mrp", "MRP (₹)", "price"] },
+  { field: "unitSalePrice", label: "Unit Sale Price", type: "decimal", aliases: ["unitSalePrice", "Unit Sale Price", "Unit Sale Prize", "unitPrice", "Unit Price"] },
+  { field: "netQty", label: "Net Quantity", type: "text", aliases: ["netQty", "Net Qty", "Net Quantity", "quantity", "Qty(kg)"] },
+  { field: "packSize", label: "Pack Size", type: "text", aliases: ["packSize", "Pack Size", "size"] },
+  { field: "noOfPkts", label: "No. of Packets", type: "decimal", aliases: ["No. of Bags", "noOfPkts", "No Of Pkts", "packets"] },
+  { field: "totalPkts", label: "Total Packets", type: "decimal", aliases: ["totalPkts", "Total Pkts", "totalPackets", "Total Packets", "Total Pkg"] },
+  { field: "lotBatch", label: "New Lot No", type: "text", aliases: ["lotBatch", "Lot/Batch", "Lot Batch", "batch", "New Lot No"] },
+  { field: "lotNo", label: "Lot Number", type: "text", aliases: ["Lot No.", "lotNo", "lot"] },
+  { field: "gb", label: "GB", type: "decimal", aliases: ["gb"] },
+  { field: "mfgDate", label: "Date of Packing", type: "date", aliases: ["mfgDate", "Mfg Date", "Manufacturing Date", "Date of Packing"] },
+  { field: "expiryDate", label: "Valid Upto", type: "date", aliases: ["expiryDate", "Expiry Date", "Valid Up To", "Valid Upto"] },
+  { field: "dateOfTest", label: "Date of Test", type: "date", aliases: ["Date of Test", "dateOfTest", "testDate", "Test Date"] },
+  { field: "customerCare", label: "Customer Care", type: "text", aliases: ["customerCare", "Customer Care", "support"] },
+  { field: "email", label: "Email", type: "text", aliases: ["email"] },
+  { field: "companyAddress", label: "Company Address", type: "text", aliases: ["companyAddress", "Company Address", "address"] },
+  { field: "marketedBy", label: "Marketed By", type: "text", aliases: ["marketedBy", "Marketed By", "marketer"] },
+  { field: "from", label: "Label No. From", type: "text", aliases: ["from"] },
+  { field: "to", label: "Label No. To", type: "text", aliases: ["to"] },
+  { field: "marketingCode", label: "Marketing Code", type: "text", aliases: ["Market Code FF", "marketingCode", "Marketing Code", "code"] },
+  { field: "unitOfMeasureCode", label: "Unit of Measure Code", type: "text", aliases: ["unitOfMeasureCode", "Unit of Measure Code", "unit"] },
+  { field: "marketCode", label: "Variety", type: "text", aliases: ["marketCode", "Market Code", "market", "Market Code FF", "Marketing Code", "code"] },
+  { field: "prodCode", label: "Product Code", type: "text", aliases: ["Production Code FF", "prodCode", "Prod. Co*", "Prod. Code", "Prod Code", "productCode", "Product Code"] },
+  { field: "location", label: "Location", type: "text", aliases: ["Location"] },
+  { field: "stageCode", label: "Stage Code", type: "text", aliases: ["Stage Code", "stageCode"] },
+  { field: "remainingQuantity", label: "Remaining Quantity", type: "decimal", aliases: ["Remaining Quantity", "remainingQuantity"] },
+  { field: "stackNo", label: "Stack No", type: "text", aliases: ["STACK NO", "stackNo"] },
+  { field: "normalGermination", label: "Normal Germination (%)", type: "decimal", aliases: ["Normal Germination %", "normalGermination"] },
+  { field: "gerAve", label: "Germination Average", type: "decimal", aliases: ["GER AVE", "gerAve"] },
+  { field: "gotPercent", label: "GOT Percent", type: "decimal", aliases: ["GOT %", "gotPercent"] },
+  { field: "gotAve", label: "GOT Average", type: "decimal", aliases: ["GOT AVE", "gotAve"] },
+  { field: "labelNumber", label: "Label Number", type: "text", aliases: ["Label Number", "labelNumber"] },
+  { field: "classType", label: "Class", type: "class", aliases: ["Class", "classType"] },
+];
+
+// Product field -> spreadsheet column header. Unmapped fields are left out.
+export type ColumnMapping = Record<string, string>;
+
+export const columnMappingSchema = z.record(z.string(), z.string().min(1)).refine(
+  (mapping) => Object.keys(mapping).every((field) => IMPORT_FIELDS.some((f) => f.field === field)),
+  { message: "Mapping contains unknown product fields" },
+);
+
+// Fields that can make up the natural key used to recognise a lot that was already imported
+export const NATURAL_KEY_CANDIDATES = [
+  "lotNo",
+  "lotBatch",
+  "marketCode",
+  "prodCode",
+  "product",
+  "marketingCode",
+  "stackNo",
+  "labelNumber",
+  "location",
+] as const;
+
+export type NaturalKeyField = typeof NATURAL_KEY_CANDIDATES[number];
+
+export const DEFAULT_NATURAL_KEY: NaturalKeyField[] = ["lotNo", "marketCode", "prodCode"];
+
+export const DUPLICATE_STRATEGIES = ["skip", "update", "create"] as const;
+export type DuplicateStrategy = typeof DUPLICATE_STRATEGIES[number];
+
+// all_or_nothing refuses the whole file if any row is invalid; skip_invalid imports the rest
+export const IMPORT_ERROR_MODES = ["all_or_nothing", "skip_invalid"] as const;
+export type ImportErrorMode = typeof IMPORT_ERROR_MODES[number];
+
+export const importOptionsSchema = z.object({
+  naturalKey: z.array(z.enum(NATURAL_KEY_CANDIDATES)).min(1, "Choose at least one key field").default(DEFAULT_NATURAL_KEY),
+  duplicateStrategy: z.enum(DUPLICATE_STRATEGIES).default("skip"),
+  errorMode: z.enum(IMPORT_ERROR_MODES).default("all_or_nothing"),
+});
+
+export type ImportOptions = z.infer<typeof importOptionsSchema>;
+
+export interface ImportRowResult {
+  rowNumber: number;
+  values: Record<string, string | null>;
+  errors: string[];
+  // Quality rule warnings; they don't stop the row from being imported
+  warnings: string[];
+  // Unique ID of the existing product with the same natural key, if any
+  existingUniqueId?: string | null;
+}
+
+export type ImportRowOutcome = "created" | "updated" | "skipped_duplicate" | "invalid" | "failed" | "not_imported";
+
+export interface ImportReportRow {
+  rowNumber: number;
+  outcome: ImportRowOutcome;
+  uniqueId: string | null;
+  message: string | null;
+}
+
+export interface ImportResult {
+  fileName: string;
+  options: ImportOptions;
+  // False when nothing was written (all-or-nothing import with invalid rows, or a failed transaction)
+  committed: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  invalid: number;
+  failed: number;
+  rows: ImportReportRow[];
+}
+
+export interface ImportPreview {
+  fileName: string;
+  headers: string[];
+  mapping: ColumnMapping;
+  // Columns in the file that are not mapped to any field
+  unmappedHeaders: string[];
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  // Valid rows matching an existing product on the natural key
+  duplicateRows: number;
+  // First rows of the file, for the preview table
+  sampleRows: ImportRowResult[];
+  // Every row that failed validation
+  invalid: ImportRowResult[];
+  // Valid rows with quality rule warnings
+  warned: ImportRowResult[];
+}
@@ -0,0 +1,102 @@
+// Warehouse stock ledger. Every stock change is a movement made of signed lines against a
+// product at a location and stack; balances (and the product's remainingQuantity) are the
+// sums of those lines and are never edited directly.
+import { z } from "zod";
+
+export const STOCK_MOVEMENT_TYPES = [
+  "receipt",
+  "dispatch",
+  "transfer",
+  "rebag",
+  "write_off",
+] as const;
+
+export type StockMovementType = typeof STOCK_MOVEMENT_TYPES[number];
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  receipt: "Receipt",
+  dispatch: "Dispatch",
+  transfer: "Transfer",
+  rebag: "Re-bagging",
+  write_off: "Write-off",
+};
+
+// Where a lot's opening balance is put when its product record has no warehouse location.
+// It is a real location, so the stock can be dispatched from it or transferred to its place.
+export const UNASSIGNED_LOCATION = "Unassigned";
+
+// Which side of the movement each type takes stock from and puts it into
+export const STOCK_MOVEMENT_SIDES: Record<StockMovementType, { from: boolean; to: boolean }> = {
+  receipt: { from: false, to: true },
+  dispatch: { from: true, to: false },
+  transfer: { from: true, to: true },
+  rebag: { from: true, to: true },
+  write_off: { from: true, to: false },
+};
+
+const positiveQuantity = z.coerce.number().positive("Quantity must be greater than zero").max(1e12);
+const packetCount = z.preprocess(
+  (value) => value === "" || value === null ? undefined : value,
+  z.coerce.number().min(0).max(1e9).optional(),
+);
+const place = z.preprocess(
+  (value) => typeof value === "string" ? value.trim() : value ?? "",
+  z.string().max(100),
+);
+
+export const stockMovementRequestSchema = z.object({
+  productUniqueId: z.string().trim().min(1, "Product unique ID is required"),
+  type: z.enum(STOCK_MOVEMENT_TYPES),
+  quantity: positiveQuantity,
+  // Packets taken from the source (or received, for receipts)
+  packets: packetCount,
+  // Packets after re-bagging; defaults to the packets taken
+  newPackets: packetCount,
+  fromLocation: place,
+  fromStack: place,
+  toLocation: place,
+  toStack: place,
+  reference: z.string().trim().max(200).optional(),
+  note: z.string().trim().max(1000).optional(),
+}).superRefine((movement, ctx) => {
+  const sides = STOCK_MOVEMENT_SIDES[movement.type];
+  if (sides.from && !movement.fromLocation) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["fromLocation"], message: "Source location is required" });
+  }
+  if (sides.to && !movement.toLocation) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["toLocation"], message: "Destination location is required" });
+  }
+  if (movement.type === "transfer" && movement.fromLocation === movement.toLocation && movement.fromStack === movement.toStack) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["toStack"], message: "Transfer destination must differ from the source" });
+  }
+});
+
+export type StockMovementRequest = z.infer<typeof stockMovementRequestSchema>;
+
+export interface StockMovementLineInput {
+  location: string;
+  stackNo: string;
+  // Signed: negative lines take stock out
+  quantity: number;
+  packets: number;
+}
+
+// Turns a movement request into its ledger lines
+export function buildMovementLines(movement: StockMovementRequest): StockMovementLineInput[] {
+  const sides = STOCK_MOVEMENT_SIDES[movement.type];
+  const packets = movement.packets ?? 0;
+  const lines: StockMovementLineInput[] = [];
+  if (sides.from) {
+    lines.push({ location: movement.fromLocation, stackNo: movement.fromStack, quantity: -movement.quantity, packets: -packets });
+  }
+  if (sides.to) {
+    const packetsIn = movement.type === "rebag" ? movement.newPackets ?? packets : packets;
+    lines.push({ location: movement.toLocation, stackNo: movement.toStack, quantity: movement.quantity, packets: packetsIn });
+  }
+  return lines;
+}
+
+export const stockBalanceQuerySchema = z.object({
+  search: z.string().trim().optional(),
+  location: z.string().trim().optional(),
+});
@@ -0,0 +1,97 @@
+// Printable seed label templates. Sizes are in millimetres; sheet templates place
+// several labels per page in a grid, tag and sticker templates print one label per page.
+import { z } from "zod";
+
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  description: string;
+  pageWidthMm: number;
+  pageHeightMm: number;
+  labelWidthMm: number;
+  labelHeightMm: number;
+  columns: number;
+  rows: number;
+  marginLeftMm: number;
+  marginTopMm: number;
+  gapXMm: number;
+  gapYMm: number;
+}
+
+export const LABEL_TEMPLATES: LabelTemplate[] = [
+  {
+    id: "bag-tag",
+    name: "Bag Tag (100 × 150 mm)",
+    description: "One tag per page for stitching onto seed bags",
+    pageWidthMm: 100,
+    pageHeightMm: 150,
+    labelWidthMm: 100,
+    labelHeightMm: 150,
+    columns: 1,
+    rows: 1,
+    marginLeftMm: 0,
+    marginTopMm: 0,
+    gapXMm: 0,
+    gapYMm: 0,
+  },
+  {
+    id: "packet-sticker",
+    name: "Packet Sticker (75 × 50 mm)",
+    description: "One sticker per page for roll label printers",
+    pageWidthMm: 75,
+    pageHeightMm: 50,
+    labelWidthMm: 75,
+    labelHeightMm: 50,
+    columns: 1,
+    rows: 1,
+    marginLeftMm: 0,
+    marginTopMm: 0,
+    gapXMm: 0,
+    gapYMm: 0,
+  },
+  {
+    id: "a4-4up",
+    name: "A4 Sheet, 4 labels (100 × 140 mm)",
+    description: "2 × 2 labels per A4 page",
+    pageWidthMm: 210,
+    pageHeightMm: 297,
+    labelWidthMm: 100,
+    labelHeightMm: 140,
+    columns: 2,
+    rows: 2,
+    marginLeftMm: 5,
+    marginTopMm: 8.5,
+    gapXMm: 0,
+    gapYMm: 0,
+  },
+  {
+    id: "a4-8up",
+    name: "A4 Sheet, 8 labels (100 × 70 mm)",
+    description: "2 × 4 labels per A4 page",
+    pageWidthMm: 210,
+    pageHeightMm: 297,
+    labelWidthMm: 100,
+    labelHeightMm: 70,
+    columns: 2,
+    rows: 4,
+    marginLeftMm: 5,
+    marginTopMm: 8.5,
+    gapXMm: 0,
+    gapYMm: 0,
+  },
+];
+
+export function getLabelTemplate(id: string): LabelTemplate | undefined {
+  return LABEL_TEMPLATES.find((template) => template.id === id);
+}
+
+export const labelRequestSchema = z.object({
+  productIds: z.array(z.string().uuid()).min(1, "Select at least one product").max(500),
+  template: z.string().refine((id) => !!getLabelTemplate(id), "Unknown label template"),
+  // Labels printed for each product, e.g. one per packet
+  copies: z.coerce.number().int().min(1).max(100).default(1),
+  // 1-based position of the first label on a partly used sheet
+  startPosition: z.coerce.number().int().min(1).default(1),
+});
+
+export type LabelRequest = z.infer<typeof labelRequestSchema>;
@@ -0,0 +1,41 @@
+// Outcomes recorded in the login_attempts table. Attempts are recorded as "pending" before
+// anything is checked and then set to their outcome.
+export const LOGIN_OUTCOMES = [
+  "pending",
+  "success",
+  "awaiting_two_factor",
+  "wrong_password",
+  "two_factor_failed",
+  "unknown_user",
+  "inactive",
+  "locked",
+  "throttled",
+] as const;
+
+export type LoginOutcome = typeof LOGIN_OUTCOMES[number];
+
+export const LOGIN_OUTCOME_LABELS: Record<LoginOutcome, string> = {
+  pending: "In progress",
+  success: "Signed in",
+  awaiting_two_factor: "Password accepted, code requested",
+  wrong_password: "Wrong password",
+  two_factor_failed: "Wrong authenticator code",
+  unknown_user: "Unknown username",
+  inactive: "Account deactivated",
+  locked: "Account locked",
+  throttled: "Too many attempts",
+};
+
+// Failed attempts that count towards the per-address limit; throttled attempts were
+// refused before the password was checked. Pending attempts count too, so concurrent
+// attempts from one address can't all slip in under the limit.
+export const COUNTED_FAILURES: LoginOutcome[] = ["pending", "wrong_password", "two_factor_failed", "unknown_user", "inactive", "locked"];
+
+// Body of a refused POST /api/login
+export interface LoginRejection {
+  message: string;
+  // Set when the account is locked
+  lockedUntil?: string;
+  // Set when the attempt was throttled
+  retryAfterSeconds?: number;
+}
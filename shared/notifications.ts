@@ -0,0 +1,69 @@
+// In-app and email notifications about products (see server/notifications.ts)
+import { z } from "zod";
+import type { Notification } from "./schema";
+
+export const NOTIFICATION_TYPES = [
+  "product_submitted",
+  "product_approved",
+  "product_changes_requested",
+  "product_rejected",
+  "product_alert",
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  product_submitted: "Product submitted for review",
+  product_approved: "My product approved",
+  product_changes_requested: "Changes requested on my product",
+  product_rejected: "My product rejected",
+  product_alert: "Expiry and re-test alerts",
+};
+
+// Who gets each notification, shown next to the preferences
+export const NOTIFICATION_TYPE_DESCRIPTIONS: Record<NotificationType, string> = {
+  product_submitted: "Sent to reviewers",
+  product_approved: "Sent to the submitter",
+  product_changes_requested: "Sent to the submitter, with the reviewer's comment",
+  product_rejected: "Sent to the submitter, with the rejection reason",
+  product_alert: "Sent to the submitter and to users who see all products",
+};
+
+export interface NotificationChannels {
+  inApp: boolean;
+  email: boolean;
+}
+
+export type NotificationPreferences = Record<NotificationType, NotificationChannels>;
+
+// Review outcomes are emailed by default; the rest only show in the app
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  product_submitted: { inApp: true, email: false },
+  product_approved: { inApp: true, email: true },
+  product_changes_requested: { inApp: true, email: true },
+  product_rejected: { inApp: true, email: true },
+  product_alert: { inApp: true, email: false },
+};
+
+const channelsSchema = z.object({ inApp: z.boolean(), email: z.boolean() });
+
+export const notificationPreferencesSchema = z.object({
+  product_submitted: channelsSchema,
+  product_approved: channelsSchema,
+  product_changes_requested: channelsSchema,
+  product_rejected: channelsSchema,
+  product_alert: channelsSchema,
+}) satisfies z.ZodType<NotificationPreferences>;
+
+// Saved preferences may predate newer notification types, which then use their defaults
+export function withDefaultPreferences(saved: Partial<NotificationPreferences> | null | undefined): NotificationPreferences {
+  return Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => [type, { ...DEFAULT_NOTIFICATION_PREFERENCES[type], ...saved?.[type] }]),
+  ) as NotificationPreferences;
+}
+
+// GET /api/notifications
+export interface NotificationFeed {
+  items: Notification[];
+  unreadCount: number;
+}
@@ -0,0 +1,79 @@
+// Rules for passwords chosen by users and admins. The common-password list is only
+// available on the server (server/common-passwords.ts), so that check happens there.
+import { z } from "zod";
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  // Reject passwords found in the bundled list of commonly used and breached passwords
+  rejectCommonPasswords: boolean;
+  // Number of previous passwords a user may not reuse; 0 allows reuse
+  historyCount: number;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  rejectCommonPasswords: true,
+  historyCount: 5,
+};
+
+// Most previous passwords kept per user
+export const MAX_PASSWORD_HISTORY = 24;
+
+export const passwordPolicySchema = z.object({
+  minLength: z.coerce.number().int().min(6, "Passwords must be at least 6 characters").max(128),
+  requireUppercase: z.boolean(),
+  requireLowercase: z.boolean(),
+  requireNumber: z.boolean(),
+  requireSymbol: z.boolean(),
+  rejectCommonPasswords: z.boolean(),
+  historyCount: z.coerce.number().int().min(0).max(MAX_PASSWORD_HISTORY),
+});
+
+// Human-readable list of the rules, shown next to password fields. The reuse rule only
+// applies when users change their own password.
+export function describePasswordPolicy(policy: PasswordPolicy, includeHistory = true): string[] {
+  const rules = [`At least ${policy.minLength} characters`];
+  if (policy.requireUppercase) rules.push("An uppercase letter");
+  if (policy.requireLowercase) rules.push("A lowercase letter");
+  if (policy.requireNumber) rules.push("A number");
+  if (policy.requireSymbol) rules.push("A symbol such as ! or #");
+  if (policy.rejectCommonPasswords) rules.push("Not a commonly used password");
+  if (includeHistory && policy.historyCount > 0) rules.push(`Not one of your last ${policy.historyCount} passwords`);
+  return rules;
+}
+
+// First length or complexity rule the password breaks, or null. Usernames are never
+// allowed inside passwords, whatever the policy.
+export function checkPasswordComplexity(
+  password: string,
+  policy: PasswordPolicy,
+  username?: string,
+): string | null {
+  if (password.length < policy.minLength) {
+    return `Password must be at least ${policy.minLength} characters`;
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    return "Password must contain an uppercase letter";
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    return "Password must contain a lowercase letter";
+  }
+  if (policy.requireNumber && !/[0-9]/.test(password)) {
+    return "Password must contain a number";
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    return "Password must contain a symbol";
+  }
+  if (username && username.length >= 3 && password.toLowerCase().includes(username.toLowerCase())) {
+    return "Password must not contain the username";
+  }
+  return null;
+}
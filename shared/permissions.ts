@@ -0,0 +1,144 @@
+// Permissions granted through roles. The server checks them per route (see server/authorization.ts);
+// the client only uses them to decide which screens and buttons to show.
+import { z } from "zod";
+
+export const PERMISSIONS = [
+  "products.create",
+  "products.view_all",
+  "products.edit_all",
+  "products.delete",
+  "products.review",
+  "products.import",
+  "labels.print",
+  "recalls.view",
+  "recalls.manage",
+  "stock.view",
+  "stock.manage",
+  "dispatches.view",
+  "dispatches.manage",
+  "dealers.manage",
+  "catalog.manage",
+  "settings.manage",
+  "users.manage",
+  "roles.manage",
+  "api_tokens.manage",
+  "webhooks.manage",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Without products.view_all a user only sees, exports and prints the products they submitted
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  "products.create": "Create products and edit own drafts",
+  "products.view_all": "View and export all products",
+  "products.edit_all": "Edit and submit any product",
+  "products.delete": "Delete products",
+  "products.review": "Approve, reject, return and revoke products",
+  "products.import": "Bulk import products",
+  "labels.print": "Print seed labels",
+  "recalls.view": "View recalls",
+  "recalls.manage": "Recall lots",
+  "stock.view": "View stock",
+  "stock.manage": "Record stock movements",
+  "dispatches.view": "View dispatch notes",
+  "dispatches.manage": "Create dispatch notes",
+  "dealers.manage": "Manage dealers",
+  "catalog.manage": "Manage crops, varieties and variety URLs",
+  "settings.manage": "Change unique ID, alert, quality rule and security settings",
+  "users.manage": "Create users and assign roles",
+  "roles.manage": "Edit roles and their permissions",
+  "api_tokens.manage": "Issue API tokens for other users and revoke any token",
+  "webhooks.manage": "Manage webhooks and view their deliveries",
+};
+
+// How the role editor groups the permissions
+export const PERMISSION_GROUPS: { label: string; permissions: Permission[] }[] = [
+  { label: "Products", permissions: ["products.create", "products.view_all", "products.edit_all", "products.delete", "products.review", "products.import", "labels.print"] },
+  { label: "Recalls", permissions: ["recalls.view", "recalls.manage"] },
+  { label: "Warehouse", permissions: ["stock.view", "stock.manage", "dispatches.view", "dispatches.manage", "dealers.manage"] },
+  { label: "Administration", permissions: ["catalog.manage", "settings.manage", "users.manage", "roles.manage", "api_tokens.manage", "webhooks.manage"] },
+];
+
+export interface RoleDefinition {
+  name: string;
+  label: string;
+  description: string | null;
+  permissions: Permission[];
+  builtIn: boolean;
+}
+
+// Holds every permission, including ones added later; it can't be edited or deleted
+export const SUPER_ADMIN_ROLE = "super_admin";
+
+// Built-in roles apply until an edited copy is saved in the roles table (see storage.getRoles)
+export const BUILT_IN_ROLES: RoleDefinition[] = [
+  {
+    name: SUPER_ADMIN_ROLE,
+    label: "Super Admin",
+    description: "Full access, including editing roles",
+    permissions: [...PERMISSIONS],
+    builtIn: true,
+  },
+  {
+    name: "admin",
+    label: "Admin",
+    description: "Reviews products and runs the warehouse and settings",
+    permissions: PERMISSIONS.filter((permission) => permission !== "products.create" && permission !== "roles.manage"),
+    builtIn: true,
+  },
+  {
+    name: "operator",
+    label: "Operator",
+    description: "Enters and imports products and prints their labels",
+    permissions: ["products.create", "products.import", "labels.print"],
+    builtIn: true,
+  },
+  {
+    name: "qc_reviewer",
+    label: "Quality Control Reviewer",
+    description: "Reviews submitted products",
+    permissions: ["products.view_all", "products.review", "recalls.view", "stock.view"],
+    builtIn: true,
+  },
+  {
+    name: "warehouse_clerk",
+    label: "Warehouse Clerk",
+    description: "Records stock movements and dispatches to dealers",
+    permissions: ["products.view_all", "labels.print", "stock.view", "stock.manage", "dispatches.view", "dispatches.manage"],
+    builtIn: true,
+  },
+  {
+    name: "auditor",
+    label: "Auditor",
+    description: "Read-only access to products, recalls, stock and dispatches",
+    permissions: ["products.view_all", "recalls.view", "stock.view", "dispatches.view"],
+    builtIn: true,
+  },
+];
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === "string" && (PERMISSIONS as readonly string[]).includes(value);
+}
+
+export function hasPermission(user: { permissions?: readonly string[] } | null | undefined, permission: Permission): boolean {
+  return !!user?.permissions?.includes(permission);
+}
+
+// Users who enter their own products work on the operator home page; everyone else, and anyone
+// who can see all products, uses the admin dashboard with the tabs their permissions allow
+export function usesAdminDashboard(user: { permissions?: readonly string[] } | null | undefined): boolean {
+  return hasPermission(user, "products.view_all") || !hasPermission(user, "products.create");
+}
+
+export const roleSchema = z.object({
+  name: z.string().trim()
+    .regex(/^[a-z][a-z0-9_]{1,39}$/, "Role name must be 2-40 lowercase letters, digits or underscores, starting with a letter"),
+  label: z.string().trim().min(1, "Label is required").max(60),
+  description: z.preprocess(
+    (value) => typeof value === "string" && value.trim() === "" ? null : value,
+    z.string().trim().max(200).nullable().optional(),
+  ),
+  permissions: z.array(z.enum(PERMISSIONS)).transform((permissions) => Array.from(new Set(permissions))),
+});
+
+export type RoleInput = z.infer<typeof roleSchema>;
@@ -0,0 +1,99 @@
+// Product list filters, sorting and paging accepted as query parameters by the product
+// list and export endpoints
+import { z } from "zod";
+
+// Comma-separated query values, e.g. ?status=rejected,changes_requested
+function splitCommas(value: unknown) {
+  return typeof value === "string" ? value.split(",").map((item) => item.trim()).filter(Boolean) : value;
+}
+
+const commaList = z.preprocess(splitCommas, z.array(z.string()).optional());
+
+const optionalText = z.preprocess(
+  (value) => typeof value === "string" && value.trim() === "" ? undefined : value,
+  z.string().trim().optional(),
+);
+
+const optionalDate = z.preprocess(
+  (value) => value === "" ? undefined : value,
+  z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD").optional(),
+);
+
+// Date ranges are inclusive at both ends
+export const productFilterSchema = z.object({
+  // Selected products, e.g. to export just those
+  ids: z.preprocess(splitCommas, z.array(z.string().uuid("Invalid product ID")).optional()),
+  status: commaList,
+  search: optionalText,
+  crop: optionalText,
+  marketCode: optionalText,
+  classType: optionalText,
+  location: optionalText,
+  submittedBy: z.preprocess((value) => value === "" ? undefined : value, z.string().uuid().optional()),
+  // Assigned to the dealer or dispatched to them
+  dealerId: z.preprocess((value) => value === "" ? undefined : value, z.string().uuid().optional()),
+  submittedFrom: optionalDate,
+  submittedTo: optionalDate,
+  approvedFrom: optionalDate,
+  approvedTo: optionalDate,
+  expiryFrom: optionalDate,
+  expiryTo: optionalDate,
+});
+
+export type ProductFilters = z.infer<typeof productFilterSchema>;
+
+export const PRODUCT_SORT_FIELDS = [
+  "uniqueId",
+  "product",
+  "marketCode",
+  "company",
+  "lotNo",
+  "classType",
+  "location",
+  "mrp",
+  "status",
+  "expiryDate",
+  "submissionDate",
+  "approvalDate",
+] as const;
+
+export type ProductSortField = typeof PRODUCT_SORT_FIELDS[number];
+
+export interface ProductSort {
+  field: ProductSortField;
+  direction: "asc" | "desc";
+}
+
+export const DEFAULT_PRODUCT_SORT: ProductSort[] = [{ field: "submissionDate", direction: "desc" }];
+
+export const MAX_PAGE_SIZE = 100;
+
+// Sort order as "field:direction" pairs, highest priority first, e.g. ?sort=status:asc,submissionDate:desc
+const sortParam = z.preprocess(
+  (value) => typeof value === "string" && value
+    ? value.split(",").map((item) => {
+        const [field, direction = "asc"] = item.trim().split(":");
+        return { field, direction };
+      })
+    : undefined,
+  z.array(z.object({ field: z.enum(PRODUCT_SORT_FIELDS), direction: z.enum(["asc", "desc"]) })).max(3).optional(),
+);
+
+export const productListQuerySchema = productFilterSchema.extend({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(25),
+  sort: sortParam,
+});
+
+export type ProductListQuery = z.infer<typeof productListQuerySchema>;
+
+export function formatSortParam(sort: ProductSort[]): string {
+  return sort.map((entry) => `${entry.field}:${entry.direction}`).join(",");
+}
+
+export interface PagedResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+  blockingFindings,
+  describeRuleScope,
+  evaluateQualityRules,
+  parseClassType,
+  qualityErrorMessage,
+  qualityRuleSchema,
+  ruleApplies,
+} from "./quality-rules";
+import type { QualityRule } from "./schema";
+
+type TestRule = Parameters<typeof ruleApplies>[0];
+
+function rule(overrides: Partial<QualityRule> = {}): TestRule {
+  return {
+    id: "rule-1",
+    name: "Paddy minimums",
+    cropName: null,
+    classType: null,
+    minGermination: null,
+    minGot: null,
+    maxValidityMonths: null,
+    requiredFields: [],
+    severity: "error",
+    enabled: true,
+    ...overrides,
+  };
+}
+
+const paddy = {
+  product: "Paddy",
+  classType: "certified",
+  normalGermination: "85",
+  gotPercent: "98.5",
+  mfgDate: "2025-01-10",
+  expiryDate: "2025-10-09",
+  brand: "Green Gold",
+};
+
+describe("qualityRuleSchema", () => {
+  it("treats blank form inputs as 'any' and 'no limit'", () => {
+    const parsed = qualityRuleSchema.parse({ name: " Paddy ", cropName: "", classType: "", minGermination: "80", minGot: "", maxValidityMonths: "" });
+    expect(parsed).toMatchObject({
+      name: "Paddy",
+      cropName: null,
+      classType: null,
+      minGermination: 80,
+      minGot: null,
+      maxValidityMonths: null,
+      requiredFields: [],
+      severity: "error",
+      enabled: true,
+    });
+  });
+
+  it("needs at least one limit or required field", () => {
+    expect(qualityRuleSchema.safeParse({ name: "Empty" }).error?.errors[0].message).toBe("Set at least one limit or required field");
+  });
+
+  it("checks the limits and drops repeated required fields", () => {
+    expect(qualityRuleSchema.safeParse({ name: "Bad", minGot: 120 }).success).toBe(false);
+    expect(qualityRuleSchema.safeParse({ name: "Bad", maxValidityMonths: "1.5" }).success).toBe(false);
+    expect(qualityRuleSchema.safeParse({ name: "Bad", requiredFields: ["colour"] }).success).toBe(false);
+    expect(qualityRuleSchema.parse({ name: "Brand", requiredFields: ["brand", "brand"] }).requiredFields).toEqual(["brand"]);
+  });
+});
+
+describe("ruleApplies", () => {
+  it("matches crops and classes whatever their case", () => {
+    const paddyCertified = rule({ cropName: "paddy ", classType: "certified" });
+    expect(ruleApplies(paddyCertified, { product: "PADDY", classType: "Certified" })).toBe(true);
+    expect(ruleApplies(paddyCertified, { product: "Paddy", classType: "Foundation" })).toBe(false);
+    expect(ruleApplies(paddyCertified, { product: "Wheat", classType: "certified" })).toBe(false);
+    expect(ruleApplies(paddyCertified, { classType: "certified" })).toBe(false);
+  });
+
+  it("reads spreadsheet spellings of the class", () => {
+    expect(ruleApplies(rule({ classType: "trustful" }), { classType: "TL" })).toBe(true);
+  });
+
+  it("applies rules without a crop or class to everything, unless switched off", () => {
+    expect(ruleApplies(rule(), {})).toBe(true);
+    expect(ruleApplies(rule({ enabled: false }), paddy)).toBe(false);
+  });
+});
+
+describe("parseClassType", () => {
+  it("maps known classes and aliases, and nothing else", () => {
+    expect(parseClassType(" Certified ")).toBe("certified");
+    expect(parseClassType("truthfully  labelled")).toBe("trustful");
+    expect(parseClassType("FS")).toBe("foundation");
+    expect(parseClassType("breeder")).toBeNull();
+    expect(parseClassType(null)).toBeNull();
+  });
+});
+
+describe("evaluateQualityRules", () => {
+  it("passes a product within every limit", () => {
+    expect(evaluateQualityRules(paddy, [rule({ minGermination: 80, minGot: 98, maxValidityMonths: 9 })])).toEqual([]);
+  });
+
+  it("always checks percentages and the date order", () => {
+    const findings = evaluateQualityRules({ ...paddy, normalGermination: "105%", expiryDate: "2025-01-01" }, []);
+    expect(findings.map((finding) => [finding.field, finding.severity, finding.ruleId])).toEqual([
+      ["normalGermination", "error", null],
+      ["expiryDate", "error", null],
+    ]);
+    expect(findings[1].message).toBe("Valid Upto 01/01/2025 must be after the Date of Packing 10/01/2025");
+  });
+
+  it("reports each limit a matching rule sets", () => {
+    const strict = rule({ cropName: "Paddy", minGermination: 90, minGot: 99, maxValidityMonths: 6 });
+    const findings = evaluateQualityRules(paddy, [strict]);
+    expect(findings.map((finding) => finding.field)).toEqual(["normalGermination", "gotPercent", "expiryDate"]);
+    expect(findings[0]).toMatchObject({
+      severity: "error",
+      ruleId: "rule-1",
+      ruleName: "Paddy minimums",
+      message: "Germination 85% is below the 90% minimum for Paddy",
+    });
+  });
+
+  it("checks the validity period in calendar months", () => {
+    const nineMonths = rule({ maxValidityMonths: 9 });
+    expect(evaluateQualityRules({ ...paddy, expiryDate: "2025-10-10" }, [nineMonths])).toEqual([]);
+    expect(evaluateQualityRules({ ...paddy, expiryDate: "2025-10-11" }, [nineMonths])).toHaveLength(1);
+  });
+
+  it("leaves empty values to required fields rather than limits", () => {
+    const requiresGot = rule({ minGot: 95, requiredFields: ["gotPercent", "brochureUrl"] });
+    const findings = evaluateQualityRules({ ...paddy, gotPercent: "" }, [requiresGot]);
+    expect(findings.map((finding) => finding.message)).toEqual([
+      "GOT Percent is required for all crops",
+      "Brochure is required for all crops",
+    ]);
+    expect(evaluateQualityRules({ ...paddy, brochureFilename: "paddy.pdf" }, [rule({ requiredFields: ["brochureUrl"] })])).toEqual([]);
+  });
+
+  it("applies every matching rule and keeps warnings apart from errors", () => {
+    const allCrops = rule({ id: "all", name: "All crops", minGermination: 70 });
+    const paddyWarning = rule({ id: "paddy", cropName: "Paddy", classType: "certified", minGermination: 90, severity: "warning" });
+    const findings = evaluateQualityRules({ ...paddy, normalGermination: "65" }, [allCrops, paddyWarning]);
+    expect(findings.map((finding) => [finding.ruleId, finding.severity])).toEqual([["all", "error"], ["paddy", "warning"]]);
+    expect(blockingFindings(findings).map((finding) => finding.ruleId)).toEqual(["all"]);
+    expect(qualityErrorMessage(blockingFindings(findings))).toBe("Blocked by quality rules: Germination 65% is below the 70% minimum for all crops");
+  });
+});
+
+describe("describeRuleScope", () => {
+  it("names the crop and class the rule covers", () => {
+    expect(describeRuleScope({ cropName: "Paddy", classType: "certified" })).toBe("Paddy, Certified");
+    expect(describeRuleScope({ cropName: null, classType: "foundation" })).toBe("all Foundation seed");
+    expect(describeRuleScope({ cropName: null, classType: null })).toBe("all crops");
+  });
+});
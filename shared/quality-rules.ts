@@ -0,0 +1,265 @@
+// Agronomic sanity checks on product data. A few basic checks apply to every product; admins add
+// rules per crop and class with minimum germination and GOT, a maximum validity and required
+// fields. Rules set to "error" block submitting, approving and importing; "warning" only flags.
+import { z } from "zod";
+import { addMonths, formatDisplayDate, parseDateInput } from "./dates";
+import type { QualityRule } from "./schema";
+import type { ProductStatus, WorkflowAction } from "./workflow";
+
+export const CLASS_TYPES = ["trustful", "certified", "foundation"] as const;
+
+export type ClassType = typeof CLASS_TYPES[number];
+
+export const CLASS_TYPE_LABELS: Record<ClassType, string> = {
+  trustful: "Trustful",
+  certified: "Certified",
+  foundation: "Foundation",
+};
+
+// Other spellings seen in spreadsheets: TL is a truthfully labelled (trustful) seed lot
+const CLASS_TYPE_ALIASES: Record<string, ClassType> = {
+  tl: "trustful",
+  truthful: "trustful",
+  "truthfully labelled": "trustful",
+  "truthfully labeled": "trustful",
+  cs: "certified",
+  "certified seed": "certified",
+  fs: "foundation",
+  "foundation seed": "foundation",
+};
+
+// The class a free-text value stands for, whatever its case, or null if it isn't one
+export function parseClassType(value: unknown): ClassType | null {
+  const key = String(value ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+  if ((CLASS_TYPES as readonly string[]).includes(key)) {
+    return key as ClassType;
+  }
+  return CLASS_TYPE_ALIASES[key] ?? null;
+}
+
+export const QUALITY_SEVERITIES = ["error", "warning"] as const;
+
+export type QualitySeverity = typeof QUALITY_SEVERITIES[number];
+
+export const QUALITY_SEVERITY_LABELS: Record<QualitySeverity, string> = {
+  error: "Blocking error",
+  warning: "Warning",
+};
+
+// Fields a rule can make mandatory. "brochureUrl" stands for the brochure, uploaded or linked.
+export const REQUIRABLE_FIELDS = {
+  brand: "Brand",
+  description: "Description",
+  mrp: "MRP",
+  netQty: "Net Quantity",
+  packSize: "Pack Size",
+  lotBatch: "New Lot No",
+  mfgDate: "Date of Packing",
+  expiryDate: "Valid Upto",
+  dateOfTest: "Date of Test",
+  normalGermination: "Normal Germination (%)",
+  gotPercent: "GOT Percent",
+  classType: "Class",
+  prodCode: "Product Code",
+  stackNo: "Stack No",
+  labelNumber: "Label Number",
+  brochureUrl: "Brochure",
+} as const;
+
+export type RequirableField = keyof typeof REQUIRABLE_FIELDS;
+
+const REQUIRABLE_FIELD_KEYS = Object.keys(REQUIRABLE_FIELDS) as [RequirableField, ...RequirableField[]];
+
+// Products are checked when they are sent for review and again when approved
+export const QUALITY_CHECKED_ACTIONS: WorkflowAction[] = ["submit", "resubmit", "approve"];
+
+// Edits to products under review or live must not break a blocking rule. Drafts and returned
+// products may be saved as they are and are checked when (re)submitted.
+export const QUALITY_ENFORCED_STATUSES: ProductStatus[] = ["pending", "approved"];
+
+const MAX_VALIDITY_MONTHS = 120;
+
+// Form inputs send "" for "any" and for limits that are not set
+function emptyToNull(value: unknown): unknown {
+  return typeof value === "string" && value.trim() === "" ? null : value;
+}
+
+function numberOrNull(value: unknown): unknown {
+  const cleared = emptyToNull(value);
+  if (cleared === undefined || cleared === null) {
+    return null;
+  }
+  return typeof cleared === "string" ? Number(cleared) : cleared;
+}
+
+const optionalPercent = (label: string) => z.preprocess(
+  numberOrNull,
+  z.number({ invalid_type_error: `${label} must be a number` })
+    .min(0, `${label} must be between 0 and 100`)
+    .max(100, `${label} must be between 0 and 100`)
+    .nullable(),
+);
+
+export const qualityRuleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  // null applies the rule to every crop or class
+  cropName: z.preprocess(emptyToNull, z.string().trim().max(100).nullable().default(null)),
+  classType: z.preprocess(emptyToNull, z.enum(CLASS_TYPES).nullable().default(null)),
+  minGermination: optionalPercent("Minimum germination"),
+  minGot: optionalPercent("Minimum GOT"),
+  maxValidityMonths: z.preprocess(
+    numberOrNull,
+    z.number({ invalid_type_error: "Maximum validity must be a number of months" })
+      .int("Maximum validity must be a whole number of months")
+      .min(1, "Maximum validity must be at least 1 month")
+      .max(MAX_VALIDITY_MONTHS, `Maximum validity can be at most ${MAX_VALIDITY_MONTHS} months`)
+      .nullable(),
+  ),
+  requiredFields: z.array(z.enum(REQUIRABLE_FIELD_KEYS))
+    .default([])
+    .transform((fields) => Array.from(new Set(fields))),
+  severity: z.enum(QUALITY_SEVERITIES).default("error"),
+  enabled: z.boolean().default(true),
+}).refine(
+  (rule) => rule.minGermination !== null || rule.minGot !== null || rule.maxValidityMonths !== null || rule.requiredFields.length > 0,
+  "Set at least one limit or required field",
+);
+
+export type QualityRuleInput = z.infer<typeof qualityRuleSchema>;
+
+export interface QualityFinding {
+  field: string;
+  severity: QualitySeverity;
+  message: string;
+  // null for the basic checks every product gets
+  ruleId: string | null;
+  ruleName: string | null;
+}
+
+type QualityCheckedField = "product" | "classType" | "normalGermination" | "gotPercent" | "mfgDate" | "expiryDate" | "brochureFilename" | RequirableField;
+
+// Products as stored, form values or import rows; numbers may still be text
+export type QualityCheckedProduct = { [K in QualityCheckedField]?: unknown };
+
+type EvaluatedRule = Pick<
+  QualityRule,
+  "id" | "name" | "cropName" | "classType" | "minGermination" | "minGot" | "maxValidityMonths" | "requiredFields" | "severity" | "enabled"
+>;
+
+function text(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const trimmed = String(value).trim();
+  return trimmed === "" ? null : trimmed;
+}
+
+function percent(value: unknown): number | null {
+  const raw = text(value);
+  return raw === null ? null : Number(raw.replace(/%$/, ""));
+}
+
+function date(value: unknown): string | null {
+  const raw = text(value);
+  return raw === null ? null : parseDateInput(raw);
+}
+
+function isPresent(product: QualityCheckedProduct, field: RequirableField): boolean {
+  if (field === "brochureUrl") {
+    return text(product.brochureUrl) !== null || text(product.brochureFilename) !== null;
+  }
+  return text(product[field]) !== null;
+}
+
+// "Paddy, Certified", "all Foundation seed" or "all crops"
+export function describeRuleScope(rule: Pick<QualityRule, "cropName" | "classType">): string {
+  const classLabel = rule.classType ? CLASS_TYPE_LABELS[rule.classType as ClassType] ?? rule.classType : null;
+  if (rule.cropName) {
+    return classLabel ? `${rule.cropName}, ${classLabel}` : rule.cropName;
+  }
+  return classLabel ? `all ${classLabel} seed` : "all crops";
+}
+
+// Crop names and classes match whatever their case; an empty crop or class matches every product
+export function ruleApplies(rule: EvaluatedRule, product: QualityCheckedProduct): boolean {
+  if (!rule.enabled) {
+    return false;
+  }
+  const crop = text(product.product);
+  if (rule.cropName && (!crop || crop.toLowerCase() !== rule.cropName.trim().toLowerCase())) {
+    return false;
+  }
+  return !rule.classType || parseClassType(product.classType) === rule.classType.toLowerCase();
+}
+
+// Checks every product gets whatever the rules say
+function basicFindings(product: QualityCheckedProduct): QualityFinding[] {
+  const findings: QualityFinding[] = [];
+  const add = (field: string, message: string) =>
+    findings.push({ field, severity: "error", message, ruleId: null, ruleName: null });
+
+  for (const field of ["normalGermination", "gotPercent"] as const) {
+    const value = percent(product[field]);
+    if (value !== null && (isNaN(value) || value < 0 || value > 100)) {
+      add(field, `${REQUIRABLE_FIELDS[field]} must be between 0 and 100, not ${text(product[field])}`);
+    }
+  }
+
+  const mfgDate = date(product.mfgDate);
+  const expiryDate = date(product.expiryDate);
+  if (mfgDate && expiryDate && expiryDate <= mfgDate) {
+    add("expiryDate", `Valid Upto ${formatDisplayDate(expiryDate)} must be after the Date of Packing ${formatDisplayDate(mfgDate)}`);
+  }
+  return findings;
+}
+
+function ruleFindings(rule: EvaluatedRule, product: QualityCheckedProduct): QualityFinding[] {
+  const findings: QualityFinding[] = [];
+  const scope = describeRuleScope(rule);
+  const add = (field: string, message: string) =>
+    findings.push({ field, severity: rule.severity as QualitySeverity, message, ruleId: rule.id, ruleName: rule.name });
+
+  // Limits only apply to values that are filled in; use required fields to insist on them
+  const germination = percent(product.normalGermination);
+  if (rule.minGermination !== null && germination !== null && germination < rule.minGermination) {
+    add("normalGermination", `Germination ${germination}% is below the ${rule.minGermination}% minimum for ${scope}`);
+  }
+
+  const got = percent(product.gotPercent);
+  if (rule.minGot !== null && got !== null && got < rule.minGot) {
+    add("gotPercent", `GOT ${got}% is below the ${rule.minGot}% minimum for ${scope}`);
+  }
+
+  const mfgDate = date(product.mfgDate);
+  const expiryDate = date(product.expiryDate);
+  if (rule.maxValidityMonths !== null && mfgDate && expiryDate && expiryDate > addMonths(mfgDate, rule.maxValidityMonths)) {
+    add(
+      "expiryDate",
+      `Valid Upto ${formatDisplayDate(expiryDate)} is more than ${rule.maxValidityMonths} months after packing on ${formatDisplayDate(mfgDate)}, the limit for ${scope}`,
+    );
+  }
+
+  for (const field of rule.requiredFields) {
+    if (!isPresent(product, field)) {
+      add(field, `${REQUIRABLE_FIELDS[field] ?? field} is required for ${scope}`);
+    }
+  }
+  return findings;
+}
+
+// Every basic check and matching rule the product breaks. All matching rules apply, so a
+// crop-specific rule adds to the rules for all crops rather than replacing them.
+export function evaluateQualityRules(product: QualityCheckedProduct, rules: EvaluatedRule[]): QualityFinding[] {
+  return [
+    ...basicFindings(product),
+    ...rules.filter((rule) => ruleApplies(rule, product)).flatMap((rule) => ruleFindings(rule, product)),
+  ];
+}
+
+export function blockingFindings(findings: QualityFinding[]): QualityFinding[] {
+  return findings.filter((finding) => finding.severity === "error");
+}
+
+export function qualityErrorMessage(errors: QualityFinding[]): string {
+  return `Blocked by quality rules: ${errors.map((finding) => finding.message).join("; ")}`;
+}
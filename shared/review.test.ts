@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_REVIEW_CHECKLIST, changesSinceLastReview, checklistResults, evaluateChecklist } from "./review";
+import type { ProductEventWithActor, ProductFieldChange } from "./schema";
+
+let nextEvent = 0;
+
+function event(eventType: string, changes: ProductFieldChange[] = [], extra: Partial<ProductEventWithActor> = {}): ProductEventWithActor {
+  nextEvent += 1;
+  return {
+    id: `event-${nextEvent}`,
+    productId: "product-1",
+    productUniqueId: "GGS-2026-0000017",
+    eventType,
+    actorId: "user-1",
+    actorUsername: "operator",
+    changes,
+    comment: null,
+    checklist: null,
+    createdAt: new Date(2026, 0, nextEvent),
+    ...extra,
+  };
+}
+
+const change = (field: string, oldValue: string | null, newValue: string | null): ProductFieldChange => ({ field, oldValue, newValue });
+
+describe("changesSinceLastReview", () => {
+  it("has nothing to compare before the first review", () => {
+    const events = [event("created", [change("brand", null, "Green Gold")]), event("submitted"), event("updated", [change("mrp", "100", "120")])];
+    expect(changesSinceLastReview(events)).toEqual({ previousReview: null, changes: [] });
+  });
+
+  it("folds the edits after the last review into one change per field", () => {
+    const review = event("changes_requested", [change("status", "pending", "changes_requested")], {
+      actorUsername: "reviewer",
+      comment: "Fix the MRP",
+    });
+    const events = [
+      event("created", [change("mrp", null, "100")]),
+      event("submitted", [change("status", "draft", "pending")]),
+      review,
+      event("updated", [change("mrp", "100", "110")]),
+      event("updated", [change("mrp", "110", "120"), change("brand", "GG", "Green Gold")]),
+      event("resubmitted", [change("status", "changes_requested", "pending")]),
+    ];
+
+    const { previousReview, changes } = changesSinceLastReview(events);
+    expect(previousReview).toEqual({
+      eventType: "changes_requested",
+      actorUsername: "reviewer",
+      comment: "Fix the MRP",
+      createdAt: review.createdAt,
+      checklist: null,
+    });
+    expect(changes).toEqual([change("mrp", "100", "120"), change("brand", "GG", "Green Gold")]);
+  });
+
+  it("drops fields edited back to their value at the review and workflow fields", () => {
+    const events = [
+      event("rejected", [change("status", "pending", "rejected"), change("rejectionReason", null, "Wrong lot")]),
+      event("updated", [change("lotNo", "L1", "L2")]),
+      event("updated", [change("lotNo", "L2", "L1"), change("remainingQuantity", "10", "8")]),
+      event("resubmitted", [change("status", "rejected", "pending"), change("rejectionReason", "Wrong lot", null)]),
+    ];
+    expect(changesSinceLastReview(events).changes).toEqual([]);
+  });
+
+  it("compares against the latest of several reviews", () => {
+    const events = [
+      event("approved"),
+      event("updated", [change("mrp", "100", "110")]),
+      event("revoked", [], { comment: "Price error" }),
+      event("updated", [change("mrp", "110", "105")]),
+    ];
+    const { previousReview, changes } = changesSinceLastReview(events);
+    expect(previousReview?.eventType).toBe("revoked");
+    expect(changes).toEqual([change("mrp", "110", "105")]);
+  });
+});
+
+describe("checklist", () => {
+  const product = {
+    product: "Hybrid Maize",
+    brand: null,
+    marketCode: null,
+    description: null,
+    normalGermination: "78",
+    gotPercent: null,
+    gotAve: null,
+    mfgDate: "2025-01-10",
+    expiryDate: "2025-10-09",
+    brochureUrl: null,
+    brochureFilename: "maize.pdf",
+  };
+
+  it("works out the automatic checks", () => {
+    const evaluations = evaluateChecklist(product, DEFAULT_REVIEW_CHECKLIST);
+    expect(evaluations.map((item) => [item.id, item.automatic])).toEqual([
+      ["germination_minimum", "fail"],
+      ["got_for_hybrids", "fail"],
+      ["expiry_after_mfg", "pass"],
+      ["brochure_attached", "pass"],
+    ]);
+  });
+
+  it("lists the required items the reviewer didn't tick", () => {
+    const evaluations = evaluateChecklist(product, DEFAULT_REVIEW_CHECKLIST);
+    const { results, missingRequired } = checklistResults(evaluations, [
+      { itemId: "germination_minimum", checked: true },
+      { itemId: "got_for_hybrids", checked: false },
+      { itemId: "brochure_attached", checked: true },
+    ]);
+    expect(results.filter((result) => result.checked).map((result) => result.itemId)).toEqual(["germination_minimum", "brochure_attached"]);
+    expect(missingRequired).toEqual(["GOT result present for hybrids", "Valid Upto date after the packing date"]);
+  });
+});
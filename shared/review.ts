@@ -0,0 +1,243 @@
+// What reviewers see when deciding on a product: the QC checklist they tick and, for products
+// that come back after a review, the fields changed since then
+import { z } from "zod";
+import type { Product, ProductEventType, ProductEventWithActor, ProductFieldChange } from "./schema";
+import type { WorkflowAction } from "./workflow";
+import type { QualityFinding } from "./quality-rules";
+
+// Checks the server can also work out from the product data, shown to the reviewer as a hint
+export const CHECKLIST_CHECKS = [
+  "germination_minimum",
+  "got_for_hybrids",
+  "expiry_after_mfg",
+  "brochure_attached",
+] as const;
+
+export type ChecklistCheck = typeof CHECKLIST_CHECKS[number];
+
+export const CHECKLIST_CHECK_LABELS: Record<ChecklistCheck, string> = {
+  germination_minimum: "Germination at or above the minimum",
+  got_for_hybrids: "GOT result present for hybrids",
+  expiry_after_mfg: "Valid Upto date after the packing date",
+  brochure_attached: "Brochure attached",
+};
+
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  // null for items only the reviewer can judge
+  check: ChecklistCheck | null;
+  enabled: boolean;
+  // Must be ticked before the product can be approved
+  required: boolean;
+}
+
+export interface ReviewChecklistSettings {
+  // Lowest normal germination (%) that passes the germination check
+  minGermination: number;
+  items: ChecklistItem[];
+}
+
+export const DEFAULT_REVIEW_CHECKLIST: ReviewChecklistSettings = {
+  minGermination: 80,
+  items: CHECKLIST_CHECKS.map((check) => ({
+    id: check,
+    label: CHECKLIST_CHECK_LABELS[check],
+    check,
+    enabled: true,
+    required: true,
+  })),
+};
+
+export const MAX_CHECKLIST_ITEMS = 20;
+
+export const reviewChecklistSettingsSchema = z.object({
+  minGermination: z.coerce.number().int().min(0).max(100),
+  items: z.array(z.object({
+    id: z.string().min(1).max(64),
+    label: z.string().trim().min(1, "Every checklist item needs a label").max(120),
+    check: z.enum(CHECKLIST_CHECKS).nullable(),
+    enabled: z.boolean(),
+    required: z.boolean(),
+  })).max(MAX_CHECKLIST_ITEMS, `At most ${MAX_CHECKLIST_ITEMS} checklist items`),
+}).superRefine((settings, ctx) => {
+  const ids = settings.items.map((item) => item.id);
+  if (new Set(ids).size !== ids.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Checklist item IDs must be unique", path: ["items"] });
+  }
+  const checks = settings.items.map((item) => item.check).filter((check) => check !== null);
+  if (new Set(checks).size !== checks.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Each automatic check can only be used once", path: ["items"] });
+  }
+}) satisfies z.ZodType<ReviewChecklistSettings>;
+
+export type AutomaticResult = "pass" | "fail" | "not_applicable";
+
+export interface CheckOutcome {
+  result: AutomaticResult;
+  detail: string;
+}
+
+type CheckedProduct = Pick<
+  Product,
+  "product" | "brand" | "marketCode" | "description" | "normalGermination" | "gotPercent" | "gotAve" | "mfgDate" | "expiryDate" | "brochureUrl" | "brochureFilename"
+>;
+
+// Products have no hybrid flag; hybrids carry the word in their crop, variety, brand or description
+export function isHybrid(product: CheckedProduct): boolean {
+  return [product.product, product.marketCode, product.brand, product.description]
+    .some((value) => !!value && /hybrid/i.test(value));
+}
+
+export function evaluateCheck(check: ChecklistCheck, product: CheckedProduct, settings: ReviewChecklistSettings): CheckOutcome {
+  switch (check) {
+    case "germination_minimum": {
+      if (product.normalGermination === null || product.normalGermination === "") {
+        return { result: "fail", detail: "No germination result" };
+      }
+      const germination = Number(product.normalGermination);
+      return germination >= settings.minGermination
+        ? { result: "pass", detail: `Germination ${germination}%` }
+        : { result: "fail", detail: `Germination ${germination}% is below the ${settings.minGermination}% minimum` };
+    }
+    case "got_for_hybrids":
+      if (!isHybrid(product)) {
+        return { result: "not_applicable", detail: "Not a hybrid" };
+      }
+      return product.gotPercent || product.gotAve
+        ? { result: "pass", detail: `GOT ${product.gotPercent ?? product.gotAve}` }
+        : { result: "fail", detail: "No GOT result for a hybrid" };
+    case "expiry_after_mfg":
+      if (!product.mfgDate || !product.expiryDate) {
+        return { result: "fail", detail: "Packing or Valid Upto date missing" };
+      }
+      return product.expiryDate > product.mfgDate
+        ? { result: "pass", detail: `${product.mfgDate} to ${product.expiryDate}` }
+        : { result: "fail", detail: `Valid Upto ${product.expiryDate} is not after packing on ${product.mfgDate}` };
+    case "brochure_attached":
+      return product.brochureUrl || product.brochureFilename
+        ? { result: "pass", detail: product.brochureFilename || product.brochureUrl! }
+        : { result: "fail", detail: "No brochure attached" };
+  }
+}
+
+export type ChecklistItemEvaluation = ChecklistItem & { automatic: AutomaticResult | null; detail: string | null };
+
+// The enabled checklist items with the automatic results for this product
+export function evaluateChecklist(product: CheckedProduct, settings: ReviewChecklistSettings): ChecklistItemEvaluation[] {
+  return settings.items
+    .filter((item) => item.enabled)
+    .map((item) => {
+      const outcome = item.check ? evaluateCheck(item.check, product, settings) : null;
+      return { ...item, automatic: outcome?.result ?? null, detail: outcome?.detail ?? null };
+    });
+}
+
+// Review decisions that record the checklist
+export const CHECKLIST_ACTIONS: WorkflowAction[] = ["approve", "request_changes", "reject"];
+
+// Items the reviewer ticked; unlisted items count as not ticked
+export const checklistAnswersSchema = z.array(z.object({
+  itemId: z.string(),
+  checked: z.boolean(),
+})).max(50);
+
+export type ChecklistAnswer = z.infer<typeof checklistAnswersSchema>[number];
+
+// Stored with the review event, including the label so history survives checklist changes
+export interface ChecklistResult {
+  itemId: string;
+  label: string;
+  required: boolean;
+  checked: boolean;
+  automatic: AutomaticResult | null;
+  detail: string | null;
+}
+
+export function checklistResults(
+  evaluations: ChecklistItemEvaluation[],
+  answers: ChecklistAnswer[],
+): { results: ChecklistResult[]; missingRequired: string[] } {
+  const ticked = new Set(answers.filter((answer) => answer.checked).map((answer) => answer.itemId));
+  const results = evaluations.map((item) => ({
+    itemId: item.id,
+    label: item.label,
+    required: item.required,
+    checked: ticked.has(item.id),
+    automatic: item.automatic,
+    detail: item.detail,
+  }));
+  return {
+    results,
+    missingRequired: results.filter((result) => result.required && !result.checked).map((result) => result.label),
+  };
+}
+
+// Decisions a re-submitted product is compared against
+export const REVIEW_EVENT_TYPES: ProductEventType[] = ["approved", "changes_requested", "rejected", "revoked"];
+
+// Set by the workflow rather than edited, so not worth showing in the diff
+const WORKFLOW_FIELDS = new Set([
+  "status",
+  "rejectionReason",
+  "approvalDate",
+  "approvedBy",
+  "submissionDate",
+  "submittedBy",
+  "remainingQuantity",
+]);
+
+export interface PreviousReview {
+  eventType: ProductEventType;
+  actorUsername: string | null;
+  comment: string | null;
+  createdAt: Date;
+  checklist: ChecklistResult[] | null;
+}
+
+// GET /api/products/:id/review
+export interface ProductReviewContext {
+  previousReview: PreviousReview | null;
+  // Field values at the previous review against the current ones
+  changes: ProductFieldChange[];
+  checklist: ChecklistItemEvaluation[];
+  // Quality rules the product currently breaks; errors stop it from being approved
+  qualityFindings: QualityFinding[];
+}
+
+// Folds the edits recorded since the last review decision into one change per field, keeping
+// the value at that decision and the current one. Fields edited back to their old value drop out.
+export function changesSinceLastReview(events: ProductEventWithActor[]): Pick<ProductReviewContext, "previousReview" | "changes"> {
+  let reviewIndex = -1;
+  events.forEach((event, index) => {
+    if (REVIEW_EVENT_TYPES.includes(event.eventType as ProductEventType)) {
+      reviewIndex = index;
+    }
+  });
+  if (reviewIndex === -1) {
+    return { previousReview: null, changes: [] };
+  }
+
+  const review = events[reviewIndex];
+  const byField = new Map<string, ProductFieldChange>();
+  for (const event of events.slice(reviewIndex + 1)) {
+    for (const change of event.changes) {
+      if (WORKFLOW_FIELDS.has(change.field)) {
+        continue;
+      }
+      const earlier = byField.get(change.field);
+      byField.set(change.field, { field: change.field, oldValue: earlier ? earlier.oldValue : change.oldValue, newValue: change.newValue });
+    }
+  }
+
+  return {
+    previousReview: {
+      eventType: review.eventType as ProductEventType,
+      actorUsername: review.actorUsername,
+      comment: review.comment,
+      createdAt: review.createdAt,
+      checklist: review.checklist ?? null,
+    },
+    changes: Array.from(byField.values()).filter((change) => change.oldValue !== change.newValue),
+  };
+}
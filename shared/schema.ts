@@ -1,18 +1,61 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, timestamp, boolean, uuid, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, decimal, timestamp, date, boolean, uuid, unique, jsonb, index, integer, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { columnMappingSchema, type ColumnMapping } from "./import";
+import { productDateSchema } from "./dates";
+import type { Permission } from "./permissions";
+import type { NotificationPreferences } from "./notifications";
+import type { ChecklistItem, ChecklistResult } from "./review";
+import type { QualitySeverity, RequirableField } from "./quality-rules";
 
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
-  role: text("role").notNull(), // 'operator' or 'admin'
+  role: text("role").notNull(), // a role name, see shared/permissions.ts
+  // Deactivated users can't sign in; their history stays linked to them
+  active: boolean("active").notNull().default(true),
+  // Set when an admin resets the password; the user must choose a new one before doing anything else
+  mustChangePassword: boolean("must_change_password").notNull().default(false),
+  // Failed sign-ins since the last successful one, unlock or lockout (see server/login-protection.ts)
+  failedLoginCount: integer("failed_login_count").notNull().default(0),
+  lastFailedLoginAt: timestamp("last_failed_login_at"),
+  lockedUntil: timestamp("locked_until"),
+  // Sign-in asks for an authenticator code once set up (see user_totp)
+  twoFactorEnabled: boolean("two_factor_enabled").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Custom roles and edited copies of the built-in roles in shared/permissions.ts
+export const roles = pgTable("roles", {
+  name: text("name").primaryKey(),
+  label: text("label").notNull(),
+  description: text("description"),
+  permissions: jsonb("permissions").$type<string[]>().notNull().default([]),
+  updatedBy: uuid("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Dealers and distributors that sell our lots
+export const dealers = pgTable("dealers", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  region: text("region"),
+  licenceNumber: text("licence_number"),
+  contactPerson: text("contact_person"),
+  phone: text("phone"),
+  email: text("email"),
+  gstin: text("gstin").unique(),
+  address: text("address"),
+  // Inactive dealers are kept for history but can't receive new dispatches
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const products = pgTable("products", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   uniqueId: text("unique_id").notNull().unique(),
@@ -23,8 +66,9 @@ export const products = pgTable("products", {
   mrp: decimal("mrp", { precision: 10, scale: 2 }),
   netQty: text("net_qty"),
   lotBatch: text("lot_batch"),
-  mfgDate: text("mfg_date"),
-  expiryDate: text("expiry_date"),
+  // Calendar dates as "YYYY-MM-DD" strings (see shared/dates.ts)
+  mfgDate: date("mfg_date", { mode: "string" }),
+  expiryDate: date("expiry_date", { mode: "string" }),
   customerCare: text("customer_care"),
   email: text("email"),
   companyAddress: text("company_address"),
@@ -32,7 +76,7 @@ export const products = pgTable("products", {
   brochureUrl: text("brochure_url"),
   brochureFilename: text("brochure_filename"),
   packSize: text("pack_size"),
-  dateOfTest: text("date_of_test"),
+  dateOfTest: date("date_of_test", { mode: "string" }),
   unitSalePrice: decimal("unit_sale_price", { precision: 10, scale: 2 }),
   noOfPkts: decimal("no_of_pkts", { precision: 10, scale: 2 }),
   totalPkts: decimal("total_pkts", { precision: 10, scale: 2 }),
@@ -55,14 +99,327 @@ export const products = pgTable("products", {
   gotAve: decimal("got_ave", { precision: 15, scale: 4 }),
   labelNumber: text("label_number"),
   classType: text("class_type"), // 'trustful', 'certified', 'foundation'
-  status: text("status").notNull().default("pending"), // 'pending', 'approved', 'rejected'
+  status: text("status").notNull().default("pending"), // see PRODUCT_STATUSES in shared/workflow.ts
   submissionDate: timestamp("submission_date").defaultNow(),
   approvalDate: timestamp("approval_date"),
   submittedBy: uuid("submitted_by").references(() => users.id),
   approvedBy: uuid("approved_by").references(() => users.id),
   rejectionReason: text("rejection_reason"),
+  // Dealer the lot is sold through, when assigned directly rather than by a dispatch
+  dealerId: uuid("dealer_id").references(() => dealers.id, { onDelete: "set null" }),
+});
+
+// Append-only audit trail of product changes. Rows are never updated or deleted,
+// and product_id deliberately has no foreign key so history survives product deletion.
+export const productEvents = pgTable("product_events", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: uuid("product_id").notNull(),
+  productUniqueId: text("product_unique_id"),
+  eventType: text("event_type").notNull(), // see PRODUCT_EVENT_TYPES
+  actorId: uuid("actor_id").references(() => users.id, { onDelete: "restrict" }), // the trail keeps who made each change
+  changes: jsonb("changes").$type<ProductFieldChange[]>().notNull().default([]),
+  comment: text("comment"),
+  // QC checklist ticked by the reviewer on approvals, rejections and returns (see shared/review.ts)
+  checklist: jsonb("checklist").$type<ChecklistResult[]>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  productIdx: index("product_events_product_id_idx").on(table.productId, table.createdAt),
+}));
+
+// Recalls of approved products. A recall targets a single product, a lot, a product
+// code or a crop/variety; matching products are moved to the "recalled" status and
+// their public tracking page shows the reason and instructions.
+export const productRecalls = pgTable("product_recalls", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: text("scope").notNull(), // see RECALL_SCOPES
+  productId: uuid("product_id"),
+  lotNo: text("lot_no"),
+  prodCode: text("prod_code"),
+  cropName: text("crop_name"),
+  varietyCode: text("variety_code"),
+  reason: text("reason").notNull(),
+  instructions: text("instructions"),
+  recallDate: timestamp("recall_date").notNull(),
+  affectedCount: integer("affected_count").notNull().default(0),
+  createdBy: uuid("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Saved column mappings for recurring import file formats (e.g. warehouse exports)
+export const importMappingProfiles = pgTable("import_mapping_profiles", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  mapping: jsonb("mapping").$type<ColumnMapping>().notNull(),
+  createdBy: uuid("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Unique ID format chosen by admins; a single row keyed "default" (see shared/unique-id.ts)
+export const uniqueIdSettings = pgTable("unique_id_settings", {
+  id: text("id").primaryKey().default("default"),
+  prefix: text("prefix").notNull(),
+  pattern: text("pattern").notNull(),
+  sequenceDigits: integer("sequence_digits").notNull(),
+  updatedBy: uuid("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Last issued counter per scope: unique ID prefix, year and crop (e.g. "unique-id:GGS:2026:*",
+// see uniqueIdCounterKey) and dispatch note years (e.g. "dispatch-note:2026")
+export const uniqueIdSequences = pgTable("unique_id_sequences", {
+  scope: text("scope").primaryKey(),
+  value: integer("value").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Expiry and re-test alert windows chosen by admins; a single row keyed "default" (see shared/alerts.ts)
+export const alertSettings = pgTable("alert_settings", {
+  id: text("id").primaryKey().default("default"),
+  expiryWarningDays: integer("expiry_warning_days").notNull(),
+  germinationValidityMonths: integer("germination_validity_months").notNull(),
+  retestWarningDays: integer("retest_warning_days").notNull(),
+  updatedBy: uuid("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// QC checklist shown to reviewers; a single row keyed "default" (see shared/review.ts)
+export const reviewChecklistSettings = pgTable("review_checklist_settings", {
+  id: text("id").primaryKey().default("default"),
+  minGermination: integer("min_germination").notNull(),
+  items: jsonb("items").$type<ChecklistItem[]>().notNull(),
+  updatedBy: uuid("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Admin-defined limits on product data per crop and class (see shared/quality-rules.ts).
+// An empty crop or class applies the rule to every crop or class.
+export const qualityRules = pgTable("quality_rules", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  cropName: text("crop_name"),
+  classType: text("class_type"),
+  minGermination: real("min_germination"),
+  minGot: real("min_got"),
+  maxValidityMonths: integer("max_validity_months"),
+  requiredFields: jsonb("required_fields").$type<RequirableField[]>().notNull().default([]),
+  severity: text("severity").$type<QualitySeverity>().notNull().default("error"),
+  enabled: boolean("enabled").default(true).notNull(),
+  updatedBy: uuid("updated_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Authenticator app secret per user. enabledAt stays empty until the user confirms the
+// first code; lastUsedStep stops the same code from being used twice.
+export const userTotp = pgTable("user_totp", {
+  userId: uuid("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(),
+  enabledAt: timestamp("enabled_at"),
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Single-use codes for signing in without the authenticator app, stored hashed
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userIdx: index("recovery_codes_user_idx").on(table.userId),
+}));
+
+// Roles that must use two-factor authentication; a single row keyed "default" (see shared/two-factor.ts)
+export const twoFactorSettings = pgTable("two_factor_settings", {
+  id: text("id").primaryKey().default("default"),
+  requiredRoles: jsonb("required_roles").$type<string[]>().notNull(),
+  updatedBy: uuid("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Bearer tokens for API access (see shared/api-tokens.ts). Only a SHA-256 hash of the token
+// is stored; the token acts as userId with at most the listed scopes.
+export const apiTokens = pgTable("api_tokens", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  kind: text("kind").notNull(), // see ApiTokenKind
+  tokenPrefix: text("token_prefix").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  scopes: jsonb("scopes").$type<string[]>().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Every sign-in attempt, kept for throttling by IP address and for review by admins
+export const loginAttempts = pgTable("login_attempts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull(),
+  // Null when the username doesn't belong to an account
+  userId: uuid("user_id").references(() => users.id, { onDelete: "set null" }),
+  ipAddress: text("ip_address"),
+  outcome: text("outcome").notNull(), // see LOGIN_OUTCOMES in shared/login-attempts.ts
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  ipIdx: index("login_attempts_ip_idx").on(table.ipAddress, table.createdAt),
+  createdIdx: index("login_attempts_created_at_idx").on(table.createdAt),
+}));
+
+// A user's in-app notification feed (see shared/notifications.ts)
+export const notifications = pgTable("notifications", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // see NOTIFICATION_TYPES
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  productId: uuid("product_id").references(() => products.id, { onDelete: "set null" }),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("notifications_user_idx").on(table.userId, table.createdAt),
+}));
+
+// Only users who changed their preferences have a row; missing types use the defaults
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: uuid("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  preferences: jsonb("preferences").$type<Partial<NotificationPreferences>>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Endpoints that receive product lifecycle events (see shared/webhooks.ts). The secret signs
+// each delivery, so it is kept as is.
+export const webhooks = pgTable("webhooks", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  events: jsonb("events").$type<string[]>().notNull(),
+  active: boolean("active").default(true).notNull(),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One event for one webhook, with the outcome of its latest attempt
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  webhookId: uuid("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  event: text("event").notNull(),
+  payload: jsonb("payload").notNull(), // WebhookPayload as sent
+  status: text("status").notNull().default("pending"), // see WEBHOOK_DELIVERY_STATUSES
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  dueIdx: index("webhook_deliveries_due_idx").on(table.status, table.nextAttemptAt),
+  webhookIdx: index("webhook_deliveries_webhook_idx").on(table.webhookId, table.createdAt),
+}));
+
+// Password rules chosen by admins; a single row keyed "default" (see shared/password-policy.ts)
+export const passwordPolicySettings = pgTable("password_policy_settings", {
+  id: text("id").primaryKey().default("default"),
+  minLength: integer("min_length").notNull(),
+  requireUppercase: boolean("require_uppercase").notNull(),
+  requireLowercase: boolean("require_lowercase").notNull(),
+  requireNumber: boolean("require_number").notNull(),
+  requireSymbol: boolean("require_symbol").notNull(),
+  rejectCommonPasswords: boolean("reject_common_passwords").notNull(),
+  historyCount: integer("history_count").notNull(),
+  updatedBy: uuid("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Hashes of the passwords each user has had, newest first, to block reuse
+export const passwordHistory = pgTable("password_history", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("password_history_user_idx").on(table.userId, table.createdAt),
+}));
+
+// Open alerts found by the last alert scan. Each scan replaces the set, keeping
+// detectedAt for alerts that were already open.
+export const productAlerts = pgTable("product_alerts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // see ALERT_TYPES
+  dueDate: date("due_date", { mode: "string" }).notNull(),
+  detectedAt: timestamp("detected_at").defaultNow().notNull(),
+}, (table) => ({
+  productTypeUnique: unique().on(table.productId, table.type),
+}));
+
+// Warehouse stock ledger (see shared/inventory.ts). Rows are only ever inserted, and a
+// product with movements can't be deleted.
+export const stockMovements = pgTable("stock_movements", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "restrict" }),
+  type: text("type").notNull(), // see STOCK_MOVEMENT_TYPES
+  reference: text("reference"), // e.g. dispatch note or GRN number
+  note: text("note"),
+  createdBy: uuid("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  productIdx: index("stock_movements_product_id_idx").on(table.productId, table.createdAt),
+}));
+
+// Signed quantity and packet changes of a movement at one location and stack
+export const stockMovementLines = pgTable("stock_movement_lines", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  movementId: uuid("movement_id").notNull().references(() => stockMovements.id, { onDelete: "cascade" }),
+  productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "restrict" }),
+  location: text("location").notNull().default(""),
+  stackNo: text("stack_no").notNull().default(""),
+  quantity: decimal("quantity", { precision: 15, scale: 2 }).notNull(),
+  packets: decimal("packets", { precision: 10, scale: 2 }).notNull().default("0"),
+}, (table) => ({
+  balanceIdx: index("stock_movement_lines_balance_idx").on(table.productId, table.location, table.stackNo),
+}));
+
+// Dispatch notes sending lots to dealers (see shared/dispatch.ts)
+export const dispatchNotes = pgTable("dispatch_notes", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  noteNumber: text("note_number").notNull().unique(),
+  dealerId: uuid("dealer_id").references(() => dealers.id, { onDelete: "set null" }),
+  // Dealer name and address as printed on the note
+  dealerName: text("dealer_name").notNull(),
+  dealerAddress: text("dealer_address"),
+  vehicleNo: text("vehicle_no").notNull(),
+  driverName: text("driver_name"),
+  dispatchDate: date("dispatch_date", { mode: "string" }).notNull(),
+  remarks: text("remarks"),
+  createdBy: uuid("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One lot on a dispatch note, with the stock movement that took it out of the warehouse.
+// Dispatched products can't be deleted, so recalls can still reach their dealers.
+export const dispatchNoteItems = pgTable("dispatch_note_items", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  dispatchNoteId: uuid("dispatch_note_id").notNull().references(() => dispatchNotes.id, { onDelete: "cascade" }),
+  productId: uuid("product_id").notNull().references(() => products.id, { onDelete: "restrict" }),
+  stockMovementId: uuid("stock_movement_id").references(() => stockMovements.id, { onDelete: "set null" }),
+  fromLocation: text("from_location").notNull(),
+  fromStack: text("from_stack").notNull().default(""),
+  quantity: decimal("quantity", { precision: 15, scale: 2 }).notNull(),
+  packets: decimal("packets", { precision: 10, scale: 2 }).notNull().default("0"),
+}, (table) => ({
+  productIdx: index("dispatch_note_items_product_id_idx").on(table.productId),
+  noteIdx: index("dispatch_note_items_dispatch_note_id_idx").on(table.dispatchNoteId),
+}));
+
 // Crops and varieties management tables
 export const crops = pgTable("crops", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -133,6 +490,13 @@ export const usersRelations = relations(users, ({ many }) => ({
   approvedProducts: many(products, { relationName: "approvedProducts" }),
 }));
 
+export const productEventsRelations = relations(productEvents, ({ one }) => ({
+  actor: one(users, {
+    fields: [productEvents.actorId],
+    references: [users.id],
+  }),
+}));
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   email: true,
@@ -140,6 +504,31 @@ export const insertUserSchema = createInsertSchema(users).pick({
   role: true,
 });
 
+// Account changes made through user management; passwords are reset separately
+export const updateUserSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").optional(),
+  email: z.string().trim().email("Invalid email address").optional(),
+  role: z.string().min(1).optional(),
+  active: z.boolean().optional(),
+});
+
+// Password strength is checked against the password policy (shared/password-policy.ts)
+export const passwordResetSchema = z.object({
+  // A random temporary password is generated when none is given
+  password: z.preprocess(
+    (value) => value === "" ? undefined : value,
+    z.string().optional(),
+  ),
+});
+
+export const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(1, "New password is required"),
+}).refine((data) => data.newPassword !== data.currentPassword, {
+  path: ["newPassword"],
+  message: "Choose a password different from the current one",
+});
+
 export const insertProductSchema = createInsertSchema(products).omit({
   id: true,
   submissionDate: true,
@@ -154,14 +543,14 @@ export const insertProductSchema = createInsertSchema(products).omit({
   description: z.string().nullable().optional(),
   netQty: z.string().nullable().optional(),
   lotBatch: z.string().nullable().optional(),
-  mfgDate: z.string().nullable().optional(),
-  expiryDate: z.string().nullable().optional(),
+  mfgDate: productDateSchema,
+  expiryDate: productDateSchema,
   customerCare: z.string().nullable().optional(),
   email: z.string().nullable().optional(),
   companyAddress: z.string().nullable().optional(),
   marketedBy: z.string().nullable().optional(),
   packSize: z.string().nullable().optional(),
-  dateOfTest: z.string().nullable().optional(),
+  dateOfTest: productDateSchema,
   from: z.string().nullable().optional(),
   to: z.string().nullable().optional(),
   marketingCode: z.string().nullable().optional(),
@@ -172,6 +561,7 @@ export const insertProductSchema = createInsertSchema(products).omit({
   location: z.string().nullable().optional(),
   stageCode: z.string().nullable().optional(),
   stackNo: z.string().nullable().optional(),
+  dealerId: z.string().uuid().nullable().optional(),
   mrp: z.union([z.string(), z.number()]).transform(val => String(val)).nullable().optional(),
   unitSalePrice: z.union([z.string(), z.number()]).transform(val => String(val)).nullable().optional(),
   noOfPkts: z.union([z.string(), z.number()]).transform(val => String(val)).nullable().optional(),
@@ -184,7 +574,74 @@ export const insertProductSchema = createInsertSchema(products).omit({
   gotAve: z.union([z.string(), z.number()]).transform(val => String(val)).nullable().optional(),
 });
 
+// Fields a product edit may change, validated the same way as on creation and import. Anything
+// else in the request is dropped: workflow and ownership fields change through the transitions
+// endpoint, the unique ID and brochure are fixed when the product is created and the remaining
+// quantity is derived from the stock ledger.
+export const productEditSchema = insertProductSchema
+  .omit({ uniqueId: true, submittedBy: true, rejectionReason: true, brochureUrl: true, brochureFilename: true, remainingQuantity: true })
+  .partial();
+
+export const RECALL_SCOPES = ["product", "lot", "prodCode", "cropVariety"] as const;
+
+export type RecallScope = typeof RECALL_SCOPES[number];
+
+export const insertProductRecallSchema = z.object({
+  scope: z.enum(RECALL_SCOPES),
+  productId: z.string().uuid().nullable().optional(),
+  lotNo: z.string().trim().nullable().optional(),
+  prodCode: z.string().trim().nullable().optional(),
+  cropName: z.string().trim().nullable().optional(),
+  varietyCode: z.string().trim().nullable().optional(),
+  reason: z.string().trim().min(1, "Recall reason is required"),
+  instructions: z.string().trim().nullable().optional(),
+  recallDate: z.coerce.date().optional(),
+}).superRefine((recall, ctx) => {
+  const required: Record<RecallScope, (keyof typeof recall)[]> = {
+    product: ["productId"],
+    lot: ["lotNo"],
+    prodCode: ["prodCode"],
+    cropVariety: ["cropName", "varietyCode"],
+  };
+  for (const field of required[recall.scope]) {
+    if (!recall[field]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `${field} is required for this recall scope` });
+    }
+  }
+});
+
+export const insertImportMappingProfileSchema = z.object({
+  name: z.string().trim().min(1, "Profile name is required"),
+  mapping: columnMappingSchema,
+});
+
 // Crop and variety schemas
+// GSTIN: state code, PAN, entity number, "Z", check character
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+const optionalDealerText = (max: number) => z.preprocess(
+  (value) => typeof value === "string" && value.trim() === "" ? null : value,
+  z.string().trim().max(max).nullable().optional(),
+);
+
+export const insertDealerSchema = z.object({
+  name: z.string().trim().min(1, "Dealer name is required").max(200),
+  region: optionalDealerText(100),
+  licenceNumber: optionalDealerText(100),
+  contactPerson: optionalDealerText(100),
+  phone: optionalDealerText(30),
+  email: z.preprocess(
+    (value) => typeof value === "string" && value.trim() === "" ? null : value,
+    z.string().trim().email("Enter a valid email address").nullable().optional(),
+  ),
+  gstin: z.preprocess(
+    (value) => typeof value === "string" ? (value.trim() === "" ? null : value.trim().toUpperCase()) : value,
+    z.string().regex(GSTIN_PATTERN, "GSTIN must be 15 characters, e.g. 29ABCDE1234F1Z5").nullable().optional(),
+  ),
+  address: optionalDealerText(500),
+  active: z.boolean().optional(),
+});
+
 export const insertCropSchema = createInsertSchema(crops).omit({
   id: true,
   createdAt: true,
@@ -202,12 +659,116 @@ export const insertCropVarietyUrlSchema = createInsertSchema(cropVarietyUrls).om
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+// Users as listed in user management, without the password hash
+export type PublicUser = Omit<User, "password">;
 export type User = typeof users.$inferSelect;
+// The signed-in user with the permissions of their role; twoFactorRequired tells whether
+// the two-factor policy covers that role
+export type AuthenticatedUser = User & { permissions: Permission[]; twoFactorRequired: boolean };
+// The signed-in user as sent to the client, without the password hash
+export type SessionUser = Pick<
+  AuthenticatedUser,
+  "id" | "username" | "email" | "role" | "mustChangePassword" | "twoFactorEnabled" | "twoFactorRequired" | "createdAt" | "permissions"
+>;
+export type RoleRow = typeof roles.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type Product = typeof products.$inferSelect;
 export type InsertCrop = z.infer<typeof insertCropSchema>;
 export type Crop = typeof crops.$inferSelect;
 export type InsertVariety = z.infer<typeof insertVarietySchema>;
 export type Variety = typeof varieties.$inferSelect;
+export const PRODUCT_EVENT_TYPES = [
+  "created",
+  "updated",
+  "submitted",
+  "resubmitted",
+  "changes_requested",
+  "approved",
+  "rejected",
+  "revoked",
+  "recalled",
+  "imported",
+  "deleted",
+] as const;
+
+export type ProductEventType = typeof PRODUCT_EVENT_TYPES[number];
+
+export type ProductFieldChange = {
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+};
+
+export type InsertProductEvent = typeof productEvents.$inferInsert;
+export type ProductEvent = typeof productEvents.$inferSelect;
+export type ProductEventWithActor = ProductEvent & { actorUsername: string | null };
+export type InsertProductRecall = z.infer<typeof insertProductRecallSchema>;
+export type ProductRecall = typeof productRecalls.$inferSelect;
+export type ProductRecallWithCreator = ProductRecall & { createdByUsername: string | null };
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type StockMovementLine = typeof stockMovementLines.$inferSelect;
+export type StockMovementWithLines = StockMovement & {
+  createdByUsername: string | null;
+  lines: Pick<StockMovementLine, "location" | "stackNo" | "quantity" | "packets">[];
+};
+// Current stock of a product at one location and stack
+export type StockBalance = Pick<Product, "uniqueId" | "product" | "marketCode" | "lotNo"> & {
+  productId: string;
+  location: string;
+  stackNo: string;
+  quantity: string;
+  packets: string;
+};
+export type InsertDealer = z.infer<typeof insertDealerSchema>;
+export type Dealer = typeof dealers.$inferSelect;
+// Dealer details shown as "sold through" on the public tracking page
+export type PublicDealer = Pick<Dealer, "name" | "region" | "phone">;
+export type DispatchNote = typeof dispatchNotes.$inferSelect;
+export type DispatchNoteItem = typeof dispatchNoteItems.$inferSelect;
+export type DispatchNoteSummary = DispatchNote & {
+  createdByUsername: string | null;
+  itemCount: number;
+  totalQuantity: string;
+};
+export type DispatchNoteWithItems = DispatchNote & {
+  createdByUsername: string | null;
+  items: (DispatchNoteItem & {
+    product: Pick<Product, "uniqueId" | "product" | "marketCode" | "lotNo" | "classType" | "netQty" | "company" | "companyAddress">;
+  })[];
+};
+// Where a lot was sent, as listed for a product or a recall
+export type ProductDispatch = Pick<DispatchNoteItem, "productId" | "fromLocation" | "fromStack" | "quantity" | "packets"> &
+  Pick<DispatchNote, "noteNumber" | "dealerId" | "dealerName" | "dealerAddress" | "dispatchDate" | "vehicleNo"> & {
+  dispatchNoteId: string;
+  uniqueId: string;
+  lotNo: string | null;
+};
+// Recall details exposed on the public tracking page
+export type PublicRecallNotice = Pick<ProductRecall, "reason" | "instructions" | "recallDate">;
+export type PublicProductView = Product & { recall: PublicRecallNotice | null; expired: boolean; soldThrough: PublicDealer[] };
+export type InsertImportMappingProfile = z.infer<typeof insertImportMappingProfileSchema>;
+export type ImportMappingProfile = typeof importMappingProfiles.$inferSelect;
+export type UniqueIdSettings = typeof uniqueIdSettings.$inferSelect;
+export type AlertSettingsRow = typeof alertSettings.$inferSelect;
+export type ReviewChecklistSettingsRow = typeof reviewChecklistSettings.$inferSelect;
+export type QualityRule = typeof qualityRules.$inferSelect;
+export type PasswordPolicySettingsRow = typeof passwordPolicySettings.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type Webhook = typeof webhooks.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+export type UserTotp = typeof userTotp.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
+// Listed tokens, without the hash
+export type ApiTokenWithOwner = Omit<ApiToken, "tokenHash"> & { username: string };
+export type InsertLoginAttempt = typeof loginAttempts.$inferInsert;
+export type ProductAlert = typeof productAlerts.$inferSelect;
+export type ProductAlertWithProduct = ProductAlert & {
+  product: Pick<Product, "id" | "uniqueId" | "product" | "marketCode" | "lotNo" | "status" | "expiryDate" | "dateOfTest">;
+};
 export type InsertCropVarietyUrl = z.infer<typeof insertCropVarietyUrlSchema>;
 export type CropVarietyUrl = typeof cropVarietyUrls.$inferSelect;
@@ -0,0 +1,48 @@
+// Two-factor authentication with authenticator app codes (TOTP, see server/totp.ts)
+import { z } from "zod";
+
+export interface TwoFactorPolicy {
+  // Users with these roles must set up two-factor authentication before using the app
+  requiredRoles: string[];
+}
+
+// Roles that can approve products or change who can
+export const DEFAULT_TWO_FACTOR_POLICY: TwoFactorPolicy = {
+  requiredRoles: ["super_admin", "admin", "qc_reviewer"],
+};
+
+export const twoFactorPolicySchema = z.object({
+  requiredRoles: z.array(z.string().min(1)).transform((roles) => Array.from(new Set(roles))),
+});
+
+// Second sign-in step: either the current authenticator code or an unused recovery code
+export const twoFactorLoginSchema = z.union([
+  z.object({ code: z.string().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app") }),
+  z.object({ recoveryCode: z.string().trim().min(1, "Enter a recovery code") }),
+]);
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app"),
+});
+
+export const twoFactorDisableSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+});
+
+// Returned by POST /api/login when the password was right and a code is still needed
+export interface TwoFactorChallenge {
+  awaitingTwoFactor: true;
+}
+
+export function isTwoFactorChallenge(result: object): result is TwoFactorChallenge {
+  return "awaitingTwoFactor" in result && result.awaitingTwoFactor === true;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of otpauthUrl
+  qrCode: string;
+}
+
+export const RECOVERY_CODE_COUNT = 10;
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_UNIQUE_ID_FORMAT,
+  cropCodeOf,
+  hasValidCheckDigit,
+  luhnCheckDigit,
+  renderUniqueId,
+  renderUniqueIdScope,
+  uniqueIdCounterKey,
+  uniqueIdFormatSchema,
+  uniqueIdScopeRegex,
+  type UniqueIdFormat,
+} from "./unique-id";
+
+const date = new Date(2026, 5, 1);
+
+describe("check digits", () => {
+  it("computes the Luhn check digit", () => {
+    expect(luhnCheckDigit("7992739871")).toBe(3);
+  });
+
+  it("validates the last digit of an ID against the digits before it", () => {
+    const id = renderUniqueId(renderUniqueIdScope(DEFAULT_UNIQUE_ID_FORMAT, { date }), DEFAULT_UNIQUE_ID_FORMAT, 42);
+    expect(hasValidCheckDigit(id)).toBe(true);
+    const lastDigit = Number(id[id.length - 1]);
+    expect(hasValidCheckDigit(`${id.slice(0, -1)}${(lastDigit + 1) % 10}`)).toBe(false);
+    expect(hasValidCheckDigit("GGS-7")).toBe(false);
+  });
+});
+
+describe("cropCodeOf", () => {
+  it("takes the first three letters of the crop", () => {
+    expect(cropCodeOf("Paddy")).toBe("PAD");
+    expect(cropCodeOf("Bt. Cotton")).toBe("BTC");
+    expect(cropCodeOf("Ok")).toBe("OKX");
+    expect(cropCodeOf(null)).toBe("GEN");
+  });
+});
+
+describe("rendering IDs", () => {
+  it("fills in the prefix, year and crop, then the padded sequence and check digit", () => {
+    const format: UniqueIdFormat = { prefix: "ggs", pattern: "{PREFIX}-{YY}-{CROP}-{SEQ}{CHECK}", sequenceDigits: 4 };
+    const scope = renderUniqueIdScope(format, { date, cropName: "Wheat" });
+    expect(scope).toBe("GGS-26-WHE-{SEQ}{CHECK}");
+    const id = renderUniqueId(scope, format, 7);
+    expect(id).toBe(`GGS-26-WHE-0007${luhnCheckDigit("260007")}`);
+  });
+
+  it("leaves out the check digit when the pattern has none", () => {
+    const format: UniqueIdFormat = { prefix: "GGS", pattern: "{PREFIX}/{YYYY}/{SEQ}", sequenceDigits: 3 };
+    expect(renderUniqueId(renderUniqueIdScope(format, { date }), format, 12)).toBe("GGS/2026/012");
+  });
+});
+
+describe("uniqueIdCounterKey", () => {
+  it("ignores separators and digits, so editing them carries on numbering", () => {
+    const edited: UniqueIdFormat = { prefix: "GGS", pattern: "{PREFIX}{YY}{SEQ}", sequenceDigits: 8 };
+    expect(uniqueIdCounterKey(edited, { date })).toBe(uniqueIdCounterKey(DEFAULT_UNIQUE_ID_FORMAT, { date }));
+  });
+
+  it("starts a new counter for each year, prefix and crop the pattern uses", () => {
+    const byCrop: UniqueIdFormat = { ...DEFAULT_UNIQUE_ID_FORMAT, pattern: "{PREFIX}-{CROP}-{SEQ}" };
+    expect(uniqueIdCounterKey(DEFAULT_UNIQUE_ID_FORMAT, { date: new Date(2027, 0, 1) }))
+      .not.toBe(uniqueIdCounterKey(DEFAULT_UNIQUE_ID_FORMAT, { date }));
+    expect(uniqueIdCounterKey({ ...DEFAULT_UNIQUE_ID_FORMAT, prefix: "NS" }, { date }))
+      .not.toBe(uniqueIdCounterKey(DEFAULT_UNIQUE_ID_FORMAT, { date }));
+    expect(uniqueIdCounterKey(byCrop, { date, cropName: "Paddy" })).not.toBe(uniqueIdCounterKey(byCrop, { date, cropName: "Wheat" }));
+  });
+
+  it("ignores tokens the pattern doesn't use", () => {
+    const noPrefix: UniqueIdFormat = { prefix: "GGS", pattern: "LOT-{YYYY}-{SEQ}", sequenceDigits: 6 };
+    expect(uniqueIdCounterKey({ ...noPrefix, prefix: "NS" }, { date, cropName: "Paddy" }))
+      .toBe(uniqueIdCounterKey(noPrefix, { date, cropName: "Wheat" }));
+  });
+});
+
+describe("uniqueIdScopeRegex", () => {
+  it("matches IDs of the scope and captures their sequence", () => {
+    const scope = renderUniqueIdScope(DEFAULT_UNIQUE_ID_FORMAT, { date });
+    const regex = new RegExp(uniqueIdScopeRegex(scope, DEFAULT_UNIQUE_ID_FORMAT));
+    expect(renderUniqueId(scope, DEFAULT_UNIQUE_ID_FORMAT, 42).match(regex)?.[1]).toBe("000042");
+    expect(renderUniqueId(scope, DEFAULT_UNIQUE_ID_FORMAT, 1234567).match(regex)?.[1]).toBe("1234567");
+    expect(regex.test("GGS-2025-0000425")).toBe(false);
+    expect(regex.test("GGS-2026-00004")).toBe(false);
+  });
+});
+
+describe("uniqueIdFormatSchema", () => {
+  const parse = (pattern: string) => uniqueIdFormatSchema.safeParse({ prefix: "GGS", pattern, sequenceDigits: 6 });
+
+  it("accepts the default format", () => {
+    expect(uniqueIdFormatSchema.parse(DEFAULT_UNIQUE_ID_FORMAT)).toEqual(DEFAULT_UNIQUE_ID_FORMAT);
+  });
+
+  it("requires a sequence and a trailing check digit", () => {
+    expect(parse("{PREFIX}-{YYYY}").error?.errors[0].message).toBe("Pattern must contain {SEQ}");
+    expect(parse("{PREFIX}-{CHECK}{SEQ}").error?.errors[0].message).toBe("{CHECK} must be at the end of the pattern");
+  });
+
+  it("rejects unknown tokens and characters", () => {
+    expect(parse("{PREFIX}-{MONTH}-{SEQ}").error?.errors[0].message).toBe("Pattern contains an unknown token");
+    expect(parse("{PREFIX} {SEQ}").error?.errors[0].message).toBe("Pattern may only contain letters, digits, - _ / and tokens");
+  });
+});
@@ -0,0 +1,112 @@
+// Product unique ID format. IDs are rendered from a pattern such as
+// "{PREFIX}-{YYYY}-{SEQ}{CHECK}"; the sequence comes from a database counter
+// kept per prefix, year and crop, so a new year or crop starts a new counter
+// while editing the separators or digits of the pattern carries on numbering.
+import { z } from "zod";
+
+export const UNIQUE_ID_TOKENS = {
+  "{PREFIX}": "Configured prefix, e.g. GGS",
+  "{YYYY}": "Four-digit year",
+  "{YY}": "Two-digit year",
+  "{CROP}": "Three-letter crop code, e.g. PAD for Paddy",
+  "{SEQ}": "Zero-padded counter (required)",
+  "{CHECK}": "Luhn check digit over all preceding digits (must be last)",
+} as const;
+
+export interface UniqueIdFormat {
+  prefix: string;
+  pattern: string;
+  sequenceDigits: number;
+}
+
+export const DEFAULT_UNIQUE_ID_FORMAT: UniqueIdFormat = {
+  prefix: "GGS",
+  pattern: "{PREFIX}-{YYYY}-{SEQ}{CHECK}",
+  sequenceDigits: 6,
+};
+
+export const uniqueIdFormatSchema = z.object({
+  prefix: z.string().trim().regex(/^[A-Za-z0-9]{1,10}$/, "Prefix must be 1-10 letters or digits"),
+  pattern: z.string().trim()
+    .refine((pattern) => pattern.includes("{SEQ}"), "Pattern must contain {SEQ}")
+    .refine((pattern) => !pattern.includes("{CHECK}") || pattern.endsWith("{CHECK}"), "{CHECK} must be at the end of the pattern")
+    .refine(
+      (pattern) => (pattern.match(/\{[A-Z]+\}/g) ?? []).every((token) => token in UNIQUE_ID_TOKENS),
+      "Pattern contains an unknown token",
+    )
+    .refine((pattern) => /^[A-Za-z0-9\-_/{}]+$/.test(pattern), "Pattern may only contain letters, digits, - _ / and tokens"),
+  sequenceDigits: z.coerce.number().int().min(3).max(10),
+});
+
+// Luhn (mod 10) check digit, computable by hand from the digits printed on a label
+export function luhnCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    // Double every second digit starting from the rightmost
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+// True when the last digit of the ID is the Luhn check digit of the digits before it
+export function hasValidCheckDigit(uniqueId: string): boolean {
+  const digits = uniqueId.replace(/\D/g, "");
+  if (digits.length < 2) return false;
+  return luhnCheckDigit(digits.slice(0, -1)) === Number(digits[digits.length - 1]);
+}
+
+export function cropCodeOf(cropName: string | null | undefined): string {
+  const letters = (cropName ?? "").toUpperCase().replace(/[^A-Z]/g, "");
+  return (letters.slice(0, 3) || "GEN").padEnd(3, "X");
+}
+
+// The pattern with everything except the counter and check digit filled in. Each distinct
+// scope has its own counter.
+export function renderUniqueIdScope(format: UniqueIdFormat, context: { date?: Date; cropName?: string | null }): string {
+  const year = (context.date ?? new Date()).getFullYear().toString();
+  return format.pattern
+    .replace(/\{PREFIX\}/g, format.prefix.toUpperCase())
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(-2))
+    .replace(/\{CROP\}/g, cropCodeOf(context.cropName));
+}
+
+// Key of the counter an ID draws from: the values of the tokens the pattern uses, not the
+// pattern text. A token the pattern leaves out doesn't split the counter, e.g. changing the
+// prefix of a pattern without {PREFIX} doesn't restart numbering.
+export function uniqueIdCounterKey(format: UniqueIdFormat, context: { date?: Date; cropName?: string | null }): string {
+  const year = (context.date ?? new Date()).getFullYear().toString();
+  const uses = (...tokens: string[]) => tokens.some((token) => format.pattern.includes(token));
+  return [
+    "unique-id",
+    uses("{PREFIX}") ? format.prefix.toUpperCase() : "*",
+    uses("{YYYY}", "{YY}") ? year : "*",
+    uses("{CROP}") ? cropCodeOf(context.cropName) : "*",
+  ].join(":");
+}
+
+// POSIX regular expression matching IDs rendered from the scope, capturing the sequence.
+// Used to continue a new counter from the highest ID already issued in its scope.
+export function uniqueIdScopeRegex(scope: string, format: UniqueIdFormat): string {
+  const escaped = scope
+    .replace(/\{CHECK\}$/, "")
+    .split("{SEQ}")
+    .map((part) => part.replace(/[^A-Za-z0-9]/g, "\\$&"))
+    .join(`(\\d{${format.sequenceDigits},})`);
+  return `^${escaped}${scope.endsWith("{CHECK}") ? "\\d" : ""}$`;
+}
+
+export function renderUniqueId(scope: string, format: UniqueIdFormat, sequence: number): string {
+  const body = scope
+    .replace(/\{CHECK\}$/, "")
+    .replace(/\{SEQ\}/g, sequence.toString().padStart(format.sequenceDigits, "0"));
+  if (!scope.endsWith("{CHECK}")) {
+    return body;
+  }
+  return `${body}${luhnCheckDigit(body.replace(/\D/g, ""))}`;
+}
@@ -0,0 +1,70 @@
+// Webhooks tell other systems, such as the ERP or the dealer portal, about product changes as
+// they happen. Deliveries are signed and retried; see server/webhooks.ts.
+import { z } from "zod";
+
+export const WEBHOOK_EVENTS = [
+  "product.submitted",
+  "product.approved",
+  "product.changes_requested",
+  "product.rejected",
+  "product.revoked",
+  "product.recalled",
+  "import.completed",
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// Sent by the "Send test event" button whatever the webhook subscribes to
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  "product.submitted": "Product submitted for review",
+  "product.approved": "Product approved",
+  "product.changes_requested": "Changes requested",
+  "product.rejected": "Product rejected",
+  "product.revoked": "Approval revoked",
+  "product.recalled": "Product recalled",
+  "import.completed": "Product import completed",
+};
+
+// Headers sent with every delivery. The signature is "sha256=" followed by the hex HMAC-SHA256
+// of "<timestamp>.<body>" keyed with the webhook's secret.
+export const WEBHOOK_HEADERS = {
+  event: "X-Webhook-Event",
+  delivery: "X-Webhook-Delivery",
+  timestamp: "X-Webhook-Timestamp",
+  signature: "X-Webhook-Signature",
+} as const;
+
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "retrying", "succeeded", "failed"] as const;
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+export const WEBHOOK_DELIVERY_STATUS_LABELS: Record<WebhookDeliveryStatus, string> = {
+  pending: "Pending",
+  retrying: "Retrying",
+  succeeded: "Delivered",
+  failed: "Failed",
+};
+
+export const webhookSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  url: z.string().trim().url("Enter a valid URL").refine(
+    (url) => /^https?:\/\//i.test(url),
+    "The URL must start with http:// or https://",
+  ),
+  events: z.array(z.enum(WEBHOOK_EVENTS))
+    .min(1, "Choose at least one event")
+    .transform((events) => Array.from(new Set(events))),
+  active: z.boolean().default(true),
+});
+
+export type WebhookInput = z.infer<typeof webhookSchema>;
+
+// The JSON body of every delivery
+export interface WebhookPayload<T = unknown> {
+  // Same as the X-Webhook-Delivery header; receivers can use it to ignore repeats
+  id: string;
+  event: WebhookEvent | typeof WEBHOOK_TEST_EVENT;
+  createdAt: string;
+  data: T;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  ACTION_LABELS,
+  MAX_BULK_PRODUCTS,
+  MAX_WORKFLOW_COMMENT_LENGTH,
+  PRODUCT_STATUSES,
+  STATUS_LABELS,
+  WORKFLOW_ACTIONS,
+  WORKFLOW_TRANSITIONS,
+  bulkStatusRequestSchema,
+  legacyStatusRequestSchema,
+  transitionRequestSchema,
+} from "./workflow";
+
+const productId = "6f1c2a0e-8d1b-4c5e-9f3a-2b7d4e6a8c10";
+
+describe("WORKFLOW_TRANSITIONS", () => {
+  it("has exactly one transition per action", () => {
+    for (const action of WORKFLOW_ACTIONS) {
+      expect(WORKFLOW_TRANSITIONS.filter((transition) => transition.action === action)).toHaveLength(1);
+    }
+  });
+
+  it("only moves between known statuses and never to the status it starts from", () => {
+    for (const transition of WORKFLOW_TRANSITIONS) {
+      expect(PRODUCT_STATUSES).toContain(transition.to);
+      for (const from of transition.from) {
+        expect(PRODUCT_STATUSES).toContain(from);
+        expect(from).not.toBe(transition.to);
+      }
+    }
+  });
+
+  it("asks for a reason on every decision against the product", () => {
+    const commented = WORKFLOW_TRANSITIONS.filter((transition) => transition.requiresComment).map((transition) => transition.action);
+    expect(commented.sort()).toEqual(["recall", "reject", "request_changes", "revoke"]);
+  });
+
+  it("leaves reviews to reviewers, not to the submitter", () => {
+    for (const action of ["approve", "reject", "request_changes"]) {
+      expect(WORKFLOW_TRANSITIONS.find((transition) => transition.action === action)?.allowSubmitter).toBe(false);
+    }
+  });
+
+  it("has a label for every status and action", () => {
+    expect(Object.keys(STATUS_LABELS).sort()).toEqual([...PRODUCT_STATUSES].sort());
+    expect(Object.keys(ACTION_LABELS).sort()).toEqual([...WORKFLOW_ACTIONS].sort());
+  });
+});
+
+describe("transitionRequestSchema", () => {
+  it("accepts an action with an optional comment and checklist", () => {
+    expect(transitionRequestSchema.parse({ action: "approve" })).toEqual({ action: "approve" });
+    expect(transitionRequestSchema.parse({ action: "reject", comment: "Germination too low", checklist: [{ itemId: "a", checked: true }] }))
+      .toEqual({ action: "reject", comment: "Germination too low", checklist: [{ itemId: "a", checked: true }] });
+    expect(transitionRequestSchema.parse({ action: "submit", comment: null }).comment).toBeNull();
+  });
+
+  it("rejects unknown actions", () => {
+    expect(transitionRequestSchema.safeParse({ action: "publish" }).error?.errors[0].message).toBe("Invalid action");
+  });
+
+  it("rejects comments that aren't text or are too long", () => {
+    expect(transitionRequestSchema.safeParse({ action: "reject", comment: 42 }).error?.errors[0].message).toBe("The comment must be text");
+    expect(transitionRequestSchema.safeParse({ action: "reject", comment: { text: "no" } }).success).toBe(false);
+    expect(transitionRequestSchema.safeParse({ action: "reject", comment: "x".repeat(MAX_WORKFLOW_COMMENT_LENGTH + 1) }).success).toBe(false);
+  });
+});
+
+describe("legacyStatusRequestSchema", () => {
+  it("only accepts approving and rejecting", () => {
+    expect(legacyStatusRequestSchema.parse({ status: "rejected", rejectionReason: "Blurred label" }).status).toBe("rejected");
+    expect(legacyStatusRequestSchema.safeParse({ status: "recalled" }).error?.errors[0].message).toBe("Invalid status");
+    expect(legacyStatusRequestSchema.safeParse({ status: "rejected", rejectionReason: ["a"] }).success).toBe(false);
+  });
+});
+
+describe("bulkStatusRequestSchema", () => {
+  it("requires a reason to reject", () => {
+    const result = bulkStatusRequestSchema.safeParse({ ids: [productId], action: "reject", comment: "   " });
+    expect(result.error?.errors[0]).toMatchObject({ message: "A reason is required to reject products", path: ["comment"] });
+  });
+
+  it("trims the shared comment", () => {
+    expect(bulkStatusRequestSchema.parse({ ids: [productId], action: "reject", comment: " Old stock " }).comment).toBe("Old stock");
+  });
+
+  it("limits the selection", () => {
+    expect(bulkStatusRequestSchema.safeParse({ ids: [], action: "approve" }).error?.errors[0].message).toBe("Select at least one product");
+    const tooMany = Array.from({ length: MAX_BULK_PRODUCTS + 1 }, () => productId);
+    expect(bulkStatusRequestSchema.safeParse({ ids: tooMany, action: "delete" }).success).toBe(false);
+    expect(bulkStatusRequestSchema.safeParse({ ids: ["not-a-uuid"], action: "delete" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+// Product approval workflow shared by the server (which enforces it) and the
+// client (which only renders labels and the actions the server allows).
+import { z } from "zod";
+import { checklistAnswersSchema } from "./review";
+import type { Product } from "./schema";
+import type { Permission } from "./permissions";
+
+export const PRODUCT_STATUSES = [
+  "draft",
+  "pending", // submitted and awaiting review
+  "changes_requested",
+  "approved",
+  "rejected",
+  "revoked",
+  "recalled",
+] as const;
+
+export type ProductStatus = typeof PRODUCT_STATUSES[number];
+
+export const WORKFLOW_ACTIONS = [
+  "submit",
+  "resubmit",
+  "request_changes",
+  "approve",
+  "reject",
+  "revoke",
+  "recall",
+] as const;
+
+export type WorkflowAction = typeof WORKFLOW_ACTIONS[number];
+
+// Products returned by the API carry the workflow actions the current user may take
+export type ProductWithActions = Product & { allowedActions?: WorkflowAction[] };
+
+export interface WorkflowTransition {
+  action: WorkflowAction;
+  from: ProductStatus[];
+  to: ProductStatus;
+  // Permission needed to perform the action on any product
+  permission: Permission;
+  // Whether the operator who submitted the product may perform it too
+  allowSubmitter: boolean;
+  requiresComment: boolean;
+}
+
+export const WORKFLOW_TRANSITIONS: WorkflowTransition[] = [
+  { action: "submit", from: ["draft"], to: "pending", permission: "products.edit_all", allowSubmitter: true, requiresComment: false },
+  { action: "resubmit", from: ["changes_requested", "rejected", "revoked"], to: "pending", permission: "products.edit_all", allowSubmitter: true, requiresComment: false },
+  { action: "request_changes", from: ["pending"], to: "changes_requested", permission: "products.review", allowSubmitter: false, requiresComment: true },
+  { action: "approve", from: ["pending"], to: "approved", permission: "products.review", allowSubmitter: false, requiresComment: false },
+  { action: "reject", from: ["pending"], to: "rejected", permission: "products.review", allowSubmitter: false, requiresComment: true },
+  { action: "revoke", from: ["approved"], to: "revoked", permission: "products.review", allowSubmitter: false, requiresComment: true },
+  { action: "recall", from: ["approved"], to: "recalled", permission: "recalls.manage", allowSubmitter: false, requiresComment: true },
+];
+
+// Statuses in which the product content can still be edited by its submitter
+export const OPERATOR_EDITABLE_STATUSES: ProductStatus[] = ["draft", "pending", "changes_requested", "rejected"];
+
+export const STATUS_LABELS: Record<ProductStatus, string> = {
+  draft: "Draft",
+  pending: "Submitted",
+  changes_requested: "Changes Requested",
+  approved: "Approved",
+  rejected: "Rejected",
+  revoked: "Revoked",
+  recalled: "Recalled",
+};
+
+export const ACTION_LABELS: Record<WorkflowAction, string> = {
+  submit: "Submit",
+  resubmit: "Resubmit",
+  request_changes: "Request Changes",
+  approve: "Approve",
+  reject: "Reject",
+  revoke: "Revoke",
+  recall: "Recall",
+};
+
+export const MAX_WORKFLOW_COMMENT_LENGTH = 2000;
+
+const workflowCommentSchema = z
+  .string({ invalid_type_error: "The comment must be text" })
+  .max(MAX_WORKFLOW_COMMENT_LENGTH, `Comments can be at most ${MAX_WORKFLOW_COMMENT_LENGTH} characters`);
+
+// POST /api/products/:id/transitions
+export const transitionRequestSchema = z.object({
+  action: z.enum(WORKFLOW_ACTIONS, { errorMap: () => ({ message: "Invalid action" }) }),
+  comment: workflowCommentSchema.nullable().optional(),
+  // QC checklist for review decisions (see shared/review.ts)
+  checklist: checklistAnswersSchema.optional(),
+});
+
+export type TransitionRequest = z.infer<typeof transitionRequestSchema>;
+
+// PATCH /api/products/:id/status, kept for older clients
+export const legacyStatusRequestSchema = z.object({
+  status: z.enum(["approved", "rejected"], { errorMap: () => ({ message: "Invalid status" }) }),
+  rejectionReason: workflowCommentSchema.nullable().optional(),
+});
+
+// Changes that can be applied to many selected products at once (POST /api/products/bulk-status)
+export const BULK_PRODUCT_ACTIONS = ["approve", "reject", "delete"] as const;
+
+export type BulkProductAction = typeof BULK_PRODUCT_ACTIONS[number];
+
+export const BULK_ACTION_LABELS: Record<BulkProductAction, string> = {
+  approve: "Approve",
+  reject: "Reject",
+  delete: "Delete",
+};
+
+export const MAX_BULK_PRODUCTS = 500;
+
+export const bulkStatusRequestSchema = z.object({
+  ids: z.array(z.string().uuid())
+    .min(1, "Select at least one product")
+    .max(MAX_BULK_PRODUCTS, `At most ${MAX_BULK_PRODUCTS} products can be changed at once`),
+  action: z.enum(BULK_PRODUCT_ACTIONS),
+  // Shared by every product; required when rejecting
+  comment: workflowCommentSchema.trim().optional(),
+  // QC checklist ticked once for every product (see shared/review.ts)
+  checklist: checklistAnswersSchema.optional(),
+}).refine((request) => request.action !== "reject" || !!request.comment, {
+  message: "A reason is required to reject products",
+  path: ["comment"],
+});
+
+export type BulkStatusRequest = z.infer<typeof bulkStatusRequestSchema>;
+
+export type BulkItemOutcome = "updated" | "deleted" | "skipped" | "failed";
+
+export interface BulkItemResult {
+  id: string;
+  uniqueId: string | null;
+  outcome: BulkItemOutcome;
+  // Why the product was skipped or failed
+  message: string | null;
+}
+
+export interface BulkStatusResult {
+  action: BulkProductAction;
+  results: BulkItemResult[];
+  succeeded: number;
+  skipped: number;
+  failed: number;
+}